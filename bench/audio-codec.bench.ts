@@ -0,0 +1,134 @@
+/**
+ * Benchmark: in-process codec/resampler vs. the former ffmpeg subprocess path.
+ *
+ * Run: npm run bench:audio
+ * - "TTS chunk": μ-law 8 kHz → PCM16 48 kHz per 20 ms chunk (one ffmpeg process per chunk before)
+ * - "Mic stream": PCM16 48 kHz → 16 kHz in 20 ms chunks (one long-running ffmpeg before)
+ * ffmpeg rows are skipped if ffmpeg is not installed.
+ */
+import { spawn, spawnSync } from 'child_process';
+import { performance } from 'perf_hooks';
+import { mulawToPcm16, pcm16ToMulaw } from '../src/audio/codec/g711';
+import { fromSamples } from '../src/audio/codec/pcm';
+import { StreamingResampler } from '../src/audio/codec/resampler';
+
+const SECONDS = 10; // Audio length per run
+
+function tone(rate: number, seconds: number): Buffer {
+  const samples = Int16Array.from({ length: rate * seconds }, (_, i) =>
+    Math.round(8000 * Math.sin((2 * Math.PI * 440 * i) / rate)),
+  );
+  return fromSamples(samples);
+}
+
+function chunks(buffer: Buffer, size: number): Buffer[] {
+  const out: Buffer[] = [];
+  for (let i = 0; i < buffer.length; i += size)
+    out.push(buffer.subarray(i, i + size));
+  return out;
+}
+
+function ffmpeg(args: string[], input: Buffer[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('ffmpeg', [
+      '-hide_banner',
+      '-loglevel',
+      'error',
+      ...args,
+    ]);
+    const out: Buffer[] = [];
+    proc.stdout.on('data', (c: Buffer) => out.push(c));
+    proc.on('close', () => resolve(Buffer.concat(out)));
+    proc.on('error', reject);
+    for (const chunk of input) proc.stdin.write(chunk);
+    proc.stdin.end();
+  });
+}
+
+async function measure(name: string, run: () => unknown): Promise<void> {
+  const start = performance.now();
+  await run();
+  const ms = performance.now() - start;
+  const realtime = (SECONDS * 1000) / ms;
+  console.log(
+    `${name.padEnd(44)} ${ms.toFixed(1).padStart(9)} ms  ${realtime.toFixed(0).padStart(6)}x realtime`,
+  );
+}
+
+async function main() {
+  const hasFfmpeg = spawnSync('ffmpeg', ['-version']).status === 0;
+  const ttsChunks = chunks(pcm16ToMulaw(tone(8000, SECONDS)), 160);
+  const micChunks = chunks(tone(48000, SECONDS), 1920);
+  console.log(`${SECONDS} s of audio, 20 ms chunks\n`);
+
+  await measure('TTS chunk  μ-law 8k → 48k  (codec)', () => {
+    const resampler = new StreamingResampler(8000, 48000);
+    for (const chunk of ttsChunks) resampler.process(mulawToPcm16(chunk));
+    resampler.flush();
+  });
+  if (hasFfmpeg) {
+    // Old path spawned one process per chunk → only time a slice of it
+    const sample = ttsChunks.slice(0, 50);
+    const start = performance.now();
+    for (const chunk of sample) {
+      await ffmpeg(
+        [
+          '-f',
+          'mulaw',
+          '-ar',
+          '8000',
+          '-ac',
+          '1',
+          '-i',
+          'pipe:0',
+          '-f',
+          's16le',
+          '-ar',
+          '48000',
+          '-ac',
+          '1',
+          'pipe:1',
+        ],
+        [chunk],
+      );
+    }
+    const ms = ((performance.now() - start) / sample.length) * ttsChunks.length;
+    console.log(
+      `${'TTS chunk  μ-law 8k → 48k  (ffmpeg/chunk)'.padEnd(44)} ${ms.toFixed(1).padStart(9)} ms  ${((SECONDS * 1000) / ms).toFixed(0).padStart(6)}x realtime (extrapolated)`,
+    );
+  }
+
+  await measure('Mic stream PCM 48k → 16k   (codec)', () => {
+    const resampler = new StreamingResampler(48000, 16000);
+    for (const chunk of micChunks) resampler.process(chunk);
+    resampler.flush();
+  });
+  if (hasFfmpeg) {
+    await measure('Mic stream PCM 48k → 16k   (ffmpeg pipe)', () =>
+      ffmpeg(
+        [
+          '-f',
+          's16le',
+          '-ar',
+          '48000',
+          '-ac',
+          '1',
+          '-i',
+          'pipe:0',
+          '-f',
+          's16le',
+          '-ar',
+          '16000',
+          '-ac',
+          '1',
+          'pipe:1',
+        ],
+        micChunks,
+      ),
+    );
+  } else {
+    console.log('\nffmpeg not found → ffmpeg comparison skipped');
+  }
+}
+
+void main();
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { TwilioWebSocketGateway } from '../twilio/twilio/twilio.gateway';
+import { PlaygroundService } from '../playground/playground.service';
+import { AdminApiKeyGuard } from './guards/admin-api-key.guard';
+
+@Controller('admin') // Base route: /admin
+@UseGuards(AdminApiKeyGuard)
+export class AdminController {
+  constructor(
+    private readonly calls: TwilioWebSocketGateway,
+    private readonly playground: PlaygroundService,
+  ) {}
+
+  /**
+   * Route: GET /admin/sessions
+   * Output: { calls, playground } — live sessions with state, duration and current turn
+   */
+  @Get('sessions')
+  list() {
+    return {
+      calls: this.calls.listCalls(),
+      playground: this.playground.listSessions(),
+    };
+  }
+
+  /**
+   * Route: GET /admin/sessions/:id (call SID, stream SID or playground session id)
+   * Output: the live session (404 if not active)
+   */
+  @Get('sessions/:id')
+  get(@Param('id') id: string) {
+    const session = [
+      ...this.calls.listCalls(),
+      ...this.playground.listSessions(),
+    ].find((s) => s.id === id || s.streamSid === id);
+    if (!session) throw new NotFoundException(`No active session ${id}`);
+    return session;
+  }
+
+  /**
+   * Forcibly end a session: hangs up a call / closes a playground socket.
+   *
+   * Route: DELETE /admin/sessions/:id
+   * Output: 204 (404 if not active)
+   */
+  @Delete('sessions/:id')
+  @HttpCode(204)
+  async terminate(@Param('id') id: string) {
+    const ended =
+      (await this.calls.terminateCall(id)) ||
+      this.playground.terminateSession(id);
+    if (!ended) throw new NotFoundException(`No active session ${id}`);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TwilioModule } from '../twilio/twilio.module';
+import { PlaygroundModule } from '../playground/playground.module';
+import { AdminController } from './admin.controller';
+import { AdminApiKeyGuard } from './guards/admin-api-key.guard';
+
+@Module({
+  imports: [TwilioModule, PlaygroundModule],
+  controllers: [AdminController],
+  providers: [AdminApiKeyGuard],
+})
+export class AdminModule {}
@@ -0,0 +1,50 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminApiKeyGuard } from './admin-api-key.guard';
+
+describe('AdminApiKeyGuard', () => {
+  const createGuard = (apiKey?: string) =>
+    new AdminApiKeyGuard(new ConfigService({ admin: { apiKey } }));
+
+  const contextFor = (headers: Record<string, string>) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'GET',
+          originalUrl: '/admin/sessions',
+          ip: '127.0.0.1',
+          header: (name: string) => headers[name],
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  it('accepts the key as X-Api-Key or bearer token', () => {
+    const guard = createGuard('s3cret');
+
+    expect(guard.canActivate(contextFor({ 'x-api-key': 's3cret' }))).toBe(true);
+    expect(
+      guard.canActivate(contextFor({ authorization: 'Bearer s3cret' })),
+    ).toBe(true);
+  });
+
+  it('rejects missing or wrong keys', () => {
+    const guard = createGuard('s3cret');
+
+    expect(() => guard.canActivate(contextFor({}))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() =>
+      guard.canActivate(contextFor({ 'x-api-key': 's3cret-not' })),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('disables the admin API without a configured key', () => {
+    expect(() =>
+      createGuard().canActivate(contextFor({ 'x-api-key': '' })),
+    ).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Protects the admin endpoints with a shared API key.
+ * - Key in `X-Api-Key` or `Authorization: Bearer <key>`
+ * - No admin.apiKey configured → the admin API is disabled (403)
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(AdminApiKeyGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const apiKey = this.configService.get<string>('admin.apiKey');
+    if (!apiKey) throw new ForbiddenException('Admin API is disabled');
+
+    const req = context.switchToHttp().getRequest<Request>();
+    const bearer = req.header('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const provided = req.header('x-api-key') ?? bearer;
+
+    if (!provided || !sameKey(provided, apiKey)) {
+      this.logger.warn(
+        `Rejected admin request ${req.method} ${req.originalUrl} from ${req.ip}: ${provided ? 'invalid' : 'missing'} API key`,
+      );
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    return true;
+  }
+}
+
+// Constant-time comparison (hash first → equal lengths)
+function sameKey(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
@@ -0,0 +1,66 @@
+import { TtsSelection } from '../tts/tts.types';
+import { JsonSchema } from '../utils/json-schema.util';
+
+/**
+ * LLM parameters of an agent (unset values use the `llm.*` defaults).
+ */
+export interface AgentLlmSettings {
+  provider?: string; // Primary provider (e.g. "groq", "openai", "local")
+  fallbackProviders?: string[]; // Tried in order when the primary fails
+  model?: string; // Model of the primary provider
+  temperature?: number;
+  maxTokens?: number;
+  fallbackReply?: string; // Spoken when every provider failed
+}
+
+/**
+ * Keypad menu entry of an agent, e.g. "press 0 for the front desk".
+ * - transfer: hand the call to a human agent (text = hand-off message)
+ * - hangup: say text (or a goodbye) and end the call
+ * - say: speak text
+ * - prompt: send text to the LLM as if the caller had said it
+ */
+export interface AgentDtmfMenuOption {
+  digits: string; // Complete input that selects it, e.g. "0" or "*9"
+  action: 'transfer' | 'hangup' | 'say' | 'prompt';
+  text?: string; // Required for say / prompt
+  reason?: string; // Recorded with transfers / hang-ups
+}
+
+/**
+ * Keypad input of an agent (unset values use the `dtmf.*` defaults).
+ * Input that matches no menu entry goes to the LLM as caller input.
+ */
+export interface AgentDtmfSettings {
+  terminator?: string; // Key that ends the input, '' = none
+  timeoutMs?: number; // Input ends this long after the last key
+  maxDigits?: number; // 0 = unlimited
+  menu?: AgentDtmfMenuOption[];
+}
+
+/**
+ * Post-call analysis of an agent's sessions (see `analysis.*`).
+ */
+export interface AgentAnalysisSettings {
+  intents?: string[]; // Intent categories (default: analysis.intents)
+  schema?: JsonSchema; // Fields to extract, e.g. { type: "object", properties: { guestName: ... } }
+  instructions?: string; // Extra guidance for the analysis prompt
+}
+
+/**
+ * A bot persona: what it says, how it sounds and which model drives it.
+ * Loaded from JSON/YAML files in the agents directory or created via REST.
+ */
+export interface AgentDefinition {
+  id: string; // Unique id, also the file name (e.g. "axion-hotel")
+  name: string; // Display name
+  systemPrompt: string; // System prompt sent to the LLM
+  greeting?: string; // First sentence spoken when a call/session starts
+  voice?: TtsSelection; // TTS provider/voice
+  llm?: AgentLlmSettings;
+  language?: string; // STT language (e.g. "en-US")
+  tools?: string[]; // Names of tools the LLM may call
+  phoneNumbers?: string[]; // Twilio numbers (E.164) routed to this agent
+  dtmf?: AgentDtmfSettings; // Keypad input (phone calls)
+  analysis?: AgentAnalysisSettings; // Post-call summary + structured extraction
+}
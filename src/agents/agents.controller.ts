@@ -0,0 +1,76 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { AgentsService } from './agents.service';
+import { AgentDto, AgentIdParamsDto } from './dto/agent.dto';
+
+@Controller('agents') // Base route: /agents
+export class AgentsController {
+  constructor(private readonly agentsService: AgentsService) {}
+
+  /**
+   * Route: GET /agents
+   * Output: all agent definitions
+   */
+  @Get()
+  list() {
+    return this.agentsService.list();
+  }
+
+  /**
+   * Route: GET /agents/:id
+   * Output: one agent definition (400 if the id is malformed, 404 if unknown)
+   */
+  @Get(':id')
+  get(@Param() { id }: AgentIdParamsDto) {
+    return this.agentsService.get(id);
+  }
+
+  /**
+   * Route: POST /agents
+   * Input: agent definition (validated)
+   * Output: the created agent (409 if the id is taken)
+   * Requires the admin API key (X-Api-Key)
+   */
+  @Post()
+  @UseGuards(AdminApiKeyGuard)
+  create(@Body() dto: AgentDto) {
+    if (this.agentsService.list().some((a) => a.id === dto.id)) {
+      throw new ConflictException(`Agent "${dto.id}" already exists`);
+    }
+    return this.agentsService.save(dto);
+  }
+
+  /**
+   * Route: PUT /agents/:id
+   * Input: full agent definition (the id in the URL wins)
+   * Output: the saved agent (400 if the id is malformed)
+   * Requires the admin API key (X-Api-Key)
+   */
+  @Put(':id')
+  @UseGuards(AdminApiKeyGuard)
+  update(@Param() { id }: AgentIdParamsDto, @Body() dto: AgentDto) {
+    return this.agentsService.save({ ...dto, id });
+  }
+
+  /**
+   * Route: DELETE /agents/:id
+   * Requires the admin API key (X-Api-Key)
+   */
+  @Delete(':id')
+  @UseGuards(AdminApiKeyGuard)
+  @HttpCode(204)
+  remove(@Param() { id }: AgentIdParamsDto) {
+    this.agentsService.remove(id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { AgentsController } from './agents.controller';
+import { AgentsService } from './agents.service';
+
+@Module({
+  providers: [AgentsService, AdminApiKeyGuard],
+  controllers: [AgentsController],
+  exports: [AgentsService],
+})
+export class AgentsModule {}
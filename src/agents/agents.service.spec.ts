@@ -0,0 +1,90 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentsService } from './agents.service';
+
+describe('AgentsService', () => {
+  let dir: string;
+
+  const createService = (defaultAgentId?: string) => {
+    const config = new ConfigService({ agents: { dir, defaultAgentId } });
+    const service = new AgentsService(config);
+    service.onModuleInit();
+    return service;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agents-'));
+    fs.writeFileSync(
+      path.join(dir, 'hotel.json'),
+      JSON.stringify({
+        name: 'Hotel',
+        systemPrompt: 'You are a hotel receptionist.',
+        llm: { temperature: 0.3 },
+        phoneNumbers: ['+15550001111'],
+      }),
+    );
+    fs.writeFileSync(
+      path.join(dir, 'support.yaml'),
+      'name: Support\nsystemPrompt: You are a support agent.\nlanguage: de\n',
+    );
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{"name": "No prompt"}');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads valid JSON and YAML agents and skips invalid files', () => {
+    const service = createService();
+
+    expect(
+      service
+        .list()
+        .map((a) => a.id)
+        .sort(),
+    ).toEqual(['hotel', 'support']);
+    expect(service.get('hotel').llm).toEqual({ temperature: 0.3 });
+    expect(service.get('support').language).toBe('de');
+    expect(() => service.get('broken')).toThrow(NotFoundException);
+  });
+
+  it('resolves the requested agent, else the configured default', () => {
+    const service = createService('support');
+
+    expect(service.resolve('hotel').id).toBe('hotel');
+    expect(service.resolve().id).toBe('support');
+    expect(service.resolve('unknown').id).toBe('support');
+  });
+
+  it('falls back to a built-in agent when nothing is loaded', () => {
+    dir = path.join(dir, 'missing');
+    const service = createService();
+
+    expect(service.resolve().systemPrompt).toBeTruthy();
+  });
+
+  it('finds the agent for a phone number', () => {
+    const service = createService();
+
+    expect(service.findByPhoneNumber('+15550001111')?.id).toBe('hotel');
+    expect(service.findByPhoneNumber('+15559999999')).toBeUndefined();
+  });
+
+  it('persists saved agents and replaces YAML files with JSON', () => {
+    const service = createService();
+    service.save({
+      id: 'support',
+      name: 'Support v2',
+      systemPrompt: 'You are a better support agent.',
+    });
+
+    expect(fs.existsSync(path.join(dir, 'support.yaml'))).toBe(false);
+    expect(createService().get('support').name).toBe('Support v2');
+
+    service.remove('support');
+    expect(fs.readdirSync(dir).sort()).toEqual(['broken.json', 'hotel.json']);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AgentDefinition } from './agent.types';
+import { AgentDto } from './dto/agent.dto';
+import { flattenValidationErrors } from '../utils/validation.util';
+import { errorMessage } from '../utils/error.util';
+
+// Used only if the agents directory is empty or missing
+const FALLBACK_AGENT: AgentDefinition = {
+  id: 'default',
+  name: 'Assistant',
+  systemPrompt:
+    'You are a helpful phone assistant. Keep answers short, clear, and to the point.',
+};
+
+@Injectable()
+export class AgentsService implements OnModuleInit {
+  private readonly logger = new Logger(AgentsService.name);
+  private readonly agents = new Map<string, AgentDefinition>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Load all agent files (*.json, *.yaml, *.yml) from the agents directory.
+   */
+  onModuleInit() {
+    const dir = this.agentsDir();
+    if (!fs.existsSync(dir)) {
+      this.logger.warn(
+        `Agents directory ${dir} not found, using fallback agent`,
+      );
+      return;
+    }
+
+    for (const file of fs.readdirSync(dir)) {
+      if (!/\.(json|ya?ml)$/i.test(file)) continue;
+      try {
+        const agent = this.loadFile(path.join(dir, file));
+        this.agents.set(agent.id, agent);
+      } catch (e: unknown) {
+        this.logger.error(`Skipping agent file ${file}: ${errorMessage(e)}`);
+      }
+    }
+
+    this.logger.log(
+      `Loaded ${this.agents.size} agent(s): ${[...this.agents.keys()].join(', ')}`,
+    );
+  }
+
+  list(): AgentDefinition[] {
+    return [...this.agents.values()];
+  }
+
+  /**
+   * Get an agent by id.
+   * Throws NotFoundException if it does not exist.
+   */
+  get(id: string): AgentDefinition {
+    const agent = this.agents.get(id);
+    if (!agent) throw new NotFoundException(`Agent "${id}" not found`);
+    return agent;
+  }
+
+  /**
+   * Pick the agent for a session.
+   * Input: requested agent id (optional)
+   * Output: that agent, else the configured default agent, else a fallback
+   */
+  resolve(id?: string): AgentDefinition {
+    if (id && this.agents.has(id)) return this.agents.get(id)!;
+    if (id) this.logger.warn(`Unknown agent "${id}", using default`);
+
+    const defaultId = this.configService.get<string>('agents.defaultAgentId');
+    return (
+      (defaultId && this.agents.get(defaultId)) ||
+      this.list()[0] ||
+      FALLBACK_AGENT
+    );
+  }
+
+  /**
+   * Find the agent that answers a Twilio phone number (E.164, e.g. +15551234567).
+   */
+  findByPhoneNumber(phoneNumber?: string): AgentDefinition | undefined {
+    if (!phoneNumber) return undefined;
+    return this.list().find((a) => a.phoneNumbers?.includes(phoneNumber));
+  }
+
+  /**
+   * Create or replace an agent and persist it as JSON in the agents directory.
+   */
+  save(dto: AgentDto): AgentDefinition {
+    const agent = JSON.parse(JSON.stringify(dto)) as AgentDefinition;
+    const dir = this.agentsDir();
+    fs.mkdirSync(dir, { recursive: true });
+
+    // One file per agent: drop a YAML version so it does not shadow the JSON
+    this.removeFiles(agent.id);
+    fs.writeFileSync(
+      path.join(dir, `${agent.id}.json`),
+      JSON.stringify(agent, null, 2),
+    );
+
+    this.agents.set(agent.id, agent);
+    this.logger.log(`Saved agent ${agent.id}`);
+    return agent;
+  }
+
+  /**
+   * Delete an agent and its file.
+   */
+  remove(id: string) {
+    this.get(id);
+    this.removeFiles(id);
+    this.agents.delete(id);
+    this.logger.log(`Removed agent ${id}`);
+  }
+
+  /**
+   * Parse + validate one agent file. The id defaults to the file name.
+   */
+  private loadFile(file: string): AgentDefinition {
+    const raw = fs.readFileSync(file, 'utf8');
+    const data = (
+      /\.json$/i.test(file) ? JSON.parse(raw) : parseYaml(raw)
+    ) as Record<string, unknown>;
+    const id = path.basename(file).replace(/\.(json|ya?ml)$/i, '');
+
+    const dto = plainToInstance(AgentDto, { id, ...data });
+    const errors = validateSync(dto, { whitelist: true });
+    if (errors.length) {
+      throw new Error(flattenValidationErrors(errors).join('; '));
+    }
+
+    return JSON.parse(JSON.stringify(dto)) as AgentDefinition;
+  }
+
+  private removeFiles(id: string) {
+    for (const ext of ['json', 'yaml', 'yml']) {
+      const file = path.join(this.agentsDir(), `${id}.${ext}`);
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    }
+  }
+
+  private agentsDir(): string {
+    return this.configService.get<string>('agents.dir') ?? 'agents';
+  }
+}
@@ -0,0 +1,193 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import type { JsonSchema } from '../../utils/json-schema.util';
+
+export class AgentVoiceDto {
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsString()
+  fallbackProvider?: string;
+
+  @IsOptional()
+  @IsString()
+  voice?: string;
+}
+
+export class AgentLlmDto {
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  fallbackProviders?: string[];
+
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTokens?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  fallbackReply?: string;
+}
+
+export class AgentDtmfMenuOptionDto {
+  @Matches(/^[0-9*#]{1,20}$/, {
+    message: 'digits must be keypad keys (0-9, * and #)',
+  })
+  digits: string;
+
+  @IsIn(['transfer', 'hangup', 'say', 'prompt'])
+  action: 'transfer' | 'hangup' | 'say' | 'prompt';
+
+  @ValidateIf(
+    (option: AgentDtmfMenuOptionDto) =>
+      option.action === 'say' ||
+      option.action === 'prompt' ||
+      option.text !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  text?: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class AgentDtmfDto {
+  @IsOptional()
+  @Matches(/^[0-9*#]?$/, {
+    message: 'terminator must be one keypad key or empty',
+  })
+  terminator?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  timeoutMs?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxDigits?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AgentDtmfMenuOptionDto)
+  menu?: AgentDtmfMenuOptionDto[];
+}
+
+export class AgentAnalysisDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  intents?: string[];
+
+  // JSON Schema of the extracted fields (checked when it is used)
+  @IsOptional()
+  @IsObject()
+  schema?: JsonSchema;
+
+  @IsOptional()
+  @IsString()
+  instructions?: string;
+}
+
+// Agent ids double as file names in the agents directory
+const AGENT_ID = /^[a-z0-9][a-z0-9_-]*$/;
+const AGENT_ID_MESSAGE = 'id must be lowercase letters, digits, "-" or "_"';
+
+/**
+ * Route params of /agents/:id.
+ */
+export class AgentIdParamsDto {
+  @Matches(AGENT_ID, { message: AGENT_ID_MESSAGE })
+  id: string;
+}
+
+/**
+ * Body of POST /agents and PUT /agents/:id, also used to validate agent files.
+ */
+export class AgentDto {
+  @Matches(AGENT_ID, { message: AGENT_ID_MESSAGE })
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  systemPrompt: string;
+
+  @IsOptional()
+  @IsString()
+  greeting?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AgentVoiceDto)
+  voice?: AgentVoiceDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AgentLlmDto)
+  llm?: AgentLlmDto;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tools?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  phoneNumbers?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AgentDtmfDto)
+  dtmf?: AgentDtmfDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AgentAnalysisDto)
+  analysis?: AgentAnalysisDto;
+}
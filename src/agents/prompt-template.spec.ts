@@ -0,0 +1,62 @@
+import {
+  buildSystemPrompt,
+  normalizeVariables,
+  renderTemplate,
+} from './prompt-template';
+
+describe('prompt templates', () => {
+  const agent = {
+    id: 'hotel',
+    name: 'Hotel',
+    systemPrompt: 'You call {{ guestName }} about booking {{reservationId}}.',
+  };
+
+  it('fills placeholders and blanks unknown ones', () => {
+    expect(renderTemplate('Hi {{name}}{{missing}}!', { name: 'Ada' })).toBe(
+      'Hi Ada!',
+    );
+  });
+
+  it('provides {{today}}', () => {
+    const prompt = buildSystemPrompt({
+      ...agent,
+      systemPrompt: 'Today is {{today}}.',
+    });
+    expect(prompt).toBe(`Today is ${new Date().toISOString().slice(0, 10)}.`);
+  });
+
+  it('appends context values the prompt does not use', () => {
+    const prompt = buildSystemPrompt(agent, {
+      guestName: 'Ada',
+      reservationId: 'AX-1',
+      callerNumber: '+15551234567',
+    });
+
+    expect(prompt).toBe(
+      'You call Ada about booking AX-1.\n\nCall context:\n- callerNumber: +15551234567',
+    );
+  });
+
+  it('lists context names with regex characters as plain values', () => {
+    const prompt = buildSystemPrompt(agent, { 'a(': 'x', guestName: 'Ada' });
+
+    expect(prompt).toBe(
+      'You call Ada about booking .\n\nCall context:\n- a(: x',
+    );
+  });
+
+  it('accepts flat string and number variables only', () => {
+    expect(normalizeVariables({ guestName: 'Ada', nights: 3 })).toEqual({
+      guestName: 'Ada',
+      nights: '3',
+    });
+    expect(normalizeVariables(undefined)).toEqual({});
+    expect(() => normalizeVariables({ 'a(': 'x' })).toThrow(
+      'Invalid variable name "a("',
+    );
+    expect(() => normalizeVariables({ guest: { name: 'x' } })).toThrow(
+      'must be a string or number',
+    );
+    expect(() => normalizeVariables(['x'])).toThrow('must be an object');
+  });
+});
@@ -0,0 +1,77 @@
+import { BadRequestException } from '@nestjs/common';
+import { AgentDefinition } from './agent.types';
+
+/**
+ * Values available in agent prompts and greetings as {{name}}.
+ */
+export type PromptVariables = Record<string, string | undefined>;
+
+// {{name}}, spaces inside the braces allowed
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Replace {{name}} placeholders. Unknown names become an empty string.
+ */
+export function renderTemplate(
+  template: string,
+  variables: PromptVariables,
+): string {
+  return template.replace(
+    PLACEHOLDER,
+    (_, name: string) => variables[name] ?? '',
+  );
+}
+
+/**
+ * System prompt of one session.
+ * - {{today}} (YYYY-MM-DD) is always available
+ * - Context values the prompt does not reference are appended as a list,
+ *   so the model still knows e.g. the guest name of an outbound call
+ */
+export function buildSystemPrompt(
+  agent: AgentDefinition,
+  context: PromptVariables = {},
+): string {
+  const variables = {
+    today: new Date().toISOString().slice(0, 10),
+    ...context,
+  };
+  const prompt = renderTemplate(agent.systemPrompt, variables);
+
+  const used = new Set(
+    [...agent.systemPrompt.matchAll(PLACEHOLDER)].map((match) => match[1]),
+  );
+  const unused = Object.entries(context).filter(
+    ([name, value]) => value && !used.has(name),
+  );
+  if (!unused.length) return prompt;
+
+  const lines = unused.map(([name, value]) => `- ${name}: ${value}`);
+  return `${prompt}\n\nCall context:\n${lines.join('\n')}`;
+}
+
+/**
+ * Prompt variables from a request (outbound call, playground register).
+ * - Flat name → string pairs with names usable as {{name}}; numbers become strings
+ * Throws BadRequestException for anything else.
+ */
+export function normalizeVariables(
+  variables: unknown = {},
+): Record<string, string> {
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+    throw new BadRequestException('Variables must be an object');
+  }
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new BadRequestException(`Invalid variable name "${name}"`);
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new BadRequestException(
+        `Variable "${name}" must be a string or number`,
+      );
+    }
+    result[name] = String(value);
+  }
+  return result;
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { CallAnalysisService } from './call-analysis.service';
+
+@Controller('sessions') // Base route: /sessions (next to the session records)
+@UseGuards(AdminApiKeyGuard) // Runs LLM requests + webhooks: admin API key required
+export class AnalysisController {
+  constructor(private readonly analysis: CallAnalysisService) {}
+
+  /**
+   * Route: GET /sessions/:id/analysis
+   * Output: summary, intent, resolution, sentiment and extracted fields
+   *         (404 if the session is unknown or not analyzed yet)
+   */
+  @Get(':id/analysis')
+  get(@Param('id') id: string) {
+    return this.analysis.get(id);
+  }
+
+  /**
+   * Analyze a session again (e.g. after changing the agent's schema).
+   *
+   * Route: POST /sessions/:id/analysis
+   * Output: the new analysis (also stored and sent to the webhook)
+   */
+  @Post(':id/analysis')
+  rerun(@Param('id') id: string) {
+    return this.analysis.run(id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { AgentsModule } from '../agents/agents.module';
+import { LlmModule } from '../llm/llm.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { AnalysisController } from './analysis.controller';
+import { CallAnalysisService } from './call-analysis.service';
+
+@Module({
+  imports: [SessionsModule, AgentsModule, LlmModule],
+  controllers: [AnalysisController],
+  providers: [CallAnalysisService, AdminApiKeyGuard],
+  exports: [CallAnalysisService],
+})
+export class AnalysisModule {}
@@ -0,0 +1,181 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { AgentDefinition } from '../agents/agent.types';
+import { AgentsService } from '../agents/agents.service';
+import { LlmService } from '../llm/llm.service';
+import { ChatMessage } from '../llm/llm.types';
+import { SessionRecord } from '../sessions/session.types';
+import { SessionsService } from '../sessions/sessions.service';
+import { CallAnalysisService } from './call-analysis.service';
+
+describe('CallAnalysisService', () => {
+  const hotel: AgentDefinition = {
+    id: 'hotel',
+    name: 'Hotel',
+    systemPrompt: 'You are a receptionist.',
+    analysis: {
+      intents: ['booking', 'other'],
+      schema: {
+        type: 'object',
+        required: ['guestName'],
+        properties: {
+          guestName: { type: 'string' },
+          checkIn: { type: 'string', format: 'date' },
+        },
+      },
+    },
+  };
+
+  const valid = {
+    summary: 'Ada booked a suite for November 2.',
+    intent: 'booking',
+    resolution: 'resolved',
+    sentiment: 'positive',
+    fields: { guestName: 'Ada', checkIn: '2026-11-02' },
+  };
+
+  let record: SessionRecord;
+  let replies: string[];
+  let requests: ChatMessage[][];
+  let finished: ((record: SessionRecord) => void) | undefined;
+
+  const create = (analysis: object = {}) => {
+    record = {
+      id: 'CA1',
+      kind: 'call',
+      agentId: 'hotel',
+      startedAt: '2026-10-19T10:00:00.000Z',
+      endedAt: '2026-10-19T10:02:00.000Z',
+      outcome: 'completed',
+      transcript: [
+        { speaker: 'caller', text: 'Hi, I am Ada.', ts: '', offsetMs: 0 },
+        { speaker: 'bot', text: 'Welcome Ada!', ts: '', offsetMs: 900 },
+      ],
+      latencies: [],
+    };
+    requests = [];
+    const sessions = {
+      get: () => Promise.resolve(record),
+      update: (id: string, change: (saved: SessionRecord) => void) => {
+        change(record);
+        return Promise.resolve(record);
+      },
+      onFinished: (listener: (saved: SessionRecord) => void) => {
+        finished = listener;
+      },
+    } as unknown as SessionsService;
+    const llm = {
+      generateResponse: (messages: ChatMessage[]) => {
+        requests.push([...messages]);
+        const reply = replies.shift();
+        return reply === undefined
+          ? Promise.reject(new Error('LLM down'))
+          : Promise.resolve(reply);
+      },
+    } as unknown as LlmService;
+    const service = new CallAnalysisService(
+      sessions,
+      { list: () => [hotel] } as unknown as AgentsService,
+      llm,
+      new ConfigService({
+        analysis: {
+          enabled: true,
+          intents: ['inquiry', 'other'],
+          maxAttempts: 2,
+          minCallerTurns: 1,
+          ...analysis,
+        },
+      }),
+    );
+    service.onModuleInit();
+    return service;
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('stores a validated analysis with the session', async () => {
+    const service = create();
+    replies = ['```json\n' + JSON.stringify(valid) + '\n```'];
+
+    const analysis = await service.run('CA1');
+
+    expect(analysis).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+      ...valid,
+    });
+    expect(record.analysis).toBe(analysis);
+    await expect(service.get('CA1')).resolves.toBe(analysis);
+    expect(requests[0][0].content).toContain('"booking", "other"');
+    expect(requests[0][0].content).toContain('"guestName"');
+    expect(requests[0][1].content).toContain('Caller: Hi, I am Ada.');
+  });
+
+  it('sends invalid answers back to be fixed', async () => {
+    const service = create();
+    replies = [
+      JSON.stringify({ ...valid, intent: 'inquiry', fields: {} }),
+      JSON.stringify(valid),
+    ];
+
+    const analysis = await service.run('CA1');
+
+    expect(analysis).toMatchObject({ status: 'completed', attempts: 2 });
+    const feedback = requests[1][3].content;
+    expect(feedback).toContain('intent must be one of booking, other');
+    expect(feedback).toContain('fields.guestName is required');
+  });
+
+  it('records a failed analysis after the last attempt', async () => {
+    const service = create();
+    replies = ['Sure! The caller wanted a room.'];
+
+    await expect(service.run('CA1')).resolves.toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      errors: ['LLM request failed: LLM down'],
+    });
+  });
+
+  it('analyzes finished calls and posts a signed webhook', async () => {
+    const fetch = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    create({ webhook: { url: 'https://crm.example.com/hook', secret: 's3' } });
+    replies = [JSON.stringify(valid)];
+
+    finished!({ ...record, kind: 'playground' }); // Playground: skipped
+    finished!(record);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(requests).toHaveLength(1);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+    const body = init.body as string;
+    expect(url).toBe('https://crm.example.com/hook');
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'session.analyzed',
+      session: { id: 'CA1', outcome: 'completed' },
+      analysis: { status: 'completed', intent: 'booking' },
+    });
+    expect((init.headers as Record<string, string>)['X-Signature-256']).toBe(
+      `sha256=${createHmac('sha256', 's3').update(body).digest('hex')}`,
+    );
+  });
+
+  it('logs analyses of finished calls that fail', async () => {
+    const service = create();
+    jest.spyOn(service, 'run').mockRejectedValue(new Error('disk full'));
+    const error = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+
+    finished!(record);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(error).toHaveBeenCalledWith(
+      'Analysis of session CA1 failed: disk full',
+    );
+  });
+});
@@ -0,0 +1,301 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { AgentDefinition } from '../agents/agent.types';
+import { AgentsService } from '../agents/agents.service';
+import { LlmService } from '../llm/llm.service';
+import { ChatMessage } from '../llm/llm.types';
+import { SessionAnalysis, SessionRecord } from '../sessions/session.types';
+import { SessionsService } from '../sessions/sessions.service';
+import { toText } from '../sessions/transcript-format';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema.util';
+import { errorMessage } from '../utils/error.util';
+
+const RESOLUTIONS = ['resolved', 'unresolved', 'escalated', 'abandoned'];
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+
+// Parsed analysis before validation
+type AnalysisAnswer = Pick<
+  SessionAnalysis,
+  'summary' | 'intent' | 'resolution' | 'sentiment' | 'fields'
+>;
+
+/**
+ * Post-call analysis (`analysis.*`).
+ * - Runs when a session is saved for the last time (SessionsService.onFinished)
+ * - Sends the whole transcript to the LLM: summary, intent, resolution,
+ *   sentiment and the fields of the agent's JSON Schema (agent.analysis)
+ * - The answer is validated; an invalid answer goes back to the model with
+ *   the problems (analysis.maxAttempts requests in total)
+ * - Result is stored with the session and POSTed to analysis.webhook.url
+ */
+@Injectable()
+export class CallAnalysisService implements OnModuleInit {
+  private readonly logger = new Logger(CallAnalysisService.name);
+
+  constructor(
+    private readonly sessions: SessionsService,
+    private readonly agents: AgentsService,
+    private readonly llmService: LlmService,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.sessions.onFinished((record) => {
+      if (!this.shouldAnalyze(record)) return;
+      this.run(record.id).catch((e: unknown) =>
+        this.logger.error(
+          `Analysis of session ${record.id} failed: ${errorMessage(e)}`,
+        ),
+      );
+    });
+  }
+
+  /**
+   * Stored analysis of a session.
+   * Throws NotFoundException if the session has not been analyzed (yet).
+   */
+  async get(id: string): Promise<SessionAnalysis> {
+    const record = await this.sessions.get(id);
+    if (!record.analysis) {
+      throw new NotFoundException(`Session ${id} has not been analyzed`);
+    }
+    return record.analysis;
+  }
+
+  /**
+   * Analyze a saved session, store the result with it and send the webhook.
+   * Output: the analysis (status "failed" if the LLM gave no valid answer)
+   */
+  async run(id: string): Promise<SessionAnalysis> {
+    const record = await this.sessions.get(id);
+    const analysis = await this.analyze(record);
+    await this.sessions.update(id, (saved) => {
+      saved.analysis = analysis;
+    });
+    this.logger.log(
+      `Analyzed session ${id}: ${analysis.status}${analysis.intent ? ` (${analysis.intent}, ${analysis.sentiment})` : ''}`,
+    );
+    void this.notify(record, analysis);
+    return analysis;
+  }
+
+  /**
+   * Run the transcript through the LLM until the answer is valid.
+   */
+  async analyze(record: SessionRecord): Promise<SessionAnalysis> {
+    const agent = this.findAgent(record.agentId);
+    const intents = agent?.analysis?.intents?.length
+      ? agent.analysis.intents
+      : (this.config.get<string[]>('analysis.intents') ?? ['other']);
+    const schema = agent?.analysis?.schema;
+    const maxAttempts = this.config.get<number>('analysis.maxAttempts') ?? 2;
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: this.buildPrompt(agent, intents, schema),
+      },
+      { role: 'user', content: toText(record) },
+    ];
+
+    let errors: string[] = [];
+    let attempts = 0;
+    while (attempts < maxAttempts) {
+      attempts++;
+      let reply: string;
+      try {
+        reply = await this.llmService.generateResponse(messages, {
+          ...agent?.llm,
+          model: this.config.get<string>('analysis.model') ?? agent?.llm?.model,
+          temperature: 0,
+          maxTokens: this.config.get<number>('analysis.maxTokens') ?? 800,
+        });
+      } catch (e: unknown) {
+        errors = [`LLM request failed: ${errorMessage(e)}`];
+        break;
+      }
+
+      const answer = parseJson(reply);
+      errors = answer
+        ? this.validate(answer, intents, schema)
+        : ['The answer is not a JSON object'];
+      if (!errors.length) {
+        return {
+          status: 'completed',
+          ...pickAnswer(answer!, !!schema),
+          attempts,
+          analyzedAt: new Date().toISOString(),
+        };
+      }
+
+      // Let the model fix its own answer
+      messages.push(
+        { role: 'assistant', content: reply },
+        {
+          role: 'user',
+          content: `Your answer is invalid:\n- ${errors.join('\n- ')}\nAnswer again with the corrected JSON object only.`,
+        },
+      );
+    }
+
+    this.logger.warn(
+      `Analysis of session ${record.id} failed: ${errors.join('; ')}`,
+    );
+    return {
+      status: 'failed',
+      errors,
+      attempts,
+      analyzedAt: new Date().toISOString(),
+    };
+  }
+
+  private shouldAnalyze(record: SessionRecord): boolean {
+    if (this.config.get<boolean>('analysis.enabled') === false) return false;
+    if (
+      record.kind === 'playground' &&
+      !this.config.get<boolean>('analysis.playground')
+    ) {
+      return false;
+    }
+    const minTurns = this.config.get<number>('analysis.minCallerTurns') ?? 1;
+    const callerTurns = record.transcript.filter(
+      (entry) => entry.speaker === 'caller',
+    ).length;
+    return callerTurns >= minTurns;
+  }
+
+  private buildPrompt(
+    agent: AgentDefinition | undefined,
+    intents: string[],
+    schema?: JsonSchema,
+  ): string {
+    const lines = [
+      `You analyze transcripts of phone calls answered by an assistant${agent ? ` ("${agent.name}")` : ''}.`,
+      'Answer with one JSON object only (no prose, no code fences) with these keys:',
+      '- "summary": 2-3 sentences: who called, what they wanted, what happened. Keep names, dates and numbers.',
+      `- "intent": the caller's main reason for calling, one of ${intents.map((i) => JSON.stringify(i)).join(', ')}`,
+      `- "resolution": one of ${RESOLUTIONS.map((r) => JSON.stringify(r)).join(', ')} (escalated = handed to a person)`,
+      `- "sentiment": the caller's overall mood, one of ${SENTIMENTS.map((s) => JSON.stringify(s)).join(', ')}`,
+    ];
+    if (schema) {
+      lines.push(
+        `- "fields": data from the call matching this JSON Schema; leave out values the caller did not give:\n${JSON.stringify(schema)}`,
+      );
+    }
+    if (agent?.analysis?.instructions) {
+      lines.push(agent.analysis.instructions);
+    }
+    return lines.join('\n');
+  }
+
+  private validate(
+    answer: AnalysisAnswer,
+    intents: string[],
+    schema?: JsonSchema,
+  ): string[] {
+    const errors: string[] = [];
+    if (typeof answer.summary !== 'string' || !answer.summary.trim()) {
+      errors.push('summary must be a non-empty string');
+    }
+    if (!intents.includes(answer.intent as string)) {
+      errors.push(`intent must be one of ${intents.join(', ')}`);
+    }
+    if (!RESOLUTIONS.includes(answer.resolution as string)) {
+      errors.push(`resolution must be one of ${RESOLUTIONS.join(', ')}`);
+    }
+    if (!SENTIMENTS.includes(answer.sentiment as string)) {
+      errors.push(`sentiment must be one of ${SENTIMENTS.join(', ')}`);
+    }
+    if (schema) {
+      errors.push(...validateJsonSchema(schema, answer.fields ?? {}, 'fields'));
+    }
+    return errors;
+  }
+
+  /**
+   * POST the analysis to analysis.webhook.url (signed with the secret).
+   * Failures are only logged.
+   */
+  private async notify(record: SessionRecord, analysis: SessionAnalysis) {
+    const url = this.config.get<string>('analysis.webhook.url');
+    if (!url) return;
+
+    const body = JSON.stringify({
+      event: 'session.analyzed',
+      session: {
+        id: record.id,
+        kind: record.kind,
+        agentId: record.agentId,
+        direction: record.direction,
+        from: record.from,
+        to: record.to,
+        startedAt: record.startedAt,
+        endedAt: record.endedAt,
+        durationMs: record.durationMs,
+        outcome: record.outcome,
+      },
+      analysis,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    const secret = this.config.get<string>('analysis.webhook.secret');
+    if (secret) {
+      const signature = createHmac('sha256', secret).update(body).digest('hex');
+      headers['X-Signature-256'] = `sha256=${signature}`;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(
+          this.config.get<number>('analysis.webhook.timeoutMs') ?? 5000,
+        ),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (e: unknown) {
+      this.logger.error(
+        `Analysis webhook for session ${record.id} failed: ${errorMessage(e)}`,
+      );
+    }
+  }
+
+  private findAgent(id: string): AgentDefinition | undefined {
+    return this.agents.list().find((agent) => agent.id === id);
+  }
+}
+
+/**
+ * The JSON object in a model answer (code fences and text around it are ignored).
+ */
+function parseJson(reply: string): AnalysisAnswer | undefined {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end < start) return;
+  try {
+    const value: unknown = JSON.parse(reply.slice(start, end + 1));
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as AnalysisAnswer)
+      : undefined;
+  } catch {
+    return;
+  }
+}
+
+function pickAnswer(answer: AnalysisAnswer, withFields: boolean) {
+  return {
+    summary: answer.summary!.trim(),
+    intent: answer.intent,
+    resolution: answer.resolution,
+    sentiment: answer.sentiment,
+    fields: withFields ? (answer.fields ?? {}) : undefined,
+  };
+}
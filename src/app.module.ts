@@ -2,11 +2,20 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TwilioModule } from './twilio/twilio.module';
-import { DeepgramModule } from './deepgram/deepgram.module';
+import { SttModule } from './stt/stt.module';
 import { AudioModule } from './audio/audio.module';
 import { LlmModule } from './llm/llm.module';
 import configuration from './config/configuration';
+import { validateEnv } from './config/env.validation';
 import { PlaygroundModule } from './playground/playground.module';
+import { AgentsModule } from './agents/agents.module';
+import { BookingModule } from './booking/booking.module';
+import { SessionsModule } from './sessions/sessions.module';
+import { RecordingsModule } from './recordings/recordings.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { HealthModule } from './health/health.module';
+import { AdminModule } from './admin/admin.module';
+import { AnalysisModule } from './analysis/analysis.module';
 import { ElevenlabsModule } from './elevenlabs/elevenlabs.module';
 import { ServeStaticModule } from '@nestjs/serve-static';
 import { join } from 'path';
@@ -17,15 +26,24 @@ import { join } from 'path';
       isGlobal: true,
       envFilePath: '.env',
       load: [configuration],
+      validate: validateEnv, // Fail fast on missing / malformed settings
     }),
     ServeStaticModule.forRoot({
       rootPath: join(__dirname, '..', 'public'), // <-- serve public/ folder
     }),
     ScheduleModule.forRoot(),
     TwilioModule,
-    DeepgramModule,
+    SttModule,
     AudioModule,
     LlmModule, 
+    AgentsModule,
+    BookingModule,
+    SessionsModule,
+    RecordingsModule,
+    MetricsModule,
+    HealthModule,
+    AdminModule,
+    AnalysisModule,
     PlaygroundModule, ElevenlabsModule
   ],
 })
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { AudioService } from './audio.service';
+import { TtsModule } from '../tts/tts.module';
 
 @Module({
+  imports: [TtsModule],
   providers: [AudioService],
   exports: [AudioService],
 })
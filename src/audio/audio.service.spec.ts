@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { TtsService } from '../tts/tts.service';
+import { AudioService } from './audio.service';
+
+describe('AudioService', () => {
+  let synthesize: jest.Mock;
+
+  const create = () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    synthesize = jest
+      .fn()
+      .mockImplementation((text: string) =>
+        Promise.resolve({ audio: Buffer.from(text), provider: 'fake' }),
+      );
+    return new AudioService({ synthesize } as unknown as TtsService);
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('serves repeated text from the cache', async () => {
+    const service = create();
+
+    await service.textToAudio('Hello');
+    const audio = await service.textToAudio('  hello ');
+
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(Buffer.from(audio, 'base64').toString()).toBe('Hello');
+  });
+
+  it('drops the least recently used response past 500 entries', async () => {
+    const service = create();
+
+    for (let i = 0; i < 500; i++) await service.textToAudio(`text ${i}`);
+    await service.textToAudio('text 0'); // Used again: text 1 is now the oldest
+    await service.textToAudio('text 500');
+    synthesize.mockClear();
+
+    await service.textToAudio('text 0');
+    expect(synthesize).not.toHaveBeenCalled();
+    await service.textToAudio('text 1');
+    expect(synthesize).toHaveBeenCalledTimes(1);
+  });
+});
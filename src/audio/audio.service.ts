@@ -1,55 +1,59 @@
 // src/audio/audio.service.ts
 
 import { Injectable, Logger } from '@nestjs/common';
-import * as fs from 'fs';
-import * as path from 'path';
+import { TtsService } from '../tts/tts.service';
+import { TtsSelection } from '../tts/tts.types';
+
+// TTS responses kept in memory, least recently used dropped first
+const MAX_CACHE_ENTRIES = 500;
+
+/**
+ * Options for a single TTS request: provider/voice selection + cancellation.
+ */
+export interface AudioRequestOptions extends TtsSelection {
+  signal?: AbortSignal;
+}
 
 @Injectable()
 export class AudioService {
   private readonly logger = new Logger(AudioService.name);
   private readonly responseCache = new Map<string, string>();
 
+  constructor(private readonly tts: TtsService) {}
+
   /**
-   * Convert text into audio using Deepgram TTS (Standard Model)
+   * Convert text into audio using the configured TTS provider
    * - Caches responses to avoid duplicate API calls
-   * - Returns audio as base64-encoded string
+   * - Returns audio as base64-encoded string (μ-law 8 kHz)
+   * - Optional AbortSignal cancels the HTTP request
+   * - Optional provider/voice selection (e.g. from the agent)
    */
-  async textToAudio(text: string): Promise<string> {
-    const cacheKey = text.toLowerCase().trim();
-    
+  async textToAudio(
+    text: string,
+    options: AudioRequestOptions = {},
+  ): Promise<string> {
+    const cacheKey = this.cacheKey(text, options);
+
     // Check cache first
-    if (this.responseCache.has(cacheKey)) {
+    const cached = this.responseCache.get(cacheKey);
+    if (cached !== undefined) {
       this.logger.log('Returning cached TTS response');
-      return this.responseCache.get(cacheKey)!;
+      this.remember(cacheKey, cached); // Most recently used again
+      return cached;
     }
 
-    console.time('TTS Request Time');
-    
-    try {
-      const response = await fetch(
-        'https://api.deepgram.com/v1/speak?model=aura-asteria-en&encoding=mulaw&sample_rate=8000',
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Token ${process.env.DEEPGRAM_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ text }),
-        },
-      );
+    const startedAt = Date.now();
 
-      if (!response.ok) {
-        throw new Error(`Deepgram TTS failed: ${response.status} ${response.statusText}`);
-      }
-
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      const base64Audio = buffer.toString('base64');
+    try {
+      const { audio, provider } = await this.tts.synthesize(text, options, {
+        signal: options.signal,
+      });
+      const base64Audio = audio.toString('base64');
 
       // Cache the response
-      this.responseCache.set(cacheKey, base64Audio);
-      
-      console.timeEnd('TTS Request Time');
+      this.remember(cacheKey, base64Audio);
+
+      this.logger.log(`TTS (${provider}) took ${Date.now() - startedAt}ms`);
       return base64Audio;
     } catch (error) {
       this.logger.error('TTS conversion failed:', error);
@@ -58,144 +62,94 @@ export class AudioService {
   }
 
   /**
-   * Stream text to audio using Deepgram TTS
-   * - Reads chunks from streaming API response
+   * Stream text to audio using the configured TTS provider
    * - Sends each audio chunk immediately via callback
    * - Caches final full audio for future use
    */
-  async streamTextToAudio(text: string, onAudioChunk: (chunk: string, isFinal: boolean) => void): Promise<void> {
-    this.logger.log(`Starting streaming TTS for text: ${text.substring(0, 50)}...`);
-    
+  async streamTextToAudio(
+    text: string,
+    onAudioChunk: (chunk: string, isFinal: boolean) => void,
+    options: AudioRequestOptions = {},
+  ): Promise<void> {
+    this.logger.log(
+      `Starting streaming TTS for text: ${text.substring(0, 50)}...`,
+    );
+
     try {
-      const response = await fetch(
-        'https://api.deepgram.com/v1/speak?model=aura-asteria-en&encoding=mulaw&sample_rate=8000',
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Token ${process.env.DEEPGRAM_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ text }),
+      const chunks: Buffer[] = [];
+
+      await this.tts.stream(
+        text,
+        (chunk) => {
+          chunks.push(chunk);
+          // Send chunk to client immediately
+          onAudioChunk(chunk.toString('base64'), false);
         },
+        options,
+        { signal: options.signal },
       );
 
-      if (!response.ok) {
-        throw new Error(`Deepgram TTS failed: ${response.status} ${response.statusText}`);
-      }
+      // Send final signal
+      onAudioChunk('', true);
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No reader available');
+      // Cache the complete audio for future use
+      this.remember(
+        this.cacheKey(text, options),
+        Buffer.concat(chunks).toString('base64'),
+      );
 
-      const chunks: Buffer[] = [];
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          chunks.push(Buffer.from(value));
-          const chunkBase64 = Buffer.from(value).toString('base64');
-          
-          // Send chunk to client immediately
-          onAudioChunk(chunkBase64, false);
-        }
-
-        // Send final signal
-        onAudioChunk('', true);
-        
-        // Cache the complete audio for future use
-        const completeAudio = Buffer.concat(chunks).toString('base64');
-        const cacheKey = text.toLowerCase().trim();
-        this.responseCache.set(cacheKey, completeAudio);
-        
-        this.logger.log('Streaming TTS completed successfully');
-      } finally {
-        reader.releaseLock();
-      }
+      this.logger.log('Streaming TTS completed successfully');
     } catch (error) {
       this.logger.error('Streaming TTS failed:', error);
       throw error;
     }
   }
 
-   /**
-   * Stream text to audio using a faster Deepgram TTS model
+  /**
+   * Stream text to audio using the provider's fastest voice/model
    * - Provides lower latency compared to standard streaming
    * - Sends audio chunks in real-time
    * - Useful for quick bot replies
+   * - Optional AbortSignal stops the stream (e.g. caller barge-in)
    */
-  async streamTextToAudioFast(text: string, onAudioChunk: (chunk: string, isFinal: boolean) => void): Promise<void> {
-    this.logger.log(`Starting FAST streaming TTS for text: ${text.substring(0, 50)}...`);
-    
+  async streamTextToAudioFast(
+    text: string,
+    onAudioChunk: (chunk: string, isFinal: boolean) => void,
+    options: AudioRequestOptions = {},
+  ): Promise<void> {
+    this.logger.log(
+      `Starting FAST streaming TTS for text: ${text.substring(0, 50)}...`,
+    );
+
+    const startedAt = Date.now();
+    let firstChunkAt = 0;
+
     try {
-      // Using even faster model for quick responses
-      const response = await fetch(
-        'https://api.deepgram.com/v1/speak?model=aura-arcas-en&encoding=mulaw&sample_rate=8000',
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Token ${process.env.DEEPGRAM_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ text }),
+      const provider = await this.tts.stream(
+        text,
+        (chunk) => {
+          if (!firstChunkAt) {
+            firstChunkAt = Date.now();
+            this.logger.log(
+              `First TTS chunk received in ${firstChunkAt - startedAt}ms`,
+            );
+          }
+          onAudioChunk(chunk.toString('base64'), false);
         },
+        options,
+        { lowLatency: true, signal: options.signal },
       );
 
-      if (!response.ok) {
-        throw new Error(`Deepgram TTS failed: ${response.status} ${response.statusText}`);
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No reader available');
-
-      let receivedFirstChunk = false;
-      let firstChunkTime = Date.now();
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          if (!receivedFirstChunk) {
-            receivedFirstChunk = true;
-            firstChunkTime = Date.now();
-            this.logger.log(`First TTS chunk received in ${firstChunkTime}ms`);
-          }
-
-          const chunkBase64 = Buffer.from(value).toString('base64');
-          onAudioChunk(chunkBase64, false);
-        }
-
-        onAudioChunk('', true);
-        this.logger.log(`Fast TTS streaming completed. Total time: ${Date.now() - firstChunkTime}ms`);
-      } finally {
-        reader.releaseLock();
-      }
+      onAudioChunk('', true);
+      this.logger.log(
+        `Fast TTS streaming (${provider}) completed. Total time: ${Date.now() - startedAt}ms`,
+      );
     } catch (error) {
       this.logger.error('Fast streaming TTS failed:', error);
       throw error;
     }
   }
 
-    /**
-   * Save generated base64 mulaw audio into a file
-   * - Ensures recordings directory exists
-   * - Writes audio buffer to file
-   * - Returns file path of saved recording
-   */
-  async saveAudioToFile(base64Mulaw: string, filename: string) {
-    const buffer = Buffer.from(base64Mulaw, 'base64');
-    const outPath = path.join('recordings', filename);
-
-    // Ensure recordings directory exists
-    if (!fs.existsSync('recordings')) {
-      fs.mkdirSync('recordings', { recursive: true });
-    }
-
-    fs.writeFileSync(outPath, buffer);
-    return outPath;
-  }
-
   /**
    * Clear the audio response cache
    * - Prevents memory bloat from repeated TTS responses
@@ -206,4 +160,18 @@ export class AudioService {
     this.responseCache.clear();
     this.logger.log(`Cleared TTS cache. Previous size: ${previousSize}`);
   }
-}
\ No newline at end of file
+
+  private remember(key: string, audio: string) {
+    // Re-inserted so the Map keeps its entries in least → most recently used order
+    this.responseCache.delete(key);
+    this.responseCache.set(key, audio);
+    if (this.responseCache.size > MAX_CACHE_ENTRIES) {
+      const [oldest] = this.responseCache.keys();
+      this.responseCache.delete(oldest);
+    }
+  }
+
+  private cacheKey(text: string, options: TtsSelection): string {
+    return `${options.provider ?? ''}:${options.voice ?? ''}:${text.toLowerCase().trim()}`;
+  }
+}
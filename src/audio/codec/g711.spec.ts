@@ -0,0 +1,85 @@
+import {
+  alawToPcm16,
+  decodeAlawSample,
+  decodeMulawSample,
+  encodeAlawSample,
+  encodeMulawSample,
+  mulawToPcm16,
+  pcm16ToAlaw,
+  pcm16ToMulaw,
+} from './g711';
+import { fromSamples, toSamples } from './pcm';
+
+describe('G.711', () => {
+  it('matches the reference μ-law vectors', () => {
+    expect(encodeMulawSample(0)).toBe(0xff);
+    expect(encodeMulawSample(-1)).toBe(0x7f);
+    expect(encodeMulawSample(32767)).toBe(0x80);
+    expect(encodeMulawSample(-32768)).toBe(0x00);
+    expect(encodeMulawSample(1000)).toBe(0xce);
+    expect(encodeMulawSample(-1000)).toBe(0x4e);
+
+    expect(decodeMulawSample(0xff)).toBe(0);
+    expect(decodeMulawSample(0x7f)).toBe(0);
+    expect(decodeMulawSample(0x80)).toBe(32124);
+    expect(decodeMulawSample(0x00)).toBe(-32124);
+    expect(decodeMulawSample(0xce)).toBe(988);
+  });
+
+  it('matches the reference A-law vectors', () => {
+    expect(encodeAlawSample(0)).toBe(0xd5);
+    expect(encodeAlawSample(-1)).toBe(0x55);
+    expect(encodeAlawSample(32767)).toBe(0xaa);
+    expect(encodeAlawSample(-32768)).toBe(0x2a);
+    expect(encodeAlawSample(1000)).toBe(0xfa);
+
+    expect(decodeAlawSample(0xd5)).toBe(8);
+    expect(decodeAlawSample(0x55)).toBe(-8);
+    expect(decodeAlawSample(0xaa)).toBe(32256);
+    expect(decodeAlawSample(0x2a)).toBe(-32256);
+    expect(decodeAlawSample(0xfa)).toBe(1008);
+  });
+
+  it('round-trips every code word', () => {
+    for (let byte = 0; byte < 256; byte++) {
+      // μ-law has two zeros (0x7f / 0xff), both decode to 0
+      if (byte !== 0x7f)
+        expect(encodeMulawSample(decodeMulawSample(byte))).toBe(byte);
+      expect(encodeAlawSample(decodeAlawSample(byte))).toBe(byte);
+    }
+  });
+
+  it('keeps the quantization error within one step', () => {
+    for (let sample = -32768; sample < 32768; sample += 7) {
+      const mulaw = decodeMulawSample(encodeMulawSample(sample));
+      const alaw = decodeAlawSample(encodeAlawSample(sample));
+      expect(
+        Math.abs(mulaw - Math.max(-32124, Math.min(32124, sample))),
+      ).toBeLessThanOrEqual(Math.max(8, Math.abs(sample) / 16 + 16));
+      expect(Math.abs(alaw - sample)).toBeLessThanOrEqual(
+        Math.max(16, Math.abs(sample) / 16 + 16),
+      );
+    }
+  });
+
+  it('converts buffers', () => {
+    const pcm = fromSamples(Int16Array.from([0, 1000, -1000, 32767]));
+
+    expect([...pcm16ToMulaw(pcm)]).toEqual([0xff, 0xce, 0x4e, 0x80]);
+    expect([
+      ...toSamples(mulawToPcm16(Buffer.from([0xff, 0xce, 0x4e, 0x80]))),
+    ]).toEqual([0, 988, -988, 32124]);
+    expect([...toSamples(alawToPcm16(pcm16ToAlaw(pcm)))]).toEqual([
+      8, 1008, -1008, 32256,
+    ]);
+  });
+
+  it('reads PCM from unaligned buffers', () => {
+    const bytes = Buffer.alloc(5);
+    const unaligned = bytes.subarray(1);
+    unaligned.writeInt16LE(1000, 0);
+    unaligned.writeInt16LE(-1000, 2);
+
+    expect([...pcm16ToMulaw(unaligned)]).toEqual([0xce, 0x4e]);
+  });
+});
@@ -0,0 +1,132 @@
+import { fromSamples, toSamples } from './pcm';
+
+/**
+ * G.711 μ-law / A-law codecs (ITU-T G.711, same tables as the reference Sun
+ * implementation). Twilio Media Streams use μ-law at 8 kHz.
+ * All conversions go through lookup tables built once at load time.
+ */
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// Segment end points of A-law (13-bit magnitude)
+const ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+/**
+ * Encode one PCM16 sample to μ-law.
+ */
+export function encodeMulawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (
+    let mask = 0x4000;
+    (magnitude & mask) === 0 && exponent > 0;
+    mask >>= 1
+  ) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  magnitude = sign | (exponent << 4) | mantissa;
+  return ~magnitude & 0xff;
+}
+
+/**
+ * Decode one μ-law byte to a PCM16 sample (range ±32124).
+ */
+export function decodeMulawSample(byte: number): number {
+  const value = ~byte & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const biased = ((mantissa << 3) + MULAW_BIAS) << exponent;
+  return value & 0x80 ? MULAW_BIAS - biased : biased - MULAW_BIAS;
+}
+
+/**
+ * Encode one PCM16 sample to A-law.
+ */
+export function encodeAlawSample(sample: number): number {
+  let value = sample >> 3;
+  let mask: number;
+  if (value >= 0) {
+    mask = 0xd5;
+  } else {
+    mask = 0x55;
+    value = -value - 1;
+  }
+
+  const segment = ALAW_SEGMENT_END.findIndex((end) => value <= end);
+  if (segment === -1) return 0x7f ^ mask;
+
+  const shift = segment < 2 ? 1 : segment;
+  return ((segment << 4) | ((value >> shift) & 0x0f)) ^ mask;
+}
+
+/**
+ * Decode one A-law byte to a PCM16 sample (range ±32256).
+ */
+export function decodeAlawSample(byte: number): number {
+  const value = byte ^ 0x55;
+  const segment = (value & 0x70) >> 4;
+  let magnitude = ((value & 0x0f) << 4) + 8;
+  if (segment > 0) magnitude = (magnitude + 0x100) << (segment - 1);
+  return value & 0x80 ? magnitude : -magnitude;
+}
+
+// Decode tables: byte → sample; encode tables: (sample & 0xffff) → byte
+const MULAW_DECODE = new Int16Array(256);
+const ALAW_DECODE = new Int16Array(256);
+const MULAW_ENCODE = new Uint8Array(65536);
+const ALAW_ENCODE = new Uint8Array(65536);
+
+for (let byte = 0; byte < 256; byte++) {
+  MULAW_DECODE[byte] = decodeMulawSample(byte);
+  ALAW_DECODE[byte] = decodeAlawSample(byte);
+}
+for (let sample = -32768; sample < 32768; sample++) {
+  MULAW_ENCODE[sample & 0xffff] = encodeMulawSample(sample);
+  ALAW_ENCODE[sample & 0xffff] = encodeAlawSample(sample);
+}
+
+function decode(encoded: Buffer, table: Int16Array): Buffer {
+  const samples = new Int16Array(encoded.length);
+  for (let i = 0; i < encoded.length; i++) samples[i] = table[encoded[i]];
+  return fromSamples(samples);
+}
+
+function encode(pcm: Buffer, table: Uint8Array): Buffer {
+  const samples = toSamples(pcm);
+  const encoded = Buffer.allocUnsafe(samples.length);
+  for (let i = 0; i < samples.length; i++)
+    encoded[i] = table[samples[i] & 0xffff];
+  return encoded;
+}
+
+/**
+ * μ-law bytes → PCM16 (same sample rate, 2 bytes per input byte).
+ */
+export function mulawToPcm16(mulaw: Buffer): Buffer {
+  return decode(mulaw, MULAW_DECODE);
+}
+
+/**
+ * PCM16 → μ-law bytes (same sample rate).
+ */
+export function pcm16ToMulaw(pcm: Buffer): Buffer {
+  return encode(pcm, MULAW_ENCODE);
+}
+
+/**
+ * A-law bytes → PCM16 (same sample rate).
+ */
+export function alawToPcm16(alaw: Buffer): Buffer {
+  return decode(alaw, ALAW_DECODE);
+}
+
+/**
+ * PCM16 → A-law bytes (same sample rate).
+ */
+export function pcm16ToAlaw(pcm: Buffer): Buffer {
+  return encode(pcm, ALAW_ENCODE);
+}
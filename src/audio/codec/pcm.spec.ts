@@ -0,0 +1,41 @@
+import {
+  applyGain,
+  dbToGain,
+  downmixToMono,
+  fromSamples,
+  interleave,
+  mixPcm16,
+  toSamples,
+} from './pcm';
+
+describe('PCM16 helpers', () => {
+  const pcm = (...samples: number[]) => fromSamples(Int16Array.from(samples));
+  const samplesOf = (buffer: Buffer) => [...toSamples(buffer)];
+
+  it('applies gain with clipping', () => {
+    expect(samplesOf(applyGain(pcm(1000, -1000, 20000), 2))).toEqual([
+      2000, -2000, 32767,
+    ]);
+    expect(samplesOf(applyGain(pcm(1000, -20000), dbToGain(-6)))).toEqual([
+      501, -10024,
+    ]);
+  });
+
+  it('mixes tracks of different lengths with clipping', () => {
+    expect(samplesOf(mixPcm16(pcm(1000, 30000, 5), pcm(-500, 30000)))).toEqual([
+      500, 32767, 5,
+    ]);
+  });
+
+  it('downmixes interleaved channels to mono', () => {
+    expect(samplesOf(downmixToMono(pcm(100, 300, -100, -300), 2))).toEqual([
+      200, -200,
+    ]);
+  });
+
+  it('interleaves mono tracks, padding the shorter one', () => {
+    expect(samplesOf(interleave(pcm(1, 2, 3), pcm(-1)))).toEqual([
+      1, -1, 2, 0, 3, 0,
+    ]);
+  });
+});
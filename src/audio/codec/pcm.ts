@@ -0,0 +1,104 @@
+/**
+ * Helpers for raw PCM16 audio (signed 16-bit little-endian, interleaved channels).
+ */
+
+export const PCM16_MIN = -32768;
+export const PCM16_MAX = 32767;
+
+/**
+ * Clamp + round a sample into the PCM16 range.
+ */
+export function clampPcm16(sample: number): number {
+  if (sample >= PCM16_MAX) return PCM16_MAX;
+  if (sample <= PCM16_MIN) return PCM16_MIN;
+  return Math.round(sample);
+}
+
+/**
+ * View a PCM16 buffer as samples (copies only if the buffer is not 2-byte aligned).
+ * A trailing odd byte is ignored.
+ */
+export function toSamples(pcm: Buffer): Int16Array {
+  const count = pcm.length >> 1;
+  if (pcm.byteOffset % 2 === 0) {
+    return new Int16Array(pcm.buffer, pcm.byteOffset, count);
+  }
+  const samples = new Int16Array(count);
+  for (let i = 0; i < count; i++) samples[i] = pcm.readInt16LE(i * 2);
+  return samples;
+}
+
+/**
+ * Wrap samples as a PCM16 buffer (no copy).
+ */
+export function fromSamples(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
+
+/**
+ * Convert decibels to a linear gain factor (e.g. -6 dB → ~0.5).
+ */
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Scale PCM16 audio by a linear gain factor (clipped to the PCM16 range).
+ */
+export function applyGain(pcm: Buffer, gain: number): Buffer {
+  const input = toSamples(pcm);
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    output[i] = clampPcm16(input[i] * gain);
+  }
+  return fromSamples(output);
+}
+
+/**
+ * Sum several mono PCM16 tracks (e.g. caller + bot), clipping the result.
+ * The output is as long as the longest track.
+ */
+export function mixPcm16(...tracks: Buffer[]): Buffer {
+  const inputs = tracks.map(toSamples);
+  const length = Math.max(0, ...inputs.map((t) => t.length));
+  const output = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const track of inputs) if (i < track.length) sum += track[i];
+    output[i] = clampPcm16(sum);
+  }
+  return fromSamples(output);
+}
+
+/**
+ * Average interleaved channels down to mono.
+ */
+export function downmixToMono(pcm: Buffer, channels: number): Buffer {
+  if (channels === 1) return pcm;
+  const input = toSamples(pcm);
+  const frames = Math.floor(input.length / channels);
+  const output = new Int16Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += input[f * channels + c];
+    output[f] = clampPcm16(sum / channels);
+  }
+  return fromSamples(output);
+}
+
+/**
+ * Interleave mono tracks into one multi-channel buffer (track i → channel i).
+ * Shorter tracks are padded with silence.
+ */
+export function interleave(...tracks: Buffer[]): Buffer {
+  const inputs = tracks.map(toSamples);
+  const frames = Math.max(0, ...inputs.map((t) => t.length));
+  const channels = inputs.length;
+  const output = new Int16Array(frames * channels);
+  for (let f = 0; f < frames; f++) {
+    for (let c = 0; c < channels; c++) {
+      output[f * channels + c] = f < inputs[c].length ? inputs[c][f] : 0;
+    }
+  }
+  return fromSamples(output);
+}
@@ -0,0 +1,91 @@
+import { fromSamples, toSamples } from './pcm';
+import { SAMPLE_RATES, StreamingResampler, resamplePcm16 } from './resampler';
+
+describe('StreamingResampler', () => {
+  const sine = (
+    frequency: number,
+    rate: number,
+    count: number,
+    amplitude = 10000,
+  ) =>
+    fromSamples(
+      Int16Array.from({ length: count }, (_, i) =>
+        Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / rate)),
+      ),
+    );
+
+  // Amplitude of `frequency` in the signal (single-bin DFT)
+  const amplitudeAt = (pcm: Buffer, frequency: number, rate: number) => {
+    const samples = toSamples(pcm);
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < samples.length; i++) {
+      re += samples[i] * Math.cos((2 * Math.PI * frequency * i) / rate);
+      im += samples[i] * Math.sin((2 * Math.PI * frequency * i) / rate);
+    }
+    return (2 * Math.hypot(re, im)) / samples.length;
+  };
+
+  it('produces ceil(n · to / from) samples for every rate pair', () => {
+    for (const from of SAMPLE_RATES) {
+      for (const to of SAMPLE_RATES) {
+        const output = resamplePcm16(sine(440, from, 1001), from, to);
+        expect(output.length / 2).toBe(Math.ceil((1001 * to) / from));
+      }
+    }
+  });
+
+  it('keeps the original samples when upsampling by an integer factor', () => {
+    const input = sine(1000, 8000, 160);
+    const output = toSamples(resamplePcm16(input, 8000, 48000));
+    const samples = toSamples(input);
+
+    for (let i = 0; i < samples.length; i++) {
+      expect(Math.abs(output[i * 6] - samples[i])).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('gives the same output for chunked and one-shot conversion', () => {
+    const input = sine(440, 44100, 4410);
+    const resampler = new StreamingResampler(44100, 16000);
+    const chunks: Buffer[] = [];
+    // Uneven chunk sizes, including odd byte counts
+    for (let offset = 0; offset < input.length; ) {
+      const size = 1 + ((offset * 7919) % 997);
+      chunks.push(resampler.process(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    chunks.push(resampler.flush());
+
+    expect(
+      Buffer.concat(chunks).equals(resamplePcm16(input, 44100, 16000)),
+    ).toBe(true);
+  });
+
+  it('preserves in-band tones', () => {
+    const output = resamplePcm16(sine(1000, 48000, 48000), 48000, 16000);
+    const steady = output.subarray(2000, output.length - 2000); // skip filter edges
+
+    expect(amplitudeAt(steady, 1000, 16000)).toBeCloseTo(10000, -2);
+  });
+
+  it('filters tones above the new Nyquist frequency', () => {
+    // 12 kHz would alias to 4 kHz at 16 kHz without filtering
+    const output = resamplePcm16(sine(12000, 48000, 48000), 48000, 16000);
+
+    expect(amplitudeAt(output, 4000, 16000)).toBeLessThan(100);
+  });
+
+  it('passes audio through unchanged when the rates match', () => {
+    const input = sine(440, 16000, 320);
+    const resampler = new StreamingResampler(16000, 16000);
+
+    expect(resampler.process(input).equals(input)).toBe(true);
+    expect(resampler.flush().length).toBe(0);
+  });
+
+  it('rejects invalid rates', () => {
+    expect(() => new StreamingResampler(0, 16000)).toThrow();
+    expect(() => new StreamingResampler(8000, 22050.5)).toThrow();
+  });
+});
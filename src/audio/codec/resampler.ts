@@ -0,0 +1,185 @@
+import { clampPcm16, fromSamples, toSamples } from './pcm';
+
+// Sample rates used across the pipeline (telephony, STT, TTS, browser audio)
+export const SAMPLE_RATES = [8000, 16000, 24000, 44100, 48000] as const;
+
+export interface ResamplerOptions {
+  zeroCrossings?: number; // Filter length per side (quality vs. CPU), default 8
+  tableResolution?: number; // Kernel table entries per input sample, default 256
+}
+
+/**
+ * Streaming PCM16 (mono) sample rate converter.
+ * - Band-limited interpolation with a Blackman-windowed sinc kernel;
+ *   when downsampling, the kernel is widened so it also acts as the
+ *   anti-aliasing low-pass filter
+ * - Keeps the tail of the previous chunk, so feeding audio chunk by chunk gives
+ *   exactly the same output as converting it in one go (no clicks at boundaries)
+ * - Output lags the input by the filter half-width (≤ 1.5 ms); flush() drains it
+ * - Positions are tracked as integers (input index × toRate), so long streams
+ *   do not drift even for ratios like 44.1 kHz → 16 kHz
+ */
+export class StreamingResampler {
+  private readonly halfWidth: number; // Kernel half-width in input samples
+  private readonly taps: number; // Samples used on each side of an output point
+  private readonly kernel: Float32Array;
+  private readonly resolution: number;
+  private pending: Float32Array; // Input samples still needed by the filter
+  private position: number; // Next output point, in units of 1 / toRate input samples
+  private carry?: number; // Odd byte left over from the previous chunk
+
+  constructor(
+    readonly fromRate: number,
+    readonly toRate: number,
+    options: ResamplerOptions = {},
+  ) {
+    if (
+      !Number.isInteger(fromRate) ||
+      !Number.isInteger(toRate) ||
+      fromRate <= 0 ||
+      toRate <= 0
+    ) {
+      throw new Error(`Invalid sample rates ${fromRate} → ${toRate}`);
+    }
+
+    // Cut off at the lower of the two Nyquist frequencies
+    const cutoff = Math.min(1, toRate / fromRate);
+    const zeroCrossings = options.zeroCrossings ?? 8;
+    this.resolution = options.tableResolution ?? 256;
+    this.halfWidth = zeroCrossings / cutoff;
+    this.taps = Math.ceil(this.halfWidth);
+    this.kernel = buildKernel(cutoff, this.halfWidth, this.resolution);
+    this.pending = new Float32Array(0);
+    this.position = 0;
+    this.reset();
+  }
+
+  /**
+   * Convert the next chunk of PCM16 audio.
+   * Output: the converted samples that are ready (may be empty for tiny chunks)
+   */
+  process(pcm: Buffer): Buffer {
+    if (this.fromRate === this.toRate) return Buffer.from(pcm);
+
+    const input = this.takeSamples(pcm);
+    const samples = new Float32Array(this.pending.length + input.length);
+    samples.set(this.pending);
+    samples.set(input, this.pending.length);
+
+    const output = this.convert(samples);
+
+    // Keep what the next output points still need on their left side
+    const keepFrom = Math.max(
+      0,
+      Math.floor(this.position / this.toRate) - this.taps,
+    );
+    this.pending = samples.slice(keepFrom);
+    this.position -= keepFrom * this.toRate;
+
+    return fromSamples(output);
+  }
+
+  /**
+   * Emit the buffered tail (end of stream) and start over.
+   */
+  flush(): Buffer {
+    if (this.fromRate === this.toRate) return Buffer.alloc(0);
+
+    const tail = this.process(Buffer.alloc(this.taps * 2));
+    this.reset();
+    return tail;
+  }
+
+  /**
+   * Forget all buffered audio (e.g. after barge-in).
+   */
+  reset() {
+    // Silence before the first sample = left side of the first output points
+    this.pending = new Float32Array(this.taps);
+    this.position = this.taps * this.toRate;
+    this.carry = undefined;
+  }
+
+  private convert(samples: Float32Array): Int16Array {
+    const last = samples.length - 1;
+    const output = new Int16Array(
+      Math.ceil((samples.length * this.toRate) / this.fromRate) + 1,
+    );
+    let count = 0;
+
+    // Every output point needs `taps` input samples on its right side
+    while (Math.floor(this.position / this.toRate) + this.taps <= last) {
+      output[count++] = clampPcm16(
+        this.interpolate(samples, this.position / this.toRate),
+      );
+      this.position += this.fromRate;
+    }
+    return output.subarray(0, count);
+  }
+
+  private interpolate(samples: Float32Array, time: number): number {
+    const center = Math.floor(time);
+    let sum = 0;
+    for (let i = center - this.taps + 1; i <= center + this.taps; i++) {
+      const distance = Math.abs(time - i) * this.resolution;
+      const index = Math.floor(distance);
+      if (index + 1 >= this.kernel.length) continue;
+      const frac = distance - index;
+      const weight =
+        this.kernel[index] +
+        frac * (this.kernel[index + 1] - this.kernel[index]);
+      sum += samples[i] * weight;
+    }
+    return sum;
+  }
+
+  private takeSamples(pcm: Buffer): Int16Array {
+    let bytes = pcm;
+    if (this.carry !== undefined) {
+      bytes = Buffer.concat([Buffer.from([this.carry]), pcm]);
+      this.carry = undefined;
+    }
+    if (bytes.length % 2) this.carry = bytes[bytes.length - 1];
+    return toSamples(bytes);
+  }
+}
+
+/**
+ * Convert a complete PCM16 (mono) clip to another sample rate.
+ */
+export function resamplePcm16(
+  pcm: Buffer,
+  fromRate: number,
+  toRate: number,
+): Buffer {
+  if (fromRate === toRate) return Buffer.from(pcm);
+  const resampler = new StreamingResampler(fromRate, toRate);
+  return Buffer.concat([resampler.process(pcm), resampler.flush()]);
+}
+
+/**
+ * Windowed sinc sampled at 1 / resolution steps from 0 to halfWidth.
+ */
+function buildKernel(
+  cutoff: number,
+  halfWidth: number,
+  resolution: number,
+): Float32Array {
+  const size = Math.ceil(halfWidth * resolution) + 2;
+  const kernel = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const distance = i / resolution;
+    if (distance >= halfWidth) break; // rest stays 0
+    const x = distance / halfWidth;
+    const window =
+      0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+    kernel[i] = cutoff * sinc(cutoff * distance) * window;
+  }
+  return kernel;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
@@ -0,0 +1,68 @@
+/**
+ * Minimal PCM16 WAV (RIFF) helpers.
+ */
+
+export const WAV_HEADER_BYTES = 44;
+
+/**
+ * Build the 44-byte header of a PCM16 WAV file.
+ */
+export function wavHeader(
+  sampleRate: number,
+  channels: number,
+  dataBytes: number,
+): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_BYTES);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28); // Byte rate
+  header.writeUInt16LE(channels * 2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Wrap PCM16 audio into a complete WAV file.
+ */
+export function encodeWav(
+  pcm: Buffer,
+  sampleRate: number,
+  channels = 1,
+): Buffer {
+  return Buffer.concat([wavHeader(sampleRate, channels, pcm.length), pcm]);
+}
+
+/**
+ * Read format + length from a WAV header (44-byte PCM layout).
+ */
+export function parseWavHeader(header: Buffer): {
+  sampleRate: number;
+  channels: number;
+  dataBytes: number;
+  durationMs: number;
+} {
+  if (
+    header.length < WAV_HEADER_BYTES ||
+    header.toString('ascii', 0, 4) !== 'RIFF' ||
+    header.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new Error('Not a WAV file');
+  }
+  const channels = header.readUInt16LE(22);
+  const sampleRate = header.readUInt32LE(24);
+  const dataBytes = header.readUInt32LE(40);
+  return {
+    sampleRate,
+    channels,
+    dataBytes,
+    durationMs: Math.round((dataBytes / (sampleRate * channels * 2)) * 1000),
+  };
+}
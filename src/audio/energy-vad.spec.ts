@@ -0,0 +1,78 @@
+import { fromSamples } from './codec/pcm';
+import { EnergyVad, frameLevelDb } from './energy-vad';
+
+const RATE = 8000;
+
+// Sine tone (speech stand-in) or silence, ms long
+const tone = (ms: number, amplitude = 8000) => {
+  const samples = new Int16Array((RATE * ms) / 1000);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(
+      amplitude * Math.sin((2 * Math.PI * 300 * i) / RATE),
+    );
+  }
+  return fromSamples(samples);
+};
+const silence = (ms: number) => Buffer.alloc(((RATE * ms) / 1000) * 2);
+
+describe('EnergyVad', () => {
+  it('measures frame levels in dBFS', () => {
+    expect(frameLevelDb(new Int16Array(160))).toBe(-Infinity);
+    expect(frameLevelDb(new Int16Array(160).fill(16384))).toBeCloseTo(-6.02, 1);
+  });
+
+  it('starts speech after minSpeechMs and ends it after the hangover', () => {
+    const vad = new EnergyVad({
+      sampleRate: RATE,
+      minSpeechMs: 100,
+      hangoverMs: 200,
+    });
+
+    expect(vad.process(tone(80))).toBeUndefined();
+    expect(vad.speaking).toBe(false);
+    expect(vad.process(tone(40))).toBe('start');
+    expect(vad.silenceMs).toBe(0);
+
+    // Pause between words stays speech
+    expect(vad.process(silence(100))).toBeUndefined();
+    expect(vad.process(tone(100))).toBeUndefined();
+
+    expect(vad.process(silence(200))).toBe('end');
+    expect(vad.speaking).toBe(false);
+    expect(vad.silenceMs).toBe(200);
+  });
+
+  it('ignores short clicks and quiet noise', () => {
+    const vad = new EnergyVad({ sampleRate: RATE });
+
+    vad.process(tone(40));
+    vad.process(silence(200));
+    vad.process(tone(1000, 30)); // about -60 dBFS
+
+    expect(vad.speaking).toBe(false);
+    expect(vad.silenceMs).toBe(Infinity);
+  });
+
+  it('adapts to steady background noise', () => {
+    const vad = new EnergyVad({ sampleRate: RATE, thresholdDb: -50 });
+
+    expect(vad.process(tone(200, 1000))).toBe('start');
+    vad.process(tone(10000, 1000)); // Constant hum, no pauses
+    expect(vad.speaking).toBe(false);
+
+    // Louder speech on top of the hum is still detected
+    expect(vad.process(tone(200, 10000))).toBe('start');
+  });
+
+  it('handles chunks that do not align with frames', () => {
+    const vad = new EnergyVad({ sampleRate: RATE, minSpeechMs: 100 });
+    const audio = tone(120);
+
+    const changes: (string | undefined)[] = [];
+    for (let i = 0; i < audio.length; i += 33) {
+      changes.push(vad.process(audio.subarray(i, i + 33)));
+    }
+
+    expect(changes.filter(Boolean)).toEqual(['start']);
+  });
+});
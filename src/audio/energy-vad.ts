@@ -0,0 +1,141 @@
+import { toSamples } from './codec/pcm';
+
+/**
+ * Settings of the energy-based voice activity detector.
+ */
+export interface EnergyVadOptions {
+  sampleRate: number;
+  frameMs?: number; // Analysis frame (default 20 ms)
+  thresholdDb?: number; // Min. frame level (dBFS) counted as speech (default -45)
+  noiseMarginDb?: number; // Speech must also be this far above the noise floor (default 10)
+  minSpeechMs?: number; // Voiced audio needed before speech starts (default 100)
+  hangoverMs?: number; // Unvoiced audio tolerated inside speech (default 200)
+}
+
+/**
+ * Level of a PCM16 frame in dBFS (RMS, -Infinity for digital silence).
+ */
+export function frameLevelDb(samples: Int16Array): number {
+  if (!samples.length) return -Infinity;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length) / 32768;
+  return 20 * Math.log10(rms);
+}
+
+/**
+ * Voice activity detection on mono PCM16 audio by frame energy.
+ * - A frame is voiced when it is above thresholdDb and above the noise floor
+ * - The noise floor (starting at thresholdDb - noiseMarginDb) follows quiet
+ *   frames quickly and loud frames slowly
+ * - Speech starts after minSpeechMs of voiced frames and ends after
+ *   hangoverMs of unvoiced ones (short pauses between words stay "speech")
+ * Time is counted in audio, not wall clock: process() may run faster than real time.
+ */
+export class EnergyVad {
+  private readonly frameSamples: number;
+  private readonly frameMs: number;
+  private readonly thresholdDb: number;
+  private readonly noiseMarginDb: number;
+  private readonly minSpeechMs: number;
+  private readonly hangoverMs: number;
+
+  private carry = Buffer.alloc(0); // Partial frame from the previous chunk
+  private noiseFloorDb: number;
+  private voicedMs = 0; // Voiced run while not yet speaking
+  private unvoicedMs = 0; // Unvoiced run while speaking
+  private sinceSpeechMs = Infinity; // Audio since the last voiced frame of speech
+
+  speaking = false;
+
+  constructor(options: EnergyVadOptions) {
+    this.frameMs = options.frameMs ?? 20;
+    this.frameSamples = Math.max(
+      1,
+      Math.round((options.sampleRate * this.frameMs) / 1000),
+    );
+    this.thresholdDb = options.thresholdDb ?? -45;
+    this.noiseMarginDb = options.noiseMarginDb ?? 10;
+    this.minSpeechMs = options.minSpeechMs ?? 100;
+    this.hangoverMs = options.hangoverMs ?? 200;
+    this.noiseFloorDb = this.thresholdDb - this.noiseMarginDb;
+  }
+
+  /**
+   * Milliseconds of audio since the last voiced frame of speech
+   * (Infinity before any speech).
+   */
+  get silenceMs(): number {
+    return this.sinceSpeechMs;
+  }
+
+  /**
+   * Analyze a chunk of audio.
+   * Output: 'start' / 'end' when the speech state changed in this chunk (last change wins)
+   */
+  process(pcm: Buffer): 'start' | 'end' | undefined {
+    const data = this.carry.length ? Buffer.concat([this.carry, pcm]) : pcm;
+    const frameBytes = this.frameSamples * 2;
+    const whole = data.length - (data.length % frameBytes);
+    this.carry = Buffer.from(data.subarray(whole));
+
+    let change: 'start' | 'end' | undefined;
+    for (let offset = 0; offset < whole; offset += frameBytes) {
+      const frame = toSamples(data.subarray(offset, offset + frameBytes));
+      const result = this.frame(frameLevelDb(frame));
+      if (result) change = result;
+    }
+    return change;
+  }
+
+  /**
+   * Forget all state (e.g. after the bot spoke or a turn was committed).
+   */
+  reset() {
+    this.carry = Buffer.alloc(0);
+    this.voicedMs = 0;
+    this.unvoicedMs = 0;
+    this.sinceSpeechMs = Infinity;
+    this.speaking = false;
+  }
+
+  private frame(levelDb: number): 'start' | 'end' | undefined {
+    const voiced =
+      levelDb >= this.thresholdDb &&
+      levelDb >= this.noiseFloorDb + this.noiseMarginDb;
+    this.trackNoise(levelDb);
+
+    if (voiced) {
+      this.unvoicedMs = 0;
+      if (this.speaking) {
+        this.sinceSpeechMs = 0;
+        return undefined;
+      }
+      // Clicks / short bursts do not count as speech
+      this.voicedMs += this.frameMs;
+      if (this.voicedMs < this.minSpeechMs) {
+        this.sinceSpeechMs += this.frameMs;
+        return undefined;
+      }
+      this.speaking = true;
+      this.sinceSpeechMs = 0;
+      return 'start';
+    }
+
+    this.sinceSpeechMs += this.frameMs;
+    this.voicedMs = 0;
+    if (!this.speaking) return undefined;
+    this.unvoicedMs += this.frameMs;
+    if (this.unvoicedMs < this.hangoverMs) return undefined;
+    this.speaking = false;
+    return 'end';
+  }
+
+  // Exponential average: fast towards quieter frames, slow (~2 s) towards louder ones,
+  // so steady background noise stops counting as speech while pauses reset the floor
+  private trackNoise(levelDb: number) {
+    if (!Number.isFinite(levelDb)) return;
+    const rate = levelDb < this.noiseFloorDb ? 0.2 : 0.01;
+    this.noiseFloorDb += (levelDb - this.noiseFloorDb) * rate;
+  }
+}
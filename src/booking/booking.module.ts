@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { BookingStore } from './booking.store';
+import { BookingTools } from './booking.tools';
+
+@Module({
+  providers: [BookingStore, BookingTools],
+  exports: [BookingStore],
+})
+export class BookingModule {}
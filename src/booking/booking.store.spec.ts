@@ -0,0 +1,77 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BookingStore } from './booking.store';
+
+describe('BookingStore', () => {
+  let dir: string;
+  let file: string;
+
+  const createStore = () =>
+    new BookingStore(
+      new ConfigService({
+        booking: { file, rooms: { standard: 2, suite: 1 } },
+      }),
+    );
+
+  const booking = (checkIn: string, checkOut: string, roomType = 'suite') => ({
+    guestName: 'Ada Lovelace',
+    roomType,
+    checkIn,
+    checkOut,
+    guests: 2,
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bookings-'));
+    file = path.join(dir, 'bookings.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts only overlapping confirmed bookings', () => {
+    const store = createStore();
+    store.create(booking('2030-05-01', '2030-05-03'));
+
+    expect(store.checkAvailability('2030-05-02', '2030-05-04')).toEqual([
+      { roomType: 'standard', total: 2, available: 2 },
+      { roomType: 'suite', total: 1, available: 0 },
+    ]);
+    // Check-out day is free again
+    expect(
+      store.checkAvailability('2030-05-03', '2030-05-05', 'SUITE'),
+    ).toEqual([{ roomType: 'suite', total: 1, available: 1 }]);
+  });
+
+  it('rejects sold-out rooms and invalid input', () => {
+    const store = createStore();
+    const first = store.create(booking('2030-05-01', '2030-05-03'));
+
+    expect(() => store.create(booking('2030-05-02', '2030-05-03'))).toThrow(
+      ConflictException,
+    );
+    expect(() => store.create(booking('2030-05-03', '2030-05-01'))).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      store.create(booking('2030-05-01', '2030-05-02', 'villa')),
+    ).toThrow(BadRequestException);
+
+    store.cancel(first.id);
+    expect(store.create(booking('2030-05-02', '2030-05-03')).status).toBe(
+      'confirmed',
+    );
+  });
+
+  it('persists bookings to the JSON file', () => {
+    const created = createStore().create(booking('2030-06-01', '2030-06-02'));
+
+    const reloaded = createStore();
+    expect(reloaded.get(created.id.toLowerCase())).toEqual(created);
+    expect(reloaded.list()).toHaveLength(1);
+  });
+});
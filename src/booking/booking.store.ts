@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Booking, NewBooking, RoomAvailability } from './booking.types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reference booking backend: reservations in a local JSON file,
+ * room inventory from config (`booking.rooms`, e.g. { standard: 10 }).
+ */
+@Injectable()
+export class BookingStore {
+  private readonly logger = new Logger(BookingStore.name);
+  private bookings?: Booking[];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Room types and how many rooms exist of each.
+   */
+  getInventory(): Record<string, number> {
+    return (
+      this.configService.get<Record<string, number>>('booking.rooms') ?? {}
+    );
+  }
+
+  /**
+   * Free rooms per type for [checkIn, checkOut).
+   * Input: optional roomType to check a single type
+   */
+  checkAvailability(
+    checkIn: string,
+    checkOut: string,
+    roomType?: string,
+  ): RoomAvailability[] {
+    this.assertDates(checkIn, checkOut);
+    const inventory = this.getInventory();
+    const types = roomType
+      ? [this.assertRoomType(roomType)]
+      : Object.keys(inventory);
+
+    return types.map((type) => {
+      const taken = this.load().filter(
+        (b) =>
+          b.status === 'confirmed' &&
+          b.roomType === type &&
+          b.checkIn < checkOut &&
+          checkIn < b.checkOut,
+      ).length;
+      const total = inventory[type];
+      return { roomType: type, total, available: Math.max(0, total - taken) };
+    });
+  }
+
+  /**
+   * Create a confirmed booking.
+   * Throws ConflictException if the room type is sold out for these dates.
+   */
+  create(input: NewBooking): Booking {
+    const [availability] = this.checkAvailability(
+      input.checkIn,
+      input.checkOut,
+      input.roomType,
+    );
+    if (!availability.available) {
+      throw new ConflictException(
+        `No ${input.roomType} rooms available from ${input.checkIn} to ${input.checkOut}`,
+      );
+    }
+
+    const booking: Booking = {
+      ...input,
+      roomType: availability.roomType,
+      id: `AX-${randomBytes(4).toString('hex').toUpperCase()}`,
+      status: 'confirmed',
+      createdAt: new Date().toISOString(),
+    };
+
+    this.load().push(booking);
+    this.persist();
+    this.logger.log(
+      `Created booking ${booking.id} (${booking.roomType}, ${booking.checkIn} → ${booking.checkOut})`,
+    );
+    return booking;
+  }
+
+  get(id: string): Booking {
+    const booking = this.load().find((b) => b.id === id.toUpperCase());
+    if (!booking) throw new NotFoundException(`Booking ${id} not found`);
+    return booking;
+  }
+
+  list(): Booking[] {
+    return [...this.load()];
+  }
+
+  cancel(id: string): Booking {
+    const booking = this.get(id);
+    booking.status = 'cancelled';
+    this.persist();
+    this.logger.log(`Cancelled booking ${booking.id}`);
+    return booking;
+  }
+
+  private assertDates(checkIn: string, checkOut: string) {
+    if (!ISO_DATE.test(checkIn) || !ISO_DATE.test(checkOut)) {
+      throw new BadRequestException('Dates must be YYYY-MM-DD');
+    }
+    if (checkOut <= checkIn) {
+      throw new BadRequestException('Check-out must be after check-in');
+    }
+  }
+
+  /**
+   * Match a room type case-insensitively against the inventory.
+   */
+  private assertRoomType(roomType: string): string {
+    const type = Object.keys(this.getInventory()).find(
+      (t) => t.toLowerCase() === roomType.toLowerCase(),
+    );
+    if (!type) {
+      throw new BadRequestException(
+        `Unknown room type "${roomType}" (available: ${Object.keys(this.getInventory()).join(', ')})`,
+      );
+    }
+    return type;
+  }
+
+  /**
+   * Bookings from the JSON file (read once, then kept in memory).
+   */
+  private load(): Booking[] {
+    if (this.bookings) return this.bookings;
+
+    const file = this.file();
+    this.bookings = fs.existsSync(file)
+      ? (JSON.parse(fs.readFileSync(file, 'utf8')) as Booking[])
+      : [];
+    return this.bookings;
+  }
+
+  /**
+   * Write all bookings (temp file + rename so a crash never leaves half a file).
+   */
+  private persist() {
+    const file = this.file();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.load(), null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  private file(): string {
+    return (
+      this.configService.get<string>('booking.file') ?? 'data/bookings.json'
+    );
+  }
+}
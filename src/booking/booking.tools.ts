@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { LlmTool } from '../tools/llm-tool.decorator';
+import type { ToolContext } from '../tools/tool.types';
+import { BookingStore } from './booking.store';
+import { CheckAvailabilityDto, CreateBookingDto } from './dto/booking-tool.dto';
+
+const DATE_PARAM = { type: 'string', description: 'Date as YYYY-MM-DD' };
+
+/**
+ * Booking actions for the hotel assistant (backed by BookingStore).
+ */
+@Injectable()
+export class BookingTools {
+  constructor(private readonly store: BookingStore) {}
+
+  @LlmTool({
+    name: 'check_availability',
+    description:
+      'Check how many rooms are free for a stay. Call this before offering or booking a room.',
+    parameters: {
+      type: 'object',
+      properties: {
+        checkIn: DATE_PARAM,
+        checkOut: DATE_PARAM,
+        roomType: {
+          type: 'string',
+          description: 'Optional room type, e.g. "deluxe"',
+        },
+      },
+      required: ['checkIn', 'checkOut'],
+    },
+    args: CheckAvailabilityDto,
+  })
+  checkAvailability(args: CheckAvailabilityDto) {
+    return this.store.checkAvailability(
+      args.checkIn,
+      args.checkOut,
+      args.roomType,
+    );
+  }
+
+  @LlmTool({
+    name: 'create_booking',
+    description:
+      'Book a room once the caller confirmed name, room type, dates and number of guests.',
+    parameters: {
+      type: 'object',
+      properties: {
+        guestName: { type: 'string' },
+        roomType: { type: 'string' },
+        checkIn: DATE_PARAM,
+        checkOut: DATE_PARAM,
+        guests: { type: 'integer', minimum: 1 },
+        phone: { type: 'string', description: 'Optional contact number' },
+      },
+      required: ['guestName', 'roomType', 'checkIn', 'checkOut', 'guests'],
+    },
+    args: CreateBookingDto,
+  })
+  createBooking(args: CreateBookingDto, context: ToolContext) {
+    const booking = this.store.create({
+      ...args,
+      phone: args.phone ?? context.callerNumber,
+      callSid: context.callSid,
+    });
+    return {
+      bookingId: booking.id,
+      roomType: booking.roomType,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      guests: booking.guests,
+    };
+  }
+}
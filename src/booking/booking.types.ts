@@ -0,0 +1,36 @@
+/**
+ * A room reservation.
+ * Dates are ISO calendar dates (YYYY-MM-DD); checkOut is exclusive.
+ */
+export interface Booking {
+  id: string; // e.g. "AX-7K2Q9D"
+  guestName: string;
+  phone?: string;
+  roomType: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  status: 'confirmed' | 'cancelled';
+  createdAt: string;
+  callSid?: string; // Call the booking was made on
+}
+
+/**
+ * Free rooms of one type for a date range.
+ */
+export interface RoomAvailability {
+  roomType: string;
+  total: number;
+  available: number;
+}
+
+export type NewBooking = Pick<
+  Booking,
+  | 'guestName'
+  | 'phone'
+  | 'roomType'
+  | 'checkIn'
+  | 'checkOut'
+  | 'guests'
+  | 'callSid'
+>;
@@ -0,0 +1,56 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Arguments of the check_availability tool.
+ */
+export class CheckAvailabilityDto {
+  @Matches(ISO_DATE, { message: 'checkIn must be YYYY-MM-DD' })
+  checkIn: string;
+
+  @Matches(ISO_DATE, { message: 'checkOut must be YYYY-MM-DD' })
+  checkOut: string;
+
+  @IsOptional()
+  @IsString()
+  roomType?: string;
+}
+
+/**
+ * Arguments of the create_booking tool.
+ */
+export class CreateBookingDto {
+  @IsString()
+  @IsNotEmpty()
+  guestName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  roomType: string;
+
+  @Matches(ISO_DATE, { message: 'checkIn must be YYYY-MM-DD' })
+  checkIn: string;
+
+  @Matches(ISO_DATE, { message: 'checkOut must be YYYY-MM-DD' })
+  checkOut: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  guests: number;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+}
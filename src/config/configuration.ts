@@ -1,23 +1,250 @@
-export default () => ({
-  port: process.env.PORT || 3002,
+/**
+ * Application settings read from the environment (.env + process.env).
+ * The variables are checked at startup by validateEnv (env.validation.ts);
+ * services read them through ConfigService, never from process.env.
+ */
+const configuration = () => ({
+  port: parseInt(process.env.PORT || '3002', 10),
   twilio: {
     accountSid: process.env.TWILIO_ACCOUNT_SID,
     authToken: process.env.TWILIO_AUTH_TOKEN,
     phoneNumber: process.env.TWILIO_PHONE_NUMBER,
+    client: process.env.TWILIO_CLIENT || 'rest', // "stub" → log calls instead of placing them
+    validateSignatures: process.env.TWILIO_VALIDATE_SIGNATURES !== 'false', // X-Twilio-Signature on webhooks
+    streamSecret: process.env.TWILIO_STREAM_SECRET, // Signs media stream tokens (default: auth token)
+    streamTokenTtlSec: parseInt(
+      process.env.TWILIO_STREAM_TOKEN_TTL_SEC || '300',
+      10,
+    ),
+    streamStartTimeoutMs: parseInt(
+      process.env.TWILIO_STREAM_START_TIMEOUT_MS || '10000',
+      10,
+    ),
   },
   deepgram: {
     apiKey: process.env.DEEPGRAM_API_KEY,
   },
+  stt: {
+    model: process.env.STT_MODEL || 'nova-2',
+    language: process.env.STT_LANGUAGE || 'en-US',
+    endpointingMs: parseInt(process.env.STT_ENDPOINTING_MS || '300', 10),
+    utteranceEndMs: parseInt(process.env.STT_UTTERANCE_END_MS || '1000', 10),
+    keywords: process.env.STT_KEYWORDS?.split(',').filter(Boolean) || [],
+    keepAliveMs: parseInt(process.env.STT_KEEPALIVE_MS || '4000', 10), // KeepAlive after this long without audio
+    replayBufferMs: parseInt(process.env.STT_REPLAY_BUFFER_MS || '10000', 10), // Audio kept while reconnecting
+    closeTimeoutMs: parseInt(process.env.STT_CLOSE_TIMEOUT_MS || '3000', 10), // Wait for the last results on close
+    reconnect: {
+      maxAttempts: parseInt(process.env.STT_RECONNECT_MAX_ATTEMPTS || '5', 10), // 0 = never reconnect
+      baseDelayMs: parseInt(
+        process.env.STT_RECONNECT_BASE_DELAY_MS || '250',
+        10,
+      ), // Doubles with every attempt
+      maxDelayMs: parseInt(
+        process.env.STT_RECONNECT_MAX_DELAY_MS || '4000',
+        10,
+      ),
+    },
+  },
   elevenlabs: {
-    apiKey: process.env.ELVENLABS_API_KEY,
+    apiKey: process.env.ELEVENLABS_API_KEY,
+  },
+  tts: {
+    provider: process.env.TTS_PROVIDER || 'deepgram',
+    fallbackProvider: process.env.TTS_FALLBACK_PROVIDER || 'elevenlabs',
+    latencyBudgetMs: parseInt(process.env.TTS_LATENCY_BUDGET_MS || '2000', 10),
+    deepgram: {
+      voice: process.env.DEEPGRAM_TTS_VOICE || 'aura-asteria-en',
+      fastVoice: process.env.DEEPGRAM_TTS_FAST_VOICE || 'aura-arcas-en',
+    },
+    elevenlabs: {
+      voiceId: process.env.ELEVENLABS_VOICE_ID,
+      modelId: process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2',
+      fastModelId: process.env.ELEVENLABS_FAST_MODEL_ID || 'eleven_flash_v2_5',
+    },
   },
   groq: {
     apiKey: process.env.GROQ_API_KEY,
     baseUrl: process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1',
     model: process.env.GROQ_MODEL || 'llama-3.3-70b-versatile',
   },
+  llm: {
+    provider: process.env.LLM_PROVIDER || 'groq', // "groq" | "openai" | "local"
+    fallbackProviders:
+      process.env.LLM_FALLBACK_PROVIDERS?.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean) || [], // Tried in order when the primary fails
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '10000', 10), // Per request (streams: until the last token)
+    temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
+    maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '150', 10),
+    retry: {
+      maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10), // Per provider, transient errors only (network, timeout, 429, 5xx)
+      baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '200', 10), // Doubles with every retry, full jitter
+      maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '2000', 10),
+    },
+    fallbackReply:
+      process.env.LLM_FALLBACK_REPLY ||
+      "I'm sorry, I'm having trouble answering right now. Could you say that again in a moment?", // Spoken when every provider failed
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    },
+    local: {
+      apiKey: process.env.LOCAL_LLM_API_KEY, // Usually not needed (llama.cpp server, Ollama)
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    },
+  },
+  conversation: {
+    maxTurns: parseInt(process.env.CONVERSATION_MAX_TURNS || '20', 10),
+    maxTokens: parseInt(process.env.CONVERSATION_MAX_TOKENS || '2000', 10),
+    summarize: process.env.CONVERSATION_SUMMARIZE === 'true',
+  },
+  turn: {
+    policy: process.env.TURN_POLICY || 'merge', // Caller speaks during a reply: "queue" | "merge" | "restart"
+    silenceMs: parseInt(process.env.TURN_SILENCE_MS || '500', 10), // Caller silence before the bot answers
+    maxWaitMs: parseInt(process.env.TURN_MAX_WAIT_MS || '2500', 10), // Answer anyway this long after the last words
+    vad: {
+      enabled: process.env.TURN_VAD_ENABLED !== 'false', // false → rely on STT end-of-speech events only
+      thresholdDb: parseFloat(process.env.TURN_VAD_THRESHOLD_DB || '-45'),
+      minSpeechMs: parseInt(process.env.TURN_VAD_MIN_SPEECH_MS || '100', 10),
+      hangoverMs: parseInt(process.env.TURN_VAD_HANGOVER_MS || '200', 10),
+    },
+  },
+  greeting: {
+    enabled: process.env.GREETING_ENABLED !== 'false', // false → the bot waits for the caller to speak first
+    text: process.env.GREETING_TEXT, // For agents without a greeting (unset → those stay silent)
+    precache: process.env.GREETING_PRECACHE !== 'false', // Synthesize the agent greetings at boot
+  },
+  inactivity: {
+    repromptMs: parseInt(process.env.INACTIVITY_REPROMPT_MS || '10000', 10), // Caller silence before each reprompt; 0 = never
+    maxReprompts: parseInt(process.env.INACTIVITY_MAX_REPROMPTS || '2', 10), // Then the goodbye + hang-up
+    repromptText:
+      process.env.INACTIVITY_REPROMPT_TEXT || 'Are you still there?',
+    goodbyeText:
+      process.env.INACTIVITY_GOODBYE_TEXT ||
+      "I haven't heard from you, so I'll end the call now. Goodbye!",
+    maxCallDurationSec: parseInt(
+      process.env.MAX_CALL_DURATION_SEC || '1800',
+      10,
+    ), // 0 = unlimited
+    maxDurationText:
+      process.env.MAX_CALL_DURATION_TEXT ||
+      "We've reached the time limit for this call. Thank you for calling, goodbye!",
+  },
+  dtmf: {
+    enabled: process.env.DTMF_ENABLED !== 'false', // Keypad input on phone calls
+    terminator: process.env.DTMF_TERMINATOR ?? '#', // Ends the input right away; '' = none
+    timeoutMs: parseInt(process.env.DTMF_TIMEOUT_MS || '3000', 10), // Input ends this long after the last key
+    maxDigits: parseInt(process.env.DTMF_MAX_DIGITS || '20', 10), // 0 = unlimited
+  },
+  bargeIn: {
+    enabled: process.env.BARGE_IN_ENABLED !== 'false',
+    minInterimWords: parseInt(process.env.BARGE_IN_MIN_WORDS || '1', 10),
+  },
+  agents: {
+    dir: process.env.AGENTS_DIR || 'agents',
+    defaultAgentId: process.env.DEFAULT_AGENT_ID || 'axion-hotel',
+  },
+  booking: {
+    file: process.env.BOOKING_FILE || 'data/bookings.json',
+    // "type:count" pairs, e.g. "standard:10,deluxe:5,suite:2"
+    rooms: Object.fromEntries(
+      (process.env.BOOKING_ROOMS || 'standard:10,deluxe:5,suite:2')
+        .split(',')
+        .map((pair) => pair.split(':'))
+        .map(([type, count]) => [type.trim(), parseInt(count, 10) || 0]),
+    ),
+  },
+  transfer: {
+    mode: process.env.TRANSFER_MODE || 'cold', // "cold" | "warm" (a summary of the call goes to the receiving agent)
+    target: process.env.TRANSFER_TARGET || process.env.TRANSFER_NUMBER, // <Dial> target: E.164 number or sip: URI
+    queue: process.env.TRANSFER_QUEUE, // <Enqueue> queue name; used instead of the target when set
+    callerId: process.env.TRANSFER_CALLER_ID, // Caller ID shown to the agent (default: the caller's number)
+    timeoutSec: parseInt(process.env.TRANSFER_TIMEOUT_SEC || '30', 10), // Ring time of the <Dial>
+    // Phrases that hand the caller over without asking the LLM, comma separated
+    keywords: (
+      process.env.TRANSFER_KEYWORDS ??
+      'real person,human being,speak to a person,talk to a person,speak to someone,talk to someone,operator,representative'
+    )
+      .split(',')
+      .map((keyword) => keyword.trim())
+      .filter(Boolean),
+    handoffText:
+      process.env.TRANSFER_HANDOFF_TEXT ||
+      'Let me connect you with a member of our team. Please hold.',
+    failedText:
+      process.env.TRANSFER_FAILED_TEXT ||
+      "I'm sorry, I couldn't connect you right now. Can I help you with anything else?",
+    unavailableText:
+      process.env.TRANSFER_UNAVAILABLE_TEXT ||
+      'Sorry, nobody is available to take your call right now. Please call again later. Goodbye!',
+    summaryVia: process.env.TRANSFER_SUMMARY_VIA || 'whisper', // Warm transfers: "whisper" (spoken to the agent) | "sms"
+    smsTo: process.env.TRANSFER_SMS_TO, // Summary SMS recipient (default: the target number)
+    summaryTimeoutMs: parseInt(
+      process.env.TRANSFER_SUMMARY_TIMEOUT_MS || '4000',
+      10,
+    ), // Transfer without a summary after that
+  },
+  analysis: {
+    enabled: process.env.ANALYSIS_ENABLED !== 'false', // Summarize + classify every finished call
+    playground: process.env.ANALYSIS_PLAYGROUND === 'true', // Also playground sessions
+    // Intent categories (agents may define their own), comma separated
+    intents: (
+      process.env.ANALYSIS_INTENTS ||
+      'booking,inquiry,cancellation,complaint,support,other'
+    )
+      .split(',')
+      .map((intent) => intent.trim())
+      .filter(Boolean),
+    model: process.env.ANALYSIS_MODEL, // Default: the agent's model
+    maxTokens: parseInt(process.env.ANALYSIS_MAX_TOKENS || '800', 10),
+    maxAttempts: parseInt(process.env.ANALYSIS_MAX_ATTEMPTS || '2', 10), // Invalid answers are sent back to be fixed
+    minCallerTurns: parseInt(process.env.ANALYSIS_MIN_CALLER_TURNS || '1', 10), // Shorter sessions are not analyzed
+    webhook: {
+      url: process.env.ANALYSIS_WEBHOOK_URL, // POSTed every analysis; unset = no webhook
+      secret: process.env.ANALYSIS_WEBHOOK_SECRET, // Signs the body (X-Signature-256: sha256=<hmac>)
+      timeoutMs: parseInt(
+        process.env.ANALYSIS_WEBHOOK_TIMEOUT_MS || '5000',
+        10,
+      ),
+    },
+  },
+  sessions: {
+    dir: process.env.SESSIONS_DIR || 'data/sessions',
+  },
+  recordings: {
+    dir: process.env.RECORDINGS_DIR || 'recordings', // Local store + recordings in progress
+    mixdown: process.env.RECORDING_MIXDOWN === 'true', // Also write a mono "-mono.wav" per call
+    saveReplies: process.env.RECORDING_SAVE_REPLIES === 'true', // Store every bot reply separately
+    backend: process.env.RECORDINGS_BACKEND || 'local', // "local" | "s3"
+    s3: {
+      endpoint: process.env.S3_ENDPOINT, // Default: AWS endpoint of the region
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET,
+      prefix: process.env.S3_PREFIX ?? 'recordings/',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+    },
+    retention: {
+      maxAgeDays: parseInt(process.env.RECORDING_MAX_AGE_DAYS || '30', 10), // 0 = keep forever
+      maxTotalMb: parseInt(process.env.RECORDING_MAX_TOTAL_MB || '0', 10), // 0 = no quota
+    },
+  },
+  health: {
+    checkProviders: process.env.HEALTH_CHECK_PROVIDERS === 'true', // GET /ready also calls the Deepgram + Groq APIs
+    timeoutMs: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '3000', 10),
+  },
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY, // Unset → /admin endpoints are disabled
+  },
   server: {
     baseUrl: process.env.SERVER_BASE_URL,
     allowedOrigins: process.env.ALLOWED_ORIGINS?.split(',') || '*',
   },
-});
\ No newline at end of file
+});
+
+export type AppConfig = ReturnType<typeof configuration>;
+
+export default configuration;
@@ -0,0 +1,88 @@
+import 'reflect-metadata';
+import { validateEnv } from './env.validation';
+
+describe('validateEnv', () => {
+  const required = {
+    TWILIO_ACCOUNT_SID: `AC${'0a'.repeat(16)}`,
+    TWILIO_AUTH_TOKEN: 'secret',
+    DEEPGRAM_API_KEY: 'dg',
+    GROQ_API_KEY: 'gq',
+  };
+
+  it('accepts the required keys and leaves the environment unchanged', () => {
+    const env = { ...required, PORT: '8080', TURN_VAD_ENABLED: 'false' };
+
+    expect(validateEnv(env)).toBe(env);
+  });
+
+  it('lists every invalid variable', () => {
+    const run = () =>
+      validateEnv({
+        ...required,
+        DEEPGRAM_API_KEY: '',
+        TWILIO_ACCOUNT_SID: 'not-a-sid',
+        TURN_POLICY: 'interrupt',
+        TURN_SILENCE_MS: 'soon',
+        BARGE_IN_ENABLED: 'yes',
+      });
+
+    expect(run).toThrow(/DEEPGRAM_API_KEY should not be empty/);
+    expect(run).toThrow(/TWILIO_ACCOUNT_SID must be a Twilio Account SID/);
+    expect(run).toThrow(/TURN_POLICY must be one of .*queue, merge, restart/);
+    expect(run).toThrow(/TURN_SILENCE_MS must be an integer/);
+    expect(run).toThrow(/BARGE_IN_ENABLED must be "true" or "false"/);
+  });
+
+  it('requires provider keys only for the selected backends', () => {
+    expect(() =>
+      validateEnv({ ...required, TTS_PROVIDER: 'deepgram' }),
+    ).not.toThrow();
+    expect(() =>
+      validateEnv({ ...required, TTS_PROVIDER: 'elevenlabs' }),
+    ).toThrow(/ELEVENLABS_API_KEY/);
+    expect(() =>
+      validateEnv({ ...required, RECORDINGS_BACKEND: 's3', S3_BUCKET: 'b' }),
+    ).toThrow(/S3_ACCESS_KEY_ID.*\n.*S3_SECRET_ACCESS_KEY/);
+    expect(() =>
+      validateEnv({ ...required, LLM_FALLBACK_PROVIDERS: 'local, openai' }),
+    ).toThrow(/OPENAI_API_KEY/);
+    expect(() =>
+      validateEnv({ ...required, LLM_FALLBACK_PROVIDERS: 'local' }),
+    ).not.toThrow();
+  });
+
+  it('needs a Groq key only when Groq is part of the LLM chain', () => {
+    const noGroq = { ...required, GROQ_API_KEY: undefined };
+
+    expect(() => validateEnv(noGroq)).toThrow(/GROQ_API_KEY/);
+    expect(() =>
+      validateEnv({ ...noGroq, LLM_PROVIDER: 'local' }),
+    ).not.toThrow();
+    expect(() =>
+      validateEnv({
+        ...noGroq,
+        LLM_PROVIDER: 'openai',
+        OPENAI_API_KEY: 'sk',
+        LLM_FALLBACK_PROVIDERS: 'groq',
+      }),
+    ).toThrow(/GROQ_API_KEY/);
+  });
+
+  it('needs an SMS recipient for warm transfers to a queue', () => {
+    const warm = {
+      ...required,
+      TRANSFER_MODE: 'warm',
+      TRANSFER_SUMMARY_VIA: 'sms',
+    };
+
+    expect(() =>
+      validateEnv({ ...warm, TRANSFER_TARGET: '+15551234567' }),
+    ).not.toThrow();
+    expect(() =>
+      validateEnv({ ...warm, TRANSFER_QUEUE: 'front-desk' }),
+    ).toThrow(/TRANSFER_SMS_TO/);
+    expect(() =>
+      validateEnv({ ...required, TRANSFER_TARGET: 'front desk' }),
+    ).toThrow(/TRANSFER_TARGET must be an E.164 number or a sip: URI/);
+  });
+});
@@ -0,0 +1,643 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+  MinLength,
+  ValidateIf,
+  validateSync,
+} from 'class-validator';
+import { TURN_POLICIES } from '../conversation/turn-scheduler';
+
+const TTS_PROVIDERS = ['deepgram', 'elevenlabs', 'fake'];
+const LLM_PROVIDERS = ['groq', 'openai', 'local'];
+const LLM_PROVIDER_NAME = `(${LLM_PROVIDERS.join('|')})`;
+// Comma separated provider names, e.g. "openai,local"
+const LLM_PROVIDER_LIST = new RegExp(
+  `^\\s*${LLM_PROVIDER_NAME}\\s*(,\\s*${LLM_PROVIDER_NAME}\\s*)*$`,
+);
+const E164 = /^\+[1-9]\d{6,14}$/;
+// Number or SIP address a call can be dialed to
+const TRANSFER_TARGET = /^(\+[1-9]\d{6,14}|sips?:\S+)$/;
+
+// Boolean settings are read as "true" / "false" by configuration.ts
+const IsFlag = () =>
+  IsIn(['true', 'false'], { message: '$property must be "true" or "false"' });
+
+// Primary (Groq by default) or fallback LLM provider
+const usesLlm = (env: EnvironmentVariables, provider: string) =>
+  (env.LLM_PROVIDER || 'groq') === provider ||
+  !!env.LLM_FALLBACK_PROVIDERS?.split(',').some(
+    (name) => name.trim() === provider,
+  );
+
+// Warm transfer with an SMS summary and no number to text it to
+const needsSmsRecipient = (env: EnvironmentVariables) =>
+  env.TRANSFER_MODE === 'warm' &&
+  env.TRANSFER_SUMMARY_VIA === 'sms' &&
+  (!!env.TRANSFER_QUEUE ||
+    !E164.test(env.TRANSFER_TARGET ?? env.TRANSFER_NUMBER ?? ''));
+
+/**
+ * Environment variables read by configuration.ts.
+ * Checked once at startup (ConfigModule `validate`): a missing key or a
+ * malformed value stops the app with a list of every problem, instead of
+ * failing on the first call that needs the setting.
+ */
+class EnvironmentVariables {
+  // --- Server ---
+  @IsOptional()
+  @Min(1)
+  @Max(65535)
+  @IsInt()
+  PORT?: number;
+
+  @IsOptional()
+  @IsString()
+  SERVER_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  ALLOWED_ORIGINS?: string;
+
+  // --- Twilio ---
+  @Matches(/^AC[0-9a-fA-F]{32}$/, {
+    message: 'TWILIO_ACCOUNT_SID must be a Twilio Account SID (AC + 32 hex)',
+  })
+  TWILIO_ACCOUNT_SID: string;
+
+  @IsString()
+  @IsNotEmpty()
+  TWILIO_AUTH_TOKEN: string;
+
+  @IsOptional()
+  @Matches(E164, { message: 'TWILIO_PHONE_NUMBER must be an E.164 number' })
+  TWILIO_PHONE_NUMBER?: string;
+
+  @IsOptional()
+  @IsIn(['rest', 'stub'])
+  TWILIO_CLIENT?: string;
+
+  @IsOptional()
+  @IsFlag()
+  TWILIO_VALIDATE_SIGNATURES?: string;
+
+  @IsOptional()
+  @IsString()
+  TWILIO_STREAM_SECRET?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  TWILIO_STREAM_TOKEN_TTL_SEC?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  TWILIO_STREAM_START_TIMEOUT_MS?: number;
+
+  // --- Speech-to-text (Deepgram) ---
+  @IsString()
+  @IsNotEmpty()
+  DEEPGRAM_API_KEY: string;
+
+  @IsOptional()
+  @IsString()
+  STT_MODEL?: string;
+
+  @IsOptional()
+  @IsString()
+  STT_LANGUAGE?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  STT_ENDPOINTING_MS?: number;
+
+  @IsOptional()
+  @Min(1000) // Deepgram minimum
+  @IsInt()
+  STT_UTTERANCE_END_MS?: number;
+
+  @IsOptional()
+  @IsString()
+  STT_KEYWORDS?: string;
+
+  @IsOptional()
+  @Min(1000)
+  @Max(9000) // Deepgram closes the stream after 10 s without data
+  @IsInt()
+  STT_KEEPALIVE_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  STT_REPLAY_BUFFER_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  STT_CLOSE_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  STT_RECONNECT_MAX_ATTEMPTS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  STT_RECONNECT_BASE_DELAY_MS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  STT_RECONNECT_MAX_DELAY_MS?: number;
+
+  // --- Text-to-speech ---
+  @IsOptional()
+  @IsIn(TTS_PROVIDERS)
+  TTS_PROVIDER?: string;
+
+  @IsOptional()
+  @IsIn(TTS_PROVIDERS)
+  TTS_FALLBACK_PROVIDER?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  TTS_LATENCY_BUDGET_MS?: number;
+
+  @IsOptional()
+  @IsString()
+  DEEPGRAM_TTS_VOICE?: string;
+
+  @IsOptional()
+  @IsString()
+  DEEPGRAM_TTS_FAST_VOICE?: string;
+
+  // Only required when ElevenLabs is the primary voice (fallback fails softly)
+  @ValidateIf((env: EnvironmentVariables) => env.TTS_PROVIDER === 'elevenlabs')
+  @IsString()
+  @IsNotEmpty()
+  ELEVENLABS_API_KEY?: string;
+
+  @IsOptional()
+  @IsString()
+  ELEVENLABS_VOICE_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  ELEVENLABS_MODEL_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  ELEVENLABS_FAST_MODEL_ID?: string;
+
+  // --- LLM (Groq) ---
+  // Only required when Groq is part of the chain (the default provider)
+  @ValidateIf((env: EnvironmentVariables) => usesLlm(env, 'groq'))
+  @IsString()
+  @IsNotEmpty()
+  GROQ_API_KEY?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  GROQ_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  GROQ_MODEL?: string;
+
+  // --- LLM provider chain ---
+  @IsOptional()
+  @IsIn(LLM_PROVIDERS)
+  LLM_PROVIDER?: string;
+
+  @IsOptional()
+  @Matches(LLM_PROVIDER_LIST, {
+    message: `LLM_FALLBACK_PROVIDERS must be a comma separated list of: ${LLM_PROVIDERS.join(', ')}`,
+  })
+  LLM_FALLBACK_PROVIDERS?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  LLM_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @Max(2)
+  @IsNumber()
+  LLM_TEMPERATURE?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  LLM_MAX_TOKENS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  LLM_MAX_RETRIES?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  LLM_RETRY_BASE_DELAY_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  LLM_RETRY_MAX_DELAY_MS?: number;
+
+  @IsOptional()
+  @IsString()
+  LLM_FALLBACK_REPLY?: string;
+
+  // Only required when OpenAI is part of the chain
+  @ValidateIf((env: EnvironmentVariables) => usesLlm(env, 'openai'))
+  @IsString()
+  @IsNotEmpty()
+  OPENAI_API_KEY?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  OPENAI_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  OPENAI_MODEL?: string;
+
+  @IsOptional()
+  @IsString()
+  LOCAL_LLM_API_KEY?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  LOCAL_LLM_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  LOCAL_LLM_MODEL?: string;
+
+  // --- Conversation / turns ---
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  CONVERSATION_MAX_TURNS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  CONVERSATION_MAX_TOKENS?: number;
+
+  @IsOptional()
+  @IsFlag()
+  CONVERSATION_SUMMARIZE?: string;
+
+  @IsOptional()
+  @IsIn(TURN_POLICIES)
+  TURN_POLICY?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  TURN_SILENCE_MS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  TURN_MAX_WAIT_MS?: number;
+
+  @IsOptional()
+  @IsFlag()
+  TURN_VAD_ENABLED?: string;
+
+  @IsOptional()
+  @Max(0)
+  @IsNumber()
+  TURN_VAD_THRESHOLD_DB?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  TURN_VAD_MIN_SPEECH_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  TURN_VAD_HANGOVER_MS?: number;
+
+  @IsOptional()
+  @IsFlag()
+  BARGE_IN_ENABLED?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  BARGE_IN_MIN_WORDS?: number;
+
+  @IsOptional()
+  @IsFlag()
+  GREETING_ENABLED?: string;
+
+  @IsOptional()
+  @IsString()
+  GREETING_TEXT?: string;
+
+  @IsOptional()
+  @IsFlag()
+  GREETING_PRECACHE?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  INACTIVITY_REPROMPT_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  INACTIVITY_MAX_REPROMPTS?: number;
+
+  @IsOptional()
+  @IsString()
+  INACTIVITY_REPROMPT_TEXT?: string;
+
+  @IsOptional()
+  @IsString()
+  INACTIVITY_GOODBYE_TEXT?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  MAX_CALL_DURATION_SEC?: number;
+
+  @IsOptional()
+  @IsString()
+  MAX_CALL_DURATION_TEXT?: string;
+
+  @IsOptional()
+  @IsFlag()
+  DTMF_ENABLED?: string;
+
+  @IsOptional()
+  @Matches(/^[0-9*#]?$/, {
+    message: 'DTMF_TERMINATOR must be one keypad key (0-9, *, #) or empty',
+  })
+  DTMF_TERMINATOR?: string;
+
+  @IsOptional()
+  @Min(100)
+  @IsInt()
+  DTMF_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  DTMF_MAX_DIGITS?: number;
+
+  // --- Agents, booking, call control ---
+  @IsOptional()
+  @IsString()
+  AGENTS_DIR?: string;
+
+  @IsOptional()
+  @IsString()
+  DEFAULT_AGENT_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  BOOKING_FILE?: string;
+
+  @IsOptional()
+  @Matches(/^\s*[\w-]+:\d+\s*(,\s*[\w-]+:\d+\s*)*$/, {
+    message:
+      'BOOKING_ROOMS must be "type:count" pairs, e.g. "standard:10,suite:2"',
+  })
+  BOOKING_ROOMS?: string;
+
+  // --- Call transfer ---
+  @IsOptional()
+  @IsIn(['cold', 'warm'])
+  TRANSFER_MODE?: string;
+
+  @IsOptional()
+  @Matches(E164, { message: 'TRANSFER_NUMBER must be an E.164 number' })
+  TRANSFER_NUMBER?: string;
+
+  @IsOptional()
+  @Matches(TRANSFER_TARGET, {
+    message: 'TRANSFER_TARGET must be an E.164 number or a sip: URI',
+  })
+  TRANSFER_TARGET?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  TRANSFER_QUEUE?: string;
+
+  @IsOptional()
+  @Matches(E164, { message: 'TRANSFER_CALLER_ID must be an E.164 number' })
+  TRANSFER_CALLER_ID?: string;
+
+  @IsOptional()
+  @Min(5)
+  @Max(600)
+  @IsInt()
+  TRANSFER_TIMEOUT_SEC?: number;
+
+  @IsOptional()
+  @IsString()
+  TRANSFER_KEYWORDS?: string;
+
+  @IsOptional()
+  @IsString()
+  TRANSFER_HANDOFF_TEXT?: string;
+
+  @IsOptional()
+  @IsString()
+  TRANSFER_FAILED_TEXT?: string;
+
+  @IsOptional()
+  @IsString()
+  TRANSFER_UNAVAILABLE_TEXT?: string;
+
+  @IsOptional()
+  @IsIn(['whisper', 'sms'])
+  TRANSFER_SUMMARY_VIA?: string;
+
+  // SMS summaries need a number to text when the target is a queue / SIP URI
+  @ValidateIf(
+    (env: EnvironmentVariables) =>
+      env.TRANSFER_SMS_TO !== undefined || needsSmsRecipient(env),
+  )
+  @Matches(E164, {
+    message:
+      'TRANSFER_SMS_TO must be an E.164 number (SMS summaries without a target number)',
+  })
+  TRANSFER_SMS_TO?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  TRANSFER_SUMMARY_TIMEOUT_MS?: number;
+
+  // --- Post-call analysis ---
+  @IsOptional()
+  @IsFlag()
+  ANALYSIS_ENABLED?: string;
+
+  @IsOptional()
+  @IsFlag()
+  ANALYSIS_PLAYGROUND?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  ANALYSIS_INTENTS?: string;
+
+  @IsOptional()
+  @IsString()
+  ANALYSIS_MODEL?: string;
+
+  @IsOptional()
+  @Min(50)
+  @IsInt()
+  ANALYSIS_MAX_TOKENS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @Max(5)
+  @IsInt()
+  ANALYSIS_MAX_ATTEMPTS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  ANALYSIS_MIN_CALLER_TURNS?: number;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  ANALYSIS_WEBHOOK_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  ANALYSIS_WEBHOOK_SECRET?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  ANALYSIS_WEBHOOK_TIMEOUT_MS?: number;
+
+  // --- Sessions + recordings ---
+  @IsOptional()
+  @IsString()
+  SESSIONS_DIR?: string;
+
+  @IsOptional()
+  @IsString()
+  RECORDINGS_DIR?: string;
+
+  @IsOptional()
+  @IsFlag()
+  RECORDING_MIXDOWN?: string;
+
+  @IsOptional()
+  @IsFlag()
+  RECORDING_SAVE_REPLIES?: string;
+
+  @IsOptional()
+  @IsIn(['local', 's3'])
+  RECORDINGS_BACKEND?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  S3_ENDPOINT?: string;
+
+  @IsOptional()
+  @IsString()
+  S3_REGION?: string;
+
+  @ValidateIf((env: EnvironmentVariables) => env.RECORDINGS_BACKEND === 's3')
+  @IsString()
+  @IsNotEmpty()
+  S3_BUCKET?: string;
+
+  @IsOptional()
+  @IsString()
+  S3_PREFIX?: string;
+
+  @ValidateIf((env: EnvironmentVariables) => env.RECORDINGS_BACKEND === 's3')
+  @IsString()
+  @IsNotEmpty()
+  S3_ACCESS_KEY_ID?: string;
+
+  @ValidateIf((env: EnvironmentVariables) => env.RECORDINGS_BACKEND === 's3')
+  @IsString()
+  @IsNotEmpty()
+  S3_SECRET_ACCESS_KEY?: string;
+
+  @IsOptional()
+  @IsFlag()
+  S3_FORCE_PATH_STYLE?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  RECORDING_MAX_AGE_DAYS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  RECORDING_MAX_TOTAL_MB?: number;
+
+  // --- Health + admin ---
+  @IsOptional()
+  @IsFlag()
+  HEALTH_CHECK_PROVIDERS?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  HEALTH_CHECK_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  ADMIN_API_KEY?: string;
+}
+
+/**
+ * ConfigModule `validate` hook.
+ * Input: raw environment (.env + process.env); empty values count as unset,
+ *        like the `||` defaults in configuration.ts
+ * Output: the environment unchanged; throws listing every invalid variable
+ */
+export function validateEnv(config: Record<string, unknown>) {
+  const set = Object.entries(config).filter(([, value]) => value !== '');
+  const env = plainToInstance(EnvironmentVariables, Object.fromEntries(set), {
+    enableImplicitConversion: true,
+  });
+  // One message per variable: the decorator closest to the property is checked first
+  const errors = validateSync(env, { stopAtFirstError: true });
+
+  if (errors.length) {
+    const problems = errors.flatMap((error) =>
+      Object.values(error.constraints ?? {}),
+    );
+    throw new Error(
+      `Invalid configuration (check the environment / .env):\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join('\n')}`,
+    );
+  }
+  return config;
+}
@@ -0,0 +1,72 @@
+import { ConversationHistory } from './conversation-history';
+
+describe('ConversationHistory', () => {
+  it('should include previous turns after the system prompt', () => {
+    const history = new ConversationHistory({ maxTurns: 10, maxTokens: 1000 });
+    history.addUser('I need a room for Friday');
+    history.addAssistant('Sure, for how many nights?');
+    history.addUser('Two nights, yes that date works');
+
+    expect(history.toMessages('system prompt')).toEqual([
+      { role: 'system', content: 'system prompt' },
+      { role: 'user', content: 'I need a room for Friday' },
+      { role: 'assistant', content: 'Sure, for how many nights?' },
+      { role: 'user', content: 'Two nights, yes that date works' },
+    ]);
+  });
+
+  it('should ignore empty turns', () => {
+    const history = new ConversationHistory({ maxTurns: 10, maxTokens: 1000 });
+    history.addUser('   ');
+    expect(history.getTurns()).toHaveLength(0);
+  });
+
+  it('should keep only the newest turns within maxTurns', () => {
+    const history = new ConversationHistory({ maxTurns: 2, maxTokens: 1000 });
+    history.addUser('one');
+    history.addAssistant('two');
+    history.addUser('three');
+
+    const messages = history.toMessages('sys');
+    expect(messages.map((m) => m.content)).toEqual(['sys', 'two', 'three']);
+  });
+
+  it('should trim by token budget but always keep the latest turn', () => {
+    const history = new ConversationHistory({ maxTurns: 10, maxTokens: 5 });
+    history.addUser('a'.repeat(40));
+    history.addAssistant('b'.repeat(40));
+
+    const messages = history.toMessages('sys');
+    expect(messages).toHaveLength(2);
+    expect(messages[1].content).toBe('b'.repeat(40));
+  });
+
+  it('should hand out overflow turns and prepend the summary', () => {
+    const history = new ConversationHistory({ maxTurns: 1, maxTokens: 1000 });
+    history.addUser('My name is Sara');
+    history.addAssistant('Nice to meet you, Sara');
+
+    const overflow = history.takeOverflow();
+    expect(overflow.map((t) => t.content)).toEqual(['My name is Sara']);
+    expect(history.getTurns()).toHaveLength(1);
+
+    history.setSummary('Caller is Sara.');
+    expect(history.toMessages('sys')[1]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation: Caller is Sara.',
+    });
+  });
+
+  it('should replace or add the heard part of an interrupted reply', () => {
+    const history = new ConversationHistory({ maxTurns: 10, maxTokens: 1000 });
+    history.addUser('Any rooms?');
+    history.replaceLastAssistant('We have rooms.');
+    expect(history.getTurns().map((t) => t.content)).toEqual([
+      'Any rooms?',
+      'We have rooms.',
+    ]);
+
+    history.replaceLastAssistant('');
+    expect(history.getTurns()).toHaveLength(1);
+  });
+});
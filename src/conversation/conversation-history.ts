@@ -0,0 +1,146 @@
+import { ChatMessage } from '../llm/llm.types';
+
+/**
+ * One spoken (or typed) turn of a conversation.
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  ts: string; // ISO timestamp when the turn was recorded
+}
+
+/**
+ * Budget limits applied when building the LLM prompt.
+ */
+export interface ConversationHistoryOptions {
+  maxTurns: number; // Max number of user/assistant turns sent to the LLM
+  maxTokens: number; // Approximate token budget for those turns
+}
+
+/**
+ * Rough token estimate (≈ 4 characters per token for English text).
+ * Good enough for budgeting, no tokenizer dependency needed.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Per-session conversation memory.
+ * - Accumulates user and assistant turns
+ * - Keeps the most recent turns within a turn/token budget
+ * - Older turns can be folded into a running summary
+ */
+export class ConversationHistory {
+  private turns: ConversationTurn[] = [];
+  private summary?: string;
+
+  constructor(private readonly options: ConversationHistoryOptions) {}
+
+  /**
+   * Record what the caller/user said.
+   */
+  addUser(content: string) {
+    this.push('user', content);
+  }
+
+  /**
+   * Record what the bot replied.
+   */
+  addAssistant(content: string) {
+    this.push('assistant', content);
+  }
+
+  /**
+   * Replace the latest assistant turn, e.g. with the part of the reply the
+   * caller actually heard before interrupting. Drops the turn if empty.
+   * If the reply was not recorded yet (still streaming), it is added.
+   */
+  replaceLastAssistant(content: string) {
+    const last = this.turns[this.turns.length - 1];
+    if (last?.role !== 'assistant') {
+      this.addAssistant(content);
+      return;
+    }
+
+    const text = content.trim();
+    if (text) last.content = text;
+    else this.turns.pop();
+  }
+
+  /**
+   * All turns still kept in memory (oldest first).
+   */
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Summary of older turns that no longer fit the budget (if any).
+   */
+  getSummary(): string | undefined {
+    return this.summary;
+  }
+
+  setSummary(summary: string) {
+    this.summary = summary.trim() || undefined;
+  }
+
+  /**
+   * Remove and return the oldest turns that exceed the budget.
+   * Used by ConversationService to summarize them before they are lost.
+   */
+  takeOverflow(): ConversationTurn[] {
+    const keep = this.countWithinBudget();
+    const overflow = this.turns.slice(0, this.turns.length - keep);
+    this.turns = this.turns.slice(this.turns.length - keep);
+    return overflow;
+  }
+
+  /**
+   * Build the chat messages for the LLM.
+   * Input: system prompt for the current agent
+   * Output: [system, (summary), ...recent turns] trimmed to the budget
+   */
+  toMessages(systemPrompt: string): ChatMessage[] {
+    const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+
+    if (this.summary) {
+      messages.push({
+        role: 'system',
+        content: `Summary of the earlier conversation: ${this.summary}`,
+      });
+    }
+
+    const keep = this.countWithinBudget();
+    for (const turn of this.turns.slice(this.turns.length - keep)) {
+      messages.push({ role: turn.role, content: turn.content });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Count how many of the newest turns fit into maxTurns / maxTokens.
+   * The latest turn is always kept, even if it alone exceeds the token budget.
+   */
+  private countWithinBudget(): number {
+    let tokens = 0;
+    let count = 0;
+
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      if (count >= this.options.maxTurns) break;
+      tokens += estimateTokens(this.turns[i].content);
+      if (count > 0 && tokens > this.options.maxTokens) break;
+      count++;
+    }
+
+    return count;
+  }
+
+  private push(role: ConversationTurn['role'], content: string) {
+    const text = content?.trim();
+    if (!text) return;
+    this.turns.push({ role, content: text, ts: new Date().toISOString() });
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LlmModule } from '../llm/llm.module';
+import { ConversationService } from './conversation.service';
+
+@Module({
+  imports: [LlmModule],
+  providers: [ConversationService],
+  exports: [ConversationService],
+})
+export class ConversationModule {}
@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from '../llm/llm.service';
+import { AgentDtmfSettings } from '../agents/agent.types';
+import { ConversationHistory, ConversationTurn } from './conversation-history';
+import { DtmfCollector } from './dtmf-collector';
+import { InactivityMonitor } from './inactivity-monitor';
+import { TurnManager } from './turn-manager';
+import {
+  ScheduledTurn,
+  TURN_POLICIES,
+  TurnPolicy,
+  TurnScheduler,
+} from './turn-scheduler';
+import { errorMessage } from '../utils/error.util';
+
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmService: LlmService,
+  ) {}
+
+  /**
+   * Create an empty history for a new call / playground session
+   * using the configured turn and token budget.
+   */
+  createHistory(): ConversationHistory {
+    return new ConversationHistory({
+      maxTurns: this.configService.get<number>('conversation.maxTurns') ?? 20,
+      maxTokens:
+        this.configService.get<number>('conversation.maxTokens') ?? 2000,
+    });
+  }
+
+  /**
+   * Create the end-of-turn detector for a new call / playground session.
+   * Input: sample rate of the PCM16 audio passed to onAudio()
+   */
+  createTurnManager(sampleRate: number): TurnManager {
+    const get = <T>(key: string) => this.configService.get<T>(`turn.${key}`);
+    return new TurnManager({
+      silenceMs: get<number>('silenceMs') ?? 500,
+      maxWaitMs: get<number>('maxWaitMs') ?? 2500,
+      vad:
+        get<boolean>('vad.enabled') === false
+          ? undefined
+          : {
+              sampleRate,
+              thresholdDb: get<number>('vad.thresholdDb'),
+              minSpeechMs: get<number>('vad.minSpeechMs'),
+              hangoverMs: get<number>('vad.hangoverMs'),
+            },
+    });
+  }
+
+  /**
+   * Create the reply scheduler for a new call / playground session
+   * using the configured overlap policy (`turn.policy`).
+   * Input: runner that generates + speaks the reply of one turn
+   */
+  createTurnScheduler(
+    run: (turn: ScheduledTurn) => Promise<void>,
+  ): TurnScheduler {
+    let policy = this.configService.get<TurnPolicy>('turn.policy') ?? 'merge';
+    if (!TURN_POLICIES.includes(policy)) {
+      this.logger.warn(`Unknown turn policy "${policy}", using "merge"`);
+      policy = 'merge';
+    }
+    return new TurnScheduler(policy, run);
+  }
+
+  /**
+   * Create the silent-caller / call-length watchdog for a new call /
+   * playground session (`inactivity.*`).
+   * Input: true while the bot is replying (pauses the silence clock)
+   */
+  createInactivityMonitor(isBusy: () => boolean): InactivityMonitor {
+    const get = <T>(key: string) =>
+      this.configService.get<T>(`inactivity.${key}`);
+    return new InactivityMonitor(
+      {
+        repromptMs: get<number>('repromptMs') ?? 10000,
+        maxReprompts: get<number>('maxReprompts') ?? 2,
+        maxDurationMs: (get<number>('maxCallDurationSec') ?? 1800) * 1000,
+      },
+      isBusy,
+    );
+  }
+
+  /**
+   * Create the keypad input collector for a new call (`dtmf.*`).
+   * Input: the agent's overrides of terminator / timeout / max digits
+   */
+  createDtmfCollector(settings: AgentDtmfSettings = {}): DtmfCollector {
+    const get = <T>(key: string) => this.configService.get<T>(`dtmf.${key}`);
+    return new DtmfCollector({
+      terminator: settings.terminator ?? get<string>('terminator') ?? '#',
+      timeoutMs: settings.timeoutMs ?? get<number>('timeoutMs') ?? 3000,
+      maxDigits: settings.maxDigits ?? get<number>('maxDigits') ?? 20,
+    });
+  }
+
+  /**
+   * Move turns that no longer fit the budget out of the history.
+   * - If summarization is enabled, folds them into the running summary
+   * - Otherwise they are simply dropped
+   * Call it after each reply; it never throws.
+   */
+  async compact(history: ConversationHistory): Promise<void> {
+    const overflow = history.takeOverflow();
+    if (!overflow.length) return;
+
+    if (!this.configService.get<boolean>('conversation.summarize')) {
+      this.logger.debug(`Dropped ${overflow.length} old turns from history`);
+      return;
+    }
+
+    try {
+      const summary = await this.llmService.generateResponse([
+        {
+          role: 'system',
+          content:
+            'Summarize this phone conversation between a caller and an assistant in at most 3 sentences. Keep names, dates, numbers and any decisions.',
+        },
+        {
+          role: 'user',
+          content: this.formatForSummary(history.getSummary(), overflow),
+        },
+      ]);
+      history.setSummary(summary);
+      this.logger.debug(`Summarized ${overflow.length} old turns`);
+    } catch (e: unknown) {
+      this.logger.warn(`History summarization failed: ${errorMessage(e)}`);
+    }
+  }
+
+  /**
+   * Short summary of the whole conversation for a human agent taking over
+   * the call (warm transfer).
+   * Output: undefined if there is nothing to summarize, the LLM failed or
+   *         took longer than timeoutMs; it never throws
+   */
+  async summarizeForHandoff(
+    history: ConversationHistory,
+    timeoutMs: number,
+  ): Promise<string | undefined> {
+    const turns = history.getTurns();
+    if (!turns.length && !history.getSummary()) return;
+
+    try {
+      const summary = await this.llmService.generateResponse(
+        [
+          {
+            role: 'system',
+            content:
+              'A caller is being transferred from an assistant to a human agent. Summarize the call for the agent in at most 2 short sentences: who is calling, what they want and anything already done. Keep names, dates and numbers.',
+          },
+          {
+            role: 'user',
+            content: this.formatForSummary(history.getSummary(), turns),
+          },
+        ],
+        {
+          maxTokens: 120,
+          signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined,
+        },
+      );
+      return summary.trim() || undefined;
+    } catch (e: unknown) {
+      this.logger.warn(`Hand-off summary failed: ${errorMessage(e)}`);
+      return;
+    }
+  }
+
+  private formatForSummary(
+    previousSummary: string | undefined,
+    turns: ConversationTurn[],
+  ): string {
+    const lines = turns.map(
+      (t) => `${t.role === 'user' ? 'Caller' : 'Assistant'}: ${t.content}`,
+    );
+    if (previousSummary) lines.unshift(`Earlier summary: ${previousSummary}`);
+    return lines.join('\n');
+  }
+}
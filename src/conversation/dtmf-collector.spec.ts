@@ -0,0 +1,64 @@
+import { DtmfCollector, DtmfInput } from './dtmf-collector';
+
+describe('DtmfCollector', () => {
+  let inputs: DtmfInput[];
+
+  const create = (maxDigits = 4) => {
+    inputs = [];
+    const collector = new DtmfCollector({
+      terminator: '#',
+      timeoutMs: 3000,
+      maxDigits,
+    });
+    collector.on('input', (input) => inputs.push(input));
+    return collector;
+  };
+
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('ends the input on the terminator key', () => {
+    const collector = create();
+
+    for (const digit of '12#') collector.push(digit);
+
+    expect(inputs).toEqual([{ digits: '12', reason: 'terminator' }]);
+    expect(collector.pending).toBe('');
+  });
+
+  it('ends the input after the timeout, restarted by every key', () => {
+    const collector = create();
+
+    collector.push('0');
+    jest.advanceTimersByTime(2000);
+    collector.push('*');
+    jest.advanceTimersByTime(2000);
+    expect(inputs).toEqual([]);
+    expect(collector.pending).toBe('0*');
+
+    jest.advanceTimersByTime(1000);
+    expect(inputs).toEqual([{ digits: '0*', reason: 'timeout' }]);
+  });
+
+  it('ends the input at maxDigits and ignores empty or invalid input', () => {
+    const collector = create(3);
+    const digits: string[] = [];
+    collector.on('digit', (digit) => digits.push(digit));
+
+    for (const digit of ['#', 'A', '4', '8', '2', '1']) collector.push(digit);
+
+    expect(inputs).toEqual([{ digits: '482', reason: 'max-digits' }]);
+    expect(digits).toEqual(['#', '4', '8', '2', '1']);
+    expect(collector.pending).toBe('1');
+  });
+
+  it('drops pending keys on dispose', () => {
+    const collector = create();
+
+    collector.push('7');
+    collector.dispose();
+    jest.advanceTimersByTime(5000);
+
+    expect(inputs).toEqual([]);
+  });
+});
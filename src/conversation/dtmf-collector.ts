@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+
+// Keys of a phone keypad
+const DTMF_DIGIT = /^[0-9*#]$/;
+
+/**
+ * Keypad input settings (see the `dtmf.*` configuration).
+ */
+export interface DtmfOptions {
+  terminator: string; // Key that ends the input right away (not part of it); '' = none
+  timeoutMs: number; // Input ends this long after the last key
+  maxDigits: number; // Input ends once it has this many keys; 0 = unlimited
+}
+
+export interface DtmfInput {
+  digits: string; // e.g. "48213"
+  reason: 'terminator' | 'timeout' | 'max-digits';
+}
+
+export interface DtmfEventMap {
+  digit: [string]; // Every key as it is pressed
+  input: [DtmfInput]; // Complete input (never empty)
+}
+
+/**
+ * Joins the keys a caller presses into one input.
+ * - Input ends on the terminator key, after timeoutMs without a key or
+ *   once it has maxDigits keys
+ * - The terminator alone (nothing entered) is ignored
+ */
+export class DtmfCollector extends EventEmitter<DtmfEventMap> {
+  private digits = '';
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly options: DtmfOptions) {
+    super();
+  }
+
+  /**
+   * Keys entered so far (input not complete yet).
+   */
+  get pending(): string {
+    return this.digits;
+  }
+
+  /**
+   * One key pressed (Twilio `dtmf` event). Other characters are ignored.
+   */
+  push(digit: string) {
+    if (!DTMF_DIGIT.test(digit)) return;
+    this.emit('digit', digit);
+
+    if (digit === this.options.terminator) {
+      this.finish('terminator');
+      return;
+    }
+    this.digits += digit;
+    if (
+      this.options.maxDigits > 0 &&
+      this.digits.length >= this.options.maxDigits
+    ) {
+      this.finish('max-digits');
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => this.finish('timeout'),
+      this.options.timeoutMs,
+    );
+  }
+
+  /**
+   * Drop pending keys; no more events.
+   */
+  dispose() {
+    clearTimeout(this.timer);
+    this.digits = '';
+    this.removeAllListeners();
+  }
+
+  private finish(reason: DtmfInput['reason']) {
+    clearTimeout(this.timer);
+    const digits = this.digits;
+    this.digits = '';
+    if (digits) this.emit('input', { digits, reason });
+  }
+}
@@ -0,0 +1,74 @@
+import { InactivityMonitor } from './inactivity-monitor';
+
+describe('InactivityMonitor', () => {
+  let events: string[];
+  let busy: boolean;
+
+  const create = (maxDurationMs = 0) => {
+    busy = false;
+    events = [];
+    const monitor = new InactivityMonitor(
+      { repromptMs: 1000, maxReprompts: 2, maxDurationMs },
+      () => busy,
+    );
+    monitor.on('reprompt', ({ count }) => events.push(`reprompt:${count}`));
+    monitor.on('idle', () => events.push('idle'));
+    monitor.on('max-duration', () => events.push('max-duration'));
+    monitor.start();
+    return monitor;
+  };
+
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('reprompts a silent caller, then reports idle once', () => {
+    create();
+
+    jest.advanceTimersByTime(1000);
+    expect(events).toEqual(['reprompt:1']);
+
+    jest.advanceTimersByTime(10000);
+    expect(events).toEqual(['reprompt:1', 'reprompt:2', 'idle']);
+  });
+
+  it('starts over when the caller speaks', () => {
+    const monitor = create();
+
+    jest.advanceTimersByTime(1000);
+    jest.advanceTimersByTime(900);
+    monitor.activity();
+    jest.advanceTimersByTime(900);
+    expect(events).toEqual(['reprompt:1']);
+
+    jest.advanceTimersByTime(100);
+    expect(events).toEqual(['reprompt:1', 'reprompt:1']);
+  });
+
+  it('counts silence only after the bot stopped talking', () => {
+    create();
+    busy = true;
+
+    jest.advanceTimersByTime(5000);
+    expect(events).toEqual([]);
+
+    busy = false;
+    jest.advanceTimersByTime(250); // Noticed at the next check
+    jest.advanceTimersByTime(900);
+    expect(events).toEqual([]);
+    jest.advanceTimersByTime(100);
+    expect(events).toEqual(['reprompt:1']);
+  });
+
+  it('enforces the maximum duration and stops on dispose', () => {
+    const monitor = create(2500);
+    monitor.on('reprompt', () => monitor.activity()); // Chatty caller
+
+    jest.advanceTimersByTime(2500);
+    expect(events).toContain('max-duration');
+
+    monitor.dispose();
+    jest.advanceTimersByTime(60000);
+    expect(events.filter((e) => e === 'max-duration')).toHaveLength(1);
+    expect(events).not.toContain('idle');
+  });
+});
@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+
+// How often a busy bot is checked again
+const BUSY_POLL_MS = 250;
+
+/**
+ * Inactivity settings (see the `inactivity.*` configuration).
+ */
+export interface InactivityOptions {
+  repromptMs: number; // Caller silence before each reprompt (and before giving up)
+  maxReprompts: number; // Reprompts before `idle`; 0 → `idle` after the first interval
+  maxDurationMs: number; // Session length limit; 0 = unlimited
+}
+
+export interface InactivityEventMap {
+  reprompt: [{ count: number }]; // count = 1 for the first reprompt
+  idle: []; // Caller stayed silent through every reprompt
+  'max-duration': [];
+}
+
+/**
+ * Watches a session for a silent caller.
+ * - The silence clock runs only while the bot is quiet (isBusy() false),
+ *   so a long reply never counts as caller silence
+ * - After repromptMs of silence: `reprompt`, up to maxReprompts times,
+ *   then `idle` once (the monitor stops)
+ * - activity() (caller spoke) resets the clock and the reprompt count
+ * - `max-duration` fires once maxDurationMs after start(), whatever happens
+ */
+export class InactivityMonitor extends EventEmitter<InactivityEventMap> {
+  private reprompts = 0;
+  private silenceTimer?: NodeJS.Timeout;
+  private durationTimer?: NodeJS.Timeout;
+  private stopped = true;
+  private waitingForBot = false; // Silence restarts once the bot is quiet
+
+  constructor(
+    private readonly options: InactivityOptions,
+    private readonly isBusy: () => boolean = () => false,
+  ) {
+    super();
+  }
+
+  /**
+   * Start both clocks (call answered / session registered).
+   */
+  start() {
+    this.stopped = false;
+    this.schedule();
+    if (this.options.maxDurationMs > 0) {
+      this.durationTimer = setTimeout(() => {
+        if (!this.stopped) this.emit('max-duration');
+      }, this.options.maxDurationMs);
+    }
+  }
+
+  /**
+   * The caller spoke (or typed) → silence starts over.
+   */
+  activity() {
+    if (this.stopped) return;
+    this.reprompts = 0;
+    this.waitingForBot = false;
+    this.schedule();
+  }
+
+  /**
+   * Stop both clocks; no more events.
+   */
+  dispose() {
+    this.stopped = true;
+    clearTimeout(this.silenceTimer);
+    clearTimeout(this.durationTimer);
+    this.removeAllListeners();
+  }
+
+  private schedule(delayMs = this.options.repromptMs) {
+    clearTimeout(this.silenceTimer);
+    if (this.options.repromptMs <= 0) return;
+    this.silenceTimer = setTimeout(() => this.onSilence(), delayMs);
+  }
+
+  private onSilence() {
+    if (this.stopped) return;
+
+    // Bot is talking or thinking → the caller's silence starts after it
+    if (this.isBusy()) {
+      this.waitingForBot = true;
+      this.schedule(BUSY_POLL_MS);
+      return;
+    }
+    if (this.waitingForBot) {
+      this.waitingForBot = false;
+      this.schedule();
+      return;
+    }
+
+    if (this.reprompts < this.options.maxReprompts) {
+      this.reprompts++;
+      this.schedule();
+      this.emit('reprompt', { count: this.reprompts });
+      return;
+    }
+
+    clearTimeout(this.silenceTimer);
+    this.emit('idle');
+  }
+}
@@ -0,0 +1,168 @@
+import { SttTranscript } from '../stt/stt.types';
+import { TurnManager, UserTurn } from './turn-manager';
+
+const RATE = 8000;
+
+const speech = (ms: number) => {
+  const samples = new Int16Array((RATE * ms) / 1000);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(8000 * Math.sin((2 * Math.PI * 300 * i) / RATE));
+  }
+  return Buffer.from(samples.buffer);
+};
+const silence = (ms: number) => Buffer.alloc(((RATE * ms) / 1000) * 2);
+
+const final = (
+  text: string,
+  extra: Partial<SttTranscript> = {},
+): SttTranscript => ({
+  text,
+  isFinal: true,
+  speechFinal: false,
+  ...extra,
+});
+
+describe('TurnManager', () => {
+  let turns: UserTurn[];
+
+  const create = (vad = true) => {
+    const manager = new TurnManager({
+      silenceMs: 500,
+      maxWaitMs: 3000,
+      vad: vad ? { sampleRate: RATE } : undefined,
+    });
+    turns = [];
+    manager.on('turn', (turn) => turns.push(turn));
+    return manager;
+  };
+
+  // Real-time audio: advance the clock with every chunk
+  const play = (manager: TurnManager, audio: Buffer) => {
+    const ms = (audio.length / 2 / RATE) * 1000;
+    for (let at = 0; at < ms; at += 20) {
+      jest.advanceTimersByTime(20);
+      manager.onAudio(
+        audio.subarray((at * RATE * 2) / 1000, ((at + 20) * RATE * 2) / 1000),
+      );
+    }
+  };
+
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('joins final fragments into one turn after speech_final and VAD silence', () => {
+    const manager = create();
+
+    play(manager, speech(600));
+    manager.onTranscript(final('I would like', { start: 0, duration: 0.6 }));
+    play(manager, silence(200));
+    play(manager, speech(600));
+    manager.onTranscript(
+      final('to book a room', { start: 0.8, duration: 0.6, speechFinal: true }),
+    );
+    expect(turns).toHaveLength(0);
+
+    play(manager, silence(400));
+    expect(turns).toHaveLength(0);
+    play(manager, silence(200));
+
+    expect(turns).toEqual([
+      expect.objectContaining({
+        text: 'I would like to book a room',
+        durationMs: 1400,
+        reason: 'end-of-speech',
+      }),
+    ]);
+    expect(turns[0].fragments).toHaveLength(2);
+  });
+
+  it('keeps waiting when the caller speaks again after speech_final', () => {
+    const manager = create();
+
+    play(manager, speech(400));
+    manager.onTranscript(final('My name is', { speechFinal: true }));
+    play(manager, silence(300));
+    play(manager, speech(500));
+    play(manager, silence(600));
+    expect(turns).toHaveLength(0);
+
+    manager.onTranscript(final('John Smith'));
+    manager.onUtteranceEnd();
+    expect(turns.map((t) => t.text)).toEqual(['My name is John Smith']);
+  });
+
+  it('uses an empty speech_final as the end signal', () => {
+    const manager = create();
+
+    play(manager, speech(400));
+    manager.onTranscript(final('Hello'));
+    play(manager, silence(600));
+    expect(turns).toHaveLength(0);
+
+    manager.onTranscript(final('', { speechFinal: true }));
+    expect(turns.map((t) => t.text)).toEqual(['Hello']);
+  });
+
+  it('ends the turn when the audio stream stalls', () => {
+    const manager = create();
+
+    play(manager, speech(400));
+    play(manager, silence(300));
+    manager.onTranscript(final('Yes', { speechFinal: true }));
+
+    jest.advanceTimersByTime(199);
+    expect(turns).toHaveLength(0);
+    jest.advanceTimersByTime(1);
+    expect(turns).toHaveLength(1);
+  });
+
+  it('ends the turn after maxWaitMs without an end signal', () => {
+    const manager = create();
+
+    manager.onTranscript(final('Hello'));
+    manager.onTranscript({ ...final('there'), isFinal: false });
+    jest.advanceTimersByTime(2999);
+    expect(turns).toHaveLength(0);
+
+    jest.advanceTimersByTime(1);
+    expect(turns).toEqual([
+      expect.objectContaining({ text: 'Hello', reason: 'timeout' }),
+    ]);
+  });
+
+  it('relies on STT events only without VAD', () => {
+    const manager = create(false);
+
+    manager.onTranscript(final('Two nights'));
+    expect(turns).toHaveLength(0);
+    manager.onTranscript(final('please', { speechFinal: true }));
+
+    expect(turns.map((t) => t.text)).toEqual(['Two nights please']);
+  });
+
+  it('flushes the pending fragments as a turn', () => {
+    const manager = create();
+
+    manager.onTranscript(final('Thanks, bye'));
+    manager.flush();
+    manager.flush();
+
+    expect(turns).toEqual([
+      expect.objectContaining({ text: 'Thanks, bye', reason: 'flushed' }),
+    ]);
+  });
+
+  it('emits nothing for end signals without text, reset or dispose', () => {
+    const manager = create(false);
+
+    manager.onUtteranceEnd();
+    manager.onTranscript(final('Hello'));
+    manager.reset();
+    manager.onUtteranceEnd();
+    manager.onTranscript(final('Bye'));
+    manager.dispose();
+    jest.advanceTimersByTime(10000);
+
+    expect(turns).toHaveLength(0);
+  });
+});
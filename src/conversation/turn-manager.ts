@@ -0,0 +1,178 @@
+import { EventEmitter } from 'events';
+import { EnergyVad, EnergyVadOptions } from '../audio/energy-vad';
+import { SttTranscript } from '../stt/stt.types';
+
+/**
+ * End-of-turn settings (see the `turn.*` configuration).
+ */
+export interface TurnManagerOptions {
+  silenceMs: number; // Caller silence (VAD) required after the STT end-of-speech signal
+  maxWaitMs: number; // End the turn this long after the last fragment, even without a signal
+  vad?: EnergyVadOptions; // Unset → end of turn from STT events only
+}
+
+/**
+ * One complete caller turn, ready for the LLM.
+ */
+export interface UserTurn {
+  text: string; // All final fragments joined
+  fragments: SttTranscript[];
+  durationMs?: number; // First word → last word (if the provider sent timings)
+  reason: 'end-of-speech' | 'timeout' | 'flushed'; // flushed = session ended mid-turn
+}
+
+export interface TurnManagerEventMap {
+  turn: [UserTurn];
+}
+
+/**
+ * Decides when the caller has finished speaking.
+ * - Collects final transcript fragments (a caller pausing mid-sentence
+ *   produces several of them)
+ * - The turn ends once the STT reported the end of the utterance
+ *   (`speech_final` or `utterance-end`) AND the in-process VAD has heard
+ *   silenceMs of silence on the inbound audio
+ * - Speech resuming (VAD or interim text) cancels a pending end signal
+ * - maxWaitMs after the last fragment the turn ends anyway (lost events,
+ *   constant background noise)
+ * Emits `turn` once per caller turn with all fragments joined.
+ */
+export class TurnManager extends EventEmitter<TurnManagerEventMap> {
+  private readonly vad?: EnergyVad;
+  private fragments: SttTranscript[] = [];
+  private endOfSpeech = false; // STT reported the end of the utterance
+  private lastFragmentAt = 0;
+  private lastAudioAt = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly options: TurnManagerOptions) {
+    super();
+    if (options.vad) this.vad = new EnergyVad(options.vad);
+  }
+
+  /**
+   * True while fragments wait for the end of the turn.
+   */
+  get pending(): boolean {
+    return this.fragments.length > 0;
+  }
+
+  /**
+   * Feed inbound caller audio (mono PCM16 at the VAD sample rate).
+   */
+  onAudio(pcm: Buffer) {
+    if (!this.vad) return;
+    this.lastAudioAt = Date.now();
+    if (this.vad.process(pcm) === 'start') this.endOfSpeech = false;
+    this.check();
+  }
+
+  /**
+   * Feed an STT transcript (interim or final).
+   */
+  onTranscript(tr: SttTranscript) {
+    const hasText = !!tr.text.trim();
+
+    if (!tr.isFinal) {
+      // Caller is still talking → wait for the next end signal
+      if (hasText && this.pending) this.endOfSpeech = false;
+      return;
+    }
+
+    if (hasText) {
+      this.fragments.push(tr);
+      this.lastFragmentAt = Date.now();
+      this.endOfSpeech = false;
+    }
+    if (tr.speechFinal) this.endOfSpeech = true;
+    this.check();
+  }
+
+  /**
+   * STT noticed a gap after the last word (Deepgram `UtteranceEnd`).
+   */
+  onUtteranceEnd() {
+    this.endOfSpeech = true;
+    this.check();
+  }
+
+  /**
+   * End the pending turn right away (session ending: the last words still
+   * count). No-op without fragments.
+   */
+  flush() {
+    if (this.pending) this.commit('flushed');
+  }
+
+  /**
+   * Drop collected fragments without emitting a turn.
+   */
+  reset() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.fragments = [];
+    this.endOfSpeech = false;
+  }
+
+  /**
+   * Stop all timers (session ended).
+   */
+  dispose() {
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Caller silence in ms: VAD silence in the audio plus the time since the
+   * last chunk arrived (covers a stalled stream). Infinity without VAD.
+   */
+  private silenceMs(): number {
+    if (!this.vad) return Infinity;
+    const inAudio = this.vad.speaking ? 0 : this.vad.silenceMs;
+    return inAudio + (Date.now() - this.lastAudioAt);
+  }
+
+  private check() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.pending) return;
+
+    const silence = this.silenceMs();
+    if (this.endOfSpeech && silence >= this.options.silenceMs) {
+      this.commit('end-of-speech');
+      return;
+    }
+
+    const waited = Date.now() - this.lastFragmentAt;
+    if (waited >= this.options.maxWaitMs) {
+      this.commit('timeout');
+      return;
+    }
+
+    // Re-check when either condition can be met without new input
+    let delay = this.options.maxWaitMs - waited;
+    if (this.endOfSpeech) {
+      delay = Math.min(delay, this.options.silenceMs - silence);
+    }
+    this.timer = setTimeout(() => this.check(), Math.max(1, delay));
+  }
+
+  private commit(reason: UserTurn['reason']) {
+    const fragments = this.fragments;
+    this.reset();
+
+    const first = fragments[0];
+    const last = fragments[fragments.length - 1];
+    const durationMs =
+      first.start !== undefined && last.start !== undefined
+        ? Math.round((last.start + (last.duration ?? 0) - first.start) * 1000)
+        : undefined;
+
+    this.emit('turn', {
+      text: fragments.map((f) => f.text.trim()).join(' '),
+      fragments,
+      durationMs,
+      reason,
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { ScheduledTurn, TurnPolicy, TurnScheduler } from './turn-scheduler';
+
+// Runner whose replies finish when the test says so (or when cancelled)
+const createRunner = () => {
+  const started: ScheduledTurn[] = [];
+  const finish = new Map<number, () => void>();
+  const run = (turn: ScheduledTurn) => {
+    started.push(turn);
+    return new Promise<void>((resolve, reject) => {
+      finish.set(turn.id, resolve);
+      turn.abort.signal.addEventListener('abort', () =>
+        reject(new Error('aborted')),
+      );
+    });
+  };
+  return { started, finish, run };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('TurnScheduler', () => {
+  let runner: ReturnType<typeof createRunner>;
+  let events: string[];
+
+  const create = (policy: TurnPolicy) => {
+    runner = createRunner();
+    events = [];
+    const scheduler = new TurnScheduler(policy, runner.run);
+    scheduler.on('queued', (t) => events.push(`queued:${t.id}`));
+    scheduler.on('merged', ({ turn, text }) =>
+      events.push(`merged:${turn.id}:${text}`),
+    );
+    scheduler.on('cancelled', ({ turn, reason }) =>
+      events.push(`cancelled:${turn.id}:${reason}`),
+    );
+    return scheduler;
+  };
+
+  it('queue: answers turns one after another', async () => {
+    const scheduler = create('queue');
+
+    scheduler.submit('first');
+    scheduler.submit('second');
+    expect(runner.started.map((t) => t.text)).toEqual(['first']);
+    expect(scheduler.queued).toHaveLength(1);
+
+    runner.finish.get(1)!();
+    await flush();
+
+    expect(runner.started.map((t) => t.text)).toEqual(['first', 'second']);
+    expect(events).toEqual(['queued:2']);
+  });
+
+  it('merge: joins waiting turns and replaces a reply without output', async () => {
+    const scheduler = create('merge');
+
+    scheduler.submit('I need a room');
+    scheduler.submit('for two nights');
+    scheduler.submit('from Friday');
+
+    expect(runner.started[0].abort.signal.aborted).toBe(true);
+    expect(events).toEqual([
+      'cancelled:1:merged',
+      'queued:2',
+      'merged:2:for two nights',
+      'merged:2:from Friday',
+    ]);
+
+    await flush();
+    expect(runner.started.map((t) => t.text)).toEqual([
+      'I need a room',
+      'for two nights from Friday',
+    ]);
+  });
+
+  it('merge: queues behind a reply that already has output', () => {
+    const scheduler = create('merge');
+
+    scheduler.submit('first')!.hasOutput = true;
+    scheduler.submit('second');
+
+    expect(runner.started[0].abort.signal.aborted).toBe(false);
+    expect(events).toEqual(['queued:2']);
+  });
+
+  it('restart: cancels the running reply and joins the waiting turn', async () => {
+    const scheduler = create('restart');
+
+    scheduler.submit('first')!.hasOutput = true;
+    scheduler.submit('second');
+    scheduler.submit('third');
+
+    expect(events).toEqual([
+      'cancelled:1:restarted',
+      'queued:2',
+      'merged:2:third',
+    ]);
+
+    await flush();
+    expect(runner.started.map((t) => t.text)).toEqual([
+      'first',
+      'second third',
+    ]);
+  });
+
+  it('cancels everything on dispose and ignores later turns', async () => {
+    const scheduler = create('queue');
+
+    scheduler.submit('first');
+    scheduler.submit('second');
+    const queued = scheduler.queued[0];
+    scheduler.dispose();
+
+    expect(events).toEqual([
+      'queued:2',
+      'cancelled:2:ended',
+      'cancelled:1:ended',
+    ]);
+    expect(queued.abort.signal.aborted).toBe(true);
+    expect(scheduler.submit('third')).toBeUndefined();
+
+    await flush();
+    expect(runner.started).toHaveLength(1);
+    expect(scheduler.current).toBeUndefined();
+  });
+});
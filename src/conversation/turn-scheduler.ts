@@ -0,0 +1,173 @@
+import { EventEmitter } from 'events';
+
+/**
+ * What happens to a user turn that arrives while a reply is in progress.
+ * - queue: answer it after the current reply
+ * - merge: join the turn that is waiting; if the current reply has no
+ *   output yet, cancel it and answer both together; else queue
+ * - restart: cancel the current reply and answer the new turn right away
+ *   (joined with a turn that is already waiting)
+ */
+export type TurnPolicy = 'queue' | 'merge' | 'restart';
+
+export const TURN_POLICIES: TurnPolicy[] = ['queue', 'merge', 'restart'];
+
+/**
+ * One user turn and the bot reply generated for it.
+ */
+export interface ScheduledTurn {
+  id: number;
+  text: string; // User text this reply answers
+  abort: AbortController; // Aborted when the turn is cancelled → pass the signal to LLM / TTS
+  hasOutput: boolean; // Set by the runner once the reply was committed or audio was sent
+  submittedAt: number; // When the user turn (its last merged part) ended
+}
+
+export interface TurnSchedulerEventMap {
+  started: [ScheduledTurn];
+  queued: [ScheduledTurn];
+  merged: [{ turn: ScheduledTurn; text: string }]; // text = what was added to turn
+  cancelled: [{ turn: ScheduledTurn; reason: string }];
+  finished: [ScheduledTurn];
+}
+
+/**
+ * Runs the replies of one session one at a time.
+ * - submit() hands over each complete user turn, the policy decides
+ *   whether it waits, is merged or replaces the running reply
+ * - A cancelled reply is aborted through its AbortController; the next
+ *   turn starts only once the runner of the cancelled one has returned
+ * - The runner adds turn.text to the conversation when it starts, so the
+ *   text of a cancelled reply stays in the history and is answered by the
+ *   next one
+ */
+export class TurnScheduler extends EventEmitter<TurnSchedulerEventMap> {
+  private counter = 0;
+  private active?: ScheduledTurn;
+  private waiting: ScheduledTurn[] = [];
+  private disposed = false;
+
+  constructor(
+    private readonly policy: TurnPolicy,
+    private readonly run: (turn: ScheduledTurn) => Promise<void>,
+  ) {
+    super();
+  }
+
+  /**
+   * Reply in progress (including one that is being cancelled).
+   */
+  get current(): ScheduledTurn | undefined {
+    return this.active;
+  }
+
+  /**
+   * Turns waiting for the current reply.
+   */
+  get queued(): readonly ScheduledTurn[] {
+    return this.waiting;
+  }
+
+  /**
+   * Schedule a reply to a complete user turn.
+   * Output: the turn that will answer the text (may be an existing, merged one)
+   */
+  submit(text: string): ScheduledTurn | undefined {
+    if (this.disposed) return undefined;
+
+    if (!this.active) {
+      const turn = this.create(text);
+      this.start(turn);
+      return turn;
+    }
+
+    const pending = this.waiting[this.waiting.length - 1];
+
+    if (this.policy === 'restart') {
+      this.cancelActive('restarted');
+      // A turn already waits for the cancelled reply → answer both with it
+      return pending
+        ? this.merge(pending, text)
+        : this.enqueue(this.create(text));
+    }
+
+    if (this.policy === 'merge') {
+      if (pending) return this.merge(pending, text);
+      if (!this.active.hasOutput && !this.active.abort.signal.aborted) {
+        this.cancelActive('merged');
+        const turn = this.enqueue(this.create(text));
+        this.emit('merged', { turn, text });
+        return turn;
+      }
+    }
+
+    return this.enqueue(this.create(text));
+  }
+
+  /**
+   * Cancel the current reply and everything waiting (e.g. session ended).
+   */
+  cancelAll(reason: string) {
+    const waiting = this.waiting;
+    this.waiting = [];
+    for (const turn of waiting) {
+      turn.abort.abort();
+      this.emit('cancelled', { turn, reason });
+    }
+    this.cancelActive(reason);
+  }
+
+  /**
+   * Cancel everything and stop accepting turns.
+   */
+  dispose() {
+    this.cancelAll('ended');
+    this.disposed = true;
+    this.removeAllListeners();
+  }
+
+  private create(text: string): ScheduledTurn {
+    return {
+      id: ++this.counter,
+      text,
+      abort: new AbortController(),
+      hasOutput: false,
+      submittedAt: Date.now(),
+    };
+  }
+
+  private merge(turn: ScheduledTurn, text: string): ScheduledTurn {
+    turn.text = `${turn.text} ${text}`;
+    turn.submittedAt = Date.now();
+    this.emit('merged', { turn, text });
+    return turn;
+  }
+
+  private enqueue(turn: ScheduledTurn): ScheduledTurn {
+    this.waiting.push(turn);
+    this.emit('queued', turn);
+    return turn;
+  }
+
+  private cancelActive(reason: string) {
+    const turn = this.active;
+    if (!turn || turn.abort.signal.aborted) return;
+    turn.abort.abort();
+    this.emit('cancelled', { turn, reason });
+  }
+
+  private start(turn: ScheduledTurn) {
+    this.active = turn;
+    this.emit('started', turn);
+
+    // The runner reports its own errors; a rejection must not stall the queue
+    this.run(turn)
+      .catch(() => undefined)
+      .finally(() => {
+        this.active = undefined;
+        this.emit('finished', turn);
+        const next = this.waiting.shift();
+        if (next && !this.disposed) this.start(next);
+      });
+  }
+}
@@ -1,8 +0,0 @@
-import { Module } from '@nestjs/common';
-import { DeepgramService } from './deepgram.service';
-
-@Module({
-  providers: [DeepgramService],
-  exports: [DeepgramService],
-})
-export class DeepgramModule {}
\ No newline at end of file
@@ -1,15 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ElevenlabsService } from './elevenlabs.service';
+import { ConfigService } from '@nestjs/config';
+import { ElevenLabsService } from './elevenlabs.service';
 
-describe('ElevenlabsService', () => {
-  let service: ElevenlabsService;
+describe('ElevenLabsService', () => {
+  let service: ElevenLabsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ElevenlabsService],
+      providers: [ElevenLabsService, ConfigService],
     }).compile();
 
-    service = module.get<ElevenlabsService>(ElevenlabsService);
+    service = module.get<ElevenLabsService>(ElevenLabsService);
   });
 
   it('should be defined', () => {
@@ -36,55 +36,112 @@
 //   }
 // }
 
-
-
-
 // src/elevenlabs/elevenlabs.service.ts
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
 
 @Injectable()
 export class ElevenLabsService {
-    private readonly logger = new Logger(ElevenLabsService.name);
-    private readonly client: ElevenLabsClient;
-    private readonly voiceId = 'JBFqnCBsd6RMkjVDRZzb'; // Rachel
-
-    constructor() {
-        this.client = new ElevenLabsClient({
-            apiKey: process.env.ELEVENLABS_API_KEY,
-        });
+  private readonly logger = new Logger(ElevenLabsService.name);
+  private _client?: ElevenLabsClient;
+  private readonly voiceId = 'JBFqnCBsd6RMkjVDRZzb'; // Rachel
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * SDK client, created on first use so a missing API key only fails
+   * ElevenLabs requests (it is a fallback TTS provider), not app startup.
+   */
+  private get client(): ElevenLabsClient {
+    if (!this._client) {
+      this._client = new ElevenLabsClient({
+        apiKey: this.configService.get<string>('elevenlabs.apiKey'),
+      });
     }
-
-    /**
-     * Convert text into audio (μ-law 8000 for Twilio)
-     */
-    async textToAudio(text: string): Promise<string> {
-        try {
-            this.logger.log(`🔊 ElevenLabs SDK TTS: ${text}`);
-
-            const stream = await this.client.textToSpeech.convert(this.voiceId, {
-                text,
-                modelId: 'eleven_multilingual_v2',
-                outputFormat: 'ulaw_8000', // ✅ Twilio format
-            });
-
-            // Convert ReadableStream → Buffer
-            const chunks: Uint8Array[] = [];
-            const reader = stream.getReader();
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                chunks.push(value);
-            }
-
-            const audioBuffer = Buffer.concat(chunks.map((c) => Buffer.from(c)));
-
-            // Encode as base64 for Twilio
-            return audioBuffer.toString('base64');
-        } catch (err) {
-            this.logger.error(`❌ ElevenLabs SDK TTS failed: ${err.message}`);
-            throw err;
-        }
+    return this._client;
+  }
+
+  /**
+   * Convert text into audio (μ-law 8000 for Twilio)
+   */
+  async textToAudio(text: string): Promise<string> {
+    try {
+      this.logger.log(`🔊 ElevenLabs SDK TTS: ${text}`);
+
+      const stream = await this.client.textToSpeech.convert(this.voiceId, {
+        text,
+        modelId: 'eleven_multilingual_v2',
+        outputFormat: 'ulaw_8000', // ✅ Twilio format
+      });
+
+      // Convert ReadableStream → Buffer
+      const chunks: Uint8Array[] = [];
+      const reader = stream.getReader();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+      }
+
+      const audioBuffer = Buffer.concat(chunks.map((c) => Buffer.from(c)));
+
+      // Encode as base64 for Twilio
+      return audioBuffer.toString('base64');
+    } catch (err: unknown) {
+      this.logger.error(
+        `❌ ElevenLabs SDK TTS failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Stream text to audio, handing out raw chunks as ElevenLabs produces them.
+   * Defaults: configured voice, μ-law 8000 (Twilio format).
+   */
+  async streamAudio(
+    text: string,
+    onChunk: (chunk: Buffer) => void,
+    options: {
+      voiceId?: string;
+      modelId?: string;
+      outputFormat?:
+        | 'ulaw_8000'
+        | 'pcm_8000'
+        | 'pcm_16000'
+        | 'pcm_24000'
+        | 'pcm_48000';
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<void> {
+    const stream = await this.client.textToSpeech.stream(
+      options.voiceId ?? this.voiceId,
+      {
+        text,
+        modelId: options.modelId ?? 'eleven_multilingual_v2',
+        outputFormat: options.outputFormat ?? 'ulaw_8000',
+      },
+      { abortSignal: options.signal, maxRetries: 0 },
+    );
+
+    const reader = stream.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        onChunk(Buffer.from(value));
+      }
+    } finally {
+      reader.releaseLock();
     }
+  }
+
+  /**
+   * Voice used when none is requested.
+   */
+  getDefaultVoiceId(): string {
+    return this.voiceId;
+  }
 }
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AgentsModule } from '../agents/agents.module';
+import { AudioModule } from '../audio/audio.module';
+import { GreetingService } from './greeting.service';
+
+@Module({
+  imports: [AgentsModule, AudioModule],
+  providers: [GreetingService],
+  exports: [GreetingService],
+})
+export class GreetingModule {}
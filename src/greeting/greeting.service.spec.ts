@@ -0,0 +1,72 @@
+import { ConfigService } from '@nestjs/config';
+import { AgentDefinition } from '../agents/agent.types';
+import { AgentsService } from '../agents/agents.service';
+import { AudioService } from '../audio/audio.service';
+import { GreetingService } from './greeting.service';
+
+describe('GreetingService', () => {
+  const hotel: AgentDefinition = {
+    id: 'hotel',
+    name: 'Hotel',
+    systemPrompt: 'You are a receptionist.',
+    greeting: 'Hello {{guestName}}, welcome to Axion Hotel!',
+    voice: { provider: 'deepgram', voice: 'aura-asteria-en' },
+  };
+  const plain: AgentDefinition = {
+    id: 'plain',
+    name: 'Plain',
+    systemPrompt: 'You are an assistant.',
+  };
+
+  let textToAudio: jest.Mock;
+
+  const create = (greeting: object = {}, agents = [hotel, plain]) => {
+    textToAudio = jest
+      .fn()
+      .mockResolvedValue(Buffer.alloc(80, 0xff).toString('base64'));
+    return new GreetingService(
+      { list: () => agents } as unknown as AgentsService,
+      { textToAudio } as unknown as AudioService,
+      new ConfigService({ greeting: { enabled: true, ...greeting } }),
+    );
+  };
+
+  it('personalizes the greeting with the session variables', () => {
+    const service = create();
+
+    expect(service.text(hotel, { guestName: 'Ada' })).toBe(
+      'Hello Ada, welcome to Axion Hotel!',
+    );
+    expect(service.text(hotel)).toBe('Hello, welcome to Axion Hotel!');
+  });
+
+  it('uses greeting.text for agents without a greeting', () => {
+    expect(create().text(plain)).toBeUndefined();
+    expect(create({ text: 'Hi, how can I help?' }).text(plain)).toBe(
+      'Hi, how can I help?',
+    );
+    expect(create({ enabled: false }).text(hotel)).toBeUndefined();
+  });
+
+  it('synthesizes greetings with the agent voice', async () => {
+    const audio = await create().synthesize(hotel, 'Hello');
+
+    expect(audio).toHaveLength(80);
+    expect(textToAudio).toHaveBeenCalledWith('Hello', {
+      provider: 'deepgram',
+      voice: 'aura-asteria-en',
+      signal: undefined,
+    });
+  });
+
+  it('pre-synthesizes every agent greeting and skips failures', async () => {
+    const service = create({ text: 'Hi there.' });
+    textToAudio.mockRejectedValueOnce(new Error('TTS down'));
+
+    await expect(service.precache()).resolves.toBe(1);
+    expect(textToAudio.mock.calls.map(([text]) => text as string)).toEqual([
+      'Hello, welcome to Axion Hotel!',
+      'Hi there.',
+    ]);
+  });
+});
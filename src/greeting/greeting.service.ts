@@ -0,0 +1,94 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AgentDefinition } from '../agents/agent.types';
+import { AgentsService } from '../agents/agents.service';
+import { PromptVariables, renderTemplate } from '../agents/prompt-template';
+import { AudioService } from '../audio/audio.service';
+import { errorMessage } from '../utils/error.util';
+
+/**
+ * Opening sentence of calls and playground sessions.
+ * - Text: the agent's greeting (or greeting.text), {{name}} placeholders
+ *   filled from the session variables (e.g. TwiML custom parameters)
+ * - Audio: μ-law 8 kHz from the TTS cache; every agent's greeting is
+ *   synthesized at boot (greeting.precache), so only personalized
+ *   greetings wait for TTS
+ */
+@Injectable()
+export class GreetingService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(GreetingService.name);
+
+  constructor(
+    private readonly agents: AgentsService,
+    private readonly audio: AudioService,
+    private readonly config: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (
+      this.config.get<boolean>('greeting.enabled') === false ||
+      this.config.get<boolean>('greeting.precache') === false
+    ) {
+      return;
+    }
+    // In the background: a slow or failing TTS provider must not delay startup
+    void this.precache();
+  }
+
+  /**
+   * Greeting for a new session.
+   * Output: rendered text, undefined if the bot should wait for the caller
+   */
+  text(
+    agent: AgentDefinition,
+    variables: PromptVariables = {},
+  ): string | undefined {
+    if (this.config.get<boolean>('greeting.enabled') === false) return;
+
+    const template =
+      agent.greeting ?? this.config.get<string>('greeting.text') ?? '';
+    const text = renderTemplate(template, variables)
+      // "Hello {{guestName}}, ..." without a name → "Hello, ..."
+      .replace(/\s+([,.!?])/g, '$1')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+    return text || undefined;
+  }
+
+  /**
+   * Audio of a greeting (μ-law 8 kHz), cached per text and voice.
+   */
+  async synthesize(
+    agent: AgentDefinition,
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<Buffer> {
+    const audio = await this.audio.textToAudio(text, {
+      ...agent.voice,
+      signal,
+    });
+    return Buffer.from(audio, 'base64');
+  }
+
+  /**
+   * Synthesize the greeting of every agent (rendered without variables).
+   * Output: number of greetings now in the cache
+   */
+  async precache(): Promise<number> {
+    let cached = 0;
+    for (const agent of this.agents.list()) {
+      const text = this.text(agent);
+      if (!text) continue;
+      try {
+        await this.synthesize(agent, text);
+        cached++;
+      } catch (e: unknown) {
+        this.logger.warn(
+          `Could not pre-synthesize the greeting of ${agent.id}: ${errorMessage(e)}`,
+        );
+      }
+    }
+    this.logger.log(`Pre-synthesized ${cached} greeting(s)`);
+    return cached;
+  }
+}
@@ -0,0 +1,29 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { HealthService } from './health.service';
+
+@Controller()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Route: GET /health (liveness)
+   * Output: { status: "ok", uptimeSec }
+   */
+  @Get('health')
+  health() {
+    return this.healthService.health();
+  }
+
+  /**
+   * Route: GET /ready (readiness)
+   * Output: { status, checks } — 200 when ready, 503 otherwise
+   */
+  @Get('ready')
+  async ready() {
+    const report = await this.healthService.readiness();
+    if (report.status !== 'ready') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,102 @@
+import { ConfigService } from '@nestjs/config';
+import { HealthService } from './health.service';
+
+describe('HealthService', () => {
+  const complete = {
+    deepgram: { apiKey: 'dg' },
+    groq: { apiKey: 'gq', baseUrl: 'https://groq.test/v1' },
+    twilio: { accountSid: 'AC1', authToken: 'secret' },
+    server: { baseUrl: 'bot.example.com' },
+    tts: { provider: 'deepgram', fallbackProvider: 'elevenlabs' },
+    elevenlabs: {},
+  };
+
+  const create = (config: Record<string, unknown>) =>
+    new HealthService(new ConfigService(config));
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('is ready when the required configuration is present', async () => {
+    const report = await create(complete).readiness();
+
+    expect(report.status).toBe('ready');
+    // Missing fallback TTS key is reported, but not required
+    expect(report.checks).toContainEqual({
+      name: 'config:tts-fallback',
+      ok: false,
+      required: false,
+      detail: 'Missing elevenlabs.apiKey',
+    });
+  });
+
+  it('is not ready when a required key is missing', async () => {
+    const report = await create({
+      ...complete,
+      groq: {},
+      twilio: { client: 'stub', accountSid: 'AC1', authToken: 'secret' },
+      server: {},
+    }).readiness();
+
+    expect(report.status).toBe('not-ready');
+    // Stubbed calls need no public URL
+    const failed = report.checks.filter((c) => !c.ok && c.required);
+    expect(failed.map((c) => c.name)).toEqual(['config:groq']);
+  });
+
+  it('checks the keys of the configured LLM chain', async () => {
+    const report = await create({
+      ...complete,
+      groq: {},
+      llm: {
+        provider: 'openai',
+        fallbackProviders: ['local', 'groq'],
+        openai: { apiKey: 'sk' },
+      },
+    }).readiness();
+
+    expect(report.status).toBe('ready');
+    expect(report.checks).toEqual(
+      expect.arrayContaining([
+        { name: 'config:openai', ok: true, required: true },
+        { name: 'config:local', ok: true, required: false },
+        {
+          name: 'config:groq',
+          ok: false,
+          required: false,
+          detail: 'Missing groq.apiKey',
+        },
+      ]),
+    );
+  });
+
+  it('checks provider reachability when enabled', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation((url) =>
+      Promise.resolve(
+        new Response(null, {
+          status: url === 'https://groq.test/v1/models' ? 401 : 200,
+        }),
+      ),
+    );
+
+    const report = await create({
+      ...complete,
+      health: { checkProviders: true, timeoutMs: 1000 },
+    }).readiness();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://groq.test/v1/models',
+      expect.objectContaining({ headers: { Authorization: 'Bearer gq' } }),
+    );
+    expect(report.status).toBe('not-ready');
+    expect(report.checks).toContainEqual(
+      expect.objectContaining({ name: 'provider:deepgram', ok: true }),
+    );
+    expect(report.checks).toContainEqual(
+      expect.objectContaining({
+        name: 'provider:groq',
+        ok: false,
+        detail: 'HTTP 401',
+      }),
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ReadinessCheck, ReadinessReport } from './health.types';
+
+const DEEPGRAM_PROJECTS_URL = 'https://api.deepgram.com/v1/projects';
+
+// API key each TTS provider needs
+const TTS_KEYS: Record<string, string | undefined> = {
+  deepgram: 'deepgram.apiKey',
+  elevenlabs: 'elevenlabs.apiKey',
+  fake: undefined,
+};
+
+// API key each LLM provider needs
+const LLM_KEYS: Record<string, string | undefined> = {
+  groq: 'groq.apiKey',
+  openai: 'llm.openai.apiKey',
+  local: undefined, // Usually keyless (llama.cpp server, Ollama)
+};
+
+/**
+ * Liveness and readiness of the service.
+ * - Liveness: the process is up and serving HTTP
+ * - Readiness: the configuration needed for calls is present and, when
+ *   health.checkProviders is set, the Deepgram + Groq APIs accept our keys
+ *   (Groq only when it is part of the LLM chain)
+ */
+@Injectable()
+export class HealthService {
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly config: ConfigService) {}
+
+  health() {
+    return {
+      status: 'ok',
+      uptimeSec: Math.round((Date.now() - this.startedAt) / 1000),
+    };
+  }
+
+  async readiness(): Promise<ReadinessReport> {
+    const checks = this.configChecks();
+    if (this.config.get<boolean>('health.checkProviders')) {
+      checks.push(...(await this.providerChecks()));
+    }
+
+    const ready = checks.every((check) => check.ok || !check.required);
+    return { status: ready ? 'ready' : 'not-ready', checks };
+  }
+
+  private configChecks(): ReadinessCheck[] {
+    const stubCalls = this.config.get<string>('twilio.client') === 'stub';
+    const ttsProvider = this.config.get<string>('tts.provider') ?? 'deepgram';
+    const fallback = this.config.get<string>('tts.fallbackProvider');
+    const [llmProvider, ...llmFallbacks] = this.llmChain();
+
+    const checks = [
+      this.requireKeys('config:deepgram', ['deepgram.apiKey']),
+      this.keyCheck(
+        `config:${llmProvider}`,
+        'LLM',
+        LLM_KEYS,
+        llmProvider,
+        true,
+      ),
+      this.requireKeys('config:twilio', [
+        'twilio.accountSid',
+        'twilio.authToken',
+      ]),
+      // Twilio must reach our webhooks + media stream → public URL (not for stubbed calls)
+      this.requireKeys('config:server', ['server.baseUrl'], !stubCalls),
+      this.keyCheck('config:tts', 'TTS', TTS_KEYS, ttsProvider, true),
+    ];
+    // Fallback LLMs are optional: the call goes on with the providers that work
+    for (const name of llmFallbacks) {
+      if (name === llmProvider) continue;
+      checks.push(
+        this.keyCheck(`config:${name}`, 'LLM', LLM_KEYS, name, false),
+      );
+    }
+    if (fallback && fallback !== ttsProvider) {
+      checks.push(
+        this.keyCheck('config:tts-fallback', 'TTS', TTS_KEYS, fallback, false),
+      );
+    }
+    return checks;
+  }
+
+  /**
+   * Primary LLM provider followed by its fallbacks.
+   */
+  private llmChain(): string[] {
+    return [
+      this.config.get<string>('llm.provider') ?? 'groq',
+      ...(this.config.get<string[]>('llm.fallbackProviders') ?? []),
+    ];
+  }
+
+  private keyCheck(
+    name: string,
+    kind: string,
+    keys: Record<string, string | undefined>,
+    provider: string,
+    required: boolean,
+  ): ReadinessCheck {
+    if (!(provider in keys)) {
+      return {
+        name,
+        ok: false,
+        required,
+        detail: `Unknown ${kind} provider "${provider}"`,
+      };
+    }
+    const key = keys[provider];
+    return key
+      ? this.requireKeys(name, [key], required)
+      : { name, ok: true, required };
+  }
+
+  private requireKeys(
+    name: string,
+    keys: string[],
+    required = true,
+  ): ReadinessCheck {
+    const missing = keys.filter((key) => !this.config.get<string>(key));
+    return missing.length
+      ? { name, ok: false, required, detail: `Missing ${missing.join(', ')}` }
+      : { name, ok: true, required };
+  }
+
+  /**
+   * Authenticated GET against each provider (only those with a key).
+   */
+  private providerChecks(): Promise<ReadinessCheck[]> {
+    const checks: Promise<ReadinessCheck>[] = [];
+
+    const deepgramKey = this.config.get<string>('deepgram.apiKey');
+    if (deepgramKey) {
+      checks.push(
+        this.probe(
+          'provider:deepgram',
+          DEEPGRAM_PROJECTS_URL,
+          `Token ${deepgramKey}`,
+        ),
+      );
+    }
+
+    const groqKey = this.config.get<string>('groq.apiKey');
+    if (groqKey && this.llmChain().includes('groq')) {
+      const baseUrl = this.config.get<string>('groq.baseUrl');
+      checks.push(
+        this.probe('provider:groq', `${baseUrl}/models`, `Bearer ${groqKey}`),
+      );
+    }
+
+    return Promise.all(checks);
+  }
+
+  private async probe(
+    name: string,
+    url: string,
+    authorization: string,
+  ): Promise<ReadinessCheck> {
+    const started = Date.now();
+    const timeoutMs = this.config.get<number>('health.timeoutMs') ?? 3000;
+    try {
+      const res = await fetch(url, {
+        headers: { Authorization: authorization },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      await res.body?.cancel();
+      const latencyMs = Date.now() - started;
+      return res.ok
+        ? { name, ok: true, required: true, latencyMs }
+        : {
+            name,
+            ok: false,
+            required: true,
+            latencyMs,
+            detail: `HTTP ${res.status}`,
+          };
+    } catch (e: unknown) {
+      return {
+        name,
+        ok: false,
+        required: true,
+        detail: e instanceof Error ? e.message : 'Request failed',
+      };
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * One readiness check.
+ */
+export interface ReadinessCheck {
+  name: string; // e.g. "config:groq", "provider:deepgram"
+  ok: boolean;
+  required: boolean; // false → reported, but does not make the service unready
+  detail?: string; // Why the check failed
+  latencyMs?: number; // Provider checks only
+}
+
+/**
+ * Result of GET /ready.
+ */
+export interface ReadinessReport {
+  status: 'ready' | 'not-ready';
+  checks: ReadinessCheck[];
+}
@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Body of POST /llm/chat.
+ */
+export class ChatRequestDto {
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @IsOptional()
+  @IsString()
+  agentId?: string;
+
+  // Injected into the agent prompt, like outbound call variables
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
@@ -1,16 +1,49 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, UseGuards } from '@nestjs/common';
 import { LlmService } from './llm.service';
+import { AgentsService } from 'src/agents/agents.service';
+import { ToolRegistry } from 'src/tools/tool-registry.service';
+import { ToolInvocation } from 'src/tools/tool.types';
+import {
+  buildSystemPrompt,
+  normalizeVariables,
+} from 'src/agents/prompt-template';
+import { AdminApiKeyGuard } from 'src/admin/guards/admin-api-key.guard';
+import { ChatRequestDto } from './dto/chat-request.dto';
 
 @Controller('llm')
 export class LlmController {
-    constructor(private readonly llmService: LlmService) { }
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly agentsService: AgentsService,
+    private readonly toolRegistry: ToolRegistry,
+  ) {}
 
-    @Post('chat')
-    async chat(@Body() body: { message: string }) {
-        const response = await this.llmService.generateResponse([
-            { role: 'system', content: 'You are a helpful call center agent. Always reply in short, clear, and to the point answers (1–2 sentences max).' },
-            { role: 'user', content: body.message },
-        ]);
-        return { reply: response };
-    }
-}
\ No newline at end of file
+  /**
+   * One-shot chat with an agent (default agent if `agentId` is not given).
+   * `variables` fill the agent prompt like on outbound calls (same checks, 400 if invalid).
+   * The agent's tools are available; executed calls are returned in `toolCalls`.
+   * Requires the admin API key (X-Api-Key): tools can change data (bookings).
+   */
+  @Post('chat')
+  @UseGuards(AdminApiKeyGuard)
+  async chat(@Body() body: ChatRequestDto) {
+    const agent = this.agentsService.resolve(body.agentId);
+    const toolCalls: ToolInvocation[] = [];
+    const tools = this.toolRegistry.createToolset(
+      agent.tools,
+      { agentId: agent.id, sessionId: 'llm-chat' },
+      (invocation) => toolCalls.push(invocation),
+    );
+    const response = await this.llmService.generateResponse(
+      [
+        {
+          role: 'system',
+          content: buildSystemPrompt(agent, normalizeVariables(body.variables)),
+        },
+        { role: 'user', content: body.message },
+      ],
+      { ...agent.llm, tools },
+    );
+    return { reply: response, agentId: agent.id, toolCalls };
+  }
+}
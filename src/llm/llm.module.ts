@@ -1,10 +1,44 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
 import { LlmService } from './llm.service';
 import { LlmController } from './llm.controller';
+import { AgentsModule } from '../agents/agents.module';
+import { ToolsModule } from '../tools/tools.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { OpenAiCompatibleLlmProvider } from './providers/openai-compatible-llm.provider';
+import { LLM_PROVIDERS } from './llm.types';
 
 @Module({
-  providers: [LlmService],
+  imports: [AgentsModule, ToolsModule, MetricsModule],
+  providers: [
+    {
+      // One OpenAI-compatible endpoint per provider name (groq.*, llm.openai.*, llm.local.*)
+      provide: LLM_PROVIDERS,
+      useFactory: (config: ConfigService) => {
+        const timeoutMs = config.get<number>('llm.timeoutMs') ?? 10000;
+        return [
+          { name: 'groq', key: 'groq', requiresApiKey: true },
+          { name: 'openai', key: 'llm.openai', requiresApiKey: true },
+          { name: 'local', key: 'llm.local', requiresApiKey: false },
+        ].map(
+          ({ name, key, requiresApiKey }) =>
+            new OpenAiCompatibleLlmProvider({
+              name,
+              baseUrl: config.get<string>(`${key}.baseUrl`) ?? '',
+              apiKey: config.get<string>(`${key}.apiKey`),
+              requiresApiKey,
+              model: config.get<string>(`${key}.model`) ?? '',
+              timeoutMs,
+            }),
+        );
+      },
+      inject: [ConfigService],
+    },
+    LlmService,
+    AdminApiKeyGuard,
+  ],
   controllers: [LlmController],
   exports: [LlmService],
 })
-export class LlmModule {}
\ No newline at end of file
+export class LlmModule {}
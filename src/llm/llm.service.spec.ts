@@ -0,0 +1,240 @@
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../metrics/metrics.service';
+import { LlmService } from './llm.service';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmToolset,
+} from './llm.types';
+import { LlmProviderError } from './providers/openai-compatible-llm.provider';
+
+// Answers with scripted results: an Error is thrown, a string is the reply
+class ScriptedProvider implements LlmProvider {
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(
+    readonly name: string,
+    private readonly script: (Error | string | LlmCompletion)[],
+  ) {}
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    return this.stream(request, () => undefined);
+  }
+
+  stream(
+    request: LlmCompletionRequest,
+    onToken: (token: string) => void,
+  ): Promise<LlmCompletion> {
+    this.requests.push(request);
+    const next = this.script.shift() ?? 'ok';
+    if (next instanceof Error) return Promise.reject(next);
+    if (typeof next !== 'string') return Promise.resolve(next);
+
+    for (const word of next.split(/(?<= )/)) onToken(word);
+    return Promise.resolve({
+      content: next,
+      toolCalls: [],
+      model: `${this.name}-model`,
+    });
+  }
+}
+
+const transient = () => new LlmProviderError('HTTP 503', true, 503);
+
+describe('LlmService', () => {
+  let metrics: MetricsService;
+
+  const create = (providers: LlmProvider[], llm: object = {}) => {
+    metrics = new MetricsService();
+    const config = new ConfigService({
+      llm: {
+        provider: 'primary',
+        fallbackProviders: ['secondary'],
+        temperature: 0.5,
+        maxTokens: 100,
+        retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+        fallbackReply: 'Sorry, please try again.',
+        ...llm,
+      },
+    });
+    return new LlmService(providers, config, metrics);
+  };
+
+  it('sends the per-request model parameters to the primary provider', async () => {
+    const primary = new ScriptedProvider('primary', ['Hello there']);
+    const service = create([primary]);
+
+    const reply = await service.generateResponse(
+      [{ role: 'user', content: 'hi' }],
+      { model: 'big-model', maxTokens: 20 },
+    );
+
+    expect(reply).toBe('Hello there');
+    expect(primary.requests[0]).toMatchObject({
+      model: 'big-model',
+      temperature: 0.5,
+      maxTokens: 20,
+    });
+    expect(
+      metrics.llmLatency.get({
+        provider: 'primary',
+        model: 'primary-model',
+        mode: 'complete',
+      }).count,
+    ).toBe(1);
+  });
+
+  it('retries transient errors on the same provider', async () => {
+    const primary = new ScriptedProvider('primary', [transient(), 'Recovered']);
+    const service = create([primary]);
+
+    await expect(service.generateResponse([])).resolves.toBe('Recovered');
+    expect(primary.requests).toHaveLength(2);
+    expect(
+      metrics.providerErrors.get({ service: 'llm', provider: 'primary' }),
+    ).toBe(1);
+  });
+
+  it('falls back to the next provider with its default model', async () => {
+    const primary = new ScriptedProvider('primary', [
+      new LlmProviderError('HTTP 401', false, 401),
+    ]);
+    const secondary = new ScriptedProvider('secondary', ['From fallback']);
+    const service = create([primary, secondary]);
+
+    const tokens: string[] = [];
+    const reply = await service.streamResponse(
+      [],
+      (token) => tokens.push(token),
+      { model: 'primary-only' },
+    );
+
+    expect(reply).toBe('From fallback');
+    expect(tokens.join('')).toBe('From fallback');
+    expect(primary.requests).toHaveLength(1); // Not retryable
+    expect(secondary.requests[0].model).toBeUndefined();
+  });
+
+  it('answers with the fallback reply when every provider fails', async () => {
+    const down = () => [transient(), transient(), transient()];
+    const primary = new ScriptedProvider('primary', [...down(), ...down()]);
+    const secondary = new ScriptedProvider('secondary', [
+      new Error('socket hang up'),
+      new Error('socket hang up'),
+    ]);
+    const service = create([primary, secondary]);
+    const tokens: string[] = [];
+
+    await expect(service.generateResponse([])).rejects.toThrow(
+      'socket hang up',
+    );
+    const reply = await service.streamResponse(
+      [],
+      (token) => tokens.push(token),
+      { useFallbackReply: true },
+    );
+
+    expect(reply).toBe('Sorry, please try again.');
+    expect(tokens).toEqual(['Sorry, please try again.']);
+    expect(primary.requests).toHaveLength(6); // 2 × (1 + maxRetries)
+  });
+
+  it('does not retry or switch a stream that already produced tokens', async () => {
+    const primary = new ScriptedProvider('primary', []);
+    primary.stream = (request, onToken) => {
+      primary.requests.push(request);
+      onToken('Half a ');
+      return Promise.reject(transient());
+    };
+    const secondary = new ScriptedProvider('secondary', []);
+    const service = create([primary, secondary]);
+
+    await expect(
+      service.streamResponse([], () => undefined, { useFallbackReply: true }),
+    ).rejects.toThrow('HTTP 503');
+    expect(primary.requests).toHaveLength(1);
+    expect(secondary.requests).toHaveLength(0);
+  });
+
+  it('runs tools and continues the chain per round', async () => {
+    const primary = new ScriptedProvider('primary', [
+      {
+        content: '',
+        model: 'm',
+        toolCalls: [
+          {
+            id: 'call-1',
+            type: 'function',
+            function: { name: 'lookup', arguments: '{}' },
+          },
+        ],
+      },
+      transient(),
+      transient(),
+      transient(),
+    ]);
+    const secondary = new ScriptedProvider('secondary', ['Found it']);
+    const execute = jest.fn().mockResolvedValue('{"ok":true}');
+    const tools: LlmToolset = {
+      definitions: [
+        {
+          type: 'function',
+          function: { name: 'lookup', description: 'Look up', parameters: {} },
+        },
+      ],
+      execute,
+    };
+    const service = create([primary, secondary]);
+
+    const reply = await service.generateResponse([], { tools });
+
+    expect(reply).toBe('Found it');
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(secondary.requests[0].messages.map((m) => m.role)).toEqual([
+      'assistant',
+      'tool',
+    ]);
+  });
+
+  it('stops running tools after the last round', async () => {
+    const toolCall: LlmCompletion = {
+      content: '',
+      model: 'm',
+      toolCalls: [
+        {
+          id: 'call-1',
+          type: 'function',
+          function: { name: 'lookup', arguments: '{}' },
+        },
+      ],
+    };
+    const primary = new ScriptedProvider('primary', [
+      toolCall,
+      toolCall,
+      toolCall,
+      toolCall,
+    ]);
+    const execute = jest.fn().mockResolvedValue('{"ok":true}');
+    const tools: LlmToolset = {
+      definitions: [
+        {
+          type: 'function',
+          function: { name: 'lookup', description: 'Look up', parameters: {} },
+        },
+      ],
+      execute,
+    };
+    const service = create([primary]);
+
+    const reply = await service.generateResponse([], {
+      tools,
+      maxToolRounds: 1,
+      useFallbackReply: true,
+    });
+
+    expect(reply).toBe('Sorry, please try again.');
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(primary.requests.map((r) => r.toolChoice)).toEqual(['auto', 'none']);
+  });
+});
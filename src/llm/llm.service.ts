@@ -1,49 +1,328 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  ChatMessage,
+  LLM_PROVIDERS,
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmRequestOptions,
+  LlmToolCall,
+  LlmToolset,
+} from './llm.types';
+import { LlmProviderError } from './providers/openai-compatible-llm.provider';
+import { errorMessage } from '../utils/error.util';
 
+// Default number of model ↔ tool round trips per reply
+const MAX_TOOL_ROUNDS = 3;
+
+/**
+ * Chat completions through the configured provider chain.
+ * - Primary/fallback providers come from configuration, or per request
+ *   (e.g. agent); the model only applies to the primary provider
+ * - Transient errors (network, timeout, 429, 5xx) are retried with
+ *   exponential backoff + jitter before moving to the next provider
+ * - A stream that already produced tokens is never retried or switched
+ * - Records latency per model and failures per provider (metrics)
+ */
 @Injectable()
 export class LlmService {
   private readonly logger = new Logger(LlmService.name);
+  private readonly providers = new Map<string, LlmProvider>();
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    @Inject(LLM_PROVIDERS) providers: LlmProvider[],
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
+    for (const provider of providers)
+      this.providers.set(provider.name, provider);
+  }
 
   /**
-   * Calls the Groq API to generate a chatbot response.
-   * @param messages Array of conversation messages [{ role: "user" | "system" | "assistant", content: string }]
+   * Generate a chatbot response.
+   * - With options.tools: runs requested tools and sends their results back
+   *   until the model answers with text (max options.maxToolRounds rounds;
+   *   a model still asking for tools after that fails like a provider error)
+   * @param messages Array of conversation messages (system prompt + history)
+   * @param options.signal Optional AbortSignal to cancel the request (e.g. caller barge-in)
+   * @param options.provider/model/temperature/maxTokens Optional per-agent overrides
+   * @param options.useFallbackReply Answer with the apology when every provider failed
    * @returns Generated response text from the LLM
    */
-  async generateResponse(messages: { role: string; content: string }[]): Promise<string> {
-    // 🔑 Get API config values from NestJS ConfigService
-    const apiKey = this.configService.get<string>('groq.apiKey');
-    const baseUrl = this.configService.get<string>('groq.baseUrl');
-    const model = this.configService.get<string>('groq.model');
+  async generateResponse(
+    messages: ChatMessage[],
+    options: LlmRequestOptions = {},
+  ): Promise<string> {
+    return this.run(messages, options);
+  }
+
+  /**
+   * Stream a chatbot response.
+   * - Calls onToken for every content delta as soon as it arrives
+   * - Tool calls are collected from the stream, executed, and a new stream
+   *   is started with their results (same loop as generateResponse)
+   * - Resolves with the full reply text once the stream ends
+   * - The fallback reply (options.useFallbackReply) is passed to onToken too
+   * @param messages Array of conversation messages (system prompt + history)
+   * @param onToken Callback receiving each text delta
+   * @param options Same as generateResponse
+   */
+  async streamResponse(
+    messages: ChatMessage[],
+    onToken: (token: string) => void,
+    options: LlmRequestOptions = {},
+  ): Promise<string> {
+    return this.run(messages, options, onToken);
+  }
+
+  /**
+   * Tool-call loop shared by generateResponse (no onToken) and streamResponse.
+   */
+  private async run(
+    messages: ChatMessage[],
+    options: LlmRequestOptions,
+    onToken?: (token: string) => void,
+  ): Promise<string> {
+    const conversation = [...messages];
+    const maxRounds = options.maxToolRounds ?? MAX_TOOL_ROUNDS;
+    let reply = '';
+    let streamed = false;
+    const emit = (token: string) => {
+      streamed = true;
+      onToken?.(token);
+    };
 
     try {
-      // 🌐 Make POST request to Groq API
-      const response = await axios.post(
-        `${baseUrl}/chat/completions`,
-        {
-          model,          // which AI model to use
-          messages,       // conversation history
-          temperature: 0.7,  // controls creativity/randomness
-          max_tokens: 150,   // limit response length
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${apiKey}`, // API authentication
-            'Content-Type': 'application/json',
-          },
-          timeout: 10000, // ⏳ 10 second timeout
-        },
+      for (let round = 0; ; round++) {
+        const { content, toolCalls } = await this.completeWithFailover(
+          conversation,
+          options,
+          round,
+          onToken && emit,
+        );
+        reply += content;
+
+        if (!options.tools || !toolCalls.length) return reply;
+        // The last round forbids tools; a provider ignoring that gets no more rounds
+        if (round >= maxRounds) {
+          if (reply.trim()) return reply;
+          throw new Error(`No answer after ${maxRounds} tool round(s)`);
+        }
+
+        conversation.push(
+          ...(await this.runTools(content, toolCalls, options)),
+        );
+      }
+    } catch (e: unknown) {
+      // Half a sentence was already spoken → nothing sensible to add
+      if (options.signal?.aborted || !options.useFallbackReply || streamed) {
+        throw e;
+      }
+      const apology =
+        options.fallbackReply ??
+        this.configService.get<string>('llm.fallbackReply') ??
+        '';
+      this.logger.error(
+        `LLM unavailable, using fallback reply: ${errorMessage(e)}`,
       );
+      onToken?.(apology);
+      return apology;
+    }
+  }
+
+  /**
+   * One completion request against the provider chain (primary → fallbacks).
+   */
+  private async completeWithFailover(
+    messages: ChatMessage[],
+    options: LlmRequestOptions,
+    round: number,
+    onToken?: (token: string) => void,
+  ): Promise<LlmCompletion> {
+    const chain = this.resolveChain(options);
+    let lastError: Error | undefined;
+
+    for (const [index, provider] of chain.entries()) {
+      let gotTokens = false;
+      const request = this.buildRequest(messages, options, round, index);
+
+      try {
+        return await this.completeWithRetries(
+          provider,
+          request,
+          onToken &&
+            ((token) => {
+              gotTokens = true;
+              onToken(token);
+            }),
+          () => gotTokens,
+        );
+      } catch (e: unknown) {
+        if (options.signal?.aborted || gotTokens) throw e;
+        lastError = e as Error;
+        this.logger.warn(
+          `LLM provider ${provider.name} failed: ${errorMessage(e)}`,
+        );
+      }
+    }
+
+    throw lastError ?? new Error('No LLM provider available');
+  }
+
+  /**
+   * Send a request to one provider, retrying transient errors.
+   * Delay before retry n: random between 0 and baseDelayMs * 2^n (capped)
+   */
+  private async completeWithRetries(
+    provider: LlmProvider,
+    request: LlmCompletionRequest,
+    onToken: ((token: string) => void) | undefined,
+    gotTokens: () => boolean,
+  ): Promise<LlmCompletion> {
+    const maxRetries =
+      this.configService.get<number>('llm.retry.maxRetries') ?? 2;
+    const baseDelayMs =
+      this.configService.get<number>('llm.retry.baseDelayMs') ?? 200;
+    const maxDelayMs =
+      this.configService.get<number>('llm.retry.maxDelayMs') ?? 2000;
 
-      // ✅ Extract and return the assistant's message text
-      return response.data.choices[0].message.content;
-    } catch (error) {
-      // ⚠️ Log error for debugging
-      this.logger.error('Error calling Groq API:', error.response?.data || error.message);
-      throw new Error('Groq API call failed'); // ❌ rethrow for caller to handle
+    for (let attempt = 0; ; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const completion = onToken
+          ? await provider.stream(request, onToken)
+          : await provider.complete(request);
+        this.metrics.llmLatency.observe(
+          {
+            provider: provider.name,
+            model: completion.model,
+            mode: onToken ? 'stream' : 'complete',
+          },
+          (Date.now() - startedAt) / 1000,
+        );
+        return completion;
+      } catch (e: unknown) {
+        // 🛑 Cancelled by the caller (barge-in) is not a provider error
+        if (request.signal?.aborted) throw e;
+        this.metrics.providerErrors.inc({
+          service: 'llm',
+          provider: provider.name,
+        });
+
+        const retryable = e instanceof LlmProviderError && e.retryable;
+        if (!retryable || gotTokens() || attempt >= maxRetries) throw e;
+
+        const delayMs = Math.round(
+          Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt),
+        );
+        this.logger.warn(
+          `${errorMessage(e)} → retry ${attempt + 1}/${maxRetries} in ${delayMs} ms`,
+        );
+        await this.sleep(delayMs, request.signal);
+      }
+    }
+  }
+
+  /**
+   * Request for one provider of the chain.
+   * On the last allowed round tool_choice is "none" so the model has to answer.
+   */
+  private buildRequest(
+    messages: ChatMessage[],
+    options: LlmRequestOptions,
+    round: number,
+    chainIndex: number,
+  ): LlmCompletionRequest {
+    const maxRounds = options.maxToolRounds ?? MAX_TOOL_ROUNDS;
+    const hasTools = !!options.tools?.definitions.length;
+
+    return {
+      messages,
+      // A model name only makes sense for the provider it belongs to
+      model: chainIndex === 0 ? options.model : undefined,
+      temperature:
+        options.temperature ??
+        this.configService.get<number>('llm.temperature') ??
+        0.7,
+      maxTokens:
+        options.maxTokens ??
+        this.configService.get<number>('llm.maxTokens') ??
+        150,
+      tools: hasTools ? options.tools!.definitions : undefined,
+      toolChoice: hasTools ? (round < maxRounds ? 'auto' : 'none') : undefined,
+      signal: options.signal,
+    };
+  }
+
+  /**
+   * Ordered list of providers to try for a request.
+   */
+  private resolveChain(options: LlmRequestOptions): LlmProvider[] {
+    const primary =
+      options.provider ?? this.configService.get<string>('llm.provider');
+    const fallbacks =
+      options.fallbackProviders ??
+      this.configService.get<string[]>('llm.fallbackProviders') ??
+      [];
+
+    const chain: LlmProvider[] = [];
+    for (const name of [primary, ...fallbacks]) {
+      const provider = name ? this.providers.get(name) : undefined;
+      if (provider && !chain.includes(provider)) chain.push(provider);
+      else if (name && !provider) {
+        this.logger.warn(`Unknown LLM provider "${name}"`);
+      }
     }
+    return chain;
+  }
+
+  /**
+   * Wait before a retry; rejects as soon as the caller cancels.
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason as Error);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Execute tool calls in order.
+   * Output: the assistant tool-call message + one `tool` message per result,
+   * ready to append to the conversation for the next round
+   */
+  private async runTools(
+    content: string,
+    toolCalls: LlmToolCall[],
+    options: LlmRequestOptions,
+  ): Promise<ChatMessage[]> {
+    const tools = options.tools as LlmToolset;
+    const messages: ChatMessage[] = [
+      { role: 'assistant', content, tool_calls: toolCalls },
+    ];
+
+    for (const call of toolCalls) {
+      options.signal?.throwIfAborted(); // 🛑 no side effects after barge-in/hang-up
+      this.logger.log(
+        `🛠 Tool call: ${call.function.name}(${call.function.arguments})`,
+      );
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: await tools.execute(call),
+      });
+    }
+
+    return messages;
   }
 }
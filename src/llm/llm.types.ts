@@ -0,0 +1,109 @@
+/**
+ * Role of a message in an OpenAI-compatible chat completion request.
+ */
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * Single chat message sent to the LLM.
+ */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  tool_calls?: LlmToolCall[]; // Assistant: tools the model asked to run
+  tool_call_id?: string; // Tool: id of the call this message answers
+}
+
+/**
+ * OpenAI-style function tool offered to the model.
+ */
+export interface LlmToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON Schema of the arguments
+  };
+}
+
+/**
+ * A tool call requested by the model (arguments are a JSON string).
+ */
+export interface LlmToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * Tools available for one request + how to run them.
+ * execute() resolves with the content of the `tool` message (never throws).
+ */
+export interface LlmToolset {
+  definitions: LlmToolDefinition[];
+  execute(call: LlmToolCall): Promise<string>;
+}
+
+/**
+ * Per-request options for LlmService (unset values use the `llm.*` config).
+ */
+export interface LlmRequestOptions {
+  signal?: AbortSignal; // Cancel the request (e.g. caller barge-in)
+  provider?: string; // Primary provider name (e.g. "groq", "openai", "local")
+  fallbackProviders?: string[]; // Tried in order when the primary fails
+  model?: string; // Model of the primary provider (fallbacks use their default)
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LlmToolset; // Enables the tool-call loop
+  maxToolRounds?: number; // Max model ↔ tool round trips (default 3)
+  useFallbackReply?: boolean; // Every provider failed → answer with the apology instead of throwing
+  fallbackReply?: string; // Apology text (default: llm.fallbackReply)
+}
+
+/**
+ * One chat completion request as sent to a provider (one tool round).
+ */
+export interface LlmCompletionRequest {
+  messages: ChatMessage[];
+  model?: string; // Provider default if empty
+  temperature: number;
+  maxTokens: number;
+  tools?: LlmToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  signal?: AbortSignal;
+}
+
+/**
+ * Answer of one completion request: text and/or tool calls.
+ */
+export interface LlmCompletion {
+  content: string;
+  toolCalls: LlmToolCall[];
+  model: string; // Model that answered
+}
+
+/**
+ * Common interface implemented by every chat completion backend.
+ */
+export interface LlmProvider {
+  readonly name: string;
+
+  /**
+   * Request the whole answer at once.
+   */
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+
+  /**
+   * Stream the answer; text deltas go to onToken as they arrive.
+   * Resolves with the complete answer once the stream ended.
+   */
+  stream(
+    request: LlmCompletionRequest,
+    onToken: (token: string) => void,
+  ): Promise<LlmCompletion>;
+}
+
+// Injection token for the list of registered LlmProvider instances
+export const LLM_PROVIDERS = 'LLM_PROVIDERS';
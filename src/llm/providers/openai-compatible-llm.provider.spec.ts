@@ -0,0 +1,112 @@
+import {
+  LlmProviderError,
+  OpenAiCompatibleLlmProvider,
+} from './openai-compatible-llm.provider';
+
+describe('OpenAiCompatibleLlmProvider', () => {
+  const provider = new OpenAiCompatibleLlmProvider({
+    name: 'local',
+    baseUrl: 'http://llm.test/v1',
+    requiresApiKey: false,
+    model: 'llama3.1',
+    timeoutMs: 1000,
+  });
+  const request = { messages: [], temperature: 0.2, maxTokens: 50 };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('streams content deltas and assembles tool calls', async () => {
+    const events = [
+      { choices: [{ delta: { content: 'Let me ' } }] },
+      { choices: [{ delta: { content: 'check.' } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                { index: 0, id: 'c1', function: { name: 'lookup' } },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: '{}' } }],
+            },
+          },
+        ],
+      },
+    ];
+    const body = `${events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('')}data: [DONE]\n\n`;
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(body));
+    const tokens: string[] = [];
+
+    const completion = await provider.stream(request, (t) => tokens.push(t));
+
+    expect(tokens).toEqual(['Let me ', 'check.']);
+    expect(completion).toEqual({
+      content: 'Let me check.',
+      model: 'llama3.1',
+      toolCalls: [
+        {
+          id: 'c1',
+          type: 'function',
+          function: { name: 'lookup', arguments: '{}' },
+        },
+      ],
+    });
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: 'llama3.1',
+      temperature: 0.2,
+      max_tokens: 50,
+      stream: true,
+    });
+    // No API key configured → no Authorization header
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it.each([
+    [429, true],
+    [503, true],
+    [400, false],
+    [401, false],
+  ])('marks HTTP %i as retryable: %s', async (status, retryable) => {
+    jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response('nope', { status }));
+
+    const error = await provider.complete(request).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LlmProviderError);
+    expect(error).toMatchObject({ retryable, status });
+  });
+
+  it('treats network failures as retryable', async () => {
+    jest
+      .spyOn(global, 'fetch')
+      .mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(provider.complete(request)).rejects.toMatchObject({
+      retryable: true,
+    });
+  });
+
+  it('passes a cancel by the caller through unchanged', async () => {
+    const abort = new AbortController();
+    const cancelled = new Error('cancelled');
+    jest.spyOn(global, 'fetch').mockImplementation(() => {
+      abort.abort();
+      return Promise.reject(cancelled);
+    });
+
+    await expect(
+      provider.complete({ ...request, signal: abort.signal }),
+    ).rejects.toBe(cancelled);
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmToolCall,
+} from '../llm.types';
+
+/**
+ * Connection settings of one OpenAI-compatible endpoint.
+ */
+export interface OpenAiCompatibleConfig {
+  name: string; // Provider name used in config, agents and metrics
+  baseUrl: string; // e.g. "https://api.groq.com/openai/v1"
+  apiKey?: string; // Sent as bearer token (local servers usually need none)
+  requiresApiKey: boolean;
+  model: string; // Default model
+  timeoutMs: number; // Per request (streams: until the last token)
+}
+
+/**
+ * A failed provider request.
+ * retryable: transient problem (network, timeout, 408/409/429, 5xx) →
+ * the same request may succeed when sent again
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+const RETRYABLE_STATUS = [408, 409, 429];
+
+// Parts of the chat completion response we read
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: {
+    message?: { content?: string | null; tool_calls?: LlmToolCall[] };
+  }[];
+}
+
+// One SSE event of a streamed chat completion
+interface ChatCompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string;
+      tool_calls?: {
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+}
+
+/**
+ * Chat completions over the OpenAI HTTP API (Groq, OpenAI, llama.cpp server,
+ * Ollama, vLLM, ...).
+ * - complete(): one JSON response
+ * - stream(): server-sent events, tool calls assembled from their deltas
+ */
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  constructor(private readonly config: OpenAiCompatibleConfig) {}
+
+  get name() {
+    return this.config.name;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const timeout = AbortSignal.timeout(this.config.timeoutMs);
+    const response = await this.post(request, false, timeout);
+
+    try {
+      const data = (await response.json()) as ChatCompletionResponse;
+      const message = data?.choices?.[0]?.message;
+      return {
+        content: message?.content ?? '',
+        toolCalls: message?.tool_calls ?? [],
+        model: data?.model ?? (request.model || this.config.model),
+      };
+    } catch (e) {
+      throw this.toError(e, request.signal, timeout);
+    }
+  }
+
+  async stream(
+    request: LlmCompletionRequest,
+    onToken: (token: string) => void,
+  ): Promise<LlmCompletion> {
+    const timeout = AbortSignal.timeout(this.config.timeoutMs);
+    const response = await this.post(request, true, timeout);
+
+    try {
+      return {
+        ...(await this.readStream(response.body!, onToken)),
+        model: request.model || this.config.model,
+      };
+    } catch (e) {
+      throw this.toError(e, request.signal, timeout);
+    }
+  }
+
+  /**
+   * Send the request; resolves with a successful (2xx) response.
+   */
+  private async post(
+    request: LlmCompletionRequest,
+    stream: boolean,
+    timeout: AbortSignal,
+  ): Promise<Response> {
+    if (this.config.requiresApiKey && !this.config.apiKey) {
+      throw new LlmProviderError(`${this.name}: no API key configured`, false);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(this.buildBody(request, stream)),
+        signal: request.signal
+          ? AbortSignal.any([request.signal, timeout])
+          : timeout,
+      });
+    } catch (e) {
+      throw this.toError(e, request.signal, timeout);
+    }
+
+    if (!response.ok || !response.body) {
+      const details = await response.text().catch(() => '');
+      throw new LlmProviderError(
+        `${this.name}: HTTP ${response.status} ${details}`.trim(),
+        RETRYABLE_STATUS.includes(response.status) || response.status >= 500,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  private buildBody(request: LlmCompletionRequest, stream: boolean) {
+    const body: Record<string, unknown> = {
+      model: request.model || this.config.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    };
+    if (request.tools?.length) {
+      body.tools = request.tools;
+      body.tool_choice = request.toolChoice ?? 'auto';
+    }
+    if (stream) body.stream = true; // one delta per SSE event
+    return body;
+  }
+
+  /**
+   * Map a fetch/read failure: a cancel by the caller is passed on as-is,
+   * network errors and our own timeout are retryable.
+   */
+  private toError(
+    error: unknown,
+    signal: AbortSignal | undefined,
+    timeout: AbortSignal,
+  ): Error {
+    if (signal?.aborted || error instanceof LlmProviderError) {
+      return error as Error;
+    }
+    if (timeout.aborted) {
+      return new LlmProviderError(
+        `${this.name}: no answer within ${this.config.timeoutMs} ms`,
+        true,
+      );
+    }
+    const { message, cause } = error as Error & { cause?: Error };
+    return new LlmProviderError(
+      `${this.name}: ${cause?.message ?? message}`,
+      error instanceof TypeError, // fetch: network failure
+    );
+  }
+
+  /**
+   * Read an SSE completion stream.
+   * Output: text content (also passed to onToken) + tool calls assembled
+   * from their deltas (id/name arrive first, arguments in pieces)
+   */
+  private async readStream(
+    stream: ReadableStream<Uint8Array>,
+    onToken: (token: string) => void,
+  ): Promise<{ content: string; toolCalls: LlmToolCall[] }> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const toolCalls: LlmToolCall[] = [];
+    let pending = '';
+    let content = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // SSE lines look like: `data: {...json...}` and end with `data: [DONE]`
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return { content, toolCalls };
+
+          const chunk = JSON.parse(payload) as ChatCompletionChunk;
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            onToken(delta.content);
+          }
+
+          for (const part of delta?.tool_calls ?? []) {
+            const call = (toolCalls[part.index ?? 0] ??= {
+              id: '',
+              type: 'function',
+              function: { name: '', arguments: '' },
+            });
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.function.name += part.function.name;
+            if (part.function?.arguments)
+              call.function.arguments += part.function.arguments;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return { content, toolCalls };
+  }
+}
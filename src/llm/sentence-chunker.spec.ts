@@ -0,0 +1,48 @@
+import { SentenceChunker } from './sentence-chunker';
+
+function chunkAll(chunker: SentenceChunker, tokens: string[]): string[] {
+  const out: string[] = [];
+  for (const token of tokens) out.push(...chunker.push(token));
+  const rest = chunker.flush();
+  if (rest) out.push(rest);
+  return out;
+}
+
+describe('SentenceChunker', () => {
+  it('should emit sentences as soon as they are complete', () => {
+    const chunker = new SentenceChunker();
+    expect(chunker.push('Hello there')).toEqual([]);
+    expect(chunker.push('! How can ')).toEqual(['Hello there!']);
+    expect(chunker.push('I help?')).toEqual([]);
+    expect(chunker.flush()).toBe('How can I help?');
+  });
+
+  it('should split long clauses but keep short ones together', () => {
+    const chunker = new SentenceChunker(20);
+    const segments = chunkAll(chunker, [
+      'Yes, ',
+      'we have a deluxe room available, ',
+      'and it costs 120 dollars.',
+    ]);
+    expect(segments).toEqual([
+      'Yes, we have a deluxe room available,',
+      'and it costs 120 dollars.',
+    ]);
+  });
+
+  it('should not split on decimals or abbreviations', () => {
+    const chunker = new SentenceChunker();
+    const segments = chunkAll(chunker, [
+      'Dr. Smith paid 3.5 percent ',
+      'more. ',
+      'Thanks.',
+    ]);
+    expect(segments).toEqual(['Dr. Smith paid 3.5 percent more.', 'Thanks.']);
+  });
+
+  it('should return undefined when nothing is left', () => {
+    const chunker = new SentenceChunker();
+    chunker.push('Done. ');
+    expect(chunker.flush()).toBeUndefined();
+  });
+});
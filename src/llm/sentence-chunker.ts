@@ -0,0 +1,83 @@
+// Words ending with a dot that do not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr.',
+  'mrs.',
+  'ms.',
+  'dr.',
+  'st.',
+  'no.',
+  'vs.',
+  'e.g.',
+  'i.e.',
+  'a.m.',
+  'p.m.',
+]);
+
+/**
+ * Splits streamed LLM tokens into speakable segments for TTS.
+ * - Emits a segment at every sentence end (. ! ?)
+ * - Emits earlier at clause breaks (, ; :) once the text is long enough,
+ *   so the first audio can start before the first sentence is complete
+ */
+export class SentenceChunker {
+  private buffer = '';
+
+  constructor(
+    private readonly minClauseChars = 40, // Min length before splitting on , ; :
+    private readonly minSentenceChars = 2, // Ignore tiny fragments like "1."
+  ) {}
+
+  /**
+   * Add a token from the LLM stream.
+   * Output: zero or more complete segments, in order
+   */
+  push(token: string): string[] {
+    this.buffer += token;
+    const segments: string[] = [];
+
+    let cut = this.findBoundary();
+    while (cut > 0) {
+      const segment = this.buffer.slice(0, cut).trim();
+      this.buffer = this.buffer.slice(cut);
+      if (segment) segments.push(segment);
+      cut = this.findBoundary();
+    }
+
+    return segments;
+  }
+
+  /**
+   * Return whatever text is left once the stream has ended.
+   */
+  flush(): string | undefined {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || undefined;
+  }
+
+  /**
+   * Find the end index of the first complete segment in the buffer
+   * (a boundary needs trailing whitespace, so "3.5" or "e.g." mid-word never split).
+   * Output: index after the boundary, or -1 if none yet
+   */
+  private findBoundary(): number {
+    const re = /([.!?]+|[,;:])(["')\]]*)\s+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = re.exec(this.buffer))) {
+      const end = match.index + match[0].length;
+      const text = this.buffer.slice(0, match.index + match[1].length).trim();
+      const isSentenceEnd = /[.!?]/.test(match[1]);
+
+      if (isSentenceEnd) {
+        const lastWord = text.split(/\s+/).pop()?.toLowerCase() ?? '';
+        if (ABBREVIATIONS.has(lastWord)) continue;
+        if (text.length >= this.minSentenceChars) return end;
+      } else if (text.length >= this.minClauseChars) {
+        return end;
+      }
+    }
+
+    return -1;
+  }
+}
@@ -2,16 +2,19 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { WsAdapter } from '@nestjs/platform-ws';
 import { ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from './config/configuration';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  const config = app.get<ConfigService<AppConfig, true>>(ConfigService);
 
   // WebSocket adapter for Twilio streaming
   app.useWebSocketAdapter(new WsAdapter(app));
 
   // Enable CORS
   app.enableCors({
-    origin: '*',
+    origin: config.get('server.allowedOrigins', { infer: true }),
   });
 
   // Global validation pipe
@@ -20,11 +23,11 @@ async function bootstrap() {
     transform: true,
   }));
 
-  const port = process.env.PORT || 3002;
+  const port = config.get('port', { infer: true });
   await app.listen(port, '0.0.0.0');;
   console.log(`Application is running on: ${await app.getUrl()}`);
   console.log(
-    `Playground WebSocket available at: wss://${process.env.SERVER_BASE_URL || 'firtqx9z8x.ap-south-1.awsapprunner.com'}/playground`
+    `Playground WebSocket available at: wss://${config.get('server.baseUrl', { infer: true }) || 'firtqx9z8x.ap-south-1.awsapprunner.com'}/playground`
   );
 }
 
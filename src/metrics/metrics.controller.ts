@@ -0,0 +1,17 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+
+@Controller('metrics') // Base route: /metrics
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  /**
+   * Route: GET /metrics
+   * Output: all metrics in the Prometheus text format
+   */
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  render(): string {
+    return this.metrics.render();
+  }
+}
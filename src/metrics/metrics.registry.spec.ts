@@ -0,0 +1,64 @@
+import { MetricsRegistry } from './metrics.registry';
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges with labels', () => {
+    const registry = new MetricsRegistry();
+    const errors = registry.counter('errors_total', 'Errors', ['provider']);
+    const active = registry.gauge('active', 'Active sessions', ['kind']);
+
+    errors.inc({ provider: 'deepgram' });
+    errors.inc({ provider: 'deepgram' }, 2);
+    errors.inc({ provider: 'say "hi"\n' });
+    active.inc({ kind: 'call' });
+    active.inc({ kind: 'call' });
+    active.dec({ kind: 'call' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP errors_total Errors',
+        '# TYPE errors_total counter',
+        'errors_total{provider="deepgram"} 3',
+        'errors_total{provider="say \\"hi\\"\\n"} 1',
+        '# HELP active Active sessions',
+        '# TYPE active gauge',
+        'active{kind="call"} 1',
+        '',
+      ].join('\n'),
+    );
+    expect(() => errors.inc({}, -1)).toThrow();
+  });
+
+  it('renders histograms with cumulative buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram(
+      'latency_seconds',
+      'Latency',
+      ['stage'],
+      [0.1, 0.5],
+    );
+
+    latency.observe({ stage: 'llm' }, 0.05);
+    latency.observe({ stage: 'llm' }, 0.3);
+    latency.observe({ stage: 'llm' }, 2);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{stage="llm",le="0.1"} 1',
+      'latency_seconds_bucket{stage="llm",le="0.5"} 2',
+      'latency_seconds_bucket{stage="llm",le="+Inf"} 3',
+      'latency_seconds_sum{stage="llm"} 2.35',
+      'latency_seconds_count{stage="llm"} 3',
+      '',
+    ]);
+    expect(latency.get({ stage: 'llm' })).toEqual({ count: 3, sum: 2.35 });
+  });
+
+  it('rejects duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('calls_total', 'Calls');
+    expect(() => registry.gauge('calls_total', 'Calls')).toThrow(
+      'already registered',
+    );
+  });
+});
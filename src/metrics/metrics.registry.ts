@@ -0,0 +1,230 @@
+/**
+ * Minimal metrics registry rendering the Prometheus text format (0.0.4).
+ * Counters, gauges and histograms with labels — enough for the voice pipeline
+ * without pulling in a client library.
+ */
+
+export type MetricLabels = Record<string, string | number | undefined>;
+
+// Seconds; covers fast STT finals up to slow LLM answers
+export const LATENCY_BUCKETS = [
+  0.05, 0.1, 0.2, 0.3, 0.5, 0.75, 1, 1.5, 2, 3, 5, 10,
+];
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * Escape a label value (backslash, double quote, line feed).
+ */
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+/**
+ * Series key + rendered `{a="1",b="2"}` part (only the declared label names, in order).
+ */
+function labelSet(names: string[], labels: MetricLabels = {}) {
+  const pairs = names.map(
+    (name) => `${name}="${escapeLabel(String(labels[name] ?? ''))}"`,
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function withLabel(rendered: string, pair: string): string {
+  return rendered ? `${rendered.slice(0, -1)},${pair}}` : `{${pair}}`;
+}
+
+abstract class BaseMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = [],
+  ) {}
+
+  protected abstract readonly type: string;
+
+  protected header(): string[] {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`];
+  }
+
+  abstract render(): string[];
+}
+
+/**
+ * Value that only goes up (e.g. calls, errors).
+ */
+export class Counter extends BaseMetric {
+  protected readonly type = 'counter';
+  private readonly values = new Map<string, number>();
+
+  inc(labels: MetricLabels = {}, amount = 1) {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    const key = labelSet(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelSet(this.labelNames, labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = this.header();
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${key} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Value that goes up and down (e.g. active sessions).
+ */
+export class Gauge extends BaseMetric {
+  protected readonly type = 'gauge';
+  private readonly values = new Map<string, number>();
+
+  set(labels: MetricLabels, value: number) {
+    this.values.set(labelSet(this.labelNames, labels), value);
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1) {
+    const key = labelSet(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  dec(labels: MetricLabels = {}, amount = 1) {
+    this.inc(labels, -amount);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelSet(this.labelNames, labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = this.header();
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${key} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[]; // Non-cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values (e.g. latency in seconds).
+ */
+export class Histogram extends BaseMetric {
+  protected readonly type = 'histogram';
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    readonly buckets: number[] = LATENCY_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    if (!Number.isFinite(value)) return;
+    const key = labelSet(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) series.buckets[index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Count + sum of one label set (for tests and summaries).
+   */
+  get(labels: MetricLabels = {}): { count: number; sum: number } {
+    const series = this.series.get(labelSet(this.labelNames, labels));
+    return { count: series?.count ?? 0, sum: series?.sum ?? 0 };
+  }
+
+  render(): string[] {
+    const lines = this.header();
+    for (const [key, series] of this.series) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.buckets[i];
+        lines.push(
+          `${this.name}_bucket${withLabel(key, `le="${formatValue(bound)}"`)} ${cumulative}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${withLabel(key, 'le="+Inf"')} ${series.count}`,
+      );
+      lines.push(`${this.name}_sum${key} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Named collection of metrics.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames?: string[]): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    labelNames?: string[],
+    buckets?: number[],
+  ): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format.
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) lines.push(...metric.render());
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { MetricsRegistry } from './metrics.registry';
+
+/**
+ * Pipeline metrics of the voice bot (exposed at GET /metrics).
+ * Latencies are recorded in seconds, labelled by the provider that served them.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new MetricsRegistry();
+
+  readonly sttFinalLatency = this.registry.histogram(
+    'voxion_stt_final_latency_seconds',
+    'Time from the end of the spoken words until their final transcript arrived',
+    ['provider'],
+  );
+
+  readonly llmLatency = this.registry.histogram(
+    'voxion_llm_latency_seconds',
+    'Duration of LLM requests (streamed requests: until the stream ended)',
+    ['provider', 'model', 'mode'],
+  );
+
+  readonly ttsFirstByte = this.registry.histogram(
+    'voxion_tts_first_byte_seconds',
+    'Time from the TTS request until the first audio arrived',
+    ['provider'],
+  );
+
+  readonly responseLatency = this.registry.histogram(
+    'voxion_response_latency_seconds',
+    'Time from the end of the user turn until the first bot audio',
+    ['kind'],
+  );
+
+  readonly calls = this.registry.counter(
+    'voxion_calls_total',
+    'Phone calls started',
+    ['direction'],
+  );
+
+  readonly providerErrors = this.registry.counter(
+    'voxion_provider_errors_total',
+    'Failed STT / LLM / TTS requests',
+    ['service', 'provider'],
+  );
+
+  readonly activeSessions = this.registry.gauge(
+    'voxion_active_sessions',
+    'Calls and playground sessions in progress',
+    ['kind'],
+  );
+
+  constructor() {
+    // Export the gauges from the start, not only after the first session
+    this.activeSessions.set({ kind: 'call' }, 0);
+    this.activeSessions.set({ kind: 'playground' }, 0);
+  }
+
+  /**
+   * All metrics in the Prometheus text format.
+   */
+  render(): string {
+    return this.registry.render();
+  }
+}
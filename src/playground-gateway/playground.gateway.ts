@@ -7,15 +7,26 @@ import {
 import { Logger } from '@nestjs/common';
 import { WebSocket, Server, Data } from 'ws';
 import { PlaygroundService } from 'src/playground/playground.service';
+import { errorMessage } from 'src/utils/error.util';
+
+// JSON text frames sent by the playground client
+interface PlaygroundCommand {
+  type?: string; // register | stop | user_text
+  agentId?: string; // register: agent to talk to (default agent if unset)
+  variables?: unknown; // register: prompt variables (checked by the service)
+  text?: string; // user_text: typed message
+}
 
 @WebSocketGateway({ path: '/playground', cors: true })
-export class PlaygroundGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class PlaygroundGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer() server: Server;
   private readonly logger = new Logger(PlaygroundGateway.name);
 
   constructor(private readonly playgroundService: PlaygroundService) {}
 
-    /**
+  /**
    * Handle new WebSocket client connection
    * - Logs connection
    * - Sets up client message handler
@@ -27,7 +38,9 @@ export class PlaygroundGateway implements OnGatewayConnection, OnGatewayDisconne
 
     try {
       if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify({ type: 'welcome', message: 'Gateway connected' }));
+        client.send(
+          JSON.stringify({ type: 'welcome', message: 'Gateway connected' }),
+        );
       }
     } catch (err) {
       this.logger.warn('Failed to send welcome message to client', err as any);
@@ -54,28 +67,41 @@ export class PlaygroundGateway implements OnGatewayConnection, OnGatewayDisconne
   setupClientMessageHandler(client: WebSocket) {
     client.on('message', async (data: Data) => {
       try {
-        let parsedTextMsg: any = null;
+        let parsedTextMsg: PlaygroundCommand | null = null;
 
         if (typeof data === 'string') {
-          parsedTextMsg = JSON.parse(data);
+          parsedTextMsg = JSON.parse(data) as PlaygroundCommand;
         } else if (Buffer.isBuffer(data)) {
           const maybe = data.toString('utf8').trim();
-          if (maybe.startsWith('{')) parsedTextMsg = JSON.parse(maybe);
+          if (maybe.startsWith('{')) {
+            parsedTextMsg = JSON.parse(maybe) as PlaygroundCommand;
+          }
         } else if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
-          const buf = Buffer.from(data instanceof ArrayBuffer ? data : (data as any).buffer);
+          const buf = Buffer.from(
+            data instanceof ArrayBuffer ? data : data.buffer,
+          );
           const str = buf.toString('utf8').trim();
-          if (str.startsWith('{')) parsedTextMsg = JSON.parse(str);
+          if (str.startsWith('{')) {
+            parsedTextMsg = JSON.parse(str) as PlaygroundCommand;
+          }
         }
 
         if (parsedTextMsg && parsedTextMsg.type) {
           this.logger.log(`WS text message type=${parsedTextMsg.type}`);
 
           if (parsedTextMsg.type === 'register') {
-            await this.playgroundService.startSession(client, 48000);
+            await this.playgroundService.startSession(
+              client,
+              48000,
+              parsedTextMsg.agentId,
+              parsedTextMsg.variables,
+            );
           } else if (parsedTextMsg.type === 'stop') {
             this.playgroundService.endSession(client);
           } else if (parsedTextMsg.type === 'user_text') {
-            await this.playgroundService.handleUserText(client, parsedTextMsg.text);
+            if (parsedTextMsg.text) {
+              this.playgroundService.handleUserText(client, parsedTextMsg.text);
+            }
           } else {
             this.logger.debug('Unhandled text message', parsedTextMsg);
           }
@@ -83,7 +109,9 @@ export class PlaygroundGateway implements OnGatewayConnection, OnGatewayDisconne
         }
 
         const isBinary =
-          Buffer.isBuffer(data) || data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+          Buffer.isBuffer(data) ||
+          data instanceof ArrayBuffer ||
+          ArrayBuffer.isView(data);
 
         if (isBinary) {
           let buf: Buffer;
@@ -100,16 +128,22 @@ export class PlaygroundGateway implements OnGatewayConnection, OnGatewayDisconne
         } else {
           this.logger.warn('Received message non-text non-binary, ignored');
         }
-      } catch (err: any) {
-        this.logger.error(`Error in client message handler: ${err?.message ?? err}`);
+      } catch (err: unknown) {
+        this.logger.error(
+          `Error in client message handler: ${errorMessage(err)}`,
+        );
         try {
-          client.send(JSON.stringify({ type: 'error', message: 'Processing error' }));
+          client.send(
+            JSON.stringify({ type: 'error', message: 'Processing error' }),
+          );
         } catch (_) {}
       }
     });
 
     client.on('close', (code, reason) => {
-      this.logger.log(`Client WS closed: ${code} - ${reason?.toString() ?? ''}`);
+      this.logger.log(
+        `Client WS closed: ${code} - ${reason?.toString() ?? ''}`,
+      );
       this.playgroundService.endSession(client);
     });
 
@@ -119,6 +153,3 @@ export class PlaygroundGateway implements OnGatewayConnection, OnGatewayDisconne
     });
   }
 }
-
-
-
@@ -1,13 +1,31 @@
 import { Module } from '@nestjs/common';
 import { PlaygroundGateway } from '../playground-gateway/playground.gateway';
 import { PlaygroundService } from './playground.service';
-import { PlaygroundDeepgramService } from './playground-deepgram/playground-deepgram.service';
-import { DeepgramModule } from '../deepgram/deepgram.module';
+import { SttModule } from '../stt/stt.module';
 import { LlmModule } from '../llm/llm.module';
 import { AudioModule } from '../audio/audio.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { AgentsModule } from '../agents/agents.module';
+import { ToolsModule } from '../tools/tools.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { RecordingsModule } from '../recordings/recordings.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { GreetingModule } from '../greeting/greeting.module';
 
 @Module({
-  imports: [DeepgramModule, LlmModule, AudioModule],
-  providers: [PlaygroundGateway, PlaygroundService, PlaygroundDeepgramService],
+  imports: [
+    SttModule,
+    LlmModule,
+    AudioModule,
+    ConversationModule,
+    AgentsModule,
+    ToolsModule,
+    SessionsModule,
+    RecordingsModule,
+    MetricsModule,
+    GreetingModule,
+  ],
+  providers: [PlaygroundGateway, PlaygroundService],
+  exports: [PlaygroundService],
 })
-export class PlaygroundModule {}
\ No newline at end of file
+export class PlaygroundModule {}
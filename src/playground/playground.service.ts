@@ -1,25 +1,66 @@
 // src/playground/playground.service.ts
 
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import WebSocket from 'ws';
 import { LlmService } from '../llm/llm.service';
-import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
-import { PlaygroundDeepgramService } from './playground-deepgram/playground-deepgram.service';
 import { AudioService } from 'src/audio/audio.service';
-import { PlaygroundWavWriter } from 'src/utils/wav-writer-playground';
-import { mulawToPCM16 } from 'src/utils/audio-utils';
+import {
+  RecordingChannel,
+  StereoWavRecorder,
+} from 'src/utils/stereo-wav-recorder';
+import { mulawToPcm16 } from 'src/audio/codec/g711';
+import { StreamingResampler } from 'src/audio/codec/resampler';
 import { LatencyTracker } from 'src/utils/latency.util';
+import { ConversationService } from 'src/conversation/conversation.service';
+import { ConversationHistory } from 'src/conversation/conversation-history';
+import { TurnManager, UserTurn } from 'src/conversation/turn-manager';
+import { ScheduledTurn, TurnScheduler } from 'src/conversation/turn-scheduler';
+import { InactivityMonitor } from 'src/conversation/inactivity-monitor';
+import { STT_PROVIDER, SttSession, SttTranscript } from 'src/stt/stt.types';
+import type { SttProvider } from 'src/stt/stt.types';
+import { AgentsService } from 'src/agents/agents.service';
+import { AgentDefinition } from 'src/agents/agent.types';
+import {
+  buildSystemPrompt,
+  normalizeVariables,
+} from 'src/agents/prompt-template';
+import { ToolRegistry } from 'src/tools/tool-registry.service';
+import { LlmToolset } from 'src/llm/llm.types';
+import { randomUUID } from 'crypto';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { SessionRecorder } from 'src/sessions/session-recorder';
+import { LiveSession, SessionOutcome } from 'src/sessions/session.types';
+import { ConfigService } from '@nestjs/config';
+import { encodeWav } from 'src/audio/codec/wav';
+import { RecordingsService } from 'src/recordings/recordings.service';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { GreetingService } from 'src/greeting/greeting.service';
+import { errorMessage } from '../utils/error.util';
 
 interface PlaygroundSession {
   client: WebSocket;
-  dgSocket: WebSocket;
-  directStream: boolean;
-  ffmpeg?: ChildProcessWithoutNullStreams;
-  silenceInterval?: NodeJS.Timeout;
-  wavWriter?: PlaygroundWavWriter;
-  hasGreeted?: boolean;
-  isProcessing: boolean;
+  agent: AgentDefinition;
+  systemPrompt: string; // Agent prompt rendered with the register variables
+  tools?: LlmToolset;
+  recorder: SessionRecorder; // Persisted transcript of this session
+  stt: SttSession;
+  sttRate: number; // Sample rate of the audio sent to STT
+  sttAudioMs: number; // Audio sent to STT so far (the STT's timeline)
+  sttFinalMs?: number; // STT latency of the last final transcript
+  turns: TurnManager; // End-of-turn detection (VAD on the mic audio + STT events)
+  sampleRate: number; // Sample rate of the client's microphone audio
+  sttResampler?: StreamingResampler; // Client rate → 16 kHz (unless the client sends 48 kHz)
+  botResampler: StreamingResampler; // Bot μ-law 8 kHz → client rate (recording)
+  recording?: StereoWavRecorder; // User left, bot right
+  scheduler: TurnScheduler; // Runs replies one at a time (overlap policy: turn.policy)
+  inactivity: InactivityMonitor; // Reprompts an idle user, ends idle / overlong sessions
   audioChunks: string[];
+  history: ConversationHistory;
 }
 
 @Injectable()
@@ -28,71 +69,224 @@ export class PlaygroundService {
   private sessions = new Map<WebSocket, PlaygroundSession>();
 
   constructor(
-    private readonly deepgramService: PlaygroundDeepgramService,
+    @Inject(STT_PROVIDER) private readonly sttProvider: SttProvider,
     private readonly llm: LlmService,
     private readonly audioService: AudioService,
-  ) { }
+    private readonly conversation: ConversationService,
+    private readonly agents: AgentsService,
+    private readonly toolRegistry: ToolRegistry,
+    private readonly sessionsService: SessionsService,
+    private readonly config: ConfigService,
+    private readonly recordings: RecordingsService,
+    private readonly metrics: MetricsService,
+    private readonly greetings: GreetingService,
+  ) {}
 
-
-   /**
+  /**
    * Start a new session for the client
-   * - Creates Deepgram socket for live transcription
-   * - Handles direct vs ffmpeg audio streaming
-   * - Starts silence packets + WAV recording
+   * - Picks the agent (prompt, voice, LLM settings) by id, or the default agent
+   * - Fills the prompt variables (same rules as outbound call variables);
+   *   invalid variables are reported to the client before anything is opened
+   * - Opens an STT session for live transcription (linear16)
+   * - Final fragments are joined into user turns by the turn manager
+   * - Replies run through the turn scheduler; queued / merged / cancelled
+   *   turns are reported to the client
+   * - Sends 48 kHz audio directly to STT, other rates are resampled to 16 kHz
+   * - Starts the stereo WAV recording (STT keeps itself alive between utterances)
    * - Stores session details in memory
+   * - Plays the agent's greeting once the client is registered
+   * - Idle users are reprompted, then the session ends (inactivity.*)
+   * - A repeated register ends the client's previous session
    */
-  async startSession(client: WebSocket, sampleRate = 48000) {
+  async startSession(
+    client: WebSocket,
+    sampleRate = 48000,
+    agentId?: string,
+    rawVariables?: unknown,
+  ) {
     const tracker = new LatencyTracker('Playground.startSession');
-    this.logger.log('Starting new playground session');
+    const agent = this.agents.resolve(agentId);
+    this.logger.log(`Starting new playground session (agent: ${agent.id})`);
 
     try {
-      const dgSocket = await this.deepgramService.createLive(
-        (msg) => this.handleDeepgramTranscript(client, msg),
-        sampleRate,
-      );
+      const variables = normalizeVariables(rawVariables);
+      const systemPrompt = buildSystemPrompt(agent, variables);
 
       const direct = sampleRate === 48000;
-      let ffmpeg: ChildProcessWithoutNullStreams | undefined = undefined;
+      const sttRate = direct ? sampleRate : 16000;
+      const stt = await this.sttProvider
+        .connect({
+          encoding: 'linear16',
+          sampleRate: sttRate,
+          language: agent.language,
+        })
+        .catch((err) => {
+          this.metrics.providerErrors.inc({
+            service: 'stt',
+            provider: this.sttProvider.name,
+          });
+          throw err;
+        });
+
+      const sessionId = randomUUID();
+      const recording = new StereoWavRecorder(
+        this.recordings.workingFile(sessionId),
+        {
+          sampleRate,
+          mixdown: this.config.get<boolean>('recordings.mixdown'),
+        },
+      );
 
-      if (!direct) {
-        ffmpeg = this.createFfmpegProcess(dgSocket);
-        this.logger.log('FFmpeg process spawned for sample rate conversion');
-      }
+      const recorder = this.sessionsService.start({
+        id: sessionId,
+        kind: 'playground',
+        agentId: agent.id,
+        recordingId: sessionId,
+        variables,
+      });
 
-      const silenceInterval = this.startSilence(dgSocket);
-      const filename = `recordings/playground_${Date.now()}.wav`;
-      const wavWriter = new PlaygroundWavWriter(filename);
+      // Tool calls are shown in the client's transcript (no call control here)
+      const tools = this.toolRegistry.createToolset(
+        agent.tools,
+        { agentId: agent.id, sessionId: recorder.id },
+        (invocation) => {
+          recorder.addTool(invocation);
+          client.send(JSON.stringify({ type: 'tool_call', ...invocation }));
+        },
+      );
 
-      this.sessions.set(client, {
+      const session: PlaygroundSession = {
         client,
-        dgSocket,
-        directStream: direct,
-        ffmpeg,
-        silenceInterval,
-        wavWriter,
-        hasGreeted: false,
-        isProcessing: false,
+        agent,
+        systemPrompt,
+        tools,
+        recorder,
+        stt,
+        sttRate,
+        sttAudioMs: 0,
+        turns: this.conversation.createTurnManager(sampleRate),
+        sampleRate,
+        sttResampler: direct
+          ? undefined
+          : new StreamingResampler(sampleRate, 16000),
+        botResampler: new StreamingResampler(8000, sampleRate),
+        recording,
+        scheduler: this.conversation.createTurnScheduler((turn) =>
+          this.respond(session, turn),
+        ),
+        inactivity: this.conversation.createInactivityMonitor(
+          () => !!session.scheduler.current || session.turns.pending,
+        ),
         audioChunks: [],
+        history: this.conversation.createHistory(),
+      };
+      // Checked after the awaits above, so concurrent registers cannot leave
+      // a session behind
+      if (this.sessions.has(client)) {
+        this.logger.warn(
+          'Client registered again, ending its previous session',
+        );
+        this.endSession(client);
+      }
+      this.sessions.set(client, session);
+      this.metrics.activeSessions.inc({ kind: 'playground' });
+
+      const { turns } = session;
+      turns.on('turn', (turn) => this.handleUserTurn(session, turn));
+      stt.on('interim', (tr) => turns.onTranscript(tr));
+      stt.on('final', (tr) => this.onFinalTranscript(session, tr));
+      stt.on('utterance-end', () => turns.onUtteranceEnd());
+      stt.on('error', (err) => {
+        this.metrics.providerErrors.inc({
+          service: 'stt',
+          provider: this.sttProvider.name,
+        });
+        this.logger.error(`STT error: ${err.message}`);
+      });
+      stt.on('reconnecting', ({ attempt, delayMs }) => {
+        if (attempt === 1)
+          this.metrics.providerErrors.inc({
+            service: 'stt',
+            provider: this.sttProvider.name,
+          });
+        this.logger.warn(
+          `STT connection lost, reconnecting in ${delayMs} ms (attempt ${attempt})`,
+        );
       });
 
-      client.send(JSON.stringify({ type: 'registered' }));
-      this.logger.log('Playground session registered and client notified');
-    } catch (err: any) {
-      this.logger.error('Failed to start session:', err.message ?? err);
-      try {
+      session.scheduler.on('queued', (turn) =>
+        client.send(JSON.stringify({ type: 'turn_queued', turnId: turn.id })),
+      );
+      session.scheduler.on('merged', ({ turn }) =>
         client.send(
-          JSON.stringify({ type: 'error', message: 'Start session failed' }),
+          JSON.stringify({
+            type: 'turn_merged',
+            turnId: turn.id,
+            text: turn.text,
+          }),
+        ),
+      );
+      session.scheduler.on('cancelled', ({ turn, reason }) => {
+        this.logger.log(`Turn ${turn.id} cancelled: ${reason}`);
+        client.send(
+          JSON.stringify({ type: 'turn_cancelled', turnId: turn.id, reason }),
         );
-      } catch { }
+      });
+
+      const { inactivity } = session;
+      inactivity.on(
+        'reprompt',
+        () =>
+          void this.say(
+            session,
+            this.config.get<string>('inactivity.repromptText') ??
+              'Are you still there?',
+          ),
+      );
+      inactivity.on(
+        'idle',
+        () =>
+          void this.endWithGoodbye(
+            session,
+            this.config.get<string>('inactivity.goodbyeText') ?? 'Goodbye!',
+            'inactive',
+            'User inactive, session ended by bot',
+          ),
+      );
+      inactivity.on(
+        'max-duration',
+        () =>
+          void this.endWithGoodbye(
+            session,
+            this.config.get<string>('inactivity.maxDurationText') ?? 'Goodbye!',
+            'max-duration',
+            'Maximum session duration reached',
+          ),
+      );
+      inactivity.start();
+
+      client.send(JSON.stringify({ type: 'registered', agentId: agent.id }));
+      this.logger.log('Playground session registered and client notified');
+      void this.greet(session, variables);
+    } catch (err: unknown) {
+      this.logger.error(`Failed to start session: ${errorMessage(err)}`);
+      const message =
+        err instanceof BadRequestException
+          ? err.message
+          : 'Start session failed';
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify({ type: 'error', message }));
+      }
     } finally {
       tracker.end();
     }
   }
 
-   /**
+  /**
    * Handle audio data received from client
    * - Saves user audio into WAV file
-   * - Sends audio directly to Deepgram OR via ffmpeg conversion
+   * - Feeds the VAD of the turn manager
+   * - Sends audio to STT (resampled to 16 kHz unless it is 48 kHz)
    */
   async handleAudio(client: WebSocket, data: Buffer) {
     const tracker = new LatencyTracker('Playground.handleAudio');
@@ -106,122 +300,245 @@ export class PlaygroundService {
     const sess = this.sessions.get(client);
     if (!sess) return;
 
-    if (sess.wavWriter) {
-      try {
-        sess.wavWriter.writePCM16(data);
-      } catch (err) {
-        this.logger.error('Failed to write user audio to wav', err as any);
-      }
-    }
+    this.record(sess, 'caller', data);
+    sess.turns.onAudio(data);
 
-    if (sess.directStream) {
-      if (sess.dgSocket.readyState === WebSocket.OPEN) {
-        sess.dgSocket.send(data);
-      }
-    } else {
-      if (!sess.ffmpeg) {
-        sess.ffmpeg = this.createFfmpegProcess(sess.dgSocket);
-      }
-      if (sess.ffmpeg.stdin?.writable) {
-        sess.ffmpeg.stdin.write(data);
-      }
-    }
+    this.sendToStt(
+      sess,
+      sess.sttResampler ? sess.sttResampler.process(data) : data,
+    );
 
     tracker.end();
   }
 
-   /**
-   * Handle typed text input from user
-   * - Sends transcript to client
-   * - Gets bot reply from LLM
-   * - Sends reply text + streams audio back to client
+  /**
+   * Send PCM16 audio (at the STT rate) and advance the STT timeline.
+   */
+  private sendToStt(session: PlaygroundSession, pcm: Buffer) {
+    if (!pcm.length || !session.stt.isOpen()) return;
+    session.stt.send(pcm);
+    session.sttAudioMs += (pcm.length / 2 / session.sttRate) * 1000;
+  }
+
+  /**
+   * Final transcript fragment → STT latency metric, then the turn manager.
+   * STT latency = audio sent so far vs. where the words ended (both on the STT timeline)
    */
-  async handleUserText(client: WebSocket, text: string) {
+  private onFinalTranscript(session: PlaygroundSession, tr: SttTranscript) {
+    if (tr.text.trim() && tr.start !== undefined) {
+      const latencyMs =
+        session.sttAudioMs - (tr.start + (tr.duration ?? 0)) * 1000;
+      if (latencyMs >= 0) {
+        session.sttFinalMs = Math.round(latencyMs);
+        this.metrics.sttFinalLatency.observe(
+          { provider: this.sttProvider.name },
+          latencyMs / 1000,
+        );
+      }
+    }
+    if (tr.text.trim()) session.inactivity.activity();
+    session.turns.onTranscript(tr);
+  }
+
+  /**
+   * Handle typed text input from user (same path as a spoken turn)
+   */
+  handleUserText(client: WebSocket, text: string) {
     const session = this.sessions.get(client);
     if (!session) {
       this.logger.warn('No active session for typed text');
       return;
     }
 
-    session.client.send(JSON.stringify({ type: 'transcript', text }));
-
-    try {
-      const botReply = await this.llm.generateResponse([
-        {
-          role: 'system',
-          content: `You are a professional hotel booking assistant for Axion Hotel in Lake City.
-Help users with bookings, availability, check-in/out, and services.
-Keep replies polite, short, and receptionist-style.`,
-        },
-        { role: 'user', content: text.trim() },
-      ]);
-
-      session.client.send(JSON.stringify({ type: 'bot_text', text: botReply }));
-
-      await this.streamBotResponse(session, botReply);
-    } catch (e) {
-      this.logger.error('Error handling user text', e as any);
-    }
+    this.submitTurn(session, text);
   }
 
-
-   /**
-   * Handle transcript received from Deepgram
-   * - Sends transcript to client
-   * - Calls LLM to generate polite booking assistant reply
-   * - Cleans up duplicate greetings
-   * - Streams bot audio reply to client
+  /**
+   * Handle a complete user turn (final STT fragments until the user stopped speaking)
    */
-  private async handleDeepgramTranscript(client: WebSocket, transcript: string) {
-    this.logger.log(`Deepgram transcript: "${transcript}"`);
-    const session = this.sessions.get(client);
-    if (!session) return;
-
-    if (session.isProcessing) {
-      this.logger.log('Already processing previous request, skipping...');
+  private handleUserTurn(session: PlaygroundSession, turn: UserTurn) {
+    this.logger.log(
+      `STT transcript (${turn.fragments.length} fragment(s), ${turn.reason}): "${turn.text}"`,
+    );
+
+    // Last words after the session ended are only transcribed
+    if (this.sessions.get(session.client) !== session) {
+      session.recorder.add('caller', turn.text, {
+        durationMs: turn.durationMs,
+      });
       return;
     }
+    this.submitTurn(session, turn.text, turn.durationMs);
+  }
 
-    session.isProcessing = true;
+  /**
+   * Hand user text to the session's reply scheduler
+   * - Sends transcript to client + adds it to the session transcript
+   * - The scheduler queues, merges or restarts the reply (turn.policy)
+   */
+  private submitTurn(
+    session: PlaygroundSession,
+    text: string,
+    durationMs?: number,
+  ) {
+    session.inactivity.activity();
+    session.client.send(JSON.stringify({ type: 'transcript', text }));
+    session.recorder.add('caller', text, { durationMs });
+    session.scheduler.submit(text);
+  }
 
-    try {
-      session.client.send(
-        JSON.stringify({ type: 'transcript', text: transcript }),
+  /**
+   * Generate the reply to one scheduled turn
+   * - Calls LLM to generate the agent's reply (cancelled with the turn,
+   *   apology reply if every LLM provider fails)
+   * - Streams bot audio reply to client
+   */
+  private async respond(session: PlaygroundSession, turn: ScheduledTurn) {
+    const { signal } = turn.abort;
+    const pipeline = new LatencyTracker(`Playground turn ${turn.id}`);
+    const sttFinalMs = session.sttFinalMs;
+    let responseMs: number | undefined;
+    const onFirstAudio = () => {
+      pipeline.mark('tts.firstByte');
+      responseMs = Date.now() - turn.submittedAt;
+      this.metrics.responseLatency.observe(
+        { kind: 'playground' },
+        responseMs / 1000,
       );
+    };
 
-      const botReplyRaw = await this.llm.generateResponse([
+    try {
+      session.history.addUser(turn.text);
+      const botReplyRaw = await this.llm.generateResponse(
+        session.history.toMessages(session.systemPrompt),
         {
-          role: 'system',
-          content: `You are a professional hotel booking assistant.
-Focus only on answering the user's booking or service questions politely and concisely.
-Keep responses under 2 sentences for faster interaction.`,
+          ...session.agent.llm,
+          tools: session.tools,
+          signal,
+          useFallbackReply: true,
         },
-        { role: 'user', content: transcript.trim() },
-      ]);
+      );
+      pipeline.mark('llm.complete');
+      if (signal.aborted) return;
 
-      let botReply = botReplyRaw;
+      let botReply = botReplyRaw.trim();
+      if (!botReply) botReply = 'Sure, could you please provide more details?';
 
-      if (!session.hasGreeted) {
-        session.hasGreeted = true;
-      } else {
-        botReply = botReply.replace(/welcome to axion hotel.*?(\.|!)/gi, '');
-        botReply = botReply.replace(/hello[!.,]?\s*/i, '');
-        botReply = botReply.replace(/good (morning|afternoon|evening).*?(\.|!)/gi, '');
+      session.history.addAssistant(botReply);
+      turn.hasOutput = true;
+      session.recorder.add('bot', botReply);
+      void this.conversation.compact(session.history);
+
+      session.client.send(
+        JSON.stringify({ type: 'bot_text', turnId: turn.id, text: botReply }),
+      );
+
+      pipeline.mark('tts.request');
+      await this.streamBotResponse(session, turn, botReply, onFirstAudio);
+    } catch (e: unknown) {
+      // Cancelled turns are reported by the scheduler
+      if (!signal.aborted) {
+        this.logger.error(`LLM/TTS error: ${errorMessage(e)}`);
       }
+    } finally {
+      const marks = pipeline.getMarks();
+      session.recorder.addLatency(turn.id, marks, {
+        sttFinalMs,
+        llmMs: marks['llm.complete'],
+        ttsFirstByteMs:
+          marks['tts.firstByte'] !== undefined
+            ? marks['tts.firstByte'] - marks['tts.request']
+            : undefined,
+        responseMs,
+      });
+    }
+  }
 
-      botReply = botReply.trim();
-      if (!botReply) botReply = "Sure, could you please provide more details?";
+  /**
+   * Send the agent's greeting to a new session
+   * - Personalized with the register variables
+   * - Recorded as the first assistant turn → the LLM does not greet again
+   * - Skipped if the first reply already started meanwhile
+   */
+  private async greet(
+    session: PlaygroundSession,
+    variables: Record<string, string>,
+  ) {
+    const text = this.greetings.text(session.agent, variables);
+    if (text) await this.say(session, text);
+  }
+
+  /**
+   * Send a fixed sentence (greeting, reprompt, goodbye) as text + audio
+   * - Audio comes from the TTS cache when the sentence was said before
+   * - Added to the history + transcript as a bot turn
+   * Output: false if nothing was sent (session ended, reply in progress, TTS failed)
+   */
+  private async say(
+    session: PlaygroundSession,
+    text: string,
+    canSpeak = () => !session.scheduler.current, // Checked once the audio is ready
+  ): Promise<boolean> {
+    try {
+      const audio = await this.greetings.synthesize(session.agent, text);
+      if (this.sessions.get(session.client) !== session || !canSpeak())
+        return false;
 
+      session.history.addAssistant(text);
+      session.recorder.add('bot', text, { turnId: 0 });
       session.client.send(
-        JSON.stringify({ type: 'bot_text', text: botReply }),
+        JSON.stringify({ type: 'bot_text', turnId: 0, text }),
       );
+      session.client.send(
+        JSON.stringify({
+          type: 'bot_audio_chunk',
+          turnId: 0,
+          audio: audio.toString('base64'),
+          final: false,
+        }),
+      );
+      session.client.send(
+        JSON.stringify({ type: 'bot_audio_chunk', turnId: 0, final: true }),
+      );
+      this.record(
+        session,
+        'bot',
+        session.botResampler.process(mulawToPcm16(audio)),
+      );
+      this.record(session, 'bot', session.botResampler.flush());
+      return true;
+    } catch (e: unknown) {
+      this.logger.error(`TTS failed for "${text}": ${errorMessage(e)}`);
+      return false;
+    }
+  }
 
-      await this.streamBotResponse(session, botReply);
-
-    } catch (e) {
-      this.logger.error('LLM/TTS error', e as any);
-      session.isProcessing = false;
+  /**
+   * Say goodbye and end the session (idle user, session length limit)
+   * - Cancels the reply in progress
+   * - The client gets `session_ended` with the outcome; the socket stays open
+   */
+  private async endWithGoodbye(
+    session: PlaygroundSession,
+    text: string,
+    outcome: SessionOutcome,
+    reason: string,
+  ) {
+    const { client } = session;
+    if (this.sessions.get(client) !== session) return;
+
+    this.logger.log(
+      `Ending playground session ${session.recorder.id}: ${reason}`,
+    );
+    session.scheduler.cancelAll(outcome);
+    session.recorder.add('system', reason);
+    await this.say(session, text, () => true);
+
+    if (this.sessions.get(client) !== session) return;
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({ type: 'session_ended', reason: outcome }));
     }
+    this.endSession(client, outcome);
   }
 
   /**
@@ -230,57 +547,97 @@ Keep responses under 2 sentences for faster interaction.`,
    * - Sends chunks to client + writes to WAV
    * - On final chunk, saves audio to file
    * - Falls back to slower TTS if fast streaming fails
+   * - Stops when the turn is cancelled
+   * - onFirstAudio runs once, when the first audio goes to the client
    */
-  private async streamBotResponse(session: PlaygroundSession, botReply: string) {
+  private async streamBotResponse(
+    session: PlaygroundSession,
+    turn: ScheduledTurn,
+    botReply: string,
+    onFirstAudio: () => void,
+  ) {
     const tracker = new LatencyTracker('Playground.streamBotResponse');
+    const { signal } = turn.abort;
+    let gotAudio = false;
 
     try {
       session.audioChunks = [];
 
       await this.audioService.streamTextToAudioFast(
         botReply,
-        async (audioChunk: string, isFinal: boolean) => {
+        (audioChunk: string, isFinal: boolean) => {
+          if (signal.aborted) return;
+
           if (audioChunk && !isFinal) {
-            // Send to client
-            session.client.send(JSON.stringify({
-              type: 'bot_audio_chunk',
-              audio: audioChunk,
-              final: false
-            }));
-
-            // ✅ Decode & write immediately to WAV
-            if (session.wavWriter) {
-              const bufMulaw = Buffer.from(audioChunk, 'base64');
-              const bufPcm16 = await mulawToPCM16(bufMulaw);
-              session.wavWriter.writePCM16(bufPcm16);
+            if (!gotAudio) {
+              gotAudio = true;
+              onFirstAudio();
             }
 
+            // Send to client
+            session.client.send(
+              JSON.stringify({
+                type: 'bot_audio_chunk',
+                turnId: turn.id,
+                audio: audioChunk,
+                final: false,
+              }),
+            );
+
+            // ✅ Decode & record on the bot channel right away
+            const bufMulaw = Buffer.from(audioChunk, 'base64');
+            this.record(
+              session,
+              'bot',
+              session.botResampler.process(mulawToPcm16(bufMulaw)),
+            );
+
             // Also store raw chunk for backup if needed
             session.audioChunks.push(audioChunk);
           }
 
           if (isFinal) {
-            session.client.send(JSON.stringify({ type: 'bot_audio_chunk', final: true }));
-
-            // Save raw mulaw as backup
-            this.saveBotAudioToFile(session, botReply).catch(e =>
-              this.logger.error('Failed to save bot audio:', e)
+            session.client.send(
+              JSON.stringify({
+                type: 'bot_audio_chunk',
+                turnId: turn.id,
+                final: true,
+              }),
             );
+            this.record(session, 'bot', session.botResampler.flush());
+
+            // Keep the reply's audio separately, if enabled
+            void this.saveReplyAudio(session);
 
-            session.isProcessing = false;
             tracker.end();
           }
-        }
+        },
+        { ...session.agent.voice, signal },
       );
     } catch (error) {
-      this.logger.error('Streaming bot response failed:', error);
-      session.isProcessing = false;
       tracker.end();
+      if (signal.aborted) {
+        // Drop the cut-off reply (resampler state + reply audio)
+        session.botResampler.reset();
+        session.audioChunks = [];
+        return;
+      }
+      this.logger.error('Streaming bot response failed:', error);
 
       try {
-        const fallbackAudio = await this.audioService.textToAudio(botReply);
-        session.client.send(JSON.stringify({ type: 'bot_audio', audio: fallbackAudio }));
-        await this.saveBotAudioToFile(session, botReply, fallbackAudio);
+        const fallbackAudio = await this.audioService.textToAudio(botReply, {
+          ...session.agent.voice,
+          signal,
+        });
+        if (!gotAudio) onFirstAudio();
+        session.client.send(
+          JSON.stringify({
+            type: 'bot_audio',
+            turnId: turn.id,
+            audio: fallbackAudio,
+          }),
+        );
+        await this.saveReplyAudio(session, fallbackAudio);
       } catch (fallbackError) {
         this.logger.error('Fallback TTS also failed:', fallbackError);
       }
@@ -288,101 +645,189 @@ Keep responses under 2 sentences for faster interaction.`,
   }
 
   /**
-   * Save bot generated audio into file
-   * - Uses audio chunks OR pre-generated audio
-   * - Writes to .mulaw file
+   * Store the bot reply audio as its own recording (recordings.saveReplies)
+   * - Uses audio chunks OR pre-generated audio (base64 μ-law 8 kHz)
    */
-  private async saveBotAudioToFile(session: PlaygroundSession, botReply: string, preGeneratedAudio?: string) {
-    try {
-      let base64Audio = preGeneratedAudio ?? session.audioChunks.join('');
-
-      if (!base64Audio) return;
-
-      const filename = `playground_reply_${Date.now()}.mulaw`;
-      await this.audioService.saveAudioToFile(base64Audio, filename);
+  private async saveReplyAudio(
+    session: PlaygroundSession,
+    preGeneratedAudio?: string,
+  ) {
+    const chunks = preGeneratedAudio
+      ? [preGeneratedAudio]
+      : session.audioChunks;
+    session.audioChunks = [];
+    if (!chunks.length || !this.config.get<boolean>('recordings.saveReplies'))
+      return;
 
-      // Clear chunks
-      session.audioChunks = [];
-    } catch (e) {
-      this.logger.error('Audio save/write error', e as any);
-    }
+    const mulaw = Buffer.concat(
+      chunks.map((chunk) => Buffer.from(chunk, 'base64')),
+    );
+    await this.recordings.saveAudio(encodeWav(mulawToPcm16(mulaw), 8000), {
+      id: `${session.recorder.id}-reply-${Date.now()}`,
+      kind: 'reply',
+      sessionId: session.recorder.id,
+    });
   }
 
   /**
-   * Create ffmpeg process for audio resampling
-   * - Converts raw 48kHz PCM → 16kHz PCM
-   * - Pipes converted audio to Deepgram socket
+   * Finalize the session recording and hand it (+ mono mixdown) to the recording store.
    */
-  private createFfmpegProcess(dgSocket: WebSocket): ChildProcessWithoutNullStreams {
-    const args = [
-      '-hide_banner', '-loglevel', 'error',
-      '-f', 's16le', '-ar', '48000', '-ac', '1', '-i', 'pipe:0',
-      '-f', 's16le', '-ar', '16000', '-ac', '1', 'pipe:1',
-    ];
-    const ffmpeg = spawn('ffmpeg', args);
-
-    ffmpeg.stdout.on('data', (chunk: Buffer) => {
-      if (dgSocket.readyState === WebSocket.OPEN) dgSocket.send(chunk);
-    });
+  private async storeRecording(session: PlaygroundSession) {
+    const recording = session.recording;
+    if (!recording) return;
 
-    ffmpeg.stderr.on('data', (e: Buffer) => {
-      this.logger.error(`ffmpeg stderr: ${e.toString()}`);
-    });
+    let mixdown: string | undefined;
+    try {
+      mixdown = recording.end();
+    } catch (err) {
+      this.logger.error('Failed to finalize recording', err);
+      return;
+    }
 
-    ffmpeg.on('exit', (code, sig) => {
-      this.logger.log(`ffmpeg exited code=${code}, sig=${sig}`);
+    const sessionId = session.recorder.id;
+    await this.recordings.saveFile(recording.filename, {
+      id: sessionId,
+      kind: 'playground',
+      sessionId,
     });
-
-    return ffmpeg;
+    if (mixdown) {
+      await this.recordings.saveFile(mixdown, {
+        id: `${sessionId}-mono`,
+        kind: 'mixdown',
+        sessionId,
+      });
+    }
   }
 
-   /**
-   * Start sending silence packets every 5s
-   * - Keeps Deepgram connection alive
+  /**
+   * Add audio to the session recording on the shared timeline.
+   * - User audio streams continuously → appended, unless the mic paused
+   *   (then it is placed at the current time)
+   * - Bot audio plays as soon as it arrives → never before "now", and
+   *   chunks arriving faster than real time are queued behind each other
    */
-  private startSilence(dgSocket: WebSocket): NodeJS.Timeout {
-    return setInterval(() => {
-      if (dgSocket.readyState === WebSocket.OPEN) {
-        const silence = Buffer.alloc(8192);
-        dgSocket.send(silence);
-      }
-    }, 5000);
+  private record(
+    session: PlaygroundSession,
+    channel: RecordingChannel,
+    pcm: Buffer,
+  ) {
+    const recording = session.recording;
+    if (!recording || !pcm.length) return;
+
+    const durationMs = (pcm.length / 2 / recording.sampleRate) * 1000;
+    const slackMs = channel === 'caller' ? durationMs + 500 : 0; // network jitter
+    const atMs = Math.max(
+      recording.endMs(channel),
+      recording.elapsedMs() - slackMs,
+    );
+
+    try {
+      recording.write(channel, pcm, atMs);
+    } catch (err) {
+      this.logger.error(`Failed to record ${channel} audio`, err);
+    }
   }
 
-    /**
+  /**
    * End session for client
-   * - Kills ffmpeg, closes Deepgram socket
-   * - Stops silence timer + ends WAV writer
+   * - Closes STT session (its last results still reach the transcript)
+   * - Finalizes the recording
+   * - Persists the session transcript (with the given outcome)
    * - Removes session from memory
    */
-  endSession(client: WebSocket) {
+  endSession(client: WebSocket, outcome: SessionOutcome = 'completed') {
     const tracker = new LatencyTracker('Playground.endSession');
     const session = this.sessions.get(client);
 
     if (session) {
-      try { session.ffmpeg?.stdin.end(); } catch { }
-      try { session.ffmpeg?.kill('SIGKILL'); } catch { }
-      try { session.dgSocket.close(); } catch { }
-      if (session.silenceInterval) clearInterval(session.silenceInterval);
-      if (session.wavWriter) session.wavWriter.end();
+      session.scheduler.dispose();
+      session.inactivity.dispose();
+      this.metrics.activeSessions.dec({ kind: 'playground' });
+      void this.storeRecording(session);
+      void this.finishSession(session, outcome);
       this.sessions.delete(client);
     }
 
     tracker.end();
   }
 
-   /**
+  /**
+   * Persist the session once the user's last words are in the transcript
+   * (STT flushes its final results on close, pending fragments end the last turn).
+   */
+  private async finishSession(
+    session: PlaygroundSession,
+    outcome: SessionOutcome,
+  ) {
+    await session.stt.close();
+    session.turns.flush();
+    session.turns.dispose();
+    await this.sessionsService.finish(session.recorder, outcome);
+  }
+
+  /**
    * Get stats of all active sessions
-   * - Shows if greeted, processing status, audio chunks count
+   * - Shows current + queued turns, audio chunks count
    */
   getSessionStats() {
     return {
       activeSessions: this.sessions.size,
-      sessions: Array.from(this.sessions.values()).map(session => ({
-        hasGreeted: session.hasGreeted,
-        isProcessing: session.isProcessing,
+      sessions: Array.from(this.sessions.values()).map((session) => ({
+        id: session.recorder.id,
+        agentId: session.agent.id,
+        currentTurnId: session.scheduler.current?.id,
+        queuedTurns: session.scheduler.queued.length,
         audioChunksCount: session.audioChunks.length,
       })),
     };
   }
+
+  /**
+   * Sessions in progress (admin API).
+   * - speaking = the current reply has sent audio to the client
+   */
+  listSessions(): LiveSession[] {
+    return Array.from(this.sessions.values()).map((session) => {
+      const { record } = session.recorder;
+      const turn = session.scheduler.current;
+      return {
+        id: session.recorder.id,
+        kind: 'playground',
+        agentId: session.agent.id,
+        state: turn?.hasOutput ? 'speaking' : turn ? 'responding' : 'listening',
+        startedAt: record.startedAt,
+        durationMs: session.recorder.elapsed(),
+        transcriptEntries: record.transcript.length,
+        currentTurn: turn && {
+          id: turn.id,
+          text: turn.text,
+          hasOutput: turn.hasOutput,
+          ageMs: Date.now() - turn.submittedAt,
+        },
+        queuedTurns: session.scheduler.queued.length,
+      };
+    });
+  }
+
+  /**
+   * Forcibly end a session (admin API): tell the client, end the session
+   * and close its socket.
+   * Output: false if no such session is active
+   */
+  terminateSession(id: string): boolean {
+    const entry = Array.from(this.sessions.entries()).find(
+      ([, s]) => s.recorder.id === id,
+    );
+    if (!entry) return false;
+
+    const [client, session] = entry;
+    this.logger.warn(`Terminating playground session ${id} (admin request)`);
+    session.recorder.add('system', 'Session terminated by an administrator');
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify({ type: 'session_terminated' }));
+    }
+    this.endSession(client, 'terminated');
+    if (client.readyState === WebSocket.OPEN) client.close(1000, 'Terminated');
+    return true;
+  }
 }
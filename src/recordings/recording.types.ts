@@ -0,0 +1,76 @@
+import type { Readable } from 'stream';
+
+export const RECORDING_STORE = 'RECORDING_STORE';
+
+/**
+ * - call: stereo phone call recording (caller left, bot right)
+ * - playground: stereo playground session recording
+ * - mixdown: mono mix of a call/playground recording
+ * - reply: audio of a single bot reply
+ */
+export type RecordingKind = 'call' | 'playground' | 'mixdown' | 'reply';
+
+/**
+ * Metadata stored next to every recording.
+ */
+export interface RecordingMetadata {
+  id: string;
+  kind: RecordingKind;
+  sessionId?: string; // Session (call SID / playground id) the audio belongs to
+  contentType: string;
+  sizeBytes: number;
+  sampleRate?: number;
+  channels?: number;
+  durationMs?: number;
+  createdAt: string;
+}
+
+/**
+ * Filters for listing recordings. Dates are ISO strings; newest first.
+ */
+export interface RecordingQuery {
+  sessionId?: string;
+  kind?: RecordingKind;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Inclusive byte range of a partial download.
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Storage backend for recordings (audio + metadata).
+ */
+export interface RecordingStore {
+  readonly name: string;
+  /**
+   * Store a recording. `data` is the audio or the path of a local file,
+   * which the store takes over (moves or uploads + deletes).
+   */
+  put(metadata: RecordingMetadata, data: Buffer | string): Promise<void>;
+  get(id: string): Promise<RecordingMetadata | undefined>;
+  /** Read the audio (or a byte range of it); undefined if it does not exist */
+  open(id: string, range?: ByteRange): Promise<Readable | undefined>;
+  list(): Promise<RecordingMetadata[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Ids become file names / object keys → no path separators
+export const RECORDING_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+/**
+ * Throws if an id cannot be used as a file name / object key.
+ */
+export function checkRecordingId(id: string): string {
+  if (!RECORDING_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid recording id "${id}"`);
+  }
+  return id;
+}
@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { RecordingQueryDto } from './dto/recording-query.dto';
+import { ByteRange } from './recording.types';
+import { RecordingsService } from './recordings.service';
+
+@Controller('recordings') // Base route: /recordings
+@UseGuards(AdminApiKeyGuard) // Call audio: admin API key required
+export class RecordingsController {
+  private readonly logger = new Logger(RecordingsController.name);
+
+  constructor(private readonly recordingsService: RecordingsService) {}
+
+  /**
+   * Route: GET /recordings?sessionId=&kind=&since=&until=&limit=&offset=
+   * Output: { total, items } (metadata, newest first)
+   */
+  @Get()
+  list(@Query() query: RecordingQueryDto) {
+    return this.recordingsService.list(query);
+  }
+
+  /**
+   * Route: GET /recordings/:id
+   * Output: recording metadata (404 if unknown)
+   */
+  @Get(':id')
+  get(@Param('id') id: string) {
+    return this.recordingsService.get(id);
+  }
+
+  /**
+   * Stream the audio of a recording.
+   *
+   * Route: GET /recordings/:id/audio (supports `Range: bytes=...` for seeking)
+   * Output: audio/wav (200, or 206 for a range; 416 if the range is invalid)
+   */
+  @Get(':id/audio')
+  async audio(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const metadata = await this.recordingsService.get(id);
+    const size = metadata.sizeBytes;
+
+    let range: ByteRange | undefined;
+    const ranges = req.headers.range
+      ? req.range(size, { combine: true })
+      : undefined;
+    if (ranges === -1 || ranges === -2) {
+      res.status(416).setHeader('Content-Range', `bytes */${size}`);
+      res.end();
+      return;
+    }
+    if (ranges && ranges.length === 1) range = ranges[0];
+
+    const { stream } = await this.recordingsService.open(id, range);
+    res.type(metadata.contentType);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Disposition', `inline; filename="${id}.wav"`);
+    if (range) {
+      res.status(206);
+      res.setHeader(
+        'Content-Range',
+        `bytes ${range.start}-${range.end}/${size}`,
+      );
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', size);
+    }
+
+    stream.on('error', (e) => {
+      this.logger.error(`Streaming recording ${id} failed: ${e.message}`);
+      res.destroy(e);
+    });
+    stream.pipe(res);
+  }
+
+  /**
+   * Route: DELETE /recordings/:id
+   * Output: 204 (404 if unknown)
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id') id: string) {
+    await this.recordingsService.remove(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { RecordingsController } from './recordings.controller';
+import { RecordingsService } from './recordings.service';
+import { RECORDING_STORE } from './recording.types';
+import { LocalRecordingStore } from './stores/local-recording.store';
+import { S3RecordingStore } from './stores/s3-recording.store';
+
+@Module({
+  providers: [
+    RecordingsService,
+    AdminApiKeyGuard,
+    {
+      // recordings.backend = "s3" → S3-compatible bucket, else local disk
+      provide: RECORDING_STORE,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get<string>('recordings.backend') === 's3'
+          ? new S3RecordingStore(config)
+          : new LocalRecordingStore(config),
+    },
+  ],
+  controllers: [RecordingsController],
+  exports: [RecordingsService],
+})
+export class RecordingsModule {}
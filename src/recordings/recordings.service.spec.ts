@@ -0,0 +1,96 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encodeWav } from '../audio/codec/wav';
+import { RecordingsService } from './recordings.service';
+import { LocalRecordingStore } from './stores/local-recording.store';
+
+describe('RecordingsService', () => {
+  let dir: string;
+  let store: LocalRecordingStore;
+
+  const createService = (retention = {}) => {
+    const config = new ConfigService({ recordings: { dir, retention } });
+    store = new LocalRecordingStore(config);
+    return new RecordingsService(store, config);
+  };
+
+  const stored = (id: string, createdAt: string, sizeBytes = 1024 * 1024) =>
+    store.put(
+      { id, kind: 'call', contentType: 'audio/wav', sizeBytes, createdAt },
+      Buffer.alloc(0),
+    );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores finished WAV files with their format and session', async () => {
+    const service = createService();
+    const file = service.workingFile('CA1');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, encodeWav(Buffer.alloc(16000 * 2), 8000, 2)); // 1 s stereo
+
+    const metadata = await service.saveFile(file, {
+      id: 'CA1',
+      kind: 'call',
+      sessionId: 'CA1',
+    });
+
+    expect(metadata).toMatchObject({
+      sampleRate: 8000,
+      channels: 2,
+      durationMs: 1000,
+      sizeBytes: 32044,
+    });
+    expect(await service.list({ sessionId: 'CA1' })).toMatchObject({
+      total: 1,
+      items: [{ id: 'CA1' }],
+    });
+    expect((await service.list({ sessionId: 'CA2' })).total).toBe(0);
+    await expect(service.get('../CA1')).rejects.toThrow(NotFoundException);
+  });
+
+  it('does not throw when a recording cannot be stored', async () => {
+    const service = createService();
+
+    await expect(
+      service.saveFile(path.join(dir, 'missing.wav'), {
+        id: 'CA1',
+        kind: 'call',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('deletes recordings older than the maximum age', async () => {
+    const service = createService({ maxAgeDays: 30 });
+    await stored('old', '2026-01-01T00:00:00.000Z');
+    await stored('new', '2026-02-20T00:00:00.000Z');
+
+    const result = await service.applyRetention(
+      Date.parse('2026-03-01T00:00:00.000Z'),
+    );
+
+    expect(result).toEqual({ deleted: ['old'], freedBytes: 1024 * 1024 });
+    expect((await store.list()).map((r) => r.id)).toEqual(['new']);
+  });
+
+  it('deletes the oldest recordings until the quota is met', async () => {
+    const service = createService({ maxTotalMb: 2 });
+    await stored('a', '2026-01-01T00:00:00.000Z');
+    await stored('b', '2026-01-02T00:00:00.000Z');
+    await stored('c', '2026-01-03T00:00:00.000Z');
+    await stored('d', '2026-01-04T00:00:00.000Z');
+
+    const { deleted } = await service.applyRetention();
+
+    expect(deleted).toEqual(['a', 'b']);
+    expect((await store.list()).map((r) => r.id).sort()).toEqual(['c', 'd']);
+  });
+});
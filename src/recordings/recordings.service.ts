@@ -0,0 +1,246 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import { parseWavHeader, WAV_HEADER_BYTES } from '../audio/codec/wav';
+import {
+  ByteRange,
+  RECORDING_ID_PATTERN,
+  RECORDING_STORE,
+  RecordingKind,
+  RecordingMetadata,
+  RecordingQuery,
+} from './recording.types';
+import type { RecordingStore } from './recording.types';
+import { errorMessage } from '../utils/error.util';
+
+const DEFAULT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INCOMING_DIR = 'incoming';
+
+/**
+ * Identity of a recording being stored.
+ */
+export interface RecordingInit {
+  id: string;
+  kind: RecordingKind;
+  sessionId?: string;
+}
+
+/**
+ * Stores finished recordings, serves them and enforces retention.
+ * - Live recordings are written to `<recordings.dir>/incoming/` and handed
+ *   to the configured RecordingStore (local or S3) when they are finished
+ * - Retention (hourly): deletes recordings older than maxAgeDays, then the
+ *   oldest ones until the total size is below maxTotalMb
+ */
+@Injectable()
+export class RecordingsService {
+  private readonly logger = new Logger(RecordingsService.name);
+
+  constructor(
+    @Inject(RECORDING_STORE) private readonly store: RecordingStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Local path for a recording that is still being written.
+   */
+  workingFile(id: string): string {
+    return path.join(this.dir(), INCOMING_DIR, `${id}.wav`);
+  }
+
+  /**
+   * Store a finished WAV file (the store takes over the file).
+   * Errors are logged, not thrown (a lost recording must not break the call).
+   */
+  async saveFile(
+    file: string,
+    init: RecordingInit,
+  ): Promise<RecordingMetadata | undefined> {
+    try {
+      const handle = await fs.open(file, 'r');
+      const header = Buffer.alloc(WAV_HEADER_BYTES);
+      try {
+        await handle.read(header, 0, WAV_HEADER_BYTES, 0);
+      } finally {
+        await handle.close();
+      }
+      const { size } = await fs.stat(file);
+      const metadata = this.metadata(init, header, size);
+      await this.store.put(metadata, file);
+      return metadata;
+    } catch (e: unknown) {
+      this.logger.error(
+        `Failed to store recording ${init.id}: ${errorMessage(e)}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a WAV file held in memory (e.g. one bot reply).
+   */
+  async saveAudio(
+    wav: Buffer,
+    init: RecordingInit,
+  ): Promise<RecordingMetadata | undefined> {
+    try {
+      const metadata = this.metadata(init, wav, wav.length);
+      await this.store.put(metadata, wav);
+      return metadata;
+    } catch (e: unknown) {
+      this.logger.error(
+        `Failed to store recording ${init.id}: ${errorMessage(e)}`,
+      );
+      return undefined;
+    }
+  }
+
+  async list(
+    query: RecordingQuery,
+  ): Promise<{ total: number; items: RecordingMetadata[] }> {
+    const matches = (await this.store.list())
+      .filter((r) => matchesQuery(r, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    return {
+      total: matches.length,
+      items: matches.slice(offset, offset + limit),
+    };
+  }
+
+  async get(id: string): Promise<RecordingMetadata> {
+    const metadata = RECORDING_ID_PATTERN.test(id)
+      ? await this.store.get(id)
+      : undefined;
+    if (!metadata) throw new NotFoundException(`Recording ${id} not found`);
+    return metadata;
+  }
+
+  /**
+   * Open the audio of a recording (optionally a byte range of it).
+   */
+  async open(
+    id: string,
+    range?: ByteRange,
+  ): Promise<{ metadata: RecordingMetadata; stream: Readable }> {
+    const metadata = await this.get(id);
+    const stream = await this.store.open(id, range);
+    if (!stream)
+      throw new NotFoundException(`Audio of recording ${id} not found`);
+    return { metadata, stream };
+  }
+
+  async remove(id: string) {
+    await this.get(id);
+    await this.store.delete(id);
+    this.logger.log(`Deleted recording ${id}`);
+  }
+
+  /**
+   * Delete recordings beyond the configured age / total size limits.
+   * Output: ids of the deleted recordings + bytes freed
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'recordings-retention' })
+  async applyRetention(
+    now = Date.now(),
+  ): Promise<{ deleted: string[]; freedBytes: number }> {
+    const maxAgeDays =
+      this.configService.get<number>('recordings.retention.maxAgeDays') ?? 0;
+    const maxTotalMb =
+      this.configService.get<number>('recordings.retention.maxTotalMb') ?? 0;
+    const deleted: string[] = [];
+    let freedBytes = 0;
+
+    try {
+      // Oldest first
+      const recordings = (await this.store.list()).sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt),
+      );
+      let totalBytes = recordings.reduce((sum, r) => sum + r.sizeBytes, 0);
+      const maxBytes = maxTotalMb * 1024 * 1024;
+
+      for (const recording of recordings) {
+        const tooOld =
+          maxAgeDays > 0 &&
+          now - Date.parse(recording.createdAt) > maxAgeDays * DAY_MS;
+        const overQuota = maxBytes > 0 && totalBytes > maxBytes;
+        if (!tooOld && !overQuota) continue;
+
+        await this.store.delete(recording.id);
+        deleted.push(recording.id);
+        freedBytes += recording.sizeBytes;
+        totalBytes -= recording.sizeBytes;
+      }
+
+      await this.removeStaleWorkingFiles(now);
+    } catch (e: unknown) {
+      this.logger.error(`Recording retention failed: ${errorMessage(e)}`);
+    }
+
+    if (deleted.length) {
+      this.logger.log(
+        `Retention deleted ${deleted.length} recording(s), freed ${Math.round(freedBytes / 1024)} KiB`,
+      );
+    }
+    return { deleted, freedBytes };
+  }
+
+  /**
+   * Working files older than a day belong to crashed processes → drop them.
+   */
+  private async removeStaleWorkingFiles(now: number) {
+    const dir = path.join(this.dir(), INCOMING_DIR);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      return;
+    }
+    for (const file of files) {
+      const { mtimeMs } = await fs.stat(path.join(dir, file));
+      if (now - mtimeMs > DAY_MS)
+        await fs.rm(path.join(dir, file), { force: true });
+    }
+  }
+
+  private metadata(
+    init: RecordingInit,
+    header: Buffer,
+    sizeBytes: number,
+  ): RecordingMetadata {
+    const { sampleRate, channels, durationMs } = parseWavHeader(header);
+    return {
+      ...init,
+      contentType: 'audio/wav',
+      sizeBytes,
+      sampleRate,
+      channels,
+      durationMs,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private dir(): string {
+    return this.configService.get<string>('recordings.dir') ?? 'recordings';
+  }
+}
+
+/**
+ * True if a recording matches all filters of the query.
+ */
+function matchesQuery(
+  recording: RecordingMetadata,
+  query: RecordingQuery,
+): boolean {
+  if (query.sessionId && recording.sessionId !== query.sessionId) return false;
+  if (query.kind && recording.kind !== query.kind) return false;
+  if (query.since && recording.createdAt < query.since) return false;
+  if (query.until && recording.createdAt > query.until) return false;
+  return true;
+}
@@ -0,0 +1,72 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import { RecordingMetadata } from '../recording.types';
+import { LocalRecordingStore } from './local-recording.store';
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+describe('LocalRecordingStore', () => {
+  let dir: string;
+  let store: LocalRecordingStore;
+
+  const metadata = (id: string): RecordingMetadata => ({
+    id,
+    kind: 'call',
+    sessionId: 'CA1',
+    contentType: 'audio/wav',
+    sizeBytes: 10,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+    store = new LocalRecordingStore(new ConfigService({ recordings: { dir } }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('moves finished files into the store and serves byte ranges', async () => {
+    const working = path.join(dir, 'incoming', 'CA1.wav');
+    fs.mkdirSync(path.dirname(working));
+    fs.writeFileSync(working, '0123456789');
+
+    await store.put(metadata('CA1'), working);
+
+    expect(fs.existsSync(working)).toBe(false);
+    expect(await store.get('CA1')).toEqual(metadata('CA1'));
+    expect(
+      (
+        await readAll((await store.open('CA1', { start: 2, end: 4 }))!)
+      ).toString(),
+    ).toBe('234');
+  });
+
+  it('lists and deletes recordings', async () => {
+    await store.put(metadata('CA1'), Buffer.from('a'));
+    await store.put(metadata('CA2'), Buffer.from('b'));
+
+    expect((await store.list()).map((r) => r.id).sort()).toEqual([
+      'CA1',
+      'CA2',
+    ]);
+    expect(await store.delete('CA1')).toBe(true);
+    expect(await store.delete('CA1')).toBe(false);
+    expect(await store.open('CA1')).toBeUndefined();
+    expect(fs.readdirSync(dir).sort()).toEqual(['CA2.json', 'CA2.wav']);
+  });
+
+  it('rejects ids that are not plain file names', async () => {
+    await expect(store.get('../secrets')).rejects.toThrow(
+      'Invalid recording id',
+    );
+  });
+});
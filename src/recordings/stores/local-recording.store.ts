@@ -0,0 +1,116 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import {
+  ByteRange,
+  checkRecordingId,
+  RecordingMetadata,
+  RecordingStore,
+} from '../recording.types';
+import { errorCode, errorMessage } from '../../utils/error.util';
+
+/**
+ * Default recording storage: `<recordings.dir>/<id>.wav` + `<id>.json` metadata.
+ */
+@Injectable()
+export class LocalRecordingStore implements RecordingStore {
+  readonly name = 'local';
+  private readonly logger = new Logger(LocalRecordingStore.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async put(metadata: RecordingMetadata, data: Buffer | string): Promise<void> {
+    const file = this.audioFile(metadata.id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    if (typeof data === 'string') {
+      if (path.resolve(data) !== path.resolve(file)) await moveFile(data, file);
+    } else {
+      await fs.writeFile(file, data);
+    }
+
+    // Metadata last: a recording is only listed once its audio is complete
+    const metaFile = this.metadataFile(metadata.id);
+    await fs.writeFile(`${metaFile}.tmp`, JSON.stringify(metadata, null, 2));
+    await fs.rename(`${metaFile}.tmp`, metaFile);
+  }
+
+  async get(id: string): Promise<RecordingMetadata | undefined> {
+    try {
+      return JSON.parse(
+        await fs.readFile(this.metadataFile(id), 'utf8'),
+      ) as RecordingMetadata;
+    } catch (e: unknown) {
+      if (errorCode(e) === 'ENOENT') return undefined;
+      throw e;
+    }
+  }
+
+  async open(id: string, range?: ByteRange): Promise<Readable | undefined> {
+    const file = this.audioFile(id);
+    try {
+      await fs.access(file);
+    } catch {
+      return undefined;
+    }
+    return createReadStream(file, range);
+  }
+
+  async list(): Promise<RecordingMetadata[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir());
+    } catch (e: unknown) {
+      if (errorCode(e) === 'ENOENT') return [];
+      throw e;
+    }
+
+    const recordings: RecordingMetadata[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        recordings.push(
+          JSON.parse(
+            await fs.readFile(path.join(this.dir(), file), 'utf8'),
+          ) as RecordingMetadata,
+        );
+      } catch (e: unknown) {
+        this.logger.warn(
+          `Skipping unreadable recording metadata ${file}: ${errorMessage(e)}`,
+        );
+      }
+    }
+    return recordings;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existed = (await this.get(id)) !== undefined;
+    await fs.rm(this.metadataFile(id), { force: true });
+    await fs.rm(this.audioFile(id), { force: true });
+    return existed;
+  }
+
+  private audioFile(id: string): string {
+    return path.join(this.dir(), `${checkRecordingId(id)}.wav`);
+  }
+
+  private metadataFile(id: string): string {
+    return path.join(this.dir(), `${checkRecordingId(id)}.json`);
+  }
+
+  private dir(): string {
+    return this.configService.get<string>('recordings.dir') ?? 'recordings';
+  }
+}
+
+// rename() fails across file systems (e.g. a mounted volume) → copy instead
+async function moveFile(from: string, to: string) {
+  try {
+    await fs.rename(from, to);
+  } catch (e: unknown) {
+    if (errorCode(e) !== 'EXDEV') throw e;
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  }
+}
@@ -0,0 +1,238 @@
+import { createHash, createHmac } from 'crypto';
+
+const EMPTY_SHA256 =
+  'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/**
+ * Connection settings of an S3-compatible object store (AWS S3, MinIO, R2...).
+ */
+export interface S3ClientOptions {
+  endpoint: string; // e.g. "https://s3.eu-west-1.amazonaws.com" or "http://localhost:9000"
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle?: boolean; // "<endpoint>/<bucket>/<key>" instead of "<bucket>.<host>/<key>" (default true)
+}
+
+/**
+ * Object entry of a bucket listing.
+ */
+export interface S3Object {
+  key: string;
+  size: number;
+  lastModified: string;
+}
+
+/**
+ * Minimal S3 REST client (PutObject, GetObject, DeleteObject, ListObjectsV2)
+ * signed with AWS Signature Version 4. Uses fetch → no SDK dependency.
+ */
+export class S3Client {
+  constructor(private readonly options: S3ClientOptions) {}
+
+  async putObject(key: string, body: Buffer, contentType: string) {
+    const res = await this.request('PUT', key, {
+      body,
+      headers: { 'content-type': contentType },
+    });
+    await expectOk(res, `PUT ${key}`);
+  }
+
+  /**
+   * Output: the response (body = object content), undefined if the key does not exist.
+   * Input: range = HTTP Range header value, e.g. "bytes=0-1023"
+   */
+  async getObject(key: string, range?: string): Promise<Response | undefined> {
+    const res = await this.request('GET', key, {
+      headers: range ? { range } : {},
+    });
+    if (res.status === 404) {
+      await res.body?.cancel();
+      return undefined;
+    }
+    await expectOk(res, `GET ${key}`, true);
+    return res;
+  }
+
+  async deleteObject(key: string) {
+    const res = await this.request('DELETE', key);
+    await expectOk(res, `DELETE ${key}`);
+  }
+
+  /**
+   * List all objects under a prefix (follows continuation tokens).
+   */
+  async listObjects(prefix: string): Promise<S3Object[]> {
+    const objects: S3Object[] = [];
+    let token: string | undefined;
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (token) query['continuation-token'] = token;
+      const res = await this.request('GET', '', { query });
+      await expectOk(res, `LIST ${prefix}`, true);
+      const xml = await res.text();
+
+      for (const [, content] of xml.matchAll(
+        /<Contents>([\s\S]*?)<\/Contents>/g,
+      )) {
+        objects.push({
+          key: decodeXml(tag(content, 'Key') ?? ''),
+          size: Number(tag(content, 'Size') ?? 0),
+          lastModified: tag(content, 'LastModified') ?? '',
+        });
+      }
+      token =
+        tag(xml, 'IsTruncated') === 'true'
+          ? decodeXml(tag(xml, 'NextContinuationToken') ?? '')
+          : undefined;
+    } while (token);
+    return objects;
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    init: {
+      body?: Buffer;
+      headers?: Record<string, string>;
+      query?: Record<string, string>;
+    } = {},
+  ): Promise<Response> {
+    const url = this.objectUrl(key, init.query);
+    const headers: Record<string, string> = {
+      ...init.headers,
+      'x-amz-content-sha256': init.body ? sha256(init.body) : EMPTY_SHA256,
+      'x-amz-date': amzDate(new Date()),
+    };
+    headers.authorization = signRequest({
+      method,
+      url,
+      headers,
+      region: this.options.region,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+    });
+
+    return fetch(url, {
+      method,
+      headers,
+      body: init.body ? new Uint8Array(init.body) : undefined,
+    });
+  }
+
+  private objectUrl(key: string, query?: Record<string, string>): URL {
+    const endpoint = new URL(this.options.endpoint);
+    const pathStyle = this.options.forcePathStyle ?? true;
+    const base = pathStyle
+      ? `${endpoint.origin}/${this.options.bucket}/`
+      : `${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/`;
+
+    const url = new URL(base + key.split('/').map(encodeRfc3986).join('/'));
+    // Same encoding as the signature's canonical query
+    url.search = Object.entries(query ?? {})
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .join('&');
+    return url;
+  }
+}
+
+/**
+ * Compute the SigV4 Authorization header of an S3 request.
+ * All given headers (+ host) are signed; x-amz-date and
+ * x-amz-content-sha256 must be among them.
+ */
+export function signRequest(request: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}): string {
+  const headers: Record<string, string> = { host: request.url.host };
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ');
+  }
+  const date = headers['x-amz-date'];
+  const scope = `${date.slice(0, 8)}/${request.region}/s3/aws4_request`;
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname, // already RFC 3986 encoded by objectUrl()
+    canonicalQuery,
+    signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    headers['x-amz-content-sha256'],
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    date,
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n');
+
+  let key: Buffer = Buffer.from(`AWS4${request.secretAccessKey}`);
+  for (const part of scope.split('/')) key = hmac(key, part);
+  const signature = createHmac('sha256', key)
+    .update(stringToSign)
+    .digest('hex');
+
+  return (
+    `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+  );
+}
+
+function amzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function tag(xml: string, name: string): string | undefined {
+  return new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xml)?.[1];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+async function expectOk(res: Response, action: string, keepBody = false) {
+  if (res.ok) {
+    if (!keepBody) await res.body?.cancel();
+    return;
+  }
+  const text = await res.text().catch(() => '');
+  const code = tag(text, 'Code') ?? res.statusText;
+  throw new Error(`S3 ${action} failed: ${res.status} ${code}`);
+}
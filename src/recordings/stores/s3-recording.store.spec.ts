@@ -0,0 +1,203 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import { RecordingMetadata } from '../recording.types';
+import { signRequest } from './s3-client';
+import { S3RecordingStore } from './s3-recording.store';
+
+const credentials = {
+  accessKeyId: 'test-key',
+  secretAccessKey: 'test-secret',
+  region: 'eu-west-1',
+};
+
+/**
+ * Local stand-in for an S3 bucket: in-memory objects, checks SigV4 signatures,
+ * supports ranges and paginated ListObjectsV2 (2 keys per page).
+ */
+function startFakeS3(bucket: string) {
+  const objects = new Map<string, Buffer>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+      const auth = req.headers.authorization ?? '';
+      const signed = /SignedHeaders=([^,]+)/.exec(auth)?.[1].split(';') ?? [];
+      const headers = Object.fromEntries(
+        signed
+          .filter((h) => h !== 'host')
+          .map((h) => [h, String(req.headers[h])]),
+      );
+      if (
+        auth !==
+        signRequest({
+          method: req.method ?? 'GET',
+          url,
+          headers,
+          ...credentials,
+        })
+      ) {
+        res
+          .writeHead(403)
+          .end('<Error><Code>SignatureDoesNotMatch</Code></Error>');
+        return;
+      }
+
+      const key = decodeURIComponent(url.pathname.slice(bucket.length + 2));
+      if (req.method === 'PUT') {
+        objects.set(key, Buffer.concat(chunks));
+        res.writeHead(200).end();
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else if (url.searchParams.get('list-type') === '2') {
+        const prefix = url.searchParams.get('prefix') ?? '';
+        const keys = [...objects.keys()]
+          .filter((k) => k.startsWith(prefix))
+          .sort();
+        const start = Number(url.searchParams.get('continuation-token') ?? 0);
+        const page = keys.slice(start, start + 2);
+        const truncated = start + 2 < keys.length;
+        res
+          .writeHead(200, { 'content-type': 'application/xml' })
+          .end(
+            `<ListBucketResult><IsTruncated>${truncated}</IsTruncated>` +
+              page
+                .map(
+                  (k) =>
+                    `<Contents><Key>${k}</Key><Size>${objects.get(k)!.length}</Size></Contents>`,
+                )
+                .join('') +
+              (truncated
+                ? `<NextContinuationToken>${start + 2}</NextContinuationToken>`
+                : '') +
+              '</ListBucketResult>',
+          );
+      } else if (!objects.has(key)) {
+        res.writeHead(404).end('<Error><Code>NoSuchKey</Code></Error>');
+      } else {
+        const body = objects.get(key)!;
+        const range = /bytes=(\d+)-(\d+)/.exec(req.headers.range ?? '');
+        if (range)
+          res
+            .writeHead(206)
+            .end(body.subarray(Number(range[1]), Number(range[2]) + 1));
+        else res.writeHead(200).end(body);
+      }
+    });
+  });
+
+  return new Promise<{
+    server: http.Server;
+    objects: Map<string, Buffer>;
+    endpoint: string;
+  }>((resolve) =>
+    server.listen(0, '127.0.0.1', () =>
+      resolve({
+        server,
+        objects,
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      }),
+    ),
+  );
+}
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+describe('S3RecordingStore', () => {
+  let fake: Awaited<ReturnType<typeof startFakeS3>>;
+  let store: S3RecordingStore;
+
+  const metadata = (id: string): RecordingMetadata => ({
+    id,
+    kind: 'call',
+    contentType: 'audio/wav',
+    sizeBytes: 10,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(async () => {
+    fake = await startFakeS3('calls');
+    store = new S3RecordingStore(
+      new ConfigService({
+        recordings: {
+          s3: {
+            ...credentials,
+            endpoint: fake.endpoint,
+            bucket: 'calls',
+            prefix: 'rec/',
+          },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    fake.server.close();
+  });
+
+  it('uploads local files with metadata and deletes the local copy', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 's3-'));
+    const file = path.join(dir, 'CA1.wav');
+    fs.writeFileSync(file, '0123456789');
+
+    await store.put(metadata('CA1'), file);
+
+    expect(fs.existsSync(file)).toBe(false);
+    expect([...fake.objects.keys()].sort()).toEqual([
+      'rec/CA1.json',
+      'rec/CA1.wav',
+    ]);
+    expect(await store.get('CA1')).toEqual(metadata('CA1'));
+    expect(
+      (
+        await readAll((await store.open('CA1', { start: 3, end: 5 }))!)
+      ).toString(),
+    ).toBe('345');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists across pages and deletes recordings', async () => {
+    for (const id of ['CA1', 'CA2', 'CA3'])
+      await store.put(metadata(id), Buffer.from(id));
+
+    expect((await store.list()).map((r) => r.id).sort()).toEqual([
+      'CA1',
+      'CA2',
+      'CA3',
+    ]);
+    expect(await store.delete('CA2')).toBe(true);
+    expect(await store.get('CA2')).toBeUndefined();
+    expect(await store.open('CA2')).toBeUndefined();
+    expect(fake.objects.size).toBe(4);
+  });
+
+  it('surfaces S3 errors', async () => {
+    const wrongKey = new S3RecordingStore(
+      new ConfigService({
+        recordings: {
+          s3: {
+            ...credentials,
+            secretAccessKey: 'wrong',
+            endpoint: fake.endpoint,
+            bucket: 'calls',
+          },
+        },
+      }),
+    );
+
+    await expect(
+      wrongKey.put(metadata('CA1'), Buffer.from('x')),
+    ).rejects.toThrow('S3 PUT CA1.wav failed: 403 SignatureDoesNotMatch');
+  });
+});
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import {
+  ByteRange,
+  checkRecordingId,
+  RecordingMetadata,
+  RecordingStore,
+} from '../recording.types';
+import { S3Client, S3ClientOptions } from './s3-client';
+import { errorMessage } from '../../utils/error.util';
+
+/**
+ * Recording storage in an S3-compatible bucket (recordings.backend = "s3").
+ * Objects: `<prefix><id>.wav` + `<prefix><id>.json` metadata.
+ * Local files handed to put() are uploaded and then deleted.
+ */
+@Injectable()
+export class S3RecordingStore implements RecordingStore {
+  readonly name = 's3';
+  private readonly logger = new Logger(S3RecordingStore.name);
+  private readonly client: S3Client;
+  private readonly prefix: string;
+
+  constructor(configService: ConfigService) {
+    const options = configService.get<
+      Partial<S3ClientOptions> & { prefix?: string }
+    >('recordings.s3');
+    if (!options?.bucket || !options.accessKeyId || !options.secretAccessKey) {
+      throw new Error(
+        'S3 recording storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY',
+      );
+    }
+
+    const region = options.region || 'us-east-1';
+    this.client = new S3Client({
+      endpoint: options.endpoint || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: options.bucket,
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      forcePathStyle: options.forcePathStyle,
+    });
+    this.prefix = options.prefix ?? '';
+  }
+
+  async put(metadata: RecordingMetadata, data: Buffer | string): Promise<void> {
+    const audio = typeof data === 'string' ? await fs.readFile(data) : data;
+    await this.client.putObject(
+      this.audioKey(metadata.id),
+      audio,
+      metadata.contentType,
+    );
+    // Metadata last: a recording is only listed once its audio is uploaded
+    await this.client.putObject(
+      this.metadataKey(metadata.id),
+      Buffer.from(JSON.stringify(metadata, null, 2)),
+      'application/json',
+    );
+    if (typeof data === 'string') await fs.unlink(data);
+  }
+
+  async get(id: string): Promise<RecordingMetadata | undefined> {
+    const res = await this.client.getObject(this.metadataKey(id));
+    return res ? ((await res.json()) as RecordingMetadata) : undefined;
+  }
+
+  async open(id: string, range?: ByteRange): Promise<Readable | undefined> {
+    const res = await this.client.getObject(
+      this.audioKey(id),
+      range ? `bytes=${range.start}-${range.end}` : undefined,
+    );
+    if (!res?.body) return undefined;
+    return Readable.fromWeb(res.body as ReadableStream<Uint8Array>);
+  }
+
+  async list(): Promise<RecordingMetadata[]> {
+    const objects = await this.client.listObjects(this.prefix);
+    const recordings: RecordingMetadata[] = [];
+    for (const object of objects.filter((o) => o.key.endsWith('.json'))) {
+      try {
+        const res = await this.client.getObject(object.key);
+        if (res) recordings.push((await res.json()) as RecordingMetadata);
+      } catch (e: unknown) {
+        this.logger.warn(
+          `Skipping unreadable recording metadata ${object.key}: ${errorMessage(e)}`,
+        );
+      }
+    }
+    return recordings;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existed = (await this.get(id)) !== undefined;
+    await this.client.deleteObject(this.metadataKey(id));
+    await this.client.deleteObject(this.audioKey(id));
+    return existed;
+  }
+
+  private audioKey(id: string): string {
+    return `${this.prefix}${checkRecordingId(id)}.wav`;
+  }
+
+  private metadataKey(id: string): string {
+    return `${this.prefix}${checkRecordingId(id)}.json`;
+  }
+}
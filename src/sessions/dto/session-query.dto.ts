@@ -0,0 +1,73 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import type { SessionKind, SessionOutcome } from '../session.types';
+import { TRANSCRIPT_FORMATS } from '../transcript-format';
+import type { TranscriptFormat } from '../transcript-format';
+
+/**
+ * Query of GET /sessions.
+ */
+export class SessionQueryDto {
+  @IsOptional()
+  @IsIn(['call', 'playground'])
+  kind?: SessionKind;
+
+  @IsOptional()
+  @IsString()
+  agentId?: string;
+
+  @IsOptional()
+  @IsString()
+  number?: string; // Caller or called number (E.164)
+
+  @IsOptional()
+  @IsIn([
+    'completed',
+    'ended-by-bot',
+    'transferred',
+    'disconnected',
+    'terminated',
+    'inactive',
+    'max-duration',
+    'error',
+  ])
+  outcome?: SessionOutcome;
+
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+
+  @IsOptional()
+  @IsDateString()
+  until?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+/**
+ * Query of GET /sessions/:id/transcript.
+ */
+export class TranscriptQueryDto {
+  @IsOptional()
+  @IsIn(TRANSCRIPT_FORMATS)
+  format?: TranscriptFormat;
+}
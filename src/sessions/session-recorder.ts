@@ -0,0 +1,135 @@
+import { ToolInvocation } from '../tools/tool.types';
+import {
+  SessionInit,
+  SessionOutcome,
+  SessionRecord,
+  TranscriptEntry,
+  TranscriptSpeaker,
+  TransferRecord,
+  TurnLatency,
+  TurnMetrics,
+} from './session.types';
+
+/**
+ * Builds the record of one live session (transcript, latencies, outcome).
+ * Created by SessionsService.start(), persisted by SessionsService.finish().
+ */
+export class SessionRecorder {
+  readonly record: SessionRecord;
+  private readonly startedAt: number;
+
+  constructor(init: SessionInit, now = Date.now()) {
+    this.startedAt = now;
+    this.record = {
+      ...init,
+      startedAt: new Date(now).toISOString(),
+      transcript: [],
+      latencies: [],
+    };
+  }
+
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Milliseconds since the session started.
+   */
+  elapsed(now = Date.now()): number {
+    return now - this.startedAt;
+  }
+
+  /**
+   * Add a transcript line.
+   * Input: durationMs if known (caller speech, bot audio) → the entry starts
+   *        durationMs before now for caller speech, now for everything else
+   */
+  add(
+    speaker: TranscriptSpeaker,
+    text: string,
+    extra: Partial<Omit<TranscriptEntry, 'speaker' | 'text'>> = {},
+  ): TranscriptEntry {
+    const now = Date.now();
+    const entry: TranscriptEntry = {
+      speaker,
+      text,
+      ts: new Date(now).toISOString(),
+      offsetMs: this.elapsed(now),
+      ...extra,
+    };
+    if (
+      speaker === 'caller' &&
+      extra.offsetMs === undefined &&
+      extra.durationMs
+    ) {
+      entry.offsetMs = Math.max(0, entry.offsetMs - extra.durationMs);
+    }
+    this.record.transcript.push(entry);
+    return entry;
+  }
+
+  /**
+   * Add an executed tool call.
+   */
+  addTool(invocation: ToolInvocation, turnId?: number) {
+    this.add('tool', `${invocation.name}(${JSON.stringify(invocation.args)})`, {
+      turnId,
+      durationMs: invocation.durationMs,
+      tool: {
+        name: invocation.name,
+        args: invocation.args,
+        result: invocation.result,
+        ok: invocation.ok,
+      },
+    });
+  }
+
+  /**
+   * Last bot entry of a turn (e.g. to shorten it after a barge-in).
+   */
+  findBotEntry(turnId: number): TranscriptEntry | undefined {
+    return this.record.transcript.findLast(
+      (e) => e.speaker === 'bot' && e.turnId === turnId,
+    );
+  }
+
+  addLatency(
+    turnId: number,
+    marks: Record<string, number>,
+    metrics?: TurnMetrics,
+  ) {
+    if (!Object.keys(marks).length) return;
+    const entry: TurnLatency = { turnId, marks };
+    if (metrics && Object.values(metrics).some((v) => v !== undefined)) {
+      entry.metrics = metrics;
+    }
+    this.record.latencies.push(entry);
+  }
+
+  /**
+   * Close the session. The first outcome set wins (e.g. "transferred"
+   * is kept when the stop event arrives afterwards).
+   */
+  end(outcome: SessionOutcome, now = Date.now()): SessionRecord {
+    if (!this.record.endedAt) {
+      this.record.endedAt = new Date(now).toISOString();
+      this.record.durationMs = now - this.startedAt;
+    }
+    this.record.outcome ??= outcome;
+    return this.record;
+  }
+
+  /**
+   * Record (or replace) the call's hand-off to a human agent.
+   */
+  setTransfer(transfer: TransferRecord) {
+    this.record.transfer = transfer;
+  }
+
+  /**
+   * Remember the outcome before the session actually ends.
+   */
+  setOutcome(outcome: SessionOutcome) {
+    this.record.outcome ??= outcome;
+  }
+}
@@ -0,0 +1,185 @@
+export const SESSION_STORE = 'SESSION_STORE'; // Injection token
+
+export type SessionKind = 'call' | 'playground';
+
+export type TranscriptSpeaker = 'caller' | 'bot' | 'tool' | 'system';
+
+/**
+ * How a session ended.
+ */
+export type SessionOutcome =
+  | 'completed' // Caller/user hung up or closed the session
+  | 'ended-by-bot' // end_call tool
+  | 'transferred' // transfer_call tool
+  | 'disconnected' // Socket closed without a stop event
+  | 'terminated' // Ended through the admin API
+  | 'inactive' // Caller stayed silent after the reprompts
+  | 'max-duration' // Session length limit reached
+  | 'error';
+
+/**
+ * One line of a session transcript.
+ * offsetMs/durationMs are relative to the session start (for subtitles).
+ */
+export interface TranscriptEntry {
+  speaker: TranscriptSpeaker;
+  text: string;
+  ts: string; // ISO timestamp
+  offsetMs: number;
+  durationMs?: number;
+  turnId?: number; // Bot reply this entry belongs to
+  interrupted?: boolean; // Bot reply cut off by the caller (text = what was heard)
+  tool?: { name: string; args: unknown; result: string; ok: boolean };
+}
+
+/**
+ * Key latencies of one turn in ms (same quantities as the /metrics histograms).
+ */
+export interface TurnMetrics {
+  sttFinalMs?: number; // End of the caller's words → final transcript
+  llmMs?: number; // Reply request → complete LLM answer
+  ttsFirstByteMs?: number; // First TTS request → first audio
+  responseMs?: number; // End of the user turn → first bot audio
+}
+
+/**
+ * Per-turn pipeline latency marks (ms since the turn started).
+ */
+export interface TurnLatency {
+  turnId: number;
+  marks: Record<string, number>;
+  metrics?: TurnMetrics;
+}
+
+/**
+ * Hand-off of a call to a human agent (transfer_call tool, keyword rule
+ * or keypad menu).
+ */
+export interface TransferRecord {
+  mode: 'cold' | 'warm';
+  trigger: 'tool' | 'keyword' | 'dtmf';
+  target: string; // Dialed number / SIP URI, or "queue:<name>"
+  reason?: string;
+  summary?: string; // Conversation summary passed to the agent (warm transfers)
+  summaryVia?: 'whisper' | 'sms';
+  // requested → initiated (call redirected) → Twilio's DialCallStatus / QueueResult
+  // (completed, no-answer, busy, failed, bridged, hangup...); failed = redirect failed
+  status: string;
+  error?: string;
+  requestedAt: string;
+  endedAt?: string; // When Twilio reported the result of the <Dial> / <Enqueue>
+  durationSec?: number; // Time connected to the agent
+}
+
+/**
+ * Post-call analysis of a session transcript (LLM).
+ * Sentiment / resolution come from fixed lists, the intent from the
+ * agent's (or analysis.intents) list, fields follow the agent's JSON Schema.
+ */
+export interface SessionAnalysis {
+  status: 'completed' | 'failed';
+  summary?: string;
+  intent?: string; // e.g. "booking", "cancellation"
+  resolution?: 'resolved' | 'unresolved' | 'escalated' | 'abandoned';
+  sentiment?: 'positive' | 'neutral' | 'negative'; // The caller's overall mood
+  fields?: Record<string, unknown>; // Structured data (agent.analysis.schema)
+  errors?: string[]; // Why the last answer was rejected (failed analyses)
+  attempts: number; // LLM requests made (invalid answers are sent back to be fixed)
+  analyzedAt: string;
+}
+
+/**
+ * A persisted call or playground session.
+ */
+export interface SessionRecord {
+  id: string; // Call SID for phone calls, generated id for playground sessions
+  kind: SessionKind;
+  agentId: string;
+  callSid?: string;
+  streamSid?: string;
+  direction?: 'inbound' | 'outbound';
+  from?: string;
+  to?: string;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  outcome?: SessionOutcome;
+  recordingId?: string; // Stereo recording of the session (GET /recordings/:id)
+  variables?: Record<string, string>;
+  transfer?: TransferRecord;
+  analysis?: SessionAnalysis;
+  transcript: TranscriptEntry[];
+  latencies: TurnLatency[];
+}
+
+/**
+ * Fields known when a session starts.
+ */
+export type SessionInit = Omit<
+  SessionRecord,
+  'startedAt' | 'transcript' | 'latencies'
+>;
+
+/**
+ * Session without transcript/latencies (list views).
+ */
+export type SessionSummary = Omit<SessionRecord, 'transcript' | 'latencies'> & {
+  turns: number; // Number of caller + bot entries
+};
+
+/**
+ * What a live session is doing right now.
+ * - listening: waiting for the caller / user
+ * - responding: a reply is being generated, no audio sent yet
+ * - speaking: bot audio is playing
+ */
+export type LiveSessionState = 'listening' | 'responding' | 'speaking';
+
+/**
+ * A session in progress (admin views).
+ */
+export interface LiveSession {
+  id: string; // Same id as the persisted session
+  kind: SessionKind;
+  agentId: string;
+  state: LiveSessionState;
+  startedAt: string;
+  durationMs: number;
+  direction?: 'inbound' | 'outbound';
+  from?: string;
+  to?: string;
+  streamSid?: string;
+  transcriptEntries: number;
+  currentTurn?: {
+    id: number;
+    text: string; // User text being answered
+    hasOutput: boolean;
+    ageMs: number; // Since the user turn ended
+  };
+  queuedTurns: number;
+}
+
+/**
+ * Filters for listing sessions. Dates are ISO strings; newest first.
+ */
+export interface SessionQuery {
+  kind?: SessionKind;
+  agentId?: string;
+  number?: string; // Matches from or to
+  outcome?: SessionOutcome;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage backend for sessions.
+ */
+export interface SessionStore {
+  save(record: SessionRecord): Promise<void>;
+  get(id: string): Promise<SessionRecord | undefined>;
+  list(
+    query: SessionQuery,
+  ): Promise<{ total: number; items: SessionSummary[] }>;
+}
@@ -0,0 +1,48 @@
+import { Controller, Get, Param, Query, Res, UseGuards } from '@nestjs/common';
+import type { Response } from 'express';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { SessionsService } from './sessions.service';
+import { SessionQueryDto, TranscriptQueryDto } from './dto/session-query.dto';
+
+@Controller('sessions') // Base route: /sessions
+@UseGuards(AdminApiKeyGuard) // Caller numbers + transcripts: admin API key required
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  /**
+   * Route: GET /sessions?kind=&agentId=&number=&outcome=&since=&until=&limit=&offset=
+   * Output: { total, items } (newest first, without transcripts)
+   */
+  @Get()
+  list(@Query() query: SessionQueryDto) {
+    return this.sessionsService.list(query);
+  }
+
+  /**
+   * Route: GET /sessions/:id
+   * Output: full session record (404 if unknown)
+   */
+  @Get(':id')
+  get(@Param('id') id: string) {
+    return this.sessionsService.get(id);
+  }
+
+  /**
+   * Route: GET /sessions/:id/transcript?format=json|txt|srt|vtt
+   * Output: transcript file download (default json)
+   */
+  @Get(':id/transcript')
+  async transcript(
+    @Param('id') id: string,
+    @Query() query: TranscriptQueryDto,
+    @Res() res: Response,
+  ) {
+    const format = query.format ?? 'json';
+    const { content, contentType } =
+      await this.sessionsService.exportTranscript(id, format);
+
+    res.type(contentType);
+    res.attachment(`session_${id}.${format}`);
+    res.send(content);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
+import { SessionsController } from './sessions.controller';
+import { SessionsService } from './sessions.service';
+import { FileSessionStore } from './stores/file-session.store';
+import { SESSION_STORE } from './session.types';
+
+@Module({
+  providers: [
+    SessionsService,
+    AdminApiKeyGuard,
+    { provide: SESSION_STORE, useClass: FileSessionStore },
+  ],
+  controllers: [SessionsController],
+  exports: [SessionsService],
+})
+export class SessionsModule {}
@@ -0,0 +1,66 @@
+import { SessionRecord, SessionStore } from './session.types';
+import { SessionsService } from './sessions.service';
+
+describe('SessionsService', () => {
+  let saved: Map<string, string>;
+  let service: SessionsService;
+
+  // Store that answers on later ticks, like the file store (write + rename)
+  const later = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    saved = new Map();
+    const store: SessionStore = {
+      save: async (record) => {
+        await later();
+        await later();
+        saved.set(record.id, JSON.stringify(record));
+      },
+      get: async (id) => {
+        await later();
+        const json = saved.get(id);
+        return json ? (JSON.parse(json) as SessionRecord) : undefined;
+      },
+      list: () => Promise.resolve({ total: 0, items: [] }),
+    };
+    service = new SessionsService(store);
+  });
+
+  const stored = (id: string) =>
+    JSON.parse(saved.get(id) ?? 'null') as SessionRecord | null;
+
+  it('updates a session only after its first save', async () => {
+    service.start({ id: 'CA1', kind: 'call', agentId: 'hotel' });
+
+    const record = await service.update('CA1', (r) => {
+      r.recordingId = 'rec1';
+    });
+
+    expect(record?.recordingId).toBe('rec1');
+    expect(stored('CA1')?.recordingId).toBe('rec1');
+  });
+
+  it('applies concurrent updates one after the other', async () => {
+    const recorder = service.start({
+      id: 'CA1',
+      kind: 'call',
+      agentId: 'hotel',
+    });
+
+    await Promise.all([
+      service.finish(recorder, 'completed'),
+      service.update('CA1', (r) => {
+        r.recordingId = 'rec1';
+      }),
+      service.update('CA1', (r) => {
+        r.variables = { guestName: 'Ada' };
+      }),
+    ]);
+
+    expect(stored('CA1')).toMatchObject({
+      recordingId: 'rec1',
+      variables: { guestName: 'Ada' },
+      outcome: 'completed',
+    });
+  });
+});
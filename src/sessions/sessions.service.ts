@@ -0,0 +1,115 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SessionRecorder } from './session-recorder';
+import {
+  SESSION_STORE,
+  SessionInit,
+  SessionOutcome,
+  SessionQuery,
+  SessionRecord,
+} from './session.types';
+import type { SessionStore } from './session.types';
+import { formatTranscript, TranscriptFormat } from './transcript-format';
+import { errorMessage } from '../utils/error.util';
+
+/**
+ * Records live sessions and reads persisted ones.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly finishListeners: ((record: SessionRecord) => void)[] = [];
+  // Pending store work per session id: saves + updates run one at a time
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(@Inject(SESSION_STORE) private readonly store: SessionStore) {}
+
+  /**
+   * Begin recording a session. It is saved right away (without endedAt),
+   * so a crash still leaves a trace of the call.
+   */
+  start(init: SessionInit): SessionRecorder {
+    const recorder = new SessionRecorder(init);
+    void this.persist(recorder.record);
+    return recorder;
+  }
+
+  /**
+   * End and persist a session.
+   */
+  async finish(recorder: SessionRecorder, outcome: SessionOutcome) {
+    const record = recorder.end(outcome);
+    await this.persist(record);
+    this.logger.log(
+      `Session ${record.id} saved (${record.outcome}, ${record.transcript.length} entries)`,
+    );
+    for (const listener of this.finishListeners) listener(record);
+  }
+
+  /**
+   * Run a listener for every session that ended (after it was saved),
+   * e.g. post-call analysis.
+   */
+  onFinished(listener: (record: SessionRecord) => void) {
+    this.finishListeners.push(listener);
+  }
+
+  /**
+   * Change a persisted session (e.g. a transfer result reported after the
+   * call left the bot).
+   * Output: the saved record, undefined if there is no such session
+   */
+  update(
+    id: string,
+    change: (record: SessionRecord) => void,
+  ): Promise<SessionRecord | undefined> {
+    // Read-modify-write under the session's queue: no save in between is lost
+    return this.enqueue(id, async () => {
+      const record = await this.store.get(id);
+      if (!record) return;
+      change(record);
+      await this.save(record);
+      return record;
+    });
+  }
+
+  list(query: SessionQuery) {
+    return this.store.list(query);
+  }
+
+  async get(id: string): Promise<SessionRecord> {
+    const record = await this.store.get(id);
+    if (!record) throw new NotFoundException(`Session ${id} not found`);
+    return record;
+  }
+
+  async exportTranscript(id: string, format: TranscriptFormat) {
+    return formatTranscript(await this.get(id), format);
+  }
+
+  private persist(record: SessionRecord) {
+    return this.enqueue(record.id, () => this.save(record));
+  }
+
+  private async save(record: SessionRecord) {
+    try {
+      await this.store.save(record);
+    } catch (e: unknown) {
+      this.logger.error(
+        `Failed to save session ${record.id}: ${errorMessage(e)}`,
+      );
+    }
+  }
+
+  /**
+   * Run a task after every earlier task of the same session settled.
+   */
+  private enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(id) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    this.queues.set(id, settled);
+    void settled.then(() => {
+      if (this.queues.get(id) === settled) this.queues.delete(id);
+    });
+    return run;
+  }
+}
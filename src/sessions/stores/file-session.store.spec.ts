@@ -0,0 +1,82 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionRecord } from '../session.types';
+import { FileSessionStore } from './file-session.store';
+
+const session = (
+  id: string,
+  overrides: Partial<SessionRecord> = {},
+): SessionRecord => ({
+  id,
+  kind: 'call',
+  agentId: 'hotel',
+  startedAt: '2030-01-01T10:00:00.000Z',
+  transcript: [
+    { speaker: 'caller', text: 'Hi', ts: '', offsetMs: 0 },
+    { speaker: 'tool', text: 'x()', ts: '', offsetMs: 10 },
+    { speaker: 'bot', text: 'Hello', ts: '', offsetMs: 20 },
+  ],
+  latencies: [],
+  ...overrides,
+});
+
+describe('FileSessionStore', () => {
+  let dir: string;
+  let store: FileSessionStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    store = new FileSessionStore(new ConfigService({ sessions: { dir } }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves, overwrites and reads sessions', async () => {
+    await store.save(session('CA1'));
+    await store.save(session('CA1', { outcome: 'completed' }));
+
+    expect((await store.get('CA1'))?.outcome).toBe('completed');
+    expect(await store.get('missing')).toBeUndefined();
+    expect(fs.readdirSync(dir)).toEqual(['CA1.json']);
+  });
+
+  it('keeps concurrent saves of one session apart', async () => {
+    await Promise.all([
+      store.save(session('CA1')),
+      store.save(session('CA1', { outcome: 'completed' })),
+      store.save(session('CA1', { outcome: 'transferred' })),
+    ]);
+
+    expect(await store.get('CA1')).toBeDefined();
+    expect(fs.readdirSync(dir)).toEqual(['CA1.json']);
+  });
+
+  it('lists summaries newest first with filters and paging', async () => {
+    await store.save(session('CA1', { from: '+1555' }));
+    await store.save(session('CA2', { startedAt: '2030-01-02T10:00:00.000Z' }));
+    await store.save(
+      session('pg1', {
+        kind: 'playground',
+        startedAt: '2030-01-03T10:00:00.000Z',
+      }),
+    );
+
+    const all = await store.list({});
+    expect(all.total).toBe(3);
+    expect(all.items.map((s) => s.id)).toEqual(['pg1', 'CA2', 'CA1']);
+    expect(all.items[0]).not.toHaveProperty('transcript');
+    expect(all.items[0].turns).toBe(2);
+
+    expect(
+      (await store.list({ kind: 'call', limit: 1 })).items.map((s) => s.id),
+    ).toEqual(['CA2']);
+    expect(
+      (await store.list({ number: '+1555' })).items.map((s) => s.id),
+    ).toEqual(['CA1']);
+    expect((await store.list({ since: '2030-01-02' })).total).toBe(2);
+  });
+});
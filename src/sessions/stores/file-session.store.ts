@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  SessionQuery,
+  SessionRecord,
+  SessionStore,
+  SessionSummary,
+} from '../session.types';
+import { errorCode, errorMessage } from '../../utils/error.util';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Default session storage: one JSON file per session in `sessions.dir`.
+ */
+@Injectable()
+export class FileSessionStore implements SessionStore {
+  private readonly logger = new Logger(FileSessionStore.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async save(record: SessionRecord): Promise<void> {
+    const file = this.file(record.id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // temp file + rename → readers never see half a session
+    // (unique name: concurrent saves must not share or steal a temp file)
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record, null, 2));
+    await fs.rename(tmp, file);
+  }
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    try {
+      return JSON.parse(
+        await fs.readFile(this.file(id), 'utf8'),
+      ) as SessionRecord;
+    } catch (e: unknown) {
+      if (errorCode(e) === 'ENOENT') return undefined;
+      throw e;
+    }
+  }
+
+  async list(
+    query: SessionQuery,
+  ): Promise<{ total: number; items: SessionSummary[] }> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir());
+    } catch (e: unknown) {
+      if (errorCode(e) === 'ENOENT') return { total: 0, items: [] };
+      throw e;
+    }
+
+    const records: SessionRecord[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        records.push(
+          JSON.parse(
+            await fs.readFile(path.join(this.dir(), file), 'utf8'),
+          ) as SessionRecord,
+        );
+      } catch (e: unknown) {
+        this.logger.warn(
+          `Skipping unreadable session file ${file}: ${errorMessage(e)}`,
+        );
+      }
+    }
+
+    const matches = records
+      .filter((r) => matchesQuery(r, query))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    return {
+      total: matches.length,
+      items: matches.slice(offset, offset + limit).map(toSummary),
+    };
+  }
+
+  private file(id: string): string {
+    // ids are call SIDs / UUIDs; strip anything that could escape the directory
+    return path.join(this.dir(), `${id.replace(/[^\w.-]/g, '_')}.json`);
+  }
+
+  private dir(): string {
+    return this.configService.get<string>('sessions.dir') ?? 'data/sessions';
+  }
+}
+
+/**
+ * Shared filter logic (also usable by other stores that filter in memory).
+ */
+export function matchesQuery(
+  record: SessionRecord,
+  query: SessionQuery,
+): boolean {
+  if (query.kind && record.kind !== query.kind) return false;
+  if (query.agentId && record.agentId !== query.agentId) return false;
+  if (query.outcome && record.outcome !== query.outcome) return false;
+  if (
+    query.number &&
+    record.from !== query.number &&
+    record.to !== query.number
+  ) {
+    return false;
+  }
+  if (query.since && record.startedAt < new Date(query.since).toISOString())
+    return false;
+  if (query.until && record.startedAt > new Date(query.until).toISOString())
+    return false;
+  return true;
+}
+
+export function toSummary(record: SessionRecord): SessionSummary {
+  const summary: SessionSummary & Partial<SessionRecord> = {
+    ...record,
+    turns: record.transcript.filter(
+      (e) => e.speaker === 'caller' || e.speaker === 'bot',
+    ).length,
+  };
+  delete summary.transcript;
+  delete summary.latencies;
+  return summary;
+}
@@ -0,0 +1,92 @@
+import { SessionRecord } from './session.types';
+import { formatTranscript, toSrt, toText, toVtt } from './transcript-format';
+
+const record: SessionRecord = {
+  id: 'CA123',
+  kind: 'call',
+  agentId: 'axion-hotel',
+  from: '+15551234567',
+  to: '+15550000000',
+  startedAt: '2030-01-01T10:00:00.000Z',
+  endedAt: '2030-01-01T10:01:05.000Z',
+  outcome: 'completed',
+  transcript: [
+    {
+      speaker: 'caller',
+      text: 'Do you have a room?',
+      ts: '',
+      offsetMs: 1200,
+      durationMs: 1500,
+    },
+    {
+      speaker: 'tool',
+      text: 'check_availability({})',
+      ts: '',
+      offsetMs: 3000,
+      tool: { name: 'check_availability', args: {}, result: '[]', ok: true },
+    },
+    {
+      speaker: 'bot',
+      text: 'Yes, <deluxe> & suite.',
+      ts: '',
+      offsetMs: 3500,
+      durationMs: 5000,
+    },
+    { speaker: 'caller', text: 'Great', ts: '', offsetMs: 65000 },
+  ],
+  latencies: [],
+};
+
+describe('transcript formats', () => {
+  it('renders plain text with all speakers', () => {
+    const text = toText(record);
+
+    expect(text).toContain('Session CA123 (call, agent axion-hotel)');
+    expect(text).toContain('[00:01] Caller: Do you have a room?');
+    expect(text).toContain('[00:03] Tool: check_availability({})');
+    expect(text).toContain('[01:05] Caller: Great');
+  });
+
+  it('renders SRT cues for spoken lines only', () => {
+    expect(toSrt(record)).toBe(
+      [
+        '1\n00:00:01,200 --> 00:00:02,700\nCaller: Do you have a room?\n',
+        '2\n00:00:03,500 --> 00:00:08,500\nBot: Yes, <deluxe> & suite.\n',
+        '3\n00:01:05,000 --> 00:01:06,000\nCaller: Great\n',
+      ].join('\n'),
+    );
+  });
+
+  it('renders WebVTT with voice spans and escaped text', () => {
+    const vtt = toVtt(record);
+
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt).toContain(
+      '00:00:03.500 --> 00:00:08.500\n<v Bot>Yes, &lt;deluxe&gt; &amp; suite.',
+    );
+  });
+
+  it('cuts cues that would overlap the next one', () => {
+    const overlapping: SessionRecord = {
+      ...record,
+      transcript: [
+        {
+          speaker: 'bot',
+          text: 'Hello there',
+          ts: '',
+          offsetMs: 0,
+          durationMs: 5000,
+        },
+        { speaker: 'caller', text: 'Hi', ts: '', offsetMs: 2000 },
+      ],
+    };
+    expect(toSrt(overlapping)).toContain('00:00:00,000 --> 00:00:02,000');
+  });
+
+  it('picks content type per format', () => {
+    expect(formatTranscript(record, 'vtt').contentType).toContain('text/vtt');
+    expect(JSON.parse(formatTranscript(record, 'json').content)).toMatchObject({
+      id: 'CA123',
+    });
+  });
+});
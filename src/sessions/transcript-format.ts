@@ -0,0 +1,148 @@
+import { SessionRecord } from './session.types';
+
+export type TranscriptFormat = 'json' | 'txt' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = [
+  'json',
+  'txt',
+  'srt',
+  'vtt',
+];
+
+// Used when an entry has no measured duration (~150 words per minute)
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+
+const SPEAKER_LABELS = {
+  caller: 'Caller',
+  bot: 'Bot',
+  tool: 'Tool',
+  system: 'System',
+};
+
+/**
+ * Render a session transcript.
+ * Output: file content + MIME type for the download
+ */
+export function formatTranscript(
+  record: SessionRecord,
+  format: TranscriptFormat,
+): { content: string; contentType: string } {
+  switch (format) {
+    case 'txt':
+      return {
+        content: toText(record),
+        contentType: 'text/plain; charset=utf-8',
+      };
+    case 'srt':
+      return {
+        content: toSrt(record),
+        contentType: 'application/x-subrip; charset=utf-8',
+      };
+    case 'vtt':
+      return { content: toVtt(record), contentType: 'text/vtt; charset=utf-8' };
+    default:
+      return {
+        content: JSON.stringify(record, null, 2),
+        contentType: 'application/json; charset=utf-8',
+      };
+  }
+}
+
+/**
+ * Plain text: header + "[mm:ss] Speaker: text" per line.
+ */
+export function toText(record: SessionRecord): string {
+  const header = [
+    `Session ${record.id} (${record.kind}, agent ${record.agentId})`,
+    `Started: ${record.startedAt}`,
+    record.endedAt
+      ? `Ended: ${record.endedAt} (${record.outcome ?? 'unknown'})`
+      : undefined,
+    record.from || record.to
+      ? `From: ${record.from ?? '-'}  To: ${record.to ?? '-'}`
+      : undefined,
+  ].filter(Boolean);
+
+  const lines = record.transcript.map((e) => {
+    const text = e.interrupted ? `${e.text} [interrupted]` : e.text;
+    return `[${clock(e.offsetMs, false)}] ${SPEAKER_LABELS[e.speaker]}: ${text}`;
+  });
+
+  return `${header.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * SubRip subtitles of the spoken lines (caller + bot).
+ */
+export function toSrt(record: SessionRecord): string {
+  return spokenCues(record)
+    .map(
+      ({ start, end, entry }, i) =>
+        `${i + 1}\n${timestamp(start, ',')} --> ${timestamp(end, ',')}\n${SPEAKER_LABELS[entry.speaker]}: ${entry.text}\n`,
+    )
+    .join('\n');
+}
+
+/**
+ * WebVTT subtitles of the spoken lines, speakers as voice spans.
+ */
+export function toVtt(record: SessionRecord): string {
+  const cues = spokenCues(record).map(
+    ({ start, end, entry }) =>
+      `${timestamp(start, '.')} --> ${timestamp(end, '.')}\n<v ${SPEAKER_LABELS[entry.speaker]}>${escapeVtt(entry.text)}\n`,
+  );
+  return `WEBVTT\n\n${cues.join('\n')}`;
+}
+
+/**
+ * Caller/bot entries with start/end times.
+ * A cue ends at its measured/estimated duration, but never after the next cue starts.
+ */
+function spokenCues(record: SessionRecord) {
+  const spoken = record.transcript
+    .filter(
+      (e) => (e.speaker === 'caller' || e.speaker === 'bot') && e.text.trim(),
+    )
+    .sort((a, b) => a.offsetMs - b.offsetMs);
+
+  return spoken.map((entry, i) => {
+    const start = entry.offsetMs;
+    const estimated = Math.max(
+      MIN_CUE_MS,
+      entry.text.split(/\s+/).length * MS_PER_WORD,
+    );
+    let end = start + (entry.durationMs ?? estimated);
+    const next = spoken[i + 1];
+    if (next && next.offsetMs > start) end = Math.min(end, next.offsetMs);
+    return { start, end, entry };
+  });
+}
+
+/**
+ * HH:MM:SS<sep>mmm
+ */
+function timestamp(ms: number, separator: ',' | '.'): string {
+  return `${clock(ms, true)}${separator}${String(Math.floor(ms % 1000)).padStart(3, '0')}`;
+}
+
+/**
+ * HH:MM:SS (withHours) or MM:SS
+ */
+function clock(ms: number, withHours: boolean): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return withHours
+    ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(hours * 60 + minutes)}:${pad(seconds)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
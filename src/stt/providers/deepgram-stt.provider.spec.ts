@@ -0,0 +1,185 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { SttTranscript } from '../stt.types';
+import {
+  DeepgramSessionOptions,
+  DeepgramSttSession,
+} from './deepgram-stt.provider';
+
+// Stand-in for a Deepgram socket: records what is sent, the test drives events
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.CONNECTING;
+  readonly sent: (Buffer | string)[] = [];
+
+  send(data: Buffer | string) {
+    this.sent.push(data);
+  }
+
+  accept() {
+    this.readyState = WebSocket.OPEN;
+    this.emit('open');
+  }
+
+  drop(code = 1011) {
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close', code, Buffer.from(''));
+  }
+
+  close() {
+    this.drop(1000);
+  }
+
+  terminate() {
+    this.drop(1006);
+  }
+
+  result(text: string, start: number, extra: object = {}) {
+    const data = {
+      type: 'Results',
+      is_final: true,
+      start,
+      duration: 0.5,
+      channel: { alternatives: [{ transcript: text }] },
+      ...extra,
+    };
+    this.emit('message', Buffer.from(JSON.stringify(data)));
+  }
+}
+
+const options: DeepgramSessionOptions = {
+  bytesPerSec: 8000, // μ-law 8 kHz
+  keepAliveMs: 4000,
+  replayBufferMs: 1000,
+  closeTimeoutMs: 2000,
+  reconnect: { maxAttempts: 2, baseDelayMs: 100, maxDelayMs: 1000 },
+};
+
+describe('DeepgramSttSession', () => {
+  let sockets: FakeSocket[];
+  let session: DeepgramSttSession;
+
+  const start = async () => {
+    sockets = [];
+    session = new DeepgramSttSession(() => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket as unknown as WebSocket;
+    }, options);
+    const started = session.start();
+    sockets[0].accept();
+    await started;
+  };
+
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('reconnects with backoff and replays the audio sent meanwhile', async () => {
+    await start();
+    const events: string[] = [];
+    session.on('reconnecting', ({ attempt, delayMs }) =>
+      events.push(`reconnecting:${attempt}:${delayMs}`),
+    );
+    session.on('reconnected', ({ attempt, replayedMs }) =>
+      events.push(`reconnected:${attempt}:${replayedMs}`),
+    );
+    const finals: SttTranscript[] = [];
+    session.on('final', (tr) => finals.push(tr));
+
+    session.send(Buffer.alloc(8000)); // 1 s on the first connection
+    sockets[0].drop();
+    expect(session.isOpen()).toBe(true);
+    session.send(Buffer.alloc(4000)); // 0.5 s while disconnected
+
+    jest.advanceTimersByTime(100);
+    sockets[1].drop(); // First attempt fails
+    jest.advanceTimersByTime(200);
+    sockets[2].accept();
+
+    expect(events).toEqual([
+      'reconnecting:1:100',
+      'reconnecting:2:200',
+      'reconnected:2:500',
+    ]);
+    expect(sockets[2].sent).toEqual([Buffer.alloc(4000)]);
+
+    // Deepgram restarts at 0 → shifted to the stream timeline
+    sockets[2].result('still there', 0.1);
+    expect(finals[0].start).toBeCloseTo(1.1);
+  });
+
+  it('replays at most replayBufferMs of audio', async () => {
+    await start();
+    sockets[0].drop();
+    for (let i = 0; i < 4; i++) session.send(Buffer.alloc(4000, i));
+
+    jest.advanceTimersByTime(100);
+    sockets[1].accept();
+
+    expect(sockets[1].sent).toEqual([
+      Buffer.alloc(4000, 2),
+      Buffer.alloc(4000, 3),
+    ]);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    await start();
+    const errors: Error[] = [];
+    session.on('error', (err) => errors.push(err));
+    const closed = jest.fn();
+    session.on('closed', closed);
+
+    sockets[0].drop();
+    jest.advanceTimersByTime(100);
+    sockets[1].drop();
+    jest.advanceTimersByTime(200);
+    sockets[2].drop();
+
+    expect(errors[0].message).toMatch(/2 reconnect attempt/);
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(session.isOpen()).toBe(false);
+  });
+
+  it('sends KeepAlive only while no audio flows', async () => {
+    await start();
+    const keepAlives = () =>
+      sockets[0].sent.filter((data) => data === '{"type":"KeepAlive"}').length;
+
+    jest.advanceTimersByTime(3000);
+    session.send(Buffer.alloc(160));
+    jest.advanceTimersByTime(1000);
+    expect(keepAlives()).toBe(0);
+
+    jest.advanceTimersByTime(4000);
+    expect(keepAlives()).toBe(1);
+  });
+
+  it('flushes the last results with CloseStream before closing', async () => {
+    await start();
+    const finals: string[] = [];
+    session.on('final', (tr) => finals.push(tr.text));
+
+    const closing = session.close();
+    expect(sockets[0].sent).toEqual(['{"type":"CloseStream"}']);
+    expect(session.isOpen()).toBe(false);
+
+    sockets[0].result('goodbye', 2);
+    sockets[0].close();
+    await closing;
+
+    expect(finals).toEqual(['goodbye']);
+    jest.advanceTimersByTime(10000);
+    expect(sockets).toHaveLength(1); // No reconnect after close()
+  });
+
+  it('closes the socket if Deepgram does not answer CloseStream', async () => {
+    await start();
+    const closed = jest.fn();
+    session.on('closed', closed);
+
+    const closing = session.close();
+    jest.advanceTimersByTime(2000);
+    await closing;
+
+    expect(closed).toHaveBeenCalledWith({ code: 1006, reason: '' });
+  });
+});
@@ -0,0 +1,421 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import WebSocket from 'ws';
+import { SttEventMap, SttOptions, SttProvider, SttSession } from '../stt.types';
+import { errorMessage } from '../../utils/error.util';
+import { rawDataToString } from '../../utils/ws.util';
+
+/**
+ * A typed event parsed from a Deepgram live message.
+ */
+export type DeepgramEvent =
+  | { event: 'interim' | 'final'; payload: SttEventMap['final'][0] }
+  | { event: 'speech-started'; payload: SttEventMap['speech-started'][0] }
+  | { event: 'utterance-end'; payload: SttEventMap['utterance-end'][0] };
+
+/**
+ * Fields of the Deepgram live messages that are read here.
+ */
+export interface DeepgramMessage {
+  type?: string; // Results | SpeechStarted | UtteranceEnd | Metadata | ...
+  timestamp?: number; // SpeechStarted
+  last_word_end?: number; // UtteranceEnd
+  channel?: {
+    alternatives?: { transcript?: string; confidence?: number }[];
+  };
+  is_final?: boolean;
+  speech_final?: boolean;
+  start?: number;
+  duration?: number;
+}
+
+/**
+ * Convert a Deepgram live message (Results / SpeechStarted / UtteranceEnd)
+ * into the provider-neutral event model. Other messages → undefined.
+ */
+export function parseDeepgramMessage(
+  data?: DeepgramMessage,
+): DeepgramEvent | undefined {
+  if (data?.type === 'SpeechStarted') {
+    return { event: 'speech-started', payload: { timestamp: data.timestamp } };
+  }
+
+  if (data?.type === 'UtteranceEnd') {
+    return {
+      event: 'utterance-end',
+      payload: { lastWordEnd: data.last_word_end },
+    };
+  }
+
+  const alternative = data?.channel?.alternatives?.[0];
+  if (!alternative) return undefined;
+
+  // Empty results are dropped, except an empty speech_final (end of utterance)
+  const text = alternative.transcript ?? '';
+  const isFinal = !!data?.is_final;
+  if (!text.trim() && !(isFinal && data?.speech_final)) return undefined;
+
+  return {
+    event: isFinal ? 'final' : 'interim',
+    payload: {
+      text,
+      isFinal,
+      speechFinal: !!data?.speech_final,
+      confidence: alternative.confidence,
+      start: data?.start,
+      duration: data?.duration,
+    },
+  };
+}
+
+// Deepgram closes idle streams after ~10 s without audio
+const KEEP_ALIVE = JSON.stringify({ type: 'KeepAlive' });
+// Asks Deepgram to flush the last results and close the stream
+const CLOSE_STREAM = JSON.stringify({ type: 'CloseStream' });
+
+/**
+ * Connection behaviour of a Deepgram session (see the `stt.*` configuration).
+ */
+export interface DeepgramSessionOptions {
+  bytesPerSec: number; // Audio rate of the stream (buffer size + timeline)
+  keepAliveMs: number; // Send KeepAlive after this long without audio
+  replayBufferMs: number; // Audio kept while disconnected, replayed on reconnect
+  closeTimeoutMs: number; // Wait this long for CloseStream results, then close
+  reconnect: {
+    maxAttempts: number; // 0 = never reconnect
+    baseDelayMs: number; // Doubles with every attempt...
+    maxDelayMs: number; // ...up to this delay
+  };
+}
+
+/**
+ * Live session over a Deepgram WebSocket.
+ * - A connection lost mid-stream is reopened with exponential backoff;
+ *   audio sent meanwhile is buffered (up to replayBufferMs) and replayed
+ * - Timestamps of a reopened connection are shifted onto the timeline of
+ *   the whole stream (Deepgram restarts at 0 on every connection)
+ * - KeepAlive messages hold the connection open while no audio is sent
+ * - close() sends CloseStream so the last words are still transcribed
+ */
+export class DeepgramSttSession extends SttSession {
+  private readonly logger = new Logger(DeepgramSttSession.name);
+  private ws?: WebSocket;
+  private attempt = 0; // Current reconnect attempt (0 = connected)
+  private buffered: Buffer[] = []; // Audio sent while disconnected
+  private bufferedBytes = 0;
+  private sentBytes = 0; // Audio passed to send() → position in the stream
+  private offsetSec = 0; // Stream position where the current connection started
+  private lastAudioAt = 0;
+  private keepAliveTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closeTimer?: NodeJS.Timeout;
+  private closing = false;
+  private ended = false;
+  private readonly done: Promise<void>;
+  private resolveDone!: () => void;
+
+  constructor(
+    private readonly open: () => WebSocket,
+    private readonly options: DeepgramSessionOptions,
+  ) {
+    super();
+    this.done = new Promise((resolve) => (this.resolveDone = resolve));
+  }
+
+  /**
+   * Open the first connection.
+   * Resolves once audio can be sent, rejects if the socket fails before that.
+   */
+  start(): Promise<this> {
+    return new Promise((resolve, reject) => {
+      const ws = this.open();
+      this.ws = ws;
+      ws.once('open', () => {
+        ws.off('error', reject);
+        this.onOpen(ws);
+        resolve(this);
+      });
+      ws.once('error', reject);
+    });
+  }
+
+  send(audio: Buffer) {
+    if (this.ended || this.closing) return;
+    this.sentBytes += audio.length;
+
+    if (this.ws?.readyState === WebSocket.OPEN && !this.attempt) {
+      this.ws.send(audio);
+      this.lastAudioAt = Date.now();
+      return;
+    }
+
+    // Disconnected → keep the most recent audio for the replay
+    this.buffered.push(audio);
+    this.bufferedBytes += audio.length;
+    const maxBytes =
+      (this.options.replayBufferMs / 1000) * this.options.bytesPerSec;
+    while (this.bufferedBytes > maxBytes && this.buffered.length) {
+      this.bufferedBytes -= this.buffered.shift()!.length;
+    }
+  }
+
+  isOpen(): boolean {
+    return !this.ended && !this.closing;
+  }
+
+  close(): Promise<void> {
+    if (this.ended || this.closing) return this.done;
+    this.closing = true;
+    clearTimeout(this.reconnectTimer);
+    clearInterval(this.keepAliveTimer);
+
+    const ws = this.ws;
+    if (ws?.readyState !== WebSocket.OPEN) {
+      this.finish({ reason: 'closed while disconnected' });
+      return this.done;
+    }
+
+    // Deepgram answers with the last results, then closes the socket
+    ws.send(CLOSE_STREAM);
+    this.closeTimer = setTimeout(
+      () => ws.terminate(),
+      this.options.closeTimeoutMs,
+    );
+    return this.done;
+  }
+
+  private onOpen(ws: WebSocket) {
+    ws.on('message', (msg: WebSocket.RawData) => this.onMessage(msg));
+    ws.on('error', (err) => {
+      this.logger.error(`Deepgram WS error: ${err.message}`);
+      if (!this.attempt && this.listenerCount('error')) this.emit('error', err);
+    });
+    ws.on('close', (code, reason) => this.onClose(code, reason?.toString()));
+
+    this.lastAudioAt = Date.now();
+    clearInterval(this.keepAliveTimer);
+    this.keepAliveTimer = setInterval(() => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      if (Date.now() - this.lastAudioAt >= this.options.keepAliveMs) {
+        ws.send(KEEP_ALIVE);
+        this.lastAudioAt = Date.now();
+      }
+    }, this.options.keepAliveMs);
+  }
+
+  private onMessage(msg: WebSocket.RawData) {
+    try {
+      const parsed = parseDeepgramMessage(
+        JSON.parse(rawDataToString(msg)) as DeepgramMessage,
+      );
+      if (!parsed) return;
+
+      // Connection timeline → stream timeline
+      const shift = (sec?: number) =>
+        sec === undefined ? undefined : sec + this.offsetSec;
+      switch (parsed.event) {
+        case 'interim':
+        case 'final':
+          this.emit(parsed.event, {
+            ...parsed.payload,
+            start: shift(parsed.payload.start),
+          });
+          break;
+        case 'speech-started':
+          this.emit('speech-started', {
+            timestamp: shift(parsed.payload.timestamp),
+          });
+          break;
+        case 'utterance-end':
+          this.emit('utterance-end', {
+            lastWordEnd: shift(parsed.payload.lastWordEnd),
+          });
+          break;
+      }
+    } catch (err: unknown) {
+      this.logger.error(`Deepgram message parse error: ${errorMessage(err)}`);
+    }
+  }
+
+  private onClose(code: number, reason?: string) {
+    clearInterval(this.keepAliveTimer);
+    if (this.closing || this.ended) {
+      this.logger.log(`Deepgram connection closed: ${code} ${reason ?? ''}`);
+      this.finish({ code, reason });
+      return;
+    }
+
+    this.logger.warn(`Deepgram connection lost: ${code} ${reason ?? ''}`);
+    this.reconnect();
+  }
+
+  /**
+   * Open a new connection after a backoff delay (gives up after maxAttempts).
+   */
+  private reconnect() {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.options.reconnect;
+    this.attempt++;
+    if (this.attempt > maxAttempts) {
+      const err = new Error(
+        `Deepgram connection lost (${maxAttempts} reconnect attempt(s) failed)`,
+      );
+      this.logger.error(err.message);
+      if (this.listenerCount('error')) this.emit('error', err);
+      this.finish({ reason: 'reconnect failed' });
+      return;
+    }
+
+    const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (this.attempt - 1));
+    this.emit('reconnecting', { attempt: this.attempt, delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      const ws = this.open();
+      this.ws = ws;
+      ws.once('open', () => this.onReconnected(ws));
+      // Failed attempt: 'error' is followed by 'close'
+      ws.once('error', (err) =>
+        this.logger.warn(`Deepgram reconnect failed: ${err.message}`),
+      );
+      ws.once('close', () => {
+        if (
+          ws.readyState === WebSocket.CLOSED &&
+          this.ws === ws &&
+          this.attempt
+        ) {
+          if (this.closing)
+            this.finish({ reason: 'closed while reconnecting' });
+          else this.reconnect();
+        }
+      });
+    }, delayMs);
+  }
+
+  private onReconnected(ws: WebSocket) {
+    if (this.ended) {
+      ws.close();
+      return;
+    }
+    const attempt = this.attempt;
+    ws.removeAllListeners('close');
+    ws.removeAllListeners('error');
+    this.onOpen(ws);
+
+    // The new connection starts with the oldest buffered audio
+    const { bytesPerSec } = this.options;
+    this.offsetSec = (this.sentBytes - this.bufferedBytes) / bytesPerSec;
+    const replayedMs = Math.round((this.bufferedBytes / bytesPerSec) * 1000);
+    for (const chunk of this.buffered) ws.send(chunk);
+    this.buffered = [];
+    this.bufferedBytes = 0;
+    this.attempt = 0;
+
+    this.logger.log(
+      `Deepgram reconnected (attempt ${attempt}, replayed ${replayedMs} ms)`,
+    );
+    this.emit('reconnected', { attempt, replayedMs });
+  }
+
+  private finish(info: { code?: number; reason?: string }) {
+    if (this.ended) return;
+    this.ended = true;
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.closeTimer);
+    clearInterval(this.keepAliveTimer);
+    this.buffered = [];
+    this.emit('closed', info);
+    this.resolveDone();
+  }
+}
+
+/**
+ * Deepgram real-time transcription (wss://api.deepgram.com/v1/listen).
+ */
+@Injectable()
+export class DeepgramSttProvider implements SttProvider {
+  readonly name = 'deepgram';
+  private readonly logger = new Logger(DeepgramSttProvider.name);
+  private readonly baseUrl = 'wss://api.deepgram.com/v1/listen';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Open a live transcription session.
+   * Resolves once the socket is open, rejects if it fails before that.
+   */
+  connect(options: SttOptions): Promise<SttSession> {
+    const url = `${this.baseUrl}?${this.buildParams(options).toString()}`;
+    this.logger.log(
+      `Connecting to Deepgram (${options.encoding}, ${options.sampleRate} Hz)`,
+    );
+
+    const session = new DeepgramSttSession(
+      () =>
+        new WebSocket(url, {
+          headers: {
+            Authorization: `Token ${this.configService.get<string>('deepgram.apiKey')}`,
+          },
+        }),
+      this.sessionOptions(options),
+    );
+    return session.start().then((started) => {
+      this.logger.log('Deepgram live connection open');
+      return started;
+    });
+  }
+
+  private sessionOptions(options: SttOptions): DeepgramSessionOptions {
+    const get = <T>(key: string) => this.configService.get<T>(`stt.${key}`);
+    const bytesPerSample = options.encoding === 'linear16' ? 2 : 1;
+
+    return {
+      bytesPerSec:
+        options.sampleRate * bytesPerSample * (options.channels ?? 1),
+      keepAliveMs: get<number>('keepAliveMs') ?? 4000,
+      replayBufferMs: get<number>('replayBufferMs') ?? 10000,
+      closeTimeoutMs: get<number>('closeTimeoutMs') ?? 3000,
+      reconnect: {
+        maxAttempts: get<number>('reconnect.maxAttempts') ?? 5,
+        baseDelayMs: get<number>('reconnect.baseDelayMs') ?? 250,
+        maxDelayMs: get<number>('reconnect.maxDelayMs') ?? 4000,
+      },
+    };
+  }
+
+  /**
+   * Build the query string from session options + configured defaults.
+   */
+  private buildParams(options: SttOptions): URLSearchParams {
+    const get = <T>(key: string) => this.configService.get<T>(`stt.${key}`);
+
+    const params = new URLSearchParams({
+      encoding: options.encoding,
+      sample_rate: String(options.sampleRate),
+      channels: String(options.channels ?? 1),
+      interim_results: String(options.interimResults ?? true),
+      vad_events: String(options.vadEvents ?? true),
+    });
+
+    const model = options.model ?? get<string>('model');
+    if (model) params.set('model', model);
+
+    const language = options.language ?? get<string>('language');
+    if (language) params.set('language', language);
+
+    const endpointing = options.endpointingMs ?? get<number>('endpointingMs');
+    if (endpointing !== undefined) {
+      params.set('endpointing', String(endpointing));
+    }
+
+    // UtteranceEnd needs interim results
+    const utteranceEnd =
+      options.utteranceEndMs ?? get<number>('utteranceEndMs');
+    if (utteranceEnd && params.get('interim_results') === 'true') {
+      params.set('utterance_end_ms', String(utteranceEnd));
+    }
+
+    for (const keyword of options.keywords ?? get<string[]>('keywords') ?? []) {
+      params.append('keywords', keyword);
+    }
+
+    return params;
+  }
+}
@@ -0,0 +1,105 @@
+import { SttTranscript } from '../stt.types';
+import { parseDeepgramMessage } from './deepgram-stt.provider';
+import { MockSttProvider } from './mock-stt.provider';
+
+// Trimmed messages as recorded from a Deepgram live session
+const recorded = [
+  { type: 'Metadata', request_id: 'abc' },
+  { type: 'SpeechStarted', timestamp: 0.5 },
+  {
+    type: 'Results',
+    is_final: false,
+    speech_final: false,
+    channel: { alternatives: [{ transcript: 'I need a', confidence: 0.8 }] },
+  },
+  {
+    type: 'Results',
+    is_final: true,
+    speech_final: true,
+    start: 0.5,
+    duration: 1.2,
+    channel: {
+      alternatives: [{ transcript: 'I need a room', confidence: 0.97 }],
+    },
+  },
+  {
+    type: 'Results',
+    is_final: true,
+    channel: { alternatives: [{ transcript: '' }] },
+  },
+  { type: 'UtteranceEnd', last_word_end: 1.7 },
+];
+
+describe('MockSttProvider', () => {
+  it('should replay recorded Deepgram messages as typed events', async () => {
+    const provider = MockSttProvider.fromDeepgramMessages(recorded);
+    const session = await provider.connect({
+      encoding: 'mulaw',
+      sampleRate: 8000,
+    });
+
+    const events: string[] = [];
+    const finals: SttTranscript[] = [];
+    session.on('speech-started', () => events.push('speech-started'));
+    session.on('interim', (t) => events.push(`interim:${t.text}`));
+    session.on('final', (t) => {
+      events.push(`final:${t.text}`);
+      finals.push(t);
+    });
+
+    await new Promise<void>((resolve) =>
+      session.on('utterance-end', ({ lastWordEnd }) => {
+        events.push(`utterance-end:${lastWordEnd}`);
+        resolve();
+      }),
+    );
+
+    expect(events).toEqual([
+      'speech-started',
+      'interim:I need a',
+      'final:I need a room',
+      'utterance-end:1.7',
+    ]);
+    expect(finals[0]).toEqual({
+      text: 'I need a room',
+      isFinal: true,
+      speechFinal: true,
+      confidence: 0.97,
+      start: 0.5,
+      duration: 1.2,
+    });
+  });
+
+  it('should keep an empty speech_final as end-of-speech marker', () => {
+    const parsed = parseDeepgramMessage({
+      type: 'Results',
+      is_final: true,
+      speech_final: true,
+      channel: { alternatives: [{ transcript: '' }] },
+    });
+
+    expect(parsed).toMatchObject({
+      event: 'final',
+      payload: { text: '', speechFinal: true },
+    });
+  });
+
+  it('should record sent audio and emit closed once', async () => {
+    const provider = new MockSttProvider();
+    const session = await provider.connect({
+      encoding: 'linear16',
+      sampleRate: 16000,
+    });
+    const closed = jest.fn();
+    session.on('closed', closed);
+
+    session.send(Buffer.from([1, 2]));
+    await session.close();
+    await session.close();
+    session.send(Buffer.from([3]));
+
+    expect(provider.sessions[0].audio).toEqual([Buffer.from([1, 2])]);
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(session.isOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { SttEventMap, SttOptions, SttProvider, SttSession } from '../stt.types';
+import { DeepgramMessage, parseDeepgramMessage } from './deepgram-stt.provider';
+
+/**
+ * One scripted event of a mock session.
+ */
+export type MockSttStep = {
+  [K in keyof SttEventMap]: {
+    afterMs?: number; // Delay after the previous step (default 0)
+    event: K;
+    payload: SttEventMap[K][0];
+  };
+}[keyof SttEventMap];
+
+/**
+ * Session that replays a script instead of transcribing audio.
+ */
+export class MockSttSession extends SttSession {
+  readonly audio: Buffer[] = []; // Everything passed to send()
+  private open = true;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    readonly options: SttOptions,
+    private readonly script: MockSttStep[],
+  ) {
+    super();
+  }
+
+  /**
+   * Start replaying the script (called by the provider after connect()).
+   */
+  play(index = 0) {
+    const step = this.script[index];
+    if (!step || !this.open) return;
+
+    this.timer = setTimeout(() => {
+      if (!this.open) return;
+      (this.emit as (event: string, payload: unknown) => boolean)(
+        step.event,
+        step.payload,
+      );
+      this.play(index + 1);
+    }, step.afterMs ?? 0);
+  }
+
+  send(audio: Buffer) {
+    if (this.open) this.audio.push(audio);
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  close(): Promise<void> {
+    if (!this.open) return Promise.resolve();
+    this.open = false;
+    clearTimeout(this.timer);
+    this.emit('closed', { code: 1000 });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * In-memory STT provider for tests.
+ * Every session replays the same script of typed events, e.g. built from
+ * recorded Deepgram messages with MockSttProvider.fromDeepgramMessages().
+ */
+export class MockSttProvider implements SttProvider {
+  readonly name = 'mock';
+  readonly sessions: MockSttSession[] = [];
+
+  constructor(private readonly script: MockSttStep[] = []) {}
+
+  /**
+   * Build a provider from raw Deepgram live messages (e.g. a saved call log).
+   * Input: messages in arrival order, stepMs delay between them
+   */
+  static fromDeepgramMessages(
+    messages: DeepgramMessage[],
+    stepMs = 0,
+  ): MockSttProvider {
+    const script: MockSttStep[] = [];
+    for (const message of messages) {
+      const parsed = parseDeepgramMessage(message);
+      if (parsed) script.push({ ...parsed, afterMs: stepMs } as MockSttStep);
+    }
+    return new MockSttProvider(script);
+  }
+
+  connect(options: SttOptions): Promise<SttSession> {
+    const session = new MockSttSession(options, this.script);
+    this.sessions.push(session);
+    session.play();
+    return Promise.resolve(session);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DeepgramSttProvider } from './providers/deepgram-stt.provider';
+import { STT_PROVIDER } from './stt.types';
+
+@Module({
+  providers: [
+    DeepgramSttProvider,
+    { provide: STT_PROVIDER, useExisting: DeepgramSttProvider },
+  ],
+  exports: [STT_PROVIDER],
+})
+export class SttModule {}
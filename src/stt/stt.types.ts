@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Audio encodings accepted by speech-to-text providers.
+ * - mulaw: 8-bit μ-law (Twilio phone audio)
+ * - linear16: 16-bit little-endian PCM (browser playground)
+ */
+export type SttEncoding = 'mulaw' | 'linear16';
+
+/**
+ * Options for a live transcription session.
+ * Unset values fall back to the `stt.*` configuration.
+ */
+export interface SttOptions {
+  encoding: SttEncoding;
+  sampleRate: number;
+  channels?: number; // Default: 1
+  language?: string; // e.g. "en-US"
+  model?: string; // Provider model (e.g. Deepgram "nova-2")
+  endpointingMs?: number | false; // Silence (ms) that ends an utterance, false = off
+  utteranceEndMs?: number; // Gap (ms) after the last word before `utterance-end`
+  keywords?: string[]; // Words to boost (names, hotel terms, ...)
+  interimResults?: boolean; // Emit `interim` events (default: true)
+  vadEvents?: boolean; // Emit `speech-started` events (default: true)
+}
+
+/**
+ * A piece of transcript returned by the provider.
+ */
+export interface SttTranscript {
+  text: string; // May be empty on a final that only marks the end of speech
+  isFinal: boolean; // Text of this audio range will not change any more
+  speechFinal: boolean; // Provider detected the end of the utterance
+  confidence?: number;
+  start?: number; // Seconds from the start of the stream
+  duration?: number; // Seconds
+}
+
+/**
+ * Events every SttSession emits.
+ */
+export interface SttEventMap {
+  interim: [SttTranscript];
+  final: [SttTranscript];
+  'speech-started': [{ timestamp?: number }];
+  'utterance-end': [{ lastWordEnd?: number }];
+  reconnecting: [{ attempt: number; delayMs: number }]; // Connection lost, audio is buffered
+  reconnected: [{ attempt: number; replayedMs: number }]; // Buffered audio was replayed
+  error: [Error];
+  closed: [{ code?: number; reason?: string }];
+}
+
+/**
+ * A live transcription stream. Audio goes in with send(),
+ * typed events come out (see SttEventMap).
+ */
+export abstract class SttSession extends EventEmitter<SttEventMap> {
+  /**
+   * Send an audio chunk in the encoding the session was opened with.
+   */
+  abstract send(audio: Buffer): void;
+
+  /**
+   * True while audio can be sent (also while reconnecting: audio sent then
+   * is buffered and replayed once the connection is back).
+   */
+  abstract isOpen(): boolean;
+
+  /**
+   * Close the session. Pending results are still emitted before `closed`;
+   * resolves once the session is closed.
+   */
+  abstract close(): Promise<void>;
+}
+
+/**
+ * Common interface implemented by every speech-to-text backend.
+ */
+export interface SttProvider {
+  readonly name: string;
+
+  /**
+   * Open a live session. Resolves once audio can be sent.
+   */
+  connect(options: SttOptions): Promise<SttSession>;
+}
+
+// Injection token for the active SttProvider
+export const STT_PROVIDER = 'STT_PROVIDER';
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { IsOptional, IsString } from 'class-validator';
+import { LlmTool } from './llm-tool.decorator';
+import type { ToolContext } from './tool.types';
+
+export class CallControlArgsDto {
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+const REASON_PARAMETERS = {
+  type: 'object',
+  properties: {
+    reason: {
+      type: 'string',
+      description: 'Short reason, e.g. "guest asked for a manager"',
+    },
+  },
+};
+
+/**
+ * Tools that act on the live phone call (transfer / hang up).
+ * The gateway provides the actual CallControl through the ToolContext.
+ */
+@Injectable()
+export class CallControlTools {
+  @LlmTool({
+    name: 'transfer_call',
+    description:
+      'Transfer the caller to a human member of staff. Use when the caller asks for a person or you cannot help.',
+    parameters: REASON_PARAMETERS,
+    args: CallControlArgsDto,
+  })
+  transferCall(args: CallControlArgsDto, context: ToolContext) {
+    if (!context.callControl)
+      return { error: 'Transfers are not available in this session' };
+    return context.callControl.transfer(args.reason);
+  }
+
+  @LlmTool({
+    name: 'end_call',
+    description:
+      'Hang up after your reply. Use only when the caller said goodbye or has nothing else to ask.',
+    parameters: REASON_PARAMETERS,
+    args: CallControlArgsDto,
+  })
+  endCall(args: CallControlArgsDto, context: ToolContext) {
+    if (!context.callControl)
+      return { error: 'Ending the call is not available in this session' };
+    return context.callControl.end(args.reason);
+  }
+}
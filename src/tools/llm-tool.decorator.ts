@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+import { LLM_TOOL, LlmToolOptions } from './tool.types';
+
+/**
+ * Expose a provider method as an LLM tool.
+ * The method receives the validated arguments and the ToolContext;
+ * its return value is sent back to the model (objects as JSON).
+ *
+ * @example
+ * @LlmTool({ name: 'check_availability', description: '...', args: CheckAvailabilityDto, parameters: {...} })
+ * checkAvailability(args: CheckAvailabilityDto, context: ToolContext) { ... }
+ */
+export const LlmTool = (options: LlmToolOptions) =>
+  SetMetadata(LLM_TOOL, options);
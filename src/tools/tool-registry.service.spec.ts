@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { IsInt, Min } from 'class-validator';
+import { LlmToolCall } from '../llm/llm.types';
+import { LlmTool } from './llm-tool.decorator';
+import { ToolRegistry } from './tool-registry.service';
+import type { ToolContext, ToolInvocation } from './tool.types';
+
+class AddArgsDto {
+  @IsInt()
+  a: number;
+
+  @IsInt()
+  @Min(0)
+  b: number;
+}
+
+@Injectable()
+class MathTools {
+  @LlmTool({
+    name: 'add',
+    description: 'Add two numbers',
+    parameters: { type: 'object', properties: { a: {}, b: {} } },
+    args: AddArgsDto,
+  })
+  add(args: AddArgsDto, context: ToolContext) {
+    return { sum: args.a + args.b, agentId: context.agentId };
+  }
+
+  @LlmTool({ name: 'fail', description: 'Always throws' })
+  fail() {
+    throw new Error('boom');
+  }
+
+  notATool() {
+    return 'ignored';
+  }
+}
+
+const call = (name: string, args: string): LlmToolCall => ({
+  id: `call_${name}`,
+  type: 'function',
+  function: { name, arguments: args },
+});
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+  const context: ToolContext = { agentId: 'hotel', sessionId: 's1' };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [ToolRegistry, MathTools],
+    }).compile();
+    await module.init();
+    registry = module.get(ToolRegistry);
+  });
+
+  it('discovers @LlmTool methods of providers', () => {
+    expect(registry.list().sort()).toEqual(['add', 'fail']);
+    expect(registry.getDefinitions(['add', 'missing'])).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'add',
+          description: 'Add two numbers',
+          parameters: { type: 'object', properties: { a: {}, b: {} } },
+        },
+      },
+    ]);
+  });
+
+  it('runs a tool with validated arguments and the caller context', async () => {
+    const invocation = await registry.execute(
+      call('add', '{"a":2,"b":3}'),
+      context,
+    );
+
+    expect(invocation.ok).toBe(true);
+    expect(JSON.parse(invocation.result)).toEqual({ sum: 5, agentId: 'hotel' });
+  });
+
+  it('returns errors as tool results instead of throwing', async () => {
+    const invalid = await registry.execute(
+      call('add', '{"a":2,"b":-1}'),
+      context,
+    );
+    const badJson = await registry.execute(call('add', '{a:2'), context);
+    const thrown = await registry.execute(call('fail', ''), context);
+    const unknown = await registry.execute(call('nope', '{}'), context);
+
+    expect(invalid.ok).toBe(false);
+    expect(invalid.result).toContain('Invalid arguments');
+    expect(badJson.result).toContain('valid JSON');
+    expect(JSON.parse(thrown.result)).toEqual({ error: 'boom' });
+    expect(unknown.result).toContain('Unknown tool');
+  });
+
+  it('limits a toolset to the allowed tools and reports invocations', async () => {
+    const invocations: ToolInvocation[] = [];
+    const toolset = registry.createToolset(['add'], context, (i) =>
+      invocations.push(i),
+    );
+
+    expect(toolset?.definitions.map((d) => d.function.name)).toEqual(['add']);
+    expect(await toolset!.execute(call('fail', ''))).toContain('Unknown tool');
+    await toolset!.execute(call('add', '{"a":1,"b":1}'));
+
+    expect(invocations.map((i) => [i.name, i.ok])).toEqual([
+      ['fail', false],
+      ['add', true],
+    ]);
+    expect(registry.createToolset([], context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,180 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { LlmToolCall, LlmToolDefinition, LlmToolset } from '../llm/llm.types';
+import { flattenValidationErrors } from '../utils/validation.util';
+import {
+  LLM_TOOL,
+  LlmToolOptions,
+  ToolContext,
+  ToolHandler,
+  ToolInvocation,
+} from './tool.types';
+import { errorMessage } from '../utils/error.util';
+
+interface RegisteredTool {
+  options: LlmToolOptions;
+  handler: ToolHandler;
+}
+
+/**
+ * Registry of all @LlmTool methods declared by NestJS providers.
+ * - Discovers tools once at startup
+ * - Builds per-session toolsets limited to the tools an agent may use
+ * - Validates arguments and turns every failure into a result the model can read
+ */
+@Injectable()
+export class ToolRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ToolRegistry.name);
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly scanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  onModuleInit() {
+    for (const wrapper of this.discovery.getProviders()) {
+      const instance = wrapper.instance as Record<string, unknown> | undefined;
+      if (!instance || typeof instance !== 'object') continue;
+
+      const prototype = Object.getPrototypeOf(instance) as object;
+      for (const method of this.scanner.getAllMethodNames(prototype)) {
+        const handler = instance[method] as ToolHandler;
+        const options = this.reflector.get<LlmToolOptions | undefined>(
+          LLM_TOOL,
+          handler,
+        );
+        if (!options) continue;
+
+        if (this.tools.has(options.name)) {
+          this.logger.warn(
+            `Duplicate tool "${options.name}", keeping the first`,
+          );
+          continue;
+        }
+        this.tools.set(options.name, {
+          options,
+          handler: handler.bind(instance) as ToolHandler,
+        });
+      }
+    }
+
+    this.logger.log(
+      `Registered ${this.tools.size} tool(s): ${[...this.tools.keys()].join(', ')}`,
+    );
+  }
+
+  /**
+   * Names of all registered tools.
+   */
+  list(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * OpenAI tool definitions for the given tool names (unknown names are skipped).
+   */
+  getDefinitions(names: string[]): LlmToolDefinition[] {
+    return names.flatMap((name) => {
+      const tool = this.tools.get(name);
+      if (!tool) return [];
+      return [
+        {
+          type: 'function' as const,
+          function: {
+            name,
+            description: tool.options.description,
+            parameters: tool.options.parameters ?? {
+              type: 'object',
+              properties: {},
+            },
+          },
+        },
+      ];
+    });
+  }
+
+  /**
+   * Build the toolset passed to LlmService for one session.
+   * Input: allowed tool names (e.g. agent.tools), caller context,
+   *        optional callback receiving every invocation (for transcripts)
+   * Output: undefined if none of the tools exist → plain chat
+   */
+  createToolset(
+    names: string[] | undefined,
+    context: ToolContext,
+    onInvocation?: (invocation: ToolInvocation) => void,
+  ): LlmToolset | undefined {
+    const definitions = this.getDefinitions(names ?? []);
+    if (!definitions.length) return undefined;
+
+    const allowed = new Set(definitions.map((d) => d.function.name));
+    return {
+      definitions,
+      execute: async (call) => {
+        const invocation = await this.execute(call, context, allowed);
+        onInvocation?.(invocation);
+        return invocation.result;
+      },
+    };
+  }
+
+  /**
+   * Run one tool call.
+   * Errors (unknown tool, bad JSON, validation, handler exceptions) are
+   * returned as `{"error": "..."}` so the model can recover or apologize.
+   */
+  async execute(
+    call: LlmToolCall,
+    context: ToolContext,
+    allowed?: Set<string>,
+  ): Promise<ToolInvocation> {
+    const started = Date.now();
+    const { name, arguments: rawArgs } = call.function;
+    let args: unknown = rawArgs;
+
+    const finish = (ok: boolean, result: unknown): ToolInvocation => ({
+      id: call.id,
+      name,
+      args,
+      result:
+        typeof result === 'string' ? result : JSON.stringify(result ?? { ok }),
+      ok,
+      durationMs: Date.now() - started,
+      ts: new Date().toISOString(),
+    });
+
+    const tool = this.tools.get(name);
+    if (!tool || (allowed && !allowed.has(name))) {
+      return finish(false, { error: `Unknown tool "${name}"` });
+    }
+
+    try {
+      args = rawArgs?.trim() ? JSON.parse(rawArgs) : {};
+    } catch {
+      return finish(false, { error: 'Arguments must be valid JSON' });
+    }
+
+    let input: unknown = args;
+    if (tool.options.args) {
+      input = plainToInstance(tool.options.args, args);
+      const errors = await validate(input as object, { whitelist: true });
+      if (errors.length) {
+        const message = flattenValidationErrors(errors).join('; ');
+        return finish(false, { error: `Invalid arguments: ${message}` });
+      }
+    }
+
+    try {
+      const result = await tool.handler(input, context);
+      this.logger.log(`Tool ${name} done in ${Date.now() - started} ms`);
+      return finish(true, result);
+    } catch (e: unknown) {
+      this.logger.error(`Tool ${name} failed: ${errorMessage(e)}`);
+      return finish(false, { error: errorMessage(e) || 'Tool failed' });
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Type } from '@nestjs/common';
+
+export const LLM_TOOL = 'llm:tool'; // Metadata key set by @LlmTool()
+
+/**
+ * Declaration of a tool method (see @LlmTool).
+ */
+export interface LlmToolOptions {
+  name: string; // Name the model calls, e.g. "check_availability"
+  description: string; // When/why the model should use it
+  parameters?: Record<string, unknown>; // JSON Schema shown to the model
+  args?: Type<object>; // class-validator DTO used to validate the arguments
+}
+
+/**
+ * Actions on the live call a tool may trigger (Twilio calls only).
+ * Both return a short status the model can tell the caller.
+ */
+export interface CallControl {
+  transfer(reason?: string): Promise<string> | string;
+  end(reason?: string): Promise<string> | string;
+}
+
+/**
+ * Who is calling the tool.
+ */
+export interface ToolContext {
+  agentId: string;
+  sessionId: string; // Twilio stream SID / playground session id
+  callSid?: string;
+  callerNumber?: string;
+  callControl?: CallControl;
+}
+
+/**
+ * Signature of a method decorated with @LlmTool.
+ */
+export type ToolHandler = (args: unknown, context: ToolContext) => unknown;
+
+/**
+ * Record of one executed tool call (kept in the call transcript).
+ */
+export interface ToolInvocation {
+  id: string; // Tool call id from the model
+  name: string;
+  args: unknown; // Parsed arguments (raw string if not valid JSON)
+  result: string; // Content sent back to the model
+  ok: boolean;
+  durationMs: number;
+  ts: string;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { CallControlTools } from './call-control.tools';
+import { ToolRegistry } from './tool-registry.service';
+
+@Module({
+  imports: [DiscoveryModule],
+  providers: [ToolRegistry, CallControlTools],
+  exports: [ToolRegistry],
+})
+export class ToolsModule {}
@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TtsEncoding, TtsOptions, TtsProvider } from '../tts.types';
+
+// Deepgram Aura voices (English)
+const AURA_VOICES = [
+  'aura-asteria-en',
+  'aura-luna-en',
+  'aura-stella-en',
+  'aura-athena-en',
+  'aura-hera-en',
+  'aura-orion-en',
+  'aura-arcas-en',
+  'aura-perseus-en',
+  'aura-angus-en',
+  'aura-orpheus-en',
+  'aura-helios-en',
+  'aura-zeus-en',
+];
+
+/**
+ * Deepgram Aura text-to-speech (https://api.deepgram.com/v1/speak).
+ */
+@Injectable()
+export class DeepgramTtsProvider implements TtsProvider {
+  readonly name = 'deepgram';
+  private readonly logger = new Logger(DeepgramTtsProvider.name);
+  private readonly baseUrl = 'https://api.deepgram.com/v1/speak';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  supportedVoices(): string[] {
+    return AURA_VOICES;
+  }
+
+  supportedEncodings(): TtsEncoding[] {
+    return ['mulaw', 'linear16'];
+  }
+
+  /**
+   * Synthesize the whole text (non-streaming).
+   */
+  async synthesize(text: string, options: TtsOptions = {}): Promise<Buffer> {
+    const response = await this.request(text, options);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Stream audio chunks as Deepgram produces them.
+   */
+  async stream(
+    text: string,
+    onChunk: (chunk: Buffer) => void,
+    options: TtsOptions = {},
+  ): Promise<void> {
+    const response = await this.request(text, options);
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('No reader available');
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        onChunk(Buffer.from(value));
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * POST the text to Deepgram with the requested voice and audio format.
+   */
+  private async request(text: string, options: TtsOptions): Promise<Response> {
+    const voice = options.voice || this.defaultVoice(options.lowLatency);
+    const params = new URLSearchParams({
+      model: voice,
+      encoding: options.encoding ?? 'mulaw',
+      sample_rate: String(options.sampleRate ?? 8000),
+    });
+    this.logger.debug(`Deepgram TTS (${voice}): ${text.substring(0, 50)}`);
+
+    const response = await fetch(`${this.baseUrl}?${params.toString()}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Token ${this.configService.get<string>('deepgram.apiKey')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ text }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Deepgram TTS failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return response;
+  }
+
+  private defaultVoice(lowLatency?: boolean): string {
+    return lowLatency
+      ? (this.configService.get<string>('tts.deepgram.fastVoice') ??
+          'aura-arcas-en')
+      : (this.configService.get<string>('tts.deepgram.voice') ??
+          'aura-asteria-en');
+  }
+}
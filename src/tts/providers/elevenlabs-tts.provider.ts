@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ElevenLabsService } from '../../elevenlabs/elevenlabs.service';
+import { TtsEncoding, TtsOptions, TtsProvider } from '../tts.types';
+
+// Sample rates ElevenLabs can return as raw PCM
+const PCM_RATES = [8000, 16000, 24000, 48000] as const;
+
+/**
+ * ElevenLabs text-to-speech, backed by the ElevenLabsService SDK client.
+ */
+@Injectable()
+export class ElevenLabsTtsProvider implements TtsProvider {
+  readonly name = 'elevenlabs';
+
+  constructor(
+    private readonly elevenLabs: ElevenLabsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  supportedVoices(): string[] {
+    return [this.defaultVoice()];
+  }
+
+  supportedEncodings(): TtsEncoding[] {
+    return ['mulaw', 'linear16'];
+  }
+
+  /**
+   * Synthesize the whole text by collecting the streamed chunks.
+   */
+  async synthesize(text: string, options: TtsOptions = {}): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    await this.stream(text, (chunk) => chunks.push(chunk), options);
+    return Buffer.concat(chunks);
+  }
+
+  async stream(
+    text: string,
+    onChunk: (chunk: Buffer) => void,
+    options: TtsOptions = {},
+  ): Promise<void> {
+    await this.elevenLabs.streamAudio(text, onChunk, {
+      voiceId: options.voice || this.defaultVoice(),
+      modelId: options.lowLatency
+        ? this.configService.get<string>('tts.elevenlabs.fastModelId')
+        : this.configService.get<string>('tts.elevenlabs.modelId'),
+      outputFormat: this.outputFormat(options),
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Map encoding + sample rate to an ElevenLabs output format.
+   */
+  private outputFormat(options: TtsOptions) {
+    const sampleRate = options.sampleRate ?? 8000;
+
+    if ((options.encoding ?? 'mulaw') === 'mulaw') {
+      if (sampleRate !== 8000) {
+        throw new Error('ElevenLabs only supports μ-law at 8000 Hz');
+      }
+      return 'ulaw_8000' as const;
+    }
+
+    const rate = PCM_RATES.find((r) => r === sampleRate);
+    if (!rate) {
+      throw new Error(`ElevenLabs does not support PCM at ${sampleRate} Hz`);
+    }
+    return `pcm_${rate}` as const;
+  }
+
+  private defaultVoice(): string {
+    return (
+      this.configService.get<string>('tts.elevenlabs.voiceId') ||
+      this.elevenLabs.getDefaultVoiceId()
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { TtsEncoding, TtsOptions, TtsProvider } from '../tts.types';
+
+/**
+ * In-memory TTS provider for tests and local runs without API keys.
+ * - Produces silence whose length depends on the text (bytesPerChar)
+ * - Can simulate latency and failures
+ * - Records every request in `requests`
+ */
+export class FakeTtsProvider implements TtsProvider {
+  readonly requests: { text: string; options: TtsOptions }[] = [];
+  failWith?: Error; // Set to make every request fail
+  delayMs = 0; // Delay before the first chunk
+  chunkBytes = 160; // Size of streamed chunks
+
+  constructor(
+    readonly name = 'fake',
+    private readonly bytesPerChar = 80,
+  ) {}
+
+  supportedVoices(): string[] {
+    return ['fake-voice'];
+  }
+
+  supportedEncodings(): TtsEncoding[] {
+    return ['mulaw', 'linear16'];
+  }
+
+  async synthesize(text: string, options: TtsOptions = {}): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    await this.stream(text, (chunk) => chunks.push(chunk), options);
+    return Buffer.concat(chunks);
+  }
+
+  async stream(
+    text: string,
+    onChunk: (chunk: Buffer) => void,
+    options: TtsOptions = {},
+  ): Promise<void> {
+    this.requests.push({ text, options });
+    await this.wait(options.signal);
+    if (this.failWith) throw this.failWith;
+
+    // μ-law silence is 0xFF, PCM silence is 0
+    const fill = (options.encoding ?? 'mulaw') === 'mulaw' ? 0xff : 0;
+    const audio = Buffer.alloc(text.length * this.bytesPerChar, fill);
+
+    for (let i = 0; i < audio.length; i += this.chunkBytes) {
+      if (options.signal?.aborted) throw new Error('Aborted');
+      onChunk(audio.subarray(i, i + this.chunkBytes));
+    }
+  }
+
+  private wait(signal?: AbortSignal): Promise<void> {
+    if (!this.delayMs) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, this.delayMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Aborted'));
+      });
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ElevenlabsModule } from '../elevenlabs/elevenlabs.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { DeepgramTtsProvider } from './providers/deepgram-tts.provider';
+import { ElevenLabsTtsProvider } from './providers/elevenlabs-tts.provider';
+import { FakeTtsProvider } from './providers/fake-tts.provider';
+import { TtsService } from './tts.service';
+import { TTS_PROVIDERS } from './tts.types';
+
+@Module({
+  imports: [ElevenlabsModule, MetricsModule],
+  providers: [
+    DeepgramTtsProvider,
+    ElevenLabsTtsProvider,
+    {
+      provide: TTS_PROVIDERS,
+      useFactory: (
+        deepgram: DeepgramTtsProvider,
+        elevenLabs: ElevenLabsTtsProvider,
+      ) => [deepgram, elevenLabs, new FakeTtsProvider()],
+      inject: [DeepgramTtsProvider, ElevenLabsTtsProvider],
+    },
+    TtsService,
+  ],
+  exports: [TtsService],
+})
+export class TtsModule {}
@@ -0,0 +1,67 @@
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../metrics/metrics.service';
+import { FakeTtsProvider } from './providers/fake-tts.provider';
+import { TtsService } from './tts.service';
+
+describe('TtsService', () => {
+  let primary: FakeTtsProvider;
+  let secondary: FakeTtsProvider;
+  let service: TtsService;
+  let metrics: MetricsService;
+
+  beforeEach(() => {
+    primary = new FakeTtsProvider('primary', 10);
+    secondary = new FakeTtsProvider('secondary', 20);
+    const config = new ConfigService({
+      tts: {
+        provider: 'primary',
+        fallbackProvider: 'secondary',
+        latencyBudgetMs: 50,
+      },
+    });
+    metrics = new MetricsService();
+    service = new TtsService([primary, secondary], config, metrics);
+  });
+
+  it('should use the configured primary provider', async () => {
+    const { audio, provider } = await service.synthesize('hello');
+    expect(provider).toBe('primary');
+    expect(audio).toHaveLength(50);
+    expect(secondary.requests).toHaveLength(0);
+  });
+
+  it('should honour a per-request provider and voice', async () => {
+    const { provider } = await service.synthesize('hi', {
+      provider: 'secondary',
+      voice: 'custom',
+    });
+    expect(provider).toBe('secondary');
+    expect(secondary.requests[0].options.voice).toBe('custom');
+  });
+
+  it('should fail over when the primary errors', async () => {
+    primary.failWith = new Error('boom');
+    const chunks: Buffer[] = [];
+
+    const provider = await service.stream('hi', (c) => chunks.push(c));
+
+    expect(provider).toBe('secondary');
+    expect(Buffer.concat(chunks)).toHaveLength(40);
+    expect(
+      metrics.providerErrors.get({ service: 'tts', provider: 'primary' }),
+    ).toBe(1);
+    expect(metrics.ttsFirstByte.get({ provider: 'secondary' }).count).toBe(1);
+  });
+
+  it('should fail over when the primary exceeds the latency budget', async () => {
+    primary.delayMs = 500;
+    const { provider } = await service.synthesize('hi');
+    expect(provider).toBe('secondary');
+  });
+
+  it('should throw when every provider fails', async () => {
+    primary.failWith = new Error('primary down');
+    secondary.failWith = new Error('secondary down');
+    await expect(service.synthesize('hi')).rejects.toThrow('secondary down');
+  });
+});
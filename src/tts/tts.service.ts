@@ -0,0 +1,184 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  TTS_PROVIDERS,
+  TtsOptions,
+  TtsProvider,
+  TtsSelection,
+} from './tts.types';
+
+/**
+ * Picks the TTS provider for a request and fails over to the secondary one.
+ * - Primary/fallback come from configuration, or per request (e.g. agent)
+ * - Failover when the primary errors or exceeds the latency budget
+ *   (time to first audio); a stream that already produced audio is never
+ *   switched mid-utterance
+ * - Records time to first audio and failures per provider (metrics)
+ */
+@Injectable()
+export class TtsService {
+  private readonly logger = new Logger(TtsService.name);
+  private readonly providers = new Map<string, TtsProvider>();
+
+  constructor(
+    @Inject(TTS_PROVIDERS) providers: TtsProvider[],
+    private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
+    for (const provider of providers)
+      this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Names, voices and encodings of all registered providers.
+   */
+  listProviders() {
+    return Array.from(this.providers.values()).map((p) => ({
+      name: p.name,
+      voices: p.supportedVoices(),
+      encodings: p.supportedEncodings(),
+    }));
+  }
+
+  /**
+   * Synthesize the whole text with failover.
+   * Output: raw audio + name of the provider that produced it
+   */
+  async synthesize(
+    text: string,
+    selection: TtsSelection = {},
+    options: TtsOptions = {},
+  ): Promise<{ audio: Buffer; provider: string }> {
+    let audio: Buffer = Buffer.alloc(0);
+    const provider = await this.withFailover(
+      selection,
+      options,
+      async (p, opts, onFirstAudio) => {
+        audio = await p.synthesize(text, opts);
+        onFirstAudio();
+      },
+    );
+    return { audio, provider };
+  }
+
+  /**
+   * Stream the text with failover; chunks go to onChunk as they arrive.
+   * Output: name of the provider that produced the audio
+   */
+  async stream(
+    text: string,
+    onChunk: (chunk: Buffer) => void,
+    selection: TtsSelection = {},
+    options: TtsOptions = {},
+  ): Promise<string> {
+    return this.withFailover(selection, options, (p, opts, onFirstAudio) =>
+      p.stream(
+        text,
+        (chunk) => {
+          onFirstAudio();
+          onChunk(chunk);
+        },
+        opts,
+      ),
+    );
+  }
+
+  /**
+   * Run a request against the provider chain (primary → fallback).
+   */
+  private async withFailover(
+    selection: TtsSelection,
+    options: TtsOptions,
+    run: (
+      provider: TtsProvider,
+      options: TtsOptions,
+      onFirstAudio: () => void,
+    ) => Promise<void>,
+  ): Promise<string> {
+    const chain = this.resolveChain(selection);
+    const budgetMs =
+      this.configService.get<number>('tts.latencyBudgetMs') ?? 2000;
+    let lastError: Error | undefined;
+
+    for (const [index, provider] of chain.entries()) {
+      const attempt = new AbortController();
+      const signal = options.signal
+        ? AbortSignal.any([options.signal, attempt.signal])
+        : attempt.signal;
+      let gotAudio = false;
+      let timedOut = false;
+      const startedAt = Date.now();
+
+      // Only the last provider in the chain may take as long as it needs
+      const isLast = index === chain.length - 1;
+      const budget = isLast
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            attempt.abort();
+          }, budgetMs);
+
+      try {
+        await run(
+          provider,
+          {
+            ...options,
+            // A voice name only makes sense for the provider it belongs to
+            voice: index === 0 ? selection.voice || options.voice : undefined,
+            signal,
+          },
+          () => {
+            if (gotAudio) return;
+            gotAudio = true;
+            clearTimeout(budget);
+            this.metrics.ttsFirstByte.observe(
+              { provider: provider.name },
+              (Date.now() - startedAt) / 1000,
+            );
+          },
+        );
+        return provider.name;
+      } catch (e: unknown) {
+        if (options.signal?.aborted) throw e;
+        this.metrics.providerErrors.inc({
+          service: 'tts',
+          provider: provider.name,
+        });
+        if (gotAudio) throw e;
+
+        lastError = timedOut
+          ? new Error(`${provider.name} exceeded ${budgetMs} ms latency budget`)
+          : (e as Error);
+        this.logger.warn(
+          `TTS provider ${provider.name} failed: ${lastError?.message}`,
+        );
+      } finally {
+        clearTimeout(budget);
+      }
+    }
+
+    throw lastError ?? new Error('No TTS provider available');
+  }
+
+  /**
+   * Ordered list of providers to try for a request.
+   */
+  private resolveChain(selection: TtsSelection): TtsProvider[] {
+    const primary =
+      selection.provider ?? this.configService.get<string>('tts.provider');
+    const fallback =
+      selection.fallbackProvider ??
+      this.configService.get<string>('tts.fallbackProvider');
+
+    const chain: TtsProvider[] = [];
+    for (const name of [primary, fallback]) {
+      const provider = name ? this.providers.get(name) : undefined;
+      if (provider && !chain.includes(provider)) chain.push(provider);
+      else if (name && !provider) {
+        this.logger.warn(`Unknown TTS provider "${name}"`);
+      }
+    }
+    return chain;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Audio encodings a TTS provider can return.
+ * - mulaw: 8-bit μ-law (Twilio phone audio)
+ * - linear16: 16-bit little-endian PCM
+ */
+export type TtsEncoding = 'mulaw' | 'linear16';
+
+/**
+ * Per-request synthesis options.
+ */
+export interface TtsOptions {
+  voice?: string; // Provider specific voice/model id (provider default if empty)
+  encoding?: TtsEncoding; // Default: mulaw
+  sampleRate?: number; // Default: 8000
+  lowLatency?: boolean; // Prefer the provider's fastest voice/model
+  signal?: AbortSignal; // Cancel the request
+}
+
+/**
+ * Common interface implemented by every text-to-speech backend.
+ */
+export interface TtsProvider {
+  readonly name: string;
+
+  /**
+   * Synthesize the whole text and resolve with the raw audio.
+   */
+  synthesize(text: string, options?: TtsOptions): Promise<Buffer>;
+
+  /**
+   * Synthesize the text and hand out raw audio chunks as they arrive.
+   * Resolves once the last chunk was delivered.
+   */
+  stream(
+    text: string,
+    onChunk: (chunk: Buffer) => void,
+    options?: TtsOptions,
+  ): Promise<void>;
+
+  supportedVoices(): string[];
+  supportedEncodings(): TtsEncoding[];
+}
+
+/**
+ * Which provider/voice to use (from configuration or an agent definition).
+ */
+export interface TtsSelection {
+  provider?: string; // Primary provider name (e.g. "deepgram", "elevenlabs")
+  fallbackProvider?: string; // Used when the primary fails or is too slow
+  voice?: string; // Voice of the primary provider
+}
+
+// Injection token for the list of registered TtsProvider instances
+export const TTS_PROVIDERS = 'TTS_PROVIDERS';
@@ -0,0 +1,175 @@
+import { ConfigService } from '@nestjs/config';
+import { SessionRecord } from '../sessions/session.types';
+import { SessionsService } from '../sessions/sessions.service';
+import { CallTransferService } from './call-transfer.service';
+import { StubTwilioCallClient } from './clients/stub-twilio-call.client';
+import { StreamTokenService } from './stream-token.service';
+import { TwilioService } from './twilio.service';
+
+describe('CallTransferService', () => {
+  let client: StubTwilioCallClient;
+  let saved: SessionRecord | undefined;
+
+  const create = (transfer: object = {}) => {
+    const config = new ConfigService({
+      twilio: { phoneNumber: '+15550000000', authToken: 'secret' },
+      server: { baseUrl: 'https://bot.example.com' },
+      transfer: {
+        mode: 'cold',
+        target: '+15557654321',
+        timeoutSec: 20,
+        keywords: ['real person', 'operator'],
+        summaryVia: 'whisper',
+        unavailableText: 'Nobody is available.',
+        ...transfer,
+      },
+    });
+    client = new StubTwilioCallClient();
+    saved = {
+      id: 'CA1',
+      kind: 'call',
+      agentId: 'default',
+      startedAt: new Date().toISOString(),
+      transcript: [],
+      latencies: [],
+    };
+    const sessions = {
+      update: (id: string, change: (record: SessionRecord) => void) => {
+        if (id !== saved?.id) return Promise.resolve(undefined);
+        change(saved);
+        return Promise.resolve(saved);
+      },
+    } as unknown as SessionsService;
+    return new CallTransferService(
+      config,
+      new TwilioService(config, new StreamTokenService(config)),
+      client,
+      sessions,
+    );
+  };
+
+  it('detects requests for a person with whole-word keyword rules', () => {
+    const service = create();
+
+    expect(service.detectIntent('Can I talk to a REAL  person please')).toBe(
+      true,
+    );
+    expect(service.detectIntent('Operator!')).toBe(true);
+    expect(service.detectIntent('The cooperator booked it')).toBe(false);
+    expect(create({ target: undefined }).isAvailable()).toBe(false);
+  });
+
+  it('redirects a cold transfer to a <Dial> with a status callback', async () => {
+    const service = create({ callerId: '+15550000001' });
+
+    const record = await service.transfer({
+      callSid: 'CA1',
+      trigger: 'tool',
+      reason: 'wants a manager',
+      summary: 'Ignored for cold transfers',
+    });
+
+    expect(record).toMatchObject({
+      mode: 'cold',
+      trigger: 'tool',
+      target: '+15557654321',
+      status: 'initiated',
+    });
+    expect(record.summary).toBeUndefined();
+    expect(client.updates[0]).toEqual({
+      callSid: 'CA1',
+      params: {
+        twiml:
+          '<Response><Dial action="https://bot.example.com/twilio/transfer-status/CA1" timeout="20" callerId="+15550000001"><Number>+15557654321</Number></Dial></Response>',
+      },
+    });
+  });
+
+  it('whispers the summary to the agent of a warm transfer', async () => {
+    const service = create({
+      mode: 'warm',
+      target: 'sip:desk@pbx.example.com',
+    });
+
+    await service.transfer({
+      callSid: 'CA1',
+      trigger: 'keyword',
+      summary: 'Ada wants to move her booking to Friday & Saturday.',
+    });
+
+    expect(client.updates[0].params.twiml).toContain(
+      '<Sip url="https://bot.example.com/twilio/transfer-whisper/CA1">sip:desk@pbx.example.com</Sip>',
+    );
+    expect(service.whisperTwiml('CA1')).toBe(
+      '<Response><Say>Transferred call. Ada wants to move her booking to Friday &amp; Saturday.</Say></Response>',
+    );
+    expect(service.whisperTwiml('CA2')).toBe('<Response/>');
+  });
+
+  it('texts the summary when a queue takes the call', async () => {
+    const service = create({
+      mode: 'warm',
+      queue: 'front-desk',
+      summaryVia: 'sms',
+      smsTo: '+15559999999',
+    });
+
+    const record = await service.transfer({
+      callSid: 'CA1',
+      trigger: 'tool',
+      summary: 'Ada asks about late check-out.',
+    });
+
+    expect(record).toMatchObject({
+      target: 'queue:front-desk',
+      summaryVia: 'sms',
+      status: 'initiated',
+    });
+    expect(client.messages).toEqual([
+      {
+        to: '+15559999999',
+        from: '+15550000000',
+        body: 'Transferred call: Ada asks about late check-out.',
+      },
+    ]);
+    expect(client.updates[0].params.twiml).toBe(
+      '<Response><Enqueue action="https://bot.example.com/twilio/transfer-status/CA1">front-desk</Enqueue></Response>',
+    );
+  });
+
+  it('reports a failed redirect', async () => {
+    const service = create();
+    client.failWith = new Error('Call is not in-progress');
+
+    await expect(
+      service.transfer({ callSid: 'CA1', trigger: 'tool' }),
+    ).resolves.toMatchObject({
+      status: 'failed',
+      error: 'Call is not in-progress',
+    });
+  });
+
+  it('stores the dial result on the session and apologizes if nobody answered', async () => {
+    const service = create();
+    const record = await service.transfer({ callSid: 'CA1', trigger: 'tool' });
+    saved!.transfer = record;
+
+    await expect(
+      service.handleStatus('CA1', { DialCallStatus: 'no-answer' }),
+    ).resolves.toBe(
+      '<Response><Say>Nobody is available.</Say><Hangup/></Response>',
+    );
+    expect(saved!.transfer).toMatchObject({ status: 'no-answer' });
+
+    await expect(
+      service.handleStatus('CA1', {
+        DialCallStatus: 'completed',
+        DialCallDuration: '95',
+      }),
+    ).resolves.toBe('<Response><Hangup/></Response>');
+    expect(saved!.transfer).toMatchObject({
+      status: 'completed',
+      durationSec: 95,
+    });
+  });
+});
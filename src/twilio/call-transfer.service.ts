@@ -0,0 +1,253 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SessionsService } from '../sessions/sessions.service';
+import { TransferRecord } from '../sessions/session.types';
+import { escapeXml } from '../utils/twiml.util';
+import { TwilioService } from './twilio.service';
+import { TWILIO_CALL_CLIENT } from './twilio.types';
+import type { TransferStatusCallback, TwilioCallClient } from './twilio.types';
+import { errorMessage } from '../utils/error.util';
+
+// Whisper summaries are dropped if the agent's leg never fetches them
+const WHISPER_TTL_MS = 10 * 60 * 1000;
+
+// Results after which the caller is not told that nobody answered
+const CONNECTED_RESULTS = ['completed', 'answered', 'bridged', 'hangup'];
+
+/**
+ * One hand-off requested by the gateway.
+ */
+export interface TransferRequest {
+  callSid: string;
+  trigger: TransferRecord['trigger'];
+  reason?: string;
+  summary?: string; // Warm transfers: conversation summary for the agent
+}
+
+/**
+ * Hands live calls over to a human agent (`transfer.*`).
+ * - Redirects the call through the Twilio REST API to a <Dial> target
+ *   (number / SIP URI) or an <Enqueue> queue
+ * - Warm transfers pass the conversation summary to the agent: spoken
+ *   before the agent is connected (whisper) or sent by SMS
+ * - Twilio reports the result of the <Dial> / <Enqueue> to
+ *   POST /twilio/transfer-status/:callSid, which updates the saved session
+ */
+@Injectable()
+export class CallTransferService {
+  private readonly logger = new Logger(CallTransferService.name);
+  private readonly whispers = new Map<
+    string,
+    { text: string; expiresAt: number }
+  >(); // callSid → summary for the agent
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly twilioService: TwilioService,
+    @Inject(TWILIO_CALL_CLIENT) private readonly callClient: TwilioCallClient,
+    private readonly sessions: SessionsService,
+  ) {}
+
+  /**
+   * A transfer target or queue is configured.
+   */
+  isAvailable(): boolean {
+    return !!(this.get<string>('queue') || this.get<string>('target'));
+  }
+
+  /**
+   * Warm transfers need a conversation summary.
+   */
+  isWarm(): boolean {
+    return this.get<string>('mode') === 'warm';
+  }
+
+  /**
+   * Keyword rules: does the caller ask for a person?
+   * Input: text of a complete caller turn
+   * Output: true if it contains one of transfer.keywords (whole words, any case)
+   */
+  detectIntent(text: string): boolean {
+    const keywords = this.get<string[]>('keywords') ?? [];
+    return keywords.some((keyword) =>
+      new RegExp(
+        `\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')}\\b`,
+        'i',
+      ).test(text),
+    );
+  }
+
+  /**
+   * Redirect a live call to the configured target.
+   * Output: record of the attempt (status "initiated" or "failed"); the
+   *         media stream of the call ends once Twilio runs the new TwiML
+   */
+  async transfer(request: TransferRequest): Promise<TransferRecord> {
+    const queue = this.get<string>('queue');
+    const target = this.get<string>('target');
+    const record: TransferRecord = {
+      mode: this.isWarm() ? 'warm' : 'cold',
+      trigger: request.trigger,
+      target: queue ? `queue:${queue}` : (target ?? ''),
+      reason: request.reason,
+      status: 'requested',
+      requestedAt: new Date().toISOString(),
+    };
+    if (!queue && !target) {
+      return { ...record, status: 'failed', error: 'No transfer target' };
+    }
+
+    const summary = record.mode === 'warm' ? request.summary : undefined;
+    if (summary) {
+      record.summary = summary;
+      record.summaryVia = await this.deliverSummary(
+        request.callSid,
+        summary,
+        queue ? undefined : target,
+      );
+    }
+
+    try {
+      await this.callClient.updateCall(request.callSid, {
+        twiml: this.buildTwiml(
+          request.callSid,
+          record.summaryVia === 'whisper',
+        ),
+      });
+      this.logger.log(
+        `📞 Transferring ${request.callSid} to ${record.target} (${record.mode}, ${request.reason ?? 'no reason'})`,
+      );
+      return { ...record, status: 'initiated' };
+    } catch (e: unknown) {
+      this.whispers.delete(request.callSid);
+      this.logger.error(
+        `Transfer failed for ${request.callSid}: ${errorMessage(e)}`,
+      );
+      return { ...record, status: 'failed', error: errorMessage(e) };
+    }
+  }
+
+  /**
+   * TwiML that replaces the bot on the call.
+   * - <Enqueue> when transfer.queue is set, else <Dial> to a <Number> / <Sip>
+   * - whisper → the agent's leg first plays the summary (url attribute)
+   * - action → Twilio reports the result to /twilio/transfer-status/:callSid
+   */
+  buildTwiml(callSid: string, whisper = false): string {
+    const base = this.twilioService.getPublicBaseUrl();
+    const sid = encodeURIComponent(callSid);
+    const action = escapeXml(`${base}/twilio/transfer-status/${sid}`);
+
+    const queue = this.get<string>('queue');
+    if (queue) {
+      return `<Response><Enqueue action="${action}">${escapeXml(queue)}</Enqueue></Response>`;
+    }
+
+    const target = this.get<string>('target') ?? '';
+    const callerId = this.get<string>('callerId');
+    const dial = [
+      `action="${action}"`,
+      `timeout="${this.get<number>('timeoutSec') ?? 30}"`,
+      callerId && `callerId="${escapeXml(callerId)}"`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+    const noun = /^sips?:/.test(target) ? 'Sip' : 'Number';
+    const url = whisper
+      ? ` url="${escapeXml(`${base}/twilio/transfer-whisper/${sid}`)}"`
+      : '';
+    return `<Response><Dial ${dial}><${noun}${url}>${escapeXml(target)}</${noun}></Dial></Response>`;
+  }
+
+  /**
+   * TwiML played to the agent before the caller is connected (warm transfer).
+   */
+  whisperTwiml(callSid: string): string {
+    const whisper = this.whispers.get(callSid);
+    if (!whisper) return '<Response/>';
+    return `<Response><Say>Transferred call. ${escapeXml(whisper.text)}</Say></Response>`;
+  }
+
+  /**
+   * Result of the <Dial> / <Enqueue> (Twilio `action` callback).
+   * - Stores the result on the call's session
+   * - Output: TwiML for the rest of the call: hang up, after an apology
+   *   (transfer.unavailableText) if nobody took the call
+   */
+  async handleStatus(
+    callSid: string,
+    body: TransferStatusCallback,
+  ): Promise<string> {
+    this.whispers.delete(callSid);
+    const status = body.DialCallStatus ?? body.QueueResult ?? 'unknown';
+    const duration = Number(body.DialCallDuration);
+    this.logger.log(`Transfer of ${callSid} ended: ${status}`);
+
+    const saved = await this.sessions.update(callSid, (record) => {
+      if (!record.transfer) return;
+      record.transfer.status = status;
+      record.transfer.endedAt = new Date().toISOString();
+      if (Number.isFinite(duration)) record.transfer.durationSec = duration;
+    });
+    if (!saved) this.logger.warn(`No session for transferred call ${callSid}`);
+
+    if (CONNECTED_RESULTS.includes(status))
+      return '<Response><Hangup/></Response>';
+    const text =
+      this.get<string>('unavailableText') ??
+      'Sorry, nobody is available to take your call right now. Goodbye!';
+    return `<Response><Say>${escapeXml(text)}</Say><Hangup/></Response>`;
+  }
+
+  /**
+   * Pass the summary on the configured channel.
+   * Input: target number (undefined for queues, which cannot whisper)
+   * Output: channel used, undefined if the summary could not be delivered
+   */
+  private async deliverSummary(
+    callSid: string,
+    summary: string,
+    target?: string,
+  ): Promise<TransferRecord['summaryVia']> {
+    const via = this.get<string>('summaryVia') ?? 'whisper';
+    if (via === 'whisper' && target) {
+      const now = Date.now();
+      for (const [sid, whisper] of this.whispers) {
+        if (whisper.expiresAt < now) this.whispers.delete(sid);
+      }
+      this.whispers.set(callSid, {
+        text: summary,
+        expiresAt: now + WHISPER_TTL_MS,
+      });
+      return 'whisper';
+    }
+
+    const to =
+      this.get<string>('smsTo') ||
+      (target && /^\+\d+$/.test(target) ? target : undefined);
+    const from = this.twilioService.getTwilioPhoneNumber();
+    if (!to || !from) {
+      this.logger.warn(
+        `Cannot send the summary of ${callSid}: no SMS recipient or sender (transfer.smsTo / TWILIO_PHONE_NUMBER)`,
+      );
+      return;
+    }
+    try {
+      await this.callClient.sendSms({
+        to,
+        from,
+        body: `Transferred call: ${summary}`,
+      });
+      return 'sms';
+    } catch (e: unknown) {
+      this.logger.error(
+        `Summary SMS for ${callSid} failed: ${errorMessage(e)}`,
+      );
+      return;
+    }
+  }
+
+  private get<T>(key: string): T | undefined {
+    return this.config.get<T>(`transfer.${key}`);
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { TwilioService } from '../twilio.service';
+import {
+  CreateCallParams,
+  SendSmsParams,
+  TwilioCallClient,
+  TwilioCallInfo,
+  UpdateCallParams,
+} from '../twilio.types';
+
+/**
+ * TwilioCallClient backed by the Twilio REST API.
+ */
+@Injectable()
+export class RestTwilioCallClient implements TwilioCallClient {
+  readonly name = 'rest';
+
+  constructor(private readonly twilioService: TwilioService) {}
+
+  async createCall(params: CreateCallParams): Promise<TwilioCallInfo> {
+    const call = await this.twilioService.getClient().calls.create({
+      to: params.to,
+      from: params.from,
+      twiml: params.twiml,
+      statusCallback: params.statusCallback,
+      statusCallbackEvent: params.statusCallbackEvent,
+      statusCallbackMethod: 'POST',
+      timeout: params.timeoutSec,
+    });
+    return { sid: call.sid, status: call.status, to: call.to, from: call.from };
+  }
+
+  async updateCall(callSid: string, params: UpdateCallParams): Promise<void> {
+    await this.twilioService.getClient().calls(callSid).update(params);
+  }
+
+  async sendSms(params: SendSmsParams): Promise<void> {
+    await this.twilioService.getClient().messages.create(params);
+  }
+}
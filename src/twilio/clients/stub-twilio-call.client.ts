@@ -0,0 +1,53 @@
+import { Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import {
+  CreateCallParams,
+  SendSmsParams,
+  TwilioCallClient,
+  TwilioCallInfo,
+  UpdateCallParams,
+} from '../twilio.types';
+
+/**
+ * Local stand-in for the Twilio REST API (tests, or TWILIO_CLIENT=stub).
+ * Records every request instead of placing real calls.
+ */
+export class StubTwilioCallClient implements TwilioCallClient {
+  readonly name = 'stub';
+  readonly created: (CreateCallParams & { sid: string })[] = [];
+  readonly updates: { callSid: string; params: UpdateCallParams }[] = [];
+  readonly messages: SendSmsParams[] = [];
+  failWith?: Error; // Make the next requests fail
+
+  private readonly logger = new Logger(StubTwilioCallClient.name);
+
+  createCall(params: CreateCallParams): Promise<TwilioCallInfo> {
+    if (this.failWith) return Promise.reject(this.failWith);
+
+    const sid = `CA${randomBytes(16).toString('hex')}`;
+    this.created.push({ ...params, sid });
+    this.logger.log(`[stub] Calling ${params.to} from ${params.from} (${sid})`);
+    return Promise.resolve({
+      sid,
+      status: 'queued',
+      to: params.to,
+      from: params.from,
+    });
+  }
+
+  updateCall(callSid: string, params: UpdateCallParams): Promise<void> {
+    if (this.failWith) return Promise.reject(this.failWith);
+
+    this.updates.push({ callSid, params });
+    this.logger.log(`[stub] Updating ${callSid}: ${JSON.stringify(params)}`);
+    return Promise.resolve();
+  }
+
+  sendSms(params: SendSmsParams): Promise<void> {
+    if (this.failWith) return Promise.reject(this.failWith);
+
+    this.messages.push(params);
+    this.logger.log(`[stub] SMS to ${params.to}: ${params.body}`);
+    return Promise.resolve();
+  }
+}
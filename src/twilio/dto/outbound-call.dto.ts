@@ -0,0 +1,35 @@
+import { IsObject, IsOptional, IsString, Matches } from 'class-validator';
+
+const E164 = /^\+[1-9]\d{6,14}$/;
+
+/**
+ * Body of POST /twilio/outbound-call.
+ */
+export class OutboundCallDto {
+  @Matches(E164, { message: 'to must be an E.164 number, e.g. +15551234567' })
+  to: string;
+
+  @IsOptional()
+  @Matches(E164, { message: 'from must be an E.164 number' })
+  from?: string; // Defaults to twilio.phoneNumber
+
+  @IsOptional()
+  @IsString()
+  agentId?: string;
+
+  // Injected into the agent prompt, e.g. { "guestName": "Ada", "reservationId": "AX-1" }
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
+
+/**
+ * Fields of Twilio's status callback we use (form-encoded POST).
+ */
+export interface CallStatusCallback {
+  CallSid: string;
+  CallStatus: string;
+  CallDuration?: string;
+  To?: string;
+  From?: string;
+}
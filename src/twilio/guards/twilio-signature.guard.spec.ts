@@ -0,0 +1,62 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Twilio from 'twilio';
+import { StreamTokenService } from '../stream-token.service';
+import { TwilioService } from '../twilio.service';
+import { TwilioSignatureGuard } from './twilio-signature.guard';
+
+describe('TwilioSignatureGuard', () => {
+  const url = 'https://bot.example.com/twilio/incoming-call';
+  const body = { CallSid: 'CA1', From: '+15551234567', To: '+15550000000' };
+
+  const createGuard = (validateSignatures = true) => {
+    const config = new ConfigService({
+      twilio: { authToken: 'secret', validateSignatures },
+      server: { baseUrl: 'bot.example.com' },
+    });
+    return new TwilioSignatureGuard(
+      config,
+      new TwilioService(config, new StreamTokenService(config)),
+    );
+  };
+
+  const contextFor = (
+    signature?: string,
+    params: Record<string, string> = body,
+  ) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          originalUrl: '/twilio/incoming-call',
+          ip: '127.0.0.1',
+          body: params,
+          header: (name: string) =>
+            name === 'x-twilio-signature' ? signature : undefined,
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  it('accepts requests signed with the auth token', () => {
+    const signature = Twilio.getExpectedTwilioSignature('secret', url, body);
+
+    expect(createGuard().canActivate(contextFor(signature))).toBe(true);
+  });
+
+  it('rejects missing or mismatching signatures', () => {
+    const signature = Twilio.getExpectedTwilioSignature('secret', url, body);
+
+    expect(() => createGuard().canActivate(contextFor())).toThrow(
+      ForbiddenException,
+    );
+    expect(() =>
+      createGuard().canActivate(
+        contextFor(signature, { ...body, To: '+15559999999' }),
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('can be disabled for local testing', () => {
+    expect(createGuard(false).canActivate(contextFor())).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import Twilio from 'twilio';
+import { TwilioService } from '../twilio.service';
+
+/**
+ * Rejects Twilio webhooks without a valid X-Twilio-Signature.
+ * - The signature covers the public URL Twilio called + the POST params
+ * - Disable only for local testing (twilio.validateSignatures = false)
+ */
+@Injectable()
+export class TwilioSignatureGuard implements CanActivate {
+  private readonly logger = new Logger(TwilioSignatureGuard.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioService: TwilioService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (
+      this.configService.get<boolean>('twilio.validateSignatures') === false
+    ) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest<Request>();
+    const signature = req.header('x-twilio-signature');
+    const authToken = this.configService.get<string>('twilio.authToken');
+
+    // Twilio signs the URL it was configured with → use our public URL, not the proxy's
+    const url = `${this.twilioService.getPublicBaseUrl()}${req.originalUrl}`;
+    const params = (req.body ?? {}) as Record<string, unknown>;
+
+    if (
+      !signature ||
+      !authToken ||
+      !Twilio.validateRequest(authToken, signature, url, params)
+    ) {
+      this.logger.warn(
+        `Rejected Twilio webhook ${req.method} ${req.originalUrl} from ${req.ip}: ${signature ? 'invalid' : 'missing'} signature`,
+      );
+      throw new ForbiddenException('Invalid Twilio signature');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,92 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AgentsService } from '../agents/agents.service';
+import { OutboundCallDto } from './dto/outbound-call.dto';
+import { StubTwilioCallClient } from './clients/stub-twilio-call.client';
+import { OutboundCallService } from './outbound-call.service';
+import { StreamTokenService } from './stream-token.service';
+import { TwilioService } from './twilio.service';
+
+describe('OutboundCallService', () => {
+  let client: StubTwilioCallClient;
+  let service: OutboundCallService;
+
+  beforeEach(() => {
+    const config = new ConfigService({
+      twilio: { phoneNumber: '+15550000000', authToken: 'secret' },
+      server: { baseUrl: 'https://bot.example.com/' },
+      agents: { dir: '/nonexistent' },
+    });
+    const agents = new AgentsService(config);
+    agents.onModuleInit();
+
+    client = new StubTwilioCallClient();
+    service = new OutboundCallService(
+      client,
+      new TwilioService(config, new StreamTokenService(config)),
+      agents,
+    );
+  });
+
+  it('dials with a stream TwiML carrying the agent and variables', async () => {
+    const record = await service.placeCall({
+      to: '+15551234567',
+      variables: { guestName: 'Ada & Co', reservationId: 'AX-1' },
+    });
+
+    const [request] = client.created;
+    expect(request).toMatchObject({
+      to: '+15551234567',
+      from: '+15550000000',
+      statusCallback: 'https://bot.example.com/twilio/call-status',
+    });
+    expect(request.twiml).toContain('<Stream url="wss://bot.example.com/call"');
+    expect(request.twiml).toContain(
+      '<Parameter name="agentId" value="default"/>',
+    );
+    expect(request.twiml).toContain(
+      '<Parameter name="direction" value="outbound"/>',
+    );
+    expect(request.twiml).toContain(
+      '<Parameter name="var_guestName" value="Ada &amp; Co"/>',
+    );
+    expect(request.twiml).toMatch(/<Parameter name="token" value="[^"]+"\/>/);
+    expect(record).toMatchObject({ callSid: request.sid, status: 'queued' });
+  });
+
+  it('tracks status callbacks of its own calls', async () => {
+    const { callSid } = await service.placeCall({ to: '+15551234567' });
+
+    service.handleStatus({ CallSid: callSid, CallStatus: 'ringing' });
+    service.handleStatus({
+      CallSid: callSid,
+      CallStatus: 'completed',
+      CallDuration: '42',
+    });
+
+    const record = service.get(callSid);
+    expect(record.status).toBe('completed');
+    expect(record.durationSec).toBe(42);
+    expect(record.history.map((h) => h.status)).toEqual([
+      'queued',
+      'ringing',
+      'completed',
+    ]);
+    expect(
+      service.handleStatus({ CallSid: 'CAother', CallStatus: 'ringing' }),
+    ).toBeUndefined();
+  });
+
+  it('rejects unknown agents and nested variables', async () => {
+    await expect(
+      service.placeCall({ to: '+15551234567', agentId: 'nope' }),
+    ).rejects.toThrow(NotFoundException);
+    await expect(
+      service.placeCall({
+        to: '+15551234567',
+        variables: { guest: { name: 'x' } },
+      } as unknown as OutboundCallDto),
+    ).rejects.toThrow(BadRequestException);
+    expect(client.created).toHaveLength(0);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { AgentsService } from '../agents/agents.service';
+import { normalizeVariables } from '../agents/prompt-template';
+import { TwilioService } from './twilio.service';
+import { OutboundCallDto, CallStatusCallback } from './dto/outbound-call.dto';
+import { OutboundCallRecord, TWILIO_CALL_CLIENT } from './twilio.types';
+import type { TwilioCallClient } from './twilio.types';
+
+// Outbound calls kept in memory for status lookups
+const MAX_RECORDS = 1000;
+
+// Prefix of stream parameters that carry prompt variables
+export const VARIABLE_PARAM_PREFIX = 'var_';
+
+/**
+ * Places outbound calls with the bot attached and tracks their status.
+ */
+@Injectable()
+export class OutboundCallService {
+  private readonly logger = new Logger(OutboundCallService.name);
+  private readonly calls = new Map<string, OutboundCallRecord>(); // callSid → record
+
+  constructor(
+    @Inject(TWILIO_CALL_CLIENT) private readonly callClient: TwilioCallClient,
+    private readonly twilioService: TwilioService,
+    private readonly agentsService: AgentsService,
+  ) {}
+
+  /**
+   * Dial a number; once answered the call is connected to our media stream.
+   *
+   * Input: destination, optional caller id, agent and prompt variables
+   * Output: the call record (status "queued" until Twilio reports progress)
+   */
+  async placeCall(dto: OutboundCallDto): Promise<OutboundCallRecord> {
+    const from = dto.from || this.twilioService.getTwilioPhoneNumber();
+    if (!from) {
+      throw new BadRequestException(
+        'No caller id: set TWILIO_PHONE_NUMBER or pass "from"',
+      );
+    }
+
+    const agent = dto.agentId
+      ? this.agentsService.get(dto.agentId)
+      : this.agentsService.resolve();
+    const variables = normalizeVariables(dto.variables);
+
+    // Variables travel with the stream as custom parameters → no shared state needed
+    const twiml = this.twilioService.buildStreamTwiml({
+      agentId: agent.id,
+      direction: 'outbound',
+      callerNumber: dto.to, // the guest's number, like `From` on incoming calls
+      botNumber: from,
+      ...Object.fromEntries(
+        Object.entries(variables).map(([name, value]) => [
+          `${VARIABLE_PARAM_PREFIX}${name}`,
+          value,
+        ]),
+      ),
+    });
+
+    const call = await this.callClient.createCall({
+      to: dto.to,
+      from,
+      twiml,
+      statusCallback: `${this.twilioService.getPublicBaseUrl()}/twilio/call-status`,
+      statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+    });
+
+    const now = new Date().toISOString();
+    const record: OutboundCallRecord = {
+      callSid: call.sid,
+      to: dto.to,
+      from,
+      agentId: agent.id,
+      variables,
+      status: call.status,
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: call.status, ts: now }],
+    };
+    this.remember(record);
+
+    this.logger.log(
+      `📞 Outbound call ${call.sid} to ${dto.to} (agent: ${agent.id}, via ${this.callClient.name})`,
+    );
+    return record;
+  }
+
+  /**
+   * Apply a Twilio status callback.
+   * Output: updated record, or undefined for calls we did not place
+   */
+  handleStatus(update: CallStatusCallback): OutboundCallRecord | undefined {
+    this.logger.log(`Call ${update.CallSid} status: ${update.CallStatus}`);
+
+    const record = this.calls.get(update.CallSid);
+    if (!record) return undefined;
+
+    const now = new Date().toISOString();
+    record.status = update.CallStatus;
+    record.updatedAt = now;
+    record.history.push({ status: update.CallStatus, ts: now });
+    if (update.CallDuration)
+      record.durationSec = parseInt(update.CallDuration, 10);
+    return record;
+  }
+
+  get(callSid: string): OutboundCallRecord {
+    const record = this.calls.get(callSid);
+    if (!record)
+      throw new NotFoundException(`Outbound call ${callSid} not found`);
+    return record;
+  }
+
+  list(): OutboundCallRecord[] {
+    return [...this.calls.values()];
+  }
+
+  private remember(record: OutboundCallRecord) {
+    this.calls.set(record.callSid, record);
+    if (this.calls.size > MAX_RECORDS) {
+      const [oldest] = this.calls.keys();
+      this.calls.delete(oldest);
+    }
+  }
+}
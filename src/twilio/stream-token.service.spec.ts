@@ -0,0 +1,77 @@
+import { ConfigService } from '@nestjs/config';
+import { StreamTokenService } from './stream-token.service';
+
+describe('StreamTokenService', () => {
+  const params = {
+    agentId: 'hotel',
+    direction: 'inbound',
+    callerNumber: '+15551234567',
+  };
+  let service: StreamTokenService;
+
+  beforeEach(() => {
+    service = new StreamTokenService(
+      new ConfigService({
+        twilio: { authToken: 'secret', streamTokenTtlSec: 60 },
+      }),
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('accepts a token with the parameters it was issued for', () => {
+    const token = service.issue(params, 'CA1');
+
+    expect(service.verify({ ...params, token }, 'CA1')).toEqual({
+      valid: true,
+    });
+  });
+
+  it('signs the parameters sent in the TwiML, without empty values', () => {
+    const token = service.issue({ ...params, callerName: '' }, 'CA1');
+
+    expect(service.verify({ ...params, token }, 'CA1')).toEqual({
+      valid: true,
+    });
+  });
+
+  it('rejects missing, forged and tampered tokens', () => {
+    const token = service.issue(params);
+
+    expect(service.verify(params, 'CA1')).toMatchObject({
+      valid: false,
+      reason: 'missing token',
+    });
+    expect(service.verify({ ...params, token: 'abc' }, 'CA1')).toMatchObject({
+      valid: false,
+    });
+    expect(
+      service.verify({ ...params, agentId: 'other', token }, 'CA1'),
+    ).toMatchObject({
+      valid: false,
+      reason: 'bad signature',
+    });
+
+    const other = new StreamTokenService(
+      new ConfigService({ twilio: { streamSecret: 'other' } }),
+    );
+    expect(other.verify({ ...params, token }, 'CA1')).toMatchObject({
+      valid: false,
+    });
+  });
+
+  it('binds the token to the call and expires it', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const token = service.issue(params, 'CA1');
+
+    expect(service.verify({ ...params, token }, 'CA2')).toMatchObject({
+      valid: false,
+    });
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:01Z'));
+    expect(service.verify({ ...params, token }, 'CA1')).toMatchObject({
+      valid: false,
+      reason: 'expired token',
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Name of the <Parameter> carrying the token
+export const STREAM_TOKEN_PARAM = 'token';
+
+/**
+ * Result of checking a media stream's token.
+ */
+export type StreamTokenCheck =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Short-lived HMAC tokens that authenticate Twilio media streams.
+ * - Issued into the TwiML as a <Parameter> together with the other stream parameters
+ * - The signature covers expiry, optional call SID and all other parameters,
+ *   so agentId / prompt variables cannot be tampered with either
+ * - Format: <expiresAtSec>.<callSid|"">.<nonce>.<base64url signature>
+ */
+@Injectable()
+export class StreamTokenService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Create a token for a stream.
+   * Input: the other stream parameters, call SID if already known (incoming calls)
+   */
+  issue(parameters: Record<string, string | undefined>, callSid = ''): string {
+    const ttlSec =
+      this.configService.get<number>('twilio.streamTokenTtlSec') ?? 300;
+    const expiresAt = Math.floor(Date.now() / 1000) + ttlSec;
+    const nonce = randomBytes(8).toString('hex');
+    const head = `${expiresAt}.${callSid}.${nonce}`;
+    return `${head}.${this.sign(head, parameters)}`;
+  }
+
+  /**
+   * Check the token of a `start` event.
+   * Input: customParameters (including the token) and the stream's call SID
+   */
+  verify(
+    customParameters: Record<string, string>,
+    callSid: string,
+  ): StreamTokenCheck {
+    const { [STREAM_TOKEN_PARAM]: token, ...parameters } = customParameters;
+    if (!token) return { valid: false, reason: 'missing token' };
+
+    const parts = token.split('.');
+    if (parts.length !== 4) return { valid: false, reason: 'malformed token' };
+
+    const [expiresAt, boundCallSid, nonce, signature] = parts;
+    const expected = this.sign(
+      `${expiresAt}.${boundCallSid}.${nonce}`,
+      parameters,
+    );
+    if (!safeEqual(signature, expected))
+      return { valid: false, reason: 'bad signature' };
+
+    if (Number(expiresAt) * 1000 < Date.now())
+      return { valid: false, reason: 'expired token' };
+    if (boundCallSid && boundCallSid !== callSid) {
+      return { valid: false, reason: 'token issued for another call' };
+    }
+    return { valid: true };
+  }
+
+  private sign(
+    head: string,
+    parameters: Record<string, string | undefined>,
+  ): string {
+    // Stable order; empty values (undefined or '') are dropped like in the generated TwiML
+    const canonical = Object.keys(parameters)
+      .filter(
+        (name) =>
+          parameters[name] !== undefined &&
+          parameters[name] !== '' &&
+          name !== STREAM_TOKEN_PARAM,
+      )
+      .sort()
+      .map((name) => `${name}=${parameters[name]}`)
+      .join('&');
+
+    return createHmac('sha256', this.secret())
+      .update(`${head}|${canonical}`)
+      .digest('base64url');
+  }
+
+  private secret(): string {
+    const secret =
+      this.configService.get<string>('twilio.streamSecret') ||
+      this.configService.get<string>('twilio.authToken');
+    if (!secret)
+      throw new Error(
+        'No stream token secret configured (TWILIO_STREAM_SECRET)',
+      );
+    return secret;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -1,45 +1,149 @@
-import { Controller, Post, Res } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Res,
+  Body,
+  Get,
+  Param,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
 import type { Response } from 'express';
-import { ConfigService } from '@nestjs/config';
+import { AgentsService } from 'src/agents/agents.service';
+import { TwilioService } from './twilio.service';
+import { OutboundCallService } from './outbound-call.service';
+import { CallTransferService } from './call-transfer.service';
+import { OutboundCallDto } from './dto/outbound-call.dto';
+import type { CallStatusCallback } from './dto/outbound-call.dto';
+import type { TransferStatusCallback } from './twilio.types';
+import { TwilioSignatureGuard } from './guards/twilio-signature.guard';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
 
 @Controller('twilio') // Base route: /twilio
 export class TwilioController {
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly twilioService: TwilioService,
+    private readonly agentsService: AgentsService,
+    private readonly outboundCalls: OutboundCallService,
+    private readonly transfers: CallTransferService,
+  ) {}
 
   /**
    * Handle an incoming call webhook from Twilio.
-   * 
+   *
    * Route: POST /twilio/incoming-call
-   * 
+   *
    * Input:
-   *   - HTTP POST request from Twilio (contains call info, but not used here)
+   *   - HTTP POST request from Twilio (call info; `To` = the dialed number, `From` = the caller)
    *   - @Res() res: Express Response object → to send XML back to Twilio
-   * 
+   *
    * Output:
    *   - XML (TwiML response) telling Twilio what to do with the call.
    *   - In this case: connect the call audio stream to our WebSocket server.
+   *   - The agent for the dialed number is passed to the stream as `agentId`.
+   *   - Requests without a valid X-Twilio-Signature are rejected (403).
    */
   @Post('incoming-call')
-  handleIncomingCall(@Res() res: Response) {
-    // Get server base URL from config (e.g., https://myserver.com)
-    const serverBaseUrl = this.configService.get<string>('server.baseUrl');
-
-    // Default to localhost:3000 if not set
-    let domain = serverBaseUrl || 'localhost:3000';
-
-    // Remove "http://" or "https://" prefix for WebSocket domain
-    domain = domain.replace(/^https?:\/\//, '');
+  @UseGuards(TwilioSignatureGuard)
+  handleIncomingCall(
+    @Body() body: { CallSid?: string; To?: string; From?: string },
+    @Res() res: Response,
+  ) {
+    // Pick the agent that answers this number (default agent if none matches)
+    const agent = this.agentsService.resolve(
+      this.agentsService.findByPhoneNumber(body?.To)?.id,
+    );
 
     // TwiML XML response → tells Twilio to connect the audio stream
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Connect>
-    <Stream url="wss://${domain}/call" bidirectional="true"/>
-  </Connect>
-</Response>`;
+    // (the stream token is bound to this CallSid)
+    const twiml = this.twilioService.buildStreamTwiml(
+      {
+        agentId: agent.id,
+        direction: 'inbound',
+        callerNumber: body?.From,
+        botNumber: body?.To,
+      },
+      body?.CallSid,
+    );
 
     // Respond with XML so Twilio knows how to handle the call
     res.type('text/xml');
     res.send(twiml);
   }
+
+  /**
+   * Place an outbound call with the bot attached.
+   *
+   * Route: POST /twilio/outbound-call
+   *
+   * Input: { to, from?, agentId?, variables? } (variables are injected into the agent prompt)
+   * Output: call record { callSid, status, ... }
+   * Requires the admin API key (X-Api-Key): calls cost money
+   */
+  @Post('outbound-call')
+  @UseGuards(AdminApiKeyGuard)
+  placeOutboundCall(@Body() dto: OutboundCallDto) {
+    return this.outboundCalls.placeCall(dto);
+  }
+
+  /**
+   * Route: GET /twilio/outbound-call/:callSid
+   * Output: current status + status history of an outbound call
+   * Requires the admin API key (X-Api-Key)
+   */
+  @Get('outbound-call/:callSid')
+  @UseGuards(AdminApiKeyGuard)
+  getOutboundCall(@Param('callSid') callSid: string) {
+    return this.outboundCalls.get(callSid);
+  }
+
+  /**
+   * Twilio status callback for outbound calls.
+   *
+   * Route: POST /twilio/call-status
+   * Input: form fields CallSid, CallStatus, CallDuration, ... (signed by Twilio)
+   * Output: 204 (Twilio ignores the body), 403 if the signature is invalid
+   */
+  @Post('call-status')
+  @HttpCode(204)
+  @UseGuards(TwilioSignatureGuard)
+  handleCallStatus(@Body() body: CallStatusCallback) {
+    this.outboundCalls.handleStatus(body);
+  }
+
+  /**
+   * Whisper of a warm transfer: played to the agent before the caller is connected.
+   *
+   * Route: POST /twilio/transfer-whisper/:callSid (url of the <Number> / <Sip> we dial)
+   * Output: TwiML <Say> with the conversation summary, 403 if the signature is invalid
+   */
+  @Post('transfer-whisper/:callSid')
+  @UseGuards(TwilioSignatureGuard)
+  handleTransferWhisper(
+    @Param('callSid') callSid: string,
+    @Res() res: Response,
+  ) {
+    res.type('text/xml');
+    res.send(this.transfers.whisperTwiml(callSid));
+  }
+
+  /**
+   * Result of a transfer (action callback of <Dial> / <Enqueue>).
+   *
+   * Route: POST /twilio/transfer-status/:callSid
+   * Input: form fields DialCallStatus, DialCallDuration / QueueResult (signed by Twilio)
+   * Output: TwiML for the rest of the call (hang up, with an apology if nobody answered);
+   *         the result is stored on the call's session
+   */
+  @Post('transfer-status/:callSid')
+  @UseGuards(TwilioSignatureGuard)
+  async handleTransferStatus(
+    @Param('callSid') callSid: string,
+    @Body() body: TransferStatusCallback,
+    @Res() res: Response,
+  ) {
+    const twiml = await this.transfers.handleStatus(callSid, body);
+    res.type('text/xml');
+    res.send(twiml);
+  }
 }
@@ -1,16 +1,65 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TwilioController } from './twilio.controller';
 import { TwilioService } from './twilio.service';
-import { DeepgramModule } from '../deepgram/deepgram.module';
+import { SttModule } from '../stt/stt.module';
 import { AudioModule } from '../audio/audio.module';
 import { LlmModule } from '../llm/llm.module';
 import { TwilioWebSocketGateway } from './twilio/twilio.gateway';
-import { ElevenlabsModule } from 'src/elevenlabs/elevenlabs.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { AgentsModule } from '../agents/agents.module';
+import { ToolsModule } from '../tools/tools.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { RecordingsModule } from '../recordings/recordings.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { GreetingModule } from '../greeting/greeting.module';
+import { OutboundCallService } from './outbound-call.service';
+import { CallTransferService } from './call-transfer.service';
+import { RestTwilioCallClient } from './clients/rest-twilio-call.client';
+import { StubTwilioCallClient } from './clients/stub-twilio-call.client';
+import { TWILIO_CALL_CLIENT } from './twilio.types';
+import { StreamTokenService } from './stream-token.service';
+import { TwilioSignatureGuard } from './guards/twilio-signature.guard';
+import { AdminApiKeyGuard } from '../admin/guards/admin-api-key.guard';
 
 @Module({
-  imports: [DeepgramModule, AudioModule, LlmModule, ElevenlabsModule],
+  imports: [
+    SttModule,
+    AudioModule,
+    LlmModule,
+    ConversationModule,
+    AgentsModule,
+    ToolsModule,
+    SessionsModule,
+    RecordingsModule,
+    MetricsModule,
+    GreetingModule,
+  ],
   controllers: [TwilioController],
-  providers: [TwilioService, TwilioWebSocketGateway],
-  exports: [TwilioService],
+  providers: [
+    TwilioService,
+    TwilioWebSocketGateway,
+    OutboundCallService,
+    CallTransferService,
+    StreamTokenService,
+    TwilioSignatureGuard,
+    AdminApiKeyGuard,
+    RestTwilioCallClient,
+    {
+      // twilio.client = "stub" → no real calls (local development, tests)
+      provide: TWILIO_CALL_CLIENT,
+      inject: [ConfigService, RestTwilioCallClient],
+      useFactory: (config: ConfigService, rest: RestTwilioCallClient) =>
+        config.get<string>('twilio.client') === 'stub'
+          ? new StubTwilioCallClient()
+          : rest,
+    },
+  ],
+  exports: [
+    TwilioService,
+    TwilioWebSocketGateway,
+    OutboundCallService,
+    TWILIO_CALL_CLIENT,
+  ],
 })
-export class TwilioModule {}
\ No newline at end of file
+export class TwilioModule {}
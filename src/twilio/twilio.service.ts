@@ -1,25 +1,30 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Twilio from 'twilio';
+import { escapeXml } from '../utils/twiml.util';
+import { STREAM_TOKEN_PARAM, StreamTokenService } from './stream-token.service';
 
 @Injectable() // Marks this class as injectable so it can be used in NestJS DI system
 export class TwilioService implements OnModuleInit {
   private readonly logger = new Logger(TwilioService.name); // Logger for debugging/info
   private twilioClient: Twilio.Twilio; // Holds the initialized Twilio client
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly streamTokens: StreamTokenService,
+  ) {}
   // ConfigService is injected → used to fetch Twilio credentials from env/config
 
   /**
    * Lifecycle hook that runs when the module is initialized.
    * Purpose: initialize the Twilio client with credentials.
-   * 
+   *
    * Input: none (reads values from ConfigService)
    * Output: sets up this.twilioClient for later use
    */
   onModuleInit() {
     const accountSid = this.configService.get<string>('twilio.accountSid'); // Twilio Account SID
-    const authToken = this.configService.get<string>('twilio.authToken');   // Twilio Auth Token
+    const authToken = this.configService.get<string>('twilio.authToken'); // Twilio Auth Token
 
     if (!accountSid || !authToken) {
       // If credentials are missing → throw error (service can’t work without them)
@@ -33,7 +38,7 @@ export class TwilioService implements OnModuleInit {
 
   /**
    * Get the initialized Twilio client.
-   * 
+   *
    * Input: none
    * Output: Twilio.Twilio instance (used to send SMS, make calls, etc.)
    */
@@ -43,7 +48,7 @@ export class TwilioService implements OnModuleInit {
 
   /**
    * Get the configured Twilio phone number from config.
-   * 
+   *
    * Input: none
    * Output: string (Twilio phone number to use for calls/SMS)
    * If not set, returns an empty string.
@@ -51,4 +56,55 @@ export class TwilioService implements OnModuleInit {
   getTwilioPhoneNumber(): string {
     return this.configService.get<string>('twilio.phoneNumber') || '';
   }
+
+  /**
+   * Public base URL of this server (used for webhooks and the media stream).
+   *
+   * Input: none (reads server.baseUrl, e.g. "myserver.com" or "https://myserver.com")
+   * Output: URL with scheme and without trailing slash, e.g. "https://myserver.com"
+   */
+  getPublicBaseUrl(): string {
+    const baseUrl =
+      this.configService.get<string>('server.baseUrl') || 'localhost:3000';
+    const url = /^https?:\/\//.test(baseUrl) ? baseUrl : `https://${baseUrl}`;
+    return url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Build the TwiML that connects a call to our media stream WebSocket.
+   *
+   * Input: custom parameters passed to the stream (agentId, caller number, context
+   *        variables...), they arrive in the `start` event as customParameters;
+   *        callSid binds the stream token to the call (when already known)
+   * Output: TwiML XML string (parameters + a signed `token` the gateway verifies)
+   */
+  buildStreamTwiml(
+    parameters: Record<string, string | undefined>,
+    callSid?: string,
+  ): string {
+    // WebSocket URL: same host, wss scheme
+    const domain = this.getPublicBaseUrl().replace(/^https?:\/\//, '');
+
+    const signed: Record<string, string | undefined> = {
+      ...parameters,
+      [STREAM_TOKEN_PARAM]: this.streamTokens.issue(parameters, callSid),
+    };
+
+    // Same empty values as the token signature leaves out
+    const params = Object.entries(signed)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(
+        ([name, value]) => `
+      <Parameter name="${escapeXml(name)}" value="${escapeXml(value!)}"/>`,
+      )
+      .join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Connect>
+    <Stream url="wss://${domain}/call" bidirectional="true">${params}
+    </Stream>
+  </Connect>
+</Response>`;
+  }
 }
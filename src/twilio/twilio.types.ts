@@ -0,0 +1,94 @@
+export const TWILIO_CALL_CLIENT = 'TWILIO_CALL_CLIENT'; // Injection token
+
+/**
+ * Parameters for placing a call (subset of the Twilio Calls API).
+ */
+export interface CreateCallParams {
+  to: string; // E.164 number to dial
+  from: string; // Our Twilio number
+  twiml: string; // What to do once answered (<Connect><Stream>)
+  statusCallback?: string; // URL receiving call status updates
+  statusCallbackEvent?: string[];
+  timeoutSec?: number; // Ring time before "no-answer"
+}
+
+/**
+ * Changes to a live call.
+ */
+export interface UpdateCallParams {
+  twiml?: string; // Replace the running TwiML (e.g. <Dial> for a transfer)
+  status?: 'completed'; // Hang up
+}
+
+/**
+ * A text message (e.g. the call summary of a warm transfer).
+ */
+export interface SendSmsParams {
+  to: string; // E.164 number
+  from: string; // Our Twilio number
+  body: string;
+}
+
+export interface TwilioCallInfo {
+  sid: string;
+  status: string;
+  to: string;
+  from: string;
+}
+
+/**
+ * Twilio REST operations used by the bot.
+ * Implemented by the real REST client and a local stub for tests/dev.
+ */
+export interface TwilioCallClient {
+  readonly name: string;
+  createCall(params: CreateCallParams): Promise<TwilioCallInfo>;
+  updateCall(callSid: string, params: UpdateCallParams): Promise<void>;
+  sendSms(params: SendSmsParams): Promise<void>;
+}
+
+/**
+ * Message on a Twilio media stream WebSocket (fields used by the gateway).
+ */
+export interface TwilioStreamMessage {
+  event: string; // connected | start | media | mark | dtmf | stop
+  streamSid?: string;
+  start?: {
+    streamSid?: string;
+    callSid?: string;
+    customParameters?: Record<string, string>; // <Parameter>s of our TwiML
+  };
+  media?: {
+    payload?: string; // Base64 μ-law 8 kHz
+    timestamp?: string; // ms since the stream started
+  };
+  mark?: { name?: string }; // Our mark, played up to here
+  dtmf?: { track?: string; digit?: string };
+  stop?: { streamSid?: string; callSid?: string };
+}
+
+/**
+ * Result of a transfer: the `action` callback of <Dial> / <Enqueue>.
+ */
+export interface TransferStatusCallback {
+  CallSid?: string;
+  DialCallStatus?: string; // completed | answered | busy | no-answer | failed | canceled
+  DialCallDuration?: string; // Seconds connected to the agent
+  QueueResult?: string; // bridged | hangup | queue-full | error | ...
+}
+
+/**
+ * Status of an outbound call as reported by Twilio's status callback.
+ */
+export interface OutboundCallRecord {
+  callSid: string;
+  to: string;
+  from: string;
+  agentId: string;
+  variables: Record<string, string>;
+  status: string; // queued | initiated | ringing | in-progress | completed | busy | failed | no-answer | canceled
+  durationSec?: number;
+  createdAt: string;
+  updatedAt: string;
+  history: { status: string; ts: string }[];
+}
@@ -0,0 +1,70 @@
+import { FRAME_BYTES, FRAME_MS, MediaPacer } from './media-pacer';
+
+describe('MediaPacer', () => {
+  let frames: Buffer[];
+  let playTimes: number[];
+  let events: string[];
+  let pacer: MediaPacer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    frames = [];
+    playTimes = [];
+    events = [];
+    pacer = new MediaPacer(
+      (payload, playAt) => {
+        frames.push(Buffer.from(payload, 'base64'));
+        playTimes.push(playAt);
+        events.push('frame');
+      },
+      (name) => events.push(`mark:${name}`),
+      2,
+    );
+  });
+
+  afterEach(() => {
+    pacer.stop();
+    jest.useRealTimers();
+  });
+
+  it('should send lead frames immediately and the rest every 20 ms', () => {
+    pacer.enqueue(Buffer.alloc(FRAME_BYTES * 5));
+    expect(frames).toHaveLength(2);
+
+    jest.advanceTimersByTime(FRAME_MS);
+    expect(frames).toHaveLength(3);
+
+    jest.advanceTimersByTime(FRAME_MS * 10);
+    expect(frames).toHaveLength(5);
+    expect(frames.every((f) => f.length === FRAME_BYTES)).toBe(true);
+    expect(pacer.isBusy()).toBe(false);
+  });
+
+  it('should re-frame odd chunk sizes and send marks after their audio', () => {
+    pacer.enqueue(Buffer.alloc(100));
+    pacer.enqueue(Buffer.alloc(100));
+    pacer.mark('seg-0');
+    jest.advanceTimersByTime(FRAME_MS * 5);
+
+    expect(frames.map((f) => f.length)).toEqual([FRAME_BYTES, 40]);
+    expect(events).toEqual(['frame', 'frame', 'mark:seg-0']);
+  });
+
+  it('should report when each frame plays, also for lead frames', () => {
+    const start = Date.now();
+    pacer.enqueue(Buffer.alloc(FRAME_BYTES * 4));
+    jest.advanceTimersByTime(FRAME_MS * 10);
+
+    expect(playTimes.map((t) => t - start)).toEqual([0, 20, 40, 60]);
+  });
+
+  it('should drop queued audio and marks on clear', () => {
+    pacer.enqueue(Buffer.alloc(FRAME_BYTES * 10));
+    pacer.mark('seg-0');
+    pacer.clear();
+    jest.advanceTimersByTime(FRAME_MS * 20);
+
+    expect(frames).toHaveLength(2);
+    expect(events).not.toContain('mark:seg-0');
+  });
+});
@@ -0,0 +1,138 @@
+// μ-law 8 kHz → 160 bytes of audio per 20 ms frame
+export const FRAME_BYTES = 160;
+export const FRAME_MS = 20;
+
+type PacerItem = { audio: Buffer } | { mark: string };
+
+/**
+ * Sends bot audio to Twilio in real-time paced 20 ms μ-law frames.
+ * - Audio can be enqueued in any chunk size (e.g. straight from streaming TTS)
+ * - Marks are emitted once all audio queued before them has been sent
+ * - A few frames are sent ahead to cover network jitter
+ * - clear() drops everything not sent yet (barge-in)
+ * - Each frame is reported with the time it will play (epoch ms), e.g. for recordings
+ */
+export class MediaPacer {
+  private queue: PacerItem[] = [];
+  private pending = Buffer.alloc(0); // Leftover bytes smaller than one frame
+  private timer?: NodeJS.Timeout;
+  private startedAt = 0;
+  private framesSent = 0;
+
+  constructor(
+    private readonly sendFrame: (payloadBase64: string, playAt: number) => void,
+    private readonly sendMark: (name: string) => void,
+    private readonly leadFrames = 5, // Frames sent ahead of real time
+  ) {}
+
+  /**
+   * Queue audio (raw μ-law bytes) for playback.
+   */
+  enqueue(audio: Buffer) {
+    if (!audio.length) return;
+    this.queue.push({ audio });
+    this.start();
+  }
+
+  /**
+   * Queue a mark after the audio enqueued so far.
+   */
+  mark(name: string) {
+    this.queue.push({ mark: name });
+    this.start();
+  }
+
+  /**
+   * True while audio or marks are waiting to be sent.
+   */
+  isBusy(): boolean {
+    return this.queue.length > 0 || this.pending.length > 0;
+  }
+
+  /**
+   * Drop all queued audio and marks.
+   */
+  clear() {
+    this.queue = [];
+    this.pending = Buffer.alloc(0);
+    this.stop();
+  }
+
+  /**
+   * Stop the pacing timer (queued data is kept).
+   */
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.startedAt = Date.now();
+    this.framesSent = 0;
+    this.timer = setInterval(() => this.tick(), FRAME_MS);
+    this.tick();
+  }
+
+  /**
+   * Send every frame that is due by now (+ lead), catching up if the timer drifted.
+   */
+  private tick() {
+    const due =
+      Math.floor((Date.now() - this.startedAt) / FRAME_MS) + this.leadFrames;
+
+    while (this.framesSent < due) {
+      const frame = this.nextFrame();
+      if (!frame) {
+        // Underrun (TTS slower than playback) → restart the clock when audio resumes
+        this.startedAt = Date.now();
+        this.framesSent = 0;
+        break;
+      }
+      this.sendFrame(
+        frame.toString('base64'),
+        this.startedAt + this.framesSent * FRAME_MS,
+      );
+      this.framesSent++;
+    }
+
+    // Flush marks that are now at the head of the queue
+    this.flushMarks();
+
+    // Nothing left → stop; next enqueue restarts the clock
+    if (!this.isBusy()) this.stop();
+  }
+
+  /**
+   * Take the next 160-byte frame. A shorter frame is only sent when a
+   * mark follows (end of a segment); otherwise the bytes wait for more audio.
+   */
+  private nextFrame(): Buffer | undefined {
+    while (this.pending.length < FRAME_BYTES) {
+      const head = this.queue[0];
+      if (!head || !('audio' in head)) break;
+      this.queue.shift();
+      this.pending = Buffer.concat([this.pending, head.audio]);
+    }
+
+    if (!this.pending.length) return undefined;
+
+    const segmentEnds = this.queue.length > 0 && 'mark' in this.queue[0];
+    if (this.pending.length < FRAME_BYTES && !segmentEnds) return undefined;
+
+    const frame = this.pending.subarray(0, FRAME_BYTES);
+    this.pending = this.pending.subarray(frame.length);
+    return frame;
+  }
+
+  private flushMarks() {
+    while (
+      !this.pending.length &&
+      this.queue.length &&
+      'mark' in this.queue[0]
+    ) {
+      const item = this.queue.shift() as { mark: string };
+      this.sendMark(item.mark);
+    }
+  }
+}
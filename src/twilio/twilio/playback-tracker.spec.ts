@@ -0,0 +1,35 @@
+import { PlaybackTracker } from './playback-tracker';
+
+describe('PlaybackTracker', () => {
+  it('should report playback until every mark is acked', () => {
+    const tracker = new PlaybackTracker(1);
+    const first = tracker.addSegment(4000, 'Hello.');
+    const second = tracker.addSegment(4000, 'How can I help?');
+
+    expect(tracker.isPlaying()).toBe(true);
+    tracker.onMark(first);
+    expect(tracker.isPlaying()).toBe(true);
+    tracker.onMark(second);
+    expect(tracker.isPlaying()).toBe(false);
+  });
+
+  it('should ignore marks of other replies', () => {
+    const tracker = new PlaybackTracker(2);
+    tracker.addSegment(100, 'Hello.');
+    expect(tracker.onMark('reply-1-0')).toBe(false);
+    expect(tracker.heardFraction()).toBe(0);
+  });
+
+  it('should report the segments the caller heard', () => {
+    const tracker = new PlaybackTracker(3);
+    const first = tracker.addSegment(500, 'We have rooms.');
+    tracker.addSegment(1500, 'The rate is 120 dollars.');
+
+    tracker.onMark(first);
+    tracker.onMark(first); // duplicate acks are counted once
+
+    expect(tracker.heardFraction()).toBe(0.25);
+    expect(tracker.heardText()).toBe('We have rooms.');
+    expect(tracker.text).toBe('We have rooms. The rate is 120 dollars.');
+  });
+});
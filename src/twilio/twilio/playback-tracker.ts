@@ -0,0 +1,78 @@
+/**
+ * Tracks how much of a bot reply Twilio has actually played to the caller.
+ *
+ * Every spoken segment (sentence/clause) we send is followed by a `mark`
+ * message; Twilio echoes the mark back once the audio before it has been
+ * played. Comparing the acked marks with what was sent tells us which part
+ * of the reply the caller heard when they interrupt (barge-in).
+ */
+export class PlaybackTracker {
+  private readonly segments: { mark: string; bytes: number; text: string }[] =
+    [];
+  private readonly played = new Set<string>();
+  private playedBytes = 0;
+  private totalBytes = 0;
+
+  constructor(
+    readonly turnId: number, // Turn the reply belongs to
+  ) {}
+
+  /**
+   * Full text of all segments sent so far.
+   */
+  get text(): string {
+    return this.segments.map((s) => s.text).join(' ');
+  }
+
+  /**
+   * Register a segment whose audio has just been queued.
+   * Input: size of the audio in bytes (μ-law, 1 byte per sample), its text
+   * Output: mark name to send right after the segment
+   */
+  addSegment(bytes: number, text: string): string {
+    const mark = `reply-${this.turnId}-${this.segments.length}`;
+    this.segments.push({ mark, bytes, text });
+    this.totalBytes += bytes;
+    return mark;
+  }
+
+  /**
+   * Handle a mark echoed back by Twilio.
+   * Output: true if the mark belongs to this reply
+   */
+  onMark(name: string): boolean {
+    const segment = this.segments.find((s) => s.mark === name);
+    if (!segment) return false;
+    if (!this.played.has(name)) {
+      this.played.add(name);
+      this.playedBytes += segment.bytes;
+    }
+    return true;
+  }
+
+  /**
+   * True while some sent audio has not been played yet.
+   */
+  isPlaying(): boolean {
+    return this.played.size < this.segments.length;
+  }
+
+  /**
+   * Fraction (0..1) of the sent audio the caller has heard.
+   */
+  heardFraction(): number {
+    return this.totalBytes ? this.playedBytes / this.totalBytes : 0;
+  }
+
+  /**
+   * Text of the segments the caller heard completely (in order).
+   */
+  heardText(): string {
+    const heard: string[] = [];
+    for (const segment of this.segments) {
+      if (!this.played.has(segment.mark)) break;
+      heard.push(segment.text);
+    }
+    return heard.join(' ');
+  }
+}
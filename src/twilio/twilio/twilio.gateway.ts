@@ -1,32 +1,82 @@
 // twilio.gateway.ts
-import {
-  WebSocketGateway,
-  WebSocketServer,
-} from '@nestjs/websockets';
-import { Logger } from '@nestjs/common';
-import { Server, WebSocket } from 'ws';
-import { WavWriter } from 'src/utils/wav-writer';
-import twilio from 'twilio';
+import { WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Inject, Logger } from '@nestjs/common';
+import { RawData, Server, WebSocket } from 'ws';
+import { StereoWavRecorder } from 'src/utils/stereo-wav-recorder';
+import { mulawToPcm16 } from 'src/audio/codec/g711';
+import { encodeWav } from 'src/audio/codec/wav';
+import { RecordingsService } from 'src/recordings/recordings.service';
 import { LlmService } from 'src/llm/llm.service';
-import { DeepgramService } from 'src/deepgram/deepgram.service';
 import { AudioService } from 'src/audio/audio.service';
 import { LatencyTracker } from 'src/utils/latency.util';
-import { ElevenLabsService } from 'src/elevenlabs/elevenlabs.service';
+import { rawDataToString } from 'src/utils/ws.util';
+import { ConversationService } from 'src/conversation/conversation.service';
+import { ConversationHistory } from 'src/conversation/conversation-history';
+import { TurnManager, UserTurn } from 'src/conversation/turn-manager';
+import { ScheduledTurn, TurnScheduler } from 'src/conversation/turn-scheduler';
+import { InactivityMonitor } from 'src/conversation/inactivity-monitor';
+import { DtmfCollector, DtmfInput } from 'src/conversation/dtmf-collector';
+import { ConfigService } from '@nestjs/config';
+import { PlaybackTracker } from './playback-tracker';
+import { MediaPacer } from './media-pacer';
+import { SentenceChunker } from 'src/llm/sentence-chunker';
+import { STT_PROVIDER, SttSession, SttTranscript } from 'src/stt/stt.types';
+import type { SttProvider } from 'src/stt/stt.types';
+import { AgentsService } from 'src/agents/agents.service';
+import { AgentDefinition, AgentDtmfMenuOption } from 'src/agents/agent.types';
+import { ToolRegistry } from 'src/tools/tool-registry.service';
+import { CallControl } from 'src/tools/tool.types';
+import { LlmToolset } from 'src/llm/llm.types';
+import { buildSystemPrompt } from 'src/agents/prompt-template';
+import { TWILIO_CALL_CLIENT } from '../twilio.types';
+import type { TwilioCallClient, TwilioStreamMessage } from '../twilio.types';
+import { VARIABLE_PARAM_PREFIX } from '../outbound-call.service';
+import { CallTransferService } from '../call-transfer.service';
+import { SessionsService } from 'src/sessions/sessions.service';
+import { SessionRecorder } from 'src/sessions/session-recorder';
+import {
+  LiveSession,
+  SessionOutcome,
+  TransferRecord,
+} from 'src/sessions/session.types';
+import { StreamTokenService } from '../stream-token.service';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { GreetingService } from 'src/greeting/greeting.service';
+import { errorMessage } from 'src/utils/error.util';
 
-// Initialize Twilio REST client (for optional usage, e.g. call control)
-const client = twilio(process.env.TWILIO_SID!, process.env.TWILIO_AUTH_TOKEN!);
+// One bot reply (cancellable on barge-in)
+interface Turn extends ScheduledTurn {
+  audioOffsetMs?: number; // When its first audio was queued (ms since call start)
+  responseMs?: number; // End of the caller's turn → first audio queued
+}
 
 // Active call structure (per ongoing call stream)
 interface ActiveCall {
-  client: WebSocket;       // Twilio WebSocket connection
-  callSid: string;         // Unique Twilio call identifier
-  streamSid: string;       // Unique Twilio media stream identifier
-  dg?: WebSocket;          // Deepgram live transcription WebSocket
-  dgOpen: boolean;         // Whether Deepgram is connected
-  buf: Buffer[];           // Buffer for holding audio before DG connection
-  maxBuf: number;          // Max buffer size
-  transcriptHistory: any[];// Keeps all transcripts (with timestamps/finality)
-  wavWriter?: WavWriter;   // Writes audio to WAV file
+  client: WebSocket; // Twilio WebSocket connection
+  callSid: string; // Unique Twilio call identifier
+  streamSid: string; // Unique Twilio media stream identifier
+  agent: AgentDefinition; // Agent answering this call (prompt, voice, LLM settings)
+  direction: 'inbound' | 'outbound';
+  variables: Record<string, string>; // Context injected into the prompt (guest name, reservation id...)
+  systemPrompt: string; // Agent prompt rendered with the variables
+  stt?: SttSession; // Live transcription session
+  sttAudioMs: number; // Audio sent to STT so far (the STT's timeline)
+  sttFinalMs?: number; // STT latency of the last final transcript
+  buf: Buffer[]; // Audio received before the STT connection opened (sent once it does)
+  maxBuf: number; // Max buffered chunks (20 ms each)
+  session: SessionRecorder; // Persisted transcript, latencies and outcome
+  history: ConversationHistory; // User/assistant turns sent to the LLM
+  turns: TurnManager; // Joins transcript fragments into caller turns (end-of-turn detection)
+  recorder: StereoWavRecorder; // Call recording: caller left, bot right, on one timeline
+  scheduler: TurnScheduler; // Runs replies one at a time (overlap policy: turn.policy)
+  currentTurn?: Turn; // Reply being generated
+  playback?: PlaybackTracker; // Reply currently playing to the caller
+  pacer: MediaPacer; // Sends bot audio in real-time 20 ms frames
+  tools?: LlmToolset; // Tools the agent may call during this call
+  pendingAction?: { type: 'transfer' | 'hangup'; reason?: string }; // Runs after the reply is played
+  inactivity: InactivityMonitor; // Reprompts a silent caller, ends idle / overlong calls
+  dtmf: DtmfCollector; // Joins keypad presses into inputs (menu choice or caller input)
+  ending?: boolean; // Goodbye / hand-off is playing, hang-up or transfer follows → no more replies
 }
 
 // WebSocket gateway that Twilio Media Streams connect to
@@ -35,13 +85,24 @@ export class TwilioWebSocketGateway {
   @WebSocketServer() server: Server; // Underlying WS server
   private logger = new Logger(TwilioWebSocketGateway.name);
   private calls = new Map<string, ActiveCall>(); // Map of streamSid → ActiveCall
-  private wavWriters = new Map<string, WavWriter>(); // Map of streamSid → WavWriter
+  private startTimers = new Map<WebSocket, NodeJS.Timeout>(); // Sockets that have not sent a valid "start" yet
 
   constructor(
-    private readonly deepgram: DeepgramService,  // Transcription service
+    @Inject(STT_PROVIDER) private readonly stt: SttProvider, // Transcription service
     private readonly audioService: AudioService, // Text-to-Speech service
-    private readonly llmService: LlmService,     // LLM for generating bot replie
-  ) { }
+    private readonly llmService: LlmService, // LLM for generating bot replie
+    private readonly conversation: ConversationService, // Per-call conversation memory
+    private readonly config: ConfigService,
+    private readonly agents: AgentsService, // Agent definitions (per-number persona)
+    private readonly toolRegistry: ToolRegistry, // LLM tools (booking, call control)
+    @Inject(TWILIO_CALL_CLIENT) private readonly callClient: TwilioCallClient, // Twilio REST (transfer / hang-up)
+    private readonly sessions: SessionsService, // Call history persistence
+    private readonly streamTokens: StreamTokenService, // Verifies the token from our TwiML
+    private readonly recordings: RecordingsService, // Stores finished recordings (local / S3)
+    private readonly metrics: MetricsService, // Pipeline metrics (GET /metrics)
+    private readonly greetings: GreetingService, // Opening sentence (pre-synthesized)
+    private readonly transfers: CallTransferService, // Hand-off to a human agent
+  ) {}
 
   /**
    * Called when a new WebSocket connection is opened by Twilio.
@@ -50,8 +111,30 @@ export class TwilioWebSocketGateway {
    */
   handleConnection(client: WebSocket) {
     this.logger.log('Twilio WebSocket connected');
-    client.on('message', (data) => this.onMessage(client, data));
-    client.on('close', () => this.logger.log('Twilio WebSocket disconnected'));
+
+    // Streams must authenticate with a "start" event quickly, else drop them
+    const startTimeoutMs =
+      this.config.get<number>('twilio.streamStartTimeoutMs') ?? 10000;
+    this.startTimers.set(
+      client,
+      setTimeout(() => {
+        this.logger.warn(
+          `Closing media stream: no valid "start" within ${startTimeoutMs} ms`,
+        );
+        this.rejectStream(client);
+      }, startTimeoutMs),
+    );
+
+    client.on('message', (data) => void this.onMessage(client, data));
+    client.on('close', () => {
+      this.logger.log('Twilio WebSocket disconnected');
+      clearTimeout(this.startTimers.get(client));
+      this.startTimers.delete(client);
+      // Socket gone without a "stop" event → still end + persist the call
+      for (const call of this.calls.values()) {
+        if (call.client === client) this.endCall(call, 'disconnected');
+      }
+    });
   }
 
   /**
@@ -59,80 +142,366 @@ export class TwilioWebSocketGateway {
    * Input: JSON message { event: 'start' | 'media' | 'stop', ... }
    * Output: Routes event to appropriate handler
    */
-  private async onMessage(client: WebSocket, raw: any) {
+  private async onMessage(client: WebSocket, raw: RawData) {
     try {
-      const msg = JSON.parse(raw.toString());
+      const msg = JSON.parse(rawDataToString(raw)) as TwilioStreamMessage;
       if (!msg?.event) return;
 
+      // Media/mark/stop only count for a call started (and authenticated) on this socket
+      if (
+        ['media', 'mark', 'dtmf', 'stop'].includes(msg.event) &&
+        this.calls.get(msg.streamSid ?? '')?.client !== client
+      )
+        return;
+
       switch (msg.event) {
         case 'connected': // Twilio confirms stream connection
           this.logger.log(`New media stream connected: ${JSON.stringify(msg)}`);
           break;
-        case 'start': // Stream started → set up call + Deepgram
-          await this.onStart(client, msg.start);
+        case 'start': // Stream started → set up call + transcription
+          await this.onStart(client, msg.start ?? {});
           break;
         case 'media': // Incoming audio chunk (μ-law base64)
-          await this.onMedia(msg);
+          this.onMedia(msg);
+          break;
+        case 'mark': // Bot audio up to this mark has been played
+          this.onMark(msg);
+          break;
+        case 'dtmf': // Caller pressed a key
+          this.onDtmf(msg);
           break;
         case 'stop': // Call ended
-          this.onStop(msg.stop);
+          this.onStop(msg.stop ?? {});
           break;
         default:
           this.logger.debug(`Unhandled Twilio event: ${msg.event}`);
       }
-    } catch (e: any) {
-      this.logger.error(`Error parsing Twilio WS message: ${e?.message}`);
+    } catch (e: unknown) {
+      this.logger.error(`Error parsing Twilio WS message: ${errorMessage(e)}`);
     }
   }
 
   /**
    * Handle "start" event from Twilio.
-   * Input: start info { streamSid, callSid }
-   * Output: Creates WAV writer, connects to Deepgram, registers ActiveCall
+   * Input: start info { streamSid, callSid, customParameters: { token, agentId, direction, callerNumber, botNumber, var_* } }
+   * Output: Creates WAV writer, registers ActiveCall, plays the greeting, connects to STT
+   *         (streams without a valid token are closed instead)
    */
-  private async onStart(client: WebSocket, start: any) {
-    const { streamSid, callSid } = start;
-    this.logger.log(`Media stream started: ${streamSid} (callSid: ${callSid})`);
+  private async onStart(
+    client: WebSocket,
+    start: NonNullable<TwilioStreamMessage['start']>,
+  ) {
+    const { streamSid, callSid = '' } = start;
+    const params = start.customParameters ?? {};
+
+    // Only streams opened by our own TwiML carry a valid token
+    const check = this.streamTokens.verify(params, callSid);
+    if (!check.valid || !callSid || !streamSid || this.calls.has(streamSid)) {
+      const reason = check.valid
+        ? 'missing callSid, missing or duplicate streamSid'
+        : check.reason;
+      this.logger.warn(
+        `Rejected media stream ${streamSid} (callSid: ${callSid}): ${reason}`,
+      );
+      this.rejectStream(client);
+      return;
+    }
+    clearTimeout(this.startTimers.get(client));
+    this.startTimers.delete(client);
+
+    const agent = this.agents.resolve(params.agentId);
+    const direction = params.direction === 'outbound' ? 'outbound' : 'inbound';
+    this.logger.log(
+      `Media stream started: ${streamSid} (callSid: ${callSid}, ${direction}, agent: ${agent.id})`,
+    );
+
+    // Prompt variables: var_* parameters (outbound calls) + the caller's number
+    const variables: Record<string, string> = {};
+    for (const [name, value] of Object.entries(params)) {
+      if (name.startsWith(VARIABLE_PARAM_PREFIX))
+        variables[name.slice(VARIABLE_PARAM_PREFIX.length)] = value;
+    }
+    if (params.callerNumber) variables.callerNumber = params.callerNumber;
 
-    // Create WAV writer for recording caller audio
-    const wavWriter = new WavWriter(`recordings/call_${callSid}.wav`);
-    this.wavWriters.set(streamSid, wavWriter);
+    // Stereo recording: caller at Twilio media timestamps, bot at its playback times
+    const recorder = new StereoWavRecorder(
+      this.recordings.workingFile(callSid),
+      {
+        mixdown: this.config.get<boolean>('recordings.mixdown'),
+      },
+    );
 
     // Register call state
     const call: ActiveCall = {
       client,
       callSid,
       streamSid,
-      dgOpen: false,
+      agent,
+      direction,
+      variables,
+      systemPrompt: buildSystemPrompt(agent, variables),
+      sttAudioMs: 0,
       buf: [],
       maxBuf: 400,
-      transcriptHistory: [],
-      wavWriter,
+      session: this.sessions.start({
+        id: callSid,
+        kind: 'call',
+        agentId: agent.id,
+        callSid,
+        streamSid,
+        direction,
+        from: direction === 'inbound' ? params.callerNumber : params.botNumber,
+        to: direction === 'inbound' ? params.botNumber : params.callerNumber,
+        recordingId: callSid,
+        variables,
+      }),
+      history: this.conversation.createHistory(),
+      turns: this.conversation.createTurnManager(8000),
+      recorder,
+      scheduler: this.conversation.createTurnScheduler((turn) =>
+        this.respond(call, turn),
+      ),
+      pacer: this.createPacer(client, streamSid, recorder),
+      // Caller silence only counts while the bot is neither answering nor speaking
+      inactivity: this.conversation.createInactivityMonitor(
+        () =>
+          !!call.currentTurn ||
+          call.turns.pending ||
+          call.pacer.isBusy() ||
+          !!call.playback?.isPlaying(),
+      ),
+      dtmf: this.conversation.createDtmfCollector(agent.dtmf),
     };
+    call.tools = this.toolRegistry.createToolset(
+      agent.tools,
+      {
+        agentId: agent.id,
+        sessionId: streamSid,
+        callSid,
+        callerNumber: params.callerNumber || undefined,
+        callControl: this.createCallControl(call),
+      },
+      // Tool calls + results are part of the call transcript
+      (invocation) => call.session.addTool(invocation, call.currentTurn?.id),
+    );
     this.calls.set(streamSid, call);
+    this.metrics.calls.inc({ direction });
+    this.metrics.activeSessions.inc({ kind: 'call' });
+    call.turns.on('turn', (turn) => this.onUserTurn(call, turn));
+    call.scheduler.on('queued', (turn) =>
+      this.logger.log(`Turn ${turn.id} queued (${streamSid})`),
+    );
+    call.scheduler.on('merged', ({ turn }) =>
+      this.logger.log(
+        `Merged into turn ${turn.id} (${streamSid}): ${turn.text}`,
+      ),
+    );
+    call.scheduler.on('cancelled', ({ turn, reason }) =>
+      this.logger.log(`Turn ${turn.id} cancelled: ${reason} (${streamSid})`),
+    );
+    call.inactivity.on('reprompt', ({ count }) => this.onReprompt(call, count));
+    call.inactivity.on(
+      'idle',
+      () =>
+        void this.endWithGoodbye(
+          call,
+          this.config.get<string>('inactivity.goodbyeText') ?? 'Goodbye!',
+          'inactive',
+          'Caller inactive, call ended by bot',
+        ),
+    );
+    call.inactivity.on(
+      'max-duration',
+      () =>
+        void this.endWithGoodbye(
+          call,
+          this.config.get<string>('inactivity.maxDurationText') ?? 'Goodbye!',
+          'max-duration',
+          'Maximum call duration reached',
+        ),
+    );
+    // A key press counts like speech: barge-in, caller not silent
+    call.dtmf.on('digit', () => {
+      call.inactivity.activity();
+      this.handleCallerSpeech(call, 'dtmf');
+    });
+    call.dtmf.on('input', (input) => this.onDtmfInput(call, input));
+    call.inactivity.start();
+    void this.greet(call);
+
+    // Connect to the STT provider for transcription (μ-law 8 kHz, Twilio standard)
+    try {
+      const stt = await this.stt.connect({
+        encoding: 'mulaw',
+        sampleRate: 8000,
+        language: agent.language,
+      });
+      stt.on('interim', (tr) => this.onInterimTranscript(call, tr));
+      stt.on('final', (tr) => this.onFinalTranscript(call, tr));
+      stt.on('utterance-end', () => call.turns.onUtteranceEnd());
+      stt.on('speech-started', () =>
+        this.handleCallerSpeech(call, 'speech-started'),
+      );
+      stt.on('error', (err) => {
+        this.metrics.providerErrors.inc({
+          service: 'stt',
+          provider: this.stt.name,
+        });
+        this.logger.error(`STT error (${streamSid}): ${err.message}`);
+      });
+      stt.on('reconnecting', ({ attempt, delayMs }) => {
+        if (attempt === 1)
+          this.metrics.providerErrors.inc({
+            service: 'stt',
+            provider: this.stt.name,
+          });
+        this.logger.warn(
+          `STT connection lost (${streamSid}), reconnecting in ${delayMs} ms (attempt ${attempt})`,
+        );
+      });
+      stt.on('reconnected', ({ replayedMs }) =>
+        this.logger.log(
+          `STT reconnected (${streamSid}), replayed ${replayedMs} ms of audio`,
+        ),
+      );
+      call.stt = stt;
+      this.logger.log(
+        `STT (${this.stt.name}) connected for stream ${streamSid}`,
+      );
+
+      // Audio that arrived while connecting
+      if (!this.calls.has(streamSid)) {
+        void stt.close();
+        return;
+      }
+      for (const ulaw of call.buf) this.sendToStt(call, ulaw);
+      call.buf = [];
+    } catch (e: unknown) {
+      this.metrics.providerErrors.inc({
+        service: 'stt',
+        provider: this.stt.name,
+      });
+      this.logger.error(`STT live connect failed: ${errorMessage(e)}`);
+    }
+  }
 
-    // Connect to Deepgram for transcription
+  /**
+   * Play the agent's greeting right after the stream started.
+   * - Personalized with the call variables (var_* parameters, caller number)
+   * - Recorded as the first assistant turn → the LLM does not greet again
+   * - Skipped if the caller's first reply already started meanwhile
+   */
+  private async greet(call: ActiveCall) {
+    const text = this.greetings.text(call.agent, call.variables);
+    if (text && (await this.say(call, text)))
+      this.logger.log(`👋 Greeting (${call.streamSid}): ${text}`);
+  }
+
+  /**
+   * Speak a fixed sentence outside the reply flow (greeting, reprompt, goodbye).
+   * - Audio comes from the TTS cache when the sentence was said before
+   * - Added to the history + transcript as a bot turn
+   * - Interruptible like a reply (turn 0 in the playback tracker)
+   * Output: false if nothing was played (call ended, bot busy, TTS failed)
+   */
+  private async say(
+    call: ActiveCall,
+    text: string,
+    canSpeak = () => !call.currentTurn && !call.playback, // Checked once the audio is ready
+  ): Promise<boolean> {
     try {
-      const dg = await this.deepgram.createLive((tr) =>
-        this.onTranscript(streamSid, tr),
+      const audio = await this.greetings.synthesize(call.agent, text);
+      if (!audio.length || !this.calls.has(call.streamSid) || !canSpeak())
+        return false;
+
+      const playback = new PlaybackTracker(0);
+      call.playback = playback;
+      call.history.addAssistant(text);
+      call.session.add('bot', text, {
+        turnId: 0,
+        durationMs: Math.round(audio.length / 8),
+      });
+      call.pacer.enqueue(audio);
+      call.pacer.mark(playback.addSegment(audio.length, text));
+      return true;
+    } catch (e: unknown) {
+      this.logger.error(
+        `TTS failed for "${text}" (${call.streamSid}): ${errorMessage(e)}`,
       );
-      call.dg = dg;
-      call.dgOpen = true;
-      this.logger.log(`Deepgram connected for stream ${streamSid}`);
-    } catch (e: any) {
-      this.logger.error(`Deepgram live connect failed: ${e?.message}`);
+      return false;
     }
   }
 
+  /**
+   * Caller silent for inactivity.repromptMs → ask whether they are still there.
+   */
+  private onReprompt(call: ActiveCall, count: number) {
+    if (call.ending) return;
+    this.logger.log(`🔕 Caller silent (${call.streamSid}), reprompt ${count}`);
+    void this.say(
+      call,
+      this.config.get<string>('inactivity.repromptText') ??
+        'Are you still there?',
+    );
+  }
+
+  /**
+   * Say goodbye and hang up (silent caller, call length limit).
+   * - Cancels the reply in progress; later caller speech gets no answer
+   * - Hangs up through the Twilio REST API once the goodbye was played,
+   *   then ends the call here (frees the STT connection right away)
+   */
+  private async endWithGoodbye(
+    call: ActiveCall,
+    text: string,
+    outcome: SessionOutcome,
+    reason: string,
+  ) {
+    if (call.ending || !this.calls.has(call.streamSid)) return;
+    call.ending = true;
+    this.stopReplies(call, outcome);
+    call.session.add('system', reason);
+    this.logger.log(`📴 Ending call ${call.callSid}: ${reason}`);
+
+    await this.say(call, text, () => true);
+    await this.waitForPlayback(call, 15000);
+    if (!this.calls.has(call.streamSid)) return;
 
+    call.session.setOutcome(outcome);
+    try {
+      await this.callClient.updateCall(call.callSid, { status: 'completed' });
+    } catch (e: unknown) {
+      this.logger.error(
+        `Hang-up failed for ${call.callSid}: ${errorMessage(e)}`,
+      );
+    }
+    if (this.calls.has(call.streamSid)) this.endCall(call, outcome);
+    if (call.client.readyState === WebSocket.OPEN)
+      call.client.close(1000, 'Call ended');
+  }
+
+  /**
+   * Cancel the reply in progress (and queued ones) and silence the bot.
+   */
+  private stopReplies(call: ActiveCall, reason: string) {
+    call.pendingAction = undefined;
+    call.scheduler.cancelAll(reason);
+    if (call.playback || call.pacer.isBusy()) {
+      call.playback = undefined;
+      call.pacer.clear();
+      call.client.send(
+        JSON.stringify({ event: 'clear', streamSid: call.streamSid }),
+      );
+    }
+  }
 
   /**
    * Handle "media" event (audio packet from Twilio).
    * Input: msg { streamSid, media: { payload (base64 ulaw) } }
-   * Output: Writes audio to WAV, forwards to Deepgram
+   * Output: Writes audio to WAV, feeds the VAD, forwards to STT
    */
-  private async onMedia(msg: any) {
-    const { streamSid, media } = msg;
+  private onMedia(msg: TwilioStreamMessage) {
+    const { streamSid = '', media } = msg;
     const call = this.calls.get(streamSid);
     if (!call) return;
     if (!media?.payload) return;
@@ -140,143 +509,768 @@ export class TwilioWebSocketGateway {
     try {
       const ulaw = Buffer.from(media.payload, 'base64');
 
-      // Save to WAV file
-      const writer = this.wavWriters.get(streamSid);
-      if (writer) writer.writeMulaw(ulaw);
+      // Record at Twilio's timestamp (ms since stream start) → gaps/jitter keep their timing
+      const pcm = mulawToPcm16(ulaw);
+      call.recorder.write('caller', pcm, Number(media.timestamp));
+      call.turns.onAudio(pcm);
 
-      // Send audio to Deepgram (or buffer if not ready yet)
-      if (call.dg && call.dgOpen) {
-        call.dg.send(ulaw);
+      // Send audio to STT (or buffer if not connected yet)
+      if (call.stt?.isOpen()) {
+        this.sendToStt(call, ulaw);
       } else {
         call.buf.push(ulaw);
         if (call.buf.length > call.maxBuf) call.buf.shift();
       }
-    } catch (e: any) {
-      this.logger.error(`onMedia error (${streamSid}): ${e?.message}`);
+    } catch (e: unknown) {
+      this.logger.error(`onMedia error (${streamSid}): ${errorMessage(e)}`);
     }
   }
 
+  /**
+   * Send caller audio to STT and advance the STT timeline.
+   */
+  private sendToStt(call: ActiveCall, ulaw: Buffer) {
+    call.stt!.send(ulaw);
+    call.sttAudioMs += ulaw.length / 8; // μ-law 8 kHz → 8 bytes per ms
+  }
+
   /**
    * Handle "stop" event (call ended).
    * Input: stop info { streamSid, callSid }
-   * Output: Close Deepgram, finalize WAV file, cleanup
+   * Output: Close STT session, finalize WAV file, persist session, cleanup
    */
-  private onStop(stop: any) {
-    const { streamSid, callSid } = stop;
+  private onStop(stop: NonNullable<TwilioStreamMessage['stop']>) {
+    const { streamSid = '', callSid } = stop;
     this.logger.log(`Call ended: ${callSid} (streamSid: ${streamSid})`);
     const call = this.calls.get(streamSid);
-    if (call?.dg) call.dg.close();
-    this.calls.delete(streamSid);
+    if (call) this.endCall(call, 'completed');
+  }
+
+  /**
+   * Calls in progress (admin API).
+   * Output: state, duration and current turn of every active call
+   */
+  listCalls(): LiveSession[] {
+    return Array.from(this.calls.values()).map((call) => {
+      const { record } = call.session;
+      const turn = call.scheduler.current;
+      const speaking = call.pacer.isBusy() || !!call.playback?.isPlaying();
+      return {
+        id: call.callSid,
+        kind: 'call',
+        agentId: call.agent.id,
+        state: speaking ? 'speaking' : turn ? 'responding' : 'listening',
+        startedAt: record.startedAt,
+        durationMs: call.session.elapsed(),
+        direction: call.direction,
+        from: record.from,
+        to: record.to,
+        streamSid: call.streamSid,
+        transcriptEntries: record.transcript.length,
+        currentTurn: turn && {
+          id: turn.id,
+          text: turn.text,
+          hasOutput: turn.hasOutput,
+          ageMs: Date.now() - turn.submittedAt,
+        },
+        queuedTurns: call.scheduler.queued.length,
+      };
+    });
+  }
 
-    const writer = this.wavWriters.get(streamSid);
-    if (writer) {
-      writer.end();
-      this.wavWriters.delete(streamSid);
+  /**
+   * Forcibly end a call (admin API).
+   * Input: call SID or stream SID
+   * Output: false if no such call is active
+   * - Hangs up through the Twilio REST API, then closes the media stream
+   *   (which also ends the call if the REST request failed)
+   */
+  async terminateCall(id: string): Promise<boolean> {
+    const call =
+      this.calls.get(id) ??
+      Array.from(this.calls.values()).find((c) => c.callSid === id);
+    if (!call) return false;
+
+    this.logger.warn(`📴 Terminating call ${call.callSid} (admin request)`);
+    call.session.add('system', 'Call terminated by an administrator');
+    this.endCall(call, 'terminated');
+    try {
+      await this.callClient.updateCall(call.callSid, { status: 'completed' });
+    } catch (e: unknown) {
+      this.logger.error(
+        `Hang-up failed for ${call.callSid}: ${errorMessage(e)}`,
+      );
     }
+    if (call.client.readyState === WebSocket.OPEN)
+      call.client.close(1000, 'Terminated');
+    return true;
   }
 
   /**
-   * Handle transcript event from Deepgram.
-   * Input: transcript object (final or interim)
-   * Output: If final → run LLM + TTS, send bot reply back to caller
+   * Tear down a call and persist its session.
+   * Input: outcome (kept only if no earlier outcome, e.g. "transferred", was set)
    */
-  private async onTranscript(streamSid: string, d: any) {
-    const call = this.calls.get(streamSid);
-    if (!call) return;
+  private endCall(call: ActiveCall, outcome: SessionOutcome) {
+    const { streamSid } = call;
+    call.scheduler.dispose();
+    call.inactivity.dispose();
+    call.dtmf.dispose();
+    call.currentTurn?.abort.abort();
+    call.playback = undefined; // Nothing left to interrupt
+    call.pacer.clear();
+    this.calls.delete(streamSid);
+    this.metrics.activeSessions.dec({ kind: 'call' });
 
-    const text =
-      d?.channel?.alternatives?.[0]?.transcript || d?.transcript || '';
-    const isFinal = !!d?.is_final;
-    if (!text?.trim()) return;
+    void this.storeRecording(call);
 
-    const entry = { text, isFinal, ts: new Date().toISOString() };
-    call.transcriptHistory.push(entry);
+    void this.finishSession(call, outcome);
+  }
 
-    if (isFinal) {
-      this.logger.log(`🗣 Caller (${streamSid}): ${text}`);
+  /**
+   * Persist the session once the caller's last words are in the transcript:
+   * STT flushes its final results on close, pending fragments end the last turn.
+   */
+  private async finishSession(call: ActiveCall, outcome: SessionOutcome) {
+    await call.stt?.close();
+    call.turns.flush();
+    call.turns.dispose();
+    await this.sessions.finish(call.session, outcome);
+  }
 
-      // Track full pipeline latency
-      const pipelineTracker = new LatencyTracker("Full Pipeline");
+  /**
+   * Finalize the call recording and hand it (+ mono mixdown) to the recording store.
+   */
+  private async storeRecording(call: ActiveCall) {
+    let mixdown: string | undefined;
+    try {
+      mixdown = call.recorder.end();
+    } catch (e: unknown) {
+      this.logger.error(
+        `Failed to finalize recording for ${call.streamSid}: ${errorMessage(e)}`,
+      );
+      return;
+    }
 
-      // 1. LLM → generate bot reply
-      const reply = await LatencyTracker.track("Groq LLM", () =>
-        this.llmService.generateResponse([
-          {
-            role: 'system',
-            content: `You are a polite hotel assistant for Axion Hotel in Lake City.  
-- Help with room booking, availability, check-in/out, and services.  
-- Reply naturally, like a receptionist.  
-- Keep answers short, clear, and to the point.`
-          },
-          { role: 'user', content: text },
-        ])
+    const { callSid } = call;
+    await this.recordings.saveFile(call.recorder.filename, {
+      id: callSid,
+      kind: 'call',
+      sessionId: callSid,
+    });
+    if (mixdown) {
+      await this.recordings.saveFile(mixdown, {
+        id: `${callSid}-mono`,
+        kind: 'mixdown',
+        sessionId: callSid,
+      });
+    }
+  }
+
+  /**
+   * Handle an interim transcript (caller still speaking).
+   * Output: Caller speech during bot playback → barge-in
+   */
+  private onInterimTranscript(call: ActiveCall, tr: SttTranscript) {
+    this.logger.debug(`[interim] ${tr.text}`);
+    call.turns.onTranscript(tr);
+    if (tr.text.trim()) call.inactivity.activity();
+
+    const words = tr.text.trim().split(/\s+/).length;
+    if (words >= (this.config.get<number>('bargeIn.minInterimWords') ?? 1)) {
+      this.handleCallerSpeech(call, 'interim');
+    }
+  }
+
+  /**
+   * Handle a final transcript fragment.
+   * Output: Fragment goes to the turn manager (the reply waits for the end of the turn)
+   */
+  private onFinalTranscript(call: ActiveCall, tr: SttTranscript) {
+    if (tr.text.trim()) {
+      this.logger.debug(
+        `[final] ${tr.text}${tr.speechFinal ? ' (speech final)' : ''}`,
       );
+      call.inactivity.activity();
+      this.handleCallerSpeech(call, 'final');
 
-      this.logger.log(`🤖 Bot: ${reply}`);
+      // STT latency: audio sent so far vs. where the words ended (both on the STT timeline)
+      if (tr.start !== undefined) {
+        const latencyMs =
+          call.sttAudioMs - (tr.start + (tr.duration ?? 0)) * 1000;
+        if (latencyMs >= 0) {
+          call.sttFinalMs = Math.round(latencyMs);
+          this.metrics.sttFinalLatency.observe(
+            { provider: this.stt.name },
+            latencyMs / 1000,
+          );
+        }
+      }
+    }
+    call.turns.onTranscript(tr);
+  }
 
-      try {
-        // 2. TTS → convert reply text to speech
-        const audioPayloadBase64Mulaw = await LatencyTracker.track("Deepgram TTS", () =>
-          this.audioService.textToAudio(reply)
-        );
+  /**
+   * Handle a complete caller turn (all fragments until the caller stopped speaking).
+   * Output: Reply scheduled (queued / merged / restarted while another reply runs),
+   *         or a transfer if the caller asked for a person (transfer.keywords)
+   */
+  private onUserTurn(call: ActiveCall, turn: UserTurn) {
+    call.session.add('caller', turn.text, { durationMs: turn.durationMs });
+    this.logger.log(
+      `🗣 Caller (${call.streamSid}, ${turn.fragments.length} fragment(s), ${turn.reason}): ${turn.text}`,
+    );
+
+    // Last words after the hang-up (or during the goodbye) are only transcribed
+    if (!this.calls.has(call.streamSid) || call.ending) return;
+
+    if (
+      this.transfers.isAvailable() &&
+      this.transfers.detectIntent(turn.text)
+    ) {
+      call.history.addUser(turn.text);
+      void this.handOff(call, 'keyword', `caller asked: "${turn.text}"`);
+      return;
+    }
+    call.scheduler.submit(turn.text);
+  }
+
+  /**
+   * Handle "dtmf" event (caller pressed a key on the keypad).
+   * Input: msg { streamSid, dtmf: { track, digit } }
+   * Output: Key added to the caller's keypad input (dtmf.enabled)
+   */
+  private onDtmf(msg: TwilioStreamMessage) {
+    const call = this.calls.get(msg.streamSid ?? '');
+    const digit = msg.dtmf?.digit;
+    if (
+      !call ||
+      typeof digit !== 'string' ||
+      this.config.get<boolean>('dtmf.enabled') === false
+    )
+      return;
+    this.logger.debug(`[dtmf] ${digit} (${call.streamSid})`);
+    call.dtmf.push(digit);
+  }
+
+  /**
+   * Handle a complete keypad input (terminator key, timeout or max digits).
+   * Output: Menu entry of the agent run (agent.dtmf.menu), otherwise the
+   *         digits are answered by the LLM like spoken caller input
+   */
+  private onDtmfInput(call: ActiveCall, { digits, reason }: DtmfInput) {
+    const text = `Keypad input: ${digits}`;
+    call.session.add('caller', text);
+    this.logger.log(`🔢 Keypad (${call.streamSid}, ${reason}): ${digits}`);
+    if (!this.calls.has(call.streamSid) || call.ending) return;
 
-        // Save bot reply audio for debugging
-        const filename = `bot_reply_${Date.now()}.mulaw`;
-        await this.audioService.saveAudioToFile(audioPayloadBase64Mulaw, filename);
-
-        // Write bot reply to same WAV recording
-        const writer = this.wavWriters.get(streamSid);
-        if (writer) {
-          try {
-            const botMulawBuffer = Buffer.from(audioPayloadBase64Mulaw, 'base64');
-            writer.writeMulaw(botMulawBuffer);
-          } catch (err: any) {
-            this.logger.error(
-              `Failed to write bot audio into wav for ${streamSid}: ${err?.message}`,
-            );
-          }
+    const option = call.agent.dtmf?.menu?.find((o) => o.digits === digits);
+    if (option) this.runMenuOption(call, option);
+    else call.scheduler.submit(text);
+  }
+
+  /**
+   * Run the keypad menu entry the caller picked (e.g. "press 0 for the front desk").
+   */
+  private runMenuOption(call: ActiveCall, option: AgentDtmfMenuOption) {
+    const reason = option.reason ?? `caller pressed ${option.digits}`;
+    this.logger.log(
+      `🔢 Menu ${option.digits} → ${option.action} (${call.streamSid})`,
+    );
+    switch (option.action) {
+      case 'transfer':
+        if (this.transfers.isAvailable()) {
+          void this.handOff(call, 'dtmf', reason, option.text);
+        } else {
+          this.stopReplies(call, 'dtmf');
+          void this.say(
+            call,
+            this.config.get<string>('transfer.failedText') ??
+              "I'm sorry, I couldn't connect you right now.",
+          );
         }
+        break;
+      case 'hangup':
+        void this.endWithGoodbye(
+          call,
+          option.text ?? 'Goodbye!',
+          'ended-by-bot',
+          `Call ended from the keypad menu (${reason})`,
+        );
+        break;
+      case 'say':
+        this.stopReplies(call, 'dtmf');
+        void this.say(call, option.text ?? '');
+        break;
+      case 'prompt':
+        call.scheduler.submit(option.text ?? `Keypad input: ${option.digits}`);
+        break;
+    }
+  }
+
+  /**
+   * Generate and speak the bot reply to a scheduled turn.
+   * - Adds the caller text to the history, then streams LLM tokens and cuts them into sentences/clauses
+   * - Each segment goes to streaming TTS as soon as it is complete (in order)
+   * - Every LLM provider failing → the apology reply (llm.fallbackReply) is spoken instead
+   * - TTS audio is paced to Twilio in 20 ms frames with a mark per segment
+   * - Records per-stage latency (first token, first segment, first audio)
+   */
+  private async respond(call: ActiveCall, turn: Turn) {
+    // Every reply has its own abort signal → cancelled on barge-in or by the scheduler
+    call.currentTurn = turn;
+    call.history.addUser(turn.text);
+    const sttFinalMs = call.sttFinalMs;
+
+    const playback = new PlaybackTracker(turn.id);
+    call.playback = playback;
+
+    // Track full pipeline latency, per stage
+    const pipelineTracker = new LatencyTracker(
+      `Turn ${turn.id} (${call.streamSid})`,
+    );
+    const chunker = new SentenceChunker();
+    const botAudio: Buffer[] = [];
+    let speaking: Promise<void> = Promise.resolve();
+
+    // Segments are synthesized one after another so audio stays in order
+    const speak = (segment: string) => {
+      pipelineTracker.mark('llm.firstSegment');
+      speaking = speaking.then(() =>
+        this.speakSegment(
+          call,
+          turn,
+          playback,
+          segment,
+          pipelineTracker,
+          botAudio,
+        ),
+      );
+    };
+
+    try {
+      // 1. LLM → stream bot reply (with the whole conversation so far)
+      const messages = call.history.toMessages(call.systemPrompt);
+
+      const reply = await this.llmService.streamResponse(
+        messages,
+        (token) => {
+          pipelineTracker.mark('llm.firstToken');
+          chunker.push(token).forEach(speak);
+        },
+        {
+          ...call.agent.llm,
+          tools: call.tools,
+          signal: turn.abort.signal,
+          useFallbackReply: true, // never leave the caller in silence
+        },
+      );
+      const rest = chunker.flush();
+      if (rest) speak(rest);
+      pipelineTracker.mark('llm.complete');
+      if (turn.abort.signal.aborted) return;
+
+      this.logger.log(`🤖 Bot: ${reply}`);
+      call.history.addAssistant(reply);
+      turn.hasOutput = true;
+      void this.conversation.compact(call.history);
 
-        // 3. Send audio reply back to Twilio for playback to caller
-        this.sendAudioToTwilio(streamSid, audioPayloadBase64Mulaw);
-      } catch (e: any) {
-        this.logger.error(`TTS failed: ${e.message}`);
+      // 2. Wait until every segment went through TTS
+      await speaking;
+      pipelineTracker.mark('tts.complete');
+
+      // μ-law 8 kHz → 8 bytes per ms of audio
+      const audioBytes = botAudio.reduce((sum, chunk) => sum + chunk.length, 0);
+      if (!turn.abort.signal.aborted) {
+        call.session.add('bot', reply, {
+          turnId: turn.id,
+          offsetMs: turn.audioOffsetMs,
+          durationMs: audioBytes ? Math.round(audioBytes / 8) : undefined,
+        });
       }
 
+      // 3. Transfer / hang-up requested by a tool → after the reply was heard
+      if (call.pendingAction) void this.runPendingAction(call, turn);
+
+      // Keep each reply's audio separately (debugging TTS), if enabled
+      if (
+        botAudio.length &&
+        this.config.get<boolean>('recordings.saveReplies')
+      ) {
+        void this.recordings.saveAudio(
+          encodeWav(mulawToPcm16(Buffer.concat(botAudio)), 8000),
+          {
+            id: `${call.callSid}-reply-${turn.id}`,
+            kind: 'reply',
+            sessionId: call.callSid,
+          },
+        );
+      }
+    } catch (e: unknown) {
+      if (turn.abort.signal.aborted) {
+        this.logger.log(`Turn ${turn.id} cancelled (${call.streamSid})`);
+      } else {
+        this.logger.error(`LLM/TTS failed: ${errorMessage(e)}`);
+      }
+    } finally {
+      if (call.currentTurn === turn) call.currentTurn = undefined;
       // End latency tracking
+      const marks = pipelineTracker.getMarks();
+      call.session.addLatency(turn.id, marks, {
+        sttFinalMs,
+        llmMs: marks['llm.complete'],
+        ttsFirstByteMs:
+          marks['tts.firstByte'] !== undefined
+            ? marks['tts.firstByte'] - marks['llm.firstSegment']
+            : undefined,
+        responseMs: turn.responseMs,
+      });
       pipelineTracker.end();
-    } else {
-      // Interim transcript (not final yet)
-      this.logger.debug(`[interim] ${text}`);
     }
   }
 
   /**
-   * Send bot audio back to Twilio WebSocket.
-   * Input: streamSid (call stream ID), audio base64 μ-law
-   * Output: Sends 'media' event (bot audio) + 'mark' event (playback complete)
+   * Synthesize one reply segment and queue its audio for playback.
+   * - Streams TTS chunks straight into the pacer (low time-to-first-audio)
+   * - Falls back to non-streaming TTS if streaming fails
+   * - Queues a mark after the segment so barge-in knows what was heard
    */
-  private sendAudioToTwilio(
-    streamSid: string,
-    audioPayloadBase64Mulaw: string,
+  private async speakSegment(
+    call: ActiveCall,
+    turn: Turn,
+    playback: PlaybackTracker,
+    segment: string,
+    tracker: LatencyTracker,
+    botAudio: Buffer[],
   ) {
-    const call = this.calls.get(streamSid);
-    if (!call || !call.client) return;
+    const { signal } = turn.abort;
+    if (signal.aborted) return;
 
-    // Bot audio to Twilio
-    const mediaMessage = {
-      event: 'media',
-      streamSid,
-      media: { payload: audioPayloadBase64Mulaw },
+    let bytes = 0;
+    const queueAudio = (audio: Buffer) => {
+      if (!audio.length || signal.aborted) return;
+      tracker.mark('tts.firstByte');
+      turn.hasOutput = true;
+      if (turn.responseMs === undefined) {
+        turn.responseMs = Date.now() - turn.submittedAt;
+        this.metrics.responseLatency.observe(
+          { kind: 'call' },
+          turn.responseMs / 1000,
+        );
+      }
+      turn.audioOffsetMs ??= call.session.elapsed();
+      bytes += audio.length;
+      botAudio.push(audio);
+      call.pacer.enqueue(audio); // recorded by the pacer when it is played
     };
-    call.client.send(JSON.stringify(mediaMessage));
 
-    // Marker event → lets Twilio know bot playback ended
-    const markMessage = {
-      event: 'mark',
-      streamSid,
-      mark: { name: 'playback-completed' },
+    try {
+      await this.audioService.streamTextToAudioFast(
+        segment,
+        (chunk, isFinal) => {
+          if (!isFinal) queueAudio(Buffer.from(chunk, 'base64'));
+        },
+        { ...call.agent.voice, signal },
+      );
+    } catch (e: unknown) {
+      if (signal.aborted) return;
+      this.logger.warn(
+        `Streaming TTS failed, falling back: ${errorMessage(e)}`,
+      );
+      if (bytes === 0) {
+        try {
+          queueAudio(
+            Buffer.from(
+              await this.audioService.textToAudio(segment, {
+                ...call.agent.voice,
+                signal,
+              }),
+              'base64',
+            ),
+          );
+        } catch (err: unknown) {
+          if (!signal.aborted)
+            this.logger.error(`TTS failed: ${errorMessage(err)}`);
+        }
+      }
+    }
+
+    if (signal.aborted || bytes === 0) return;
+    call.pacer.mark(playback.addSegment(bytes, segment));
+  }
+
+  /**
+   * Caller is speaking → barge-in if the bot reply is still playing.
+   * - Sends Twilio `clear` to drop the queued bot audio
+   * - Cancels in-flight LLM/TTS work of the current turn
+   * - Keeps only the heard part of the reply in the conversation
+   */
+  private handleCallerSpeech(call: ActiveCall, source: string) {
+    const playback = call.playback;
+    // The goodbye before a hang-up is not interruptible
+    if (
+      !playback ||
+      call.ending ||
+      this.config.get<boolean>('bargeIn.enabled') === false
+    )
+      return;
+
+    // Bot is audible: audio still queued, or the reply already started and more is coming
+    const replyInProgress =
+      call.currentTurn?.id === playback.turnId && !!playback.text;
+    if (!playback.isPlaying() && !replyInProgress) return;
+
+    call.playback = undefined; // marks echoed after `clear` are ignored
+    call.pendingAction = undefined; // caller wants to keep talking
+    call.currentTurn?.abort.abort();
+    call.pacer.clear();
+    call.client.send(
+      JSON.stringify({ event: 'clear', streamSid: call.streamSid }),
+    );
+
+    const heardText = playback.heardText();
+    call.history.replaceLastAssistant(heardText);
+
+    // Transcript keeps what the caller actually heard
+    const entry = call.session.findBotEntry(playback.turnId);
+    if (entry) {
+      entry.text = heardText;
+      entry.interrupted = true;
+      entry.durationMs = undefined;
+    } else {
+      call.session.add('bot', heardText, {
+        turnId: playback.turnId,
+        offsetMs: call.currentTurn?.audioOffsetMs,
+        interrupted: true,
+      });
+    }
+
+    this.logger.log(
+      `✋ Barge-in (${source}) on ${call.streamSid}, caller heard ${Math.round(playback.heardFraction() * 100)}%: "${heardText}"`,
+    );
+  }
+
+  /**
+   * Call actions for the transfer_call / end_call tools.
+   * They only schedule the action; it runs once the bot's reply has been played.
+   */
+  private createCallControl(call: ActiveCall): CallControl {
+    return {
+      transfer: (reason) => {
+        if (!this.transfers.isAvailable())
+          return 'Transfer is not available right now. Offer to take a message instead.';
+        call.pendingAction = { type: 'transfer', reason };
+        return 'The caller will be transferred after your reply. Tell them you are connecting them now.';
+      },
+      end: (reason) => {
+        call.pendingAction = { type: 'hangup', reason };
+        return 'The call will end after your reply. Say a short goodbye.';
+      },
     };
-    call.client.send(JSON.stringify(markMessage));
+  }
+
+  /**
+   * Execute the pending transfer / hang-up through the Twilio REST API.
+   * - Waits until the reply finished playing (max 15 s)
+   * - Skipped if the caller barged in or the call is already gone
+   */
+  private async runPendingAction(call: ActiveCall, turn: Turn) {
+    const action = call.pendingAction;
+    if (!action) return;
+
+    await this.waitForPlayback(call, 15000);
+    if (
+      turn.abort.signal.aborted ||
+      call.pendingAction !== action ||
+      !this.calls.has(call.streamSid)
+    )
+      return;
+    call.pendingAction = undefined;
+
+    // The model's reply was the hand-off message
+    if (action.type === 'transfer') {
+      await this.transferCall(call, 'tool', action.reason);
+      return;
+    }
+
+    try {
+      this.logger.log(
+        `📴 Ending call ${call.callSid} (${action.reason ?? 'no reason'})`,
+      );
+      await this.callClient.updateCall(call.callSid, { status: 'completed' });
+      call.session.add(
+        'system',
+        `Call ended by bot${action.reason ? ` (${action.reason})` : ''}`,
+      );
+      call.session.setOutcome('ended-by-bot');
+    } catch (e: unknown) {
+      this.logger.error(
+        `Call hangup failed for ${call.callSid}: ${errorMessage(e)}`,
+      );
+    }
+  }
+
+  /**
+   * Caller asked for a person (keyword rule, keypad menu) → hand-off message, then transfer.
+   * - Cancels the reply in progress; the hand-off is not interruptible
+   * Input: text spoken instead of transfer.handoffText (menu entries)
+   */
+  private async handOff(
+    call: ActiveCall,
+    trigger: 'keyword' | 'dtmf',
+    reason: string,
+    text?: string,
+  ) {
+    call.ending = true;
+    this.stopReplies(call, 'transfer');
+    const summary = this.summarizeForTransfer(call);
+    await this.say(
+      call,
+      text ??
+        this.config.get<string>('transfer.handoffText') ??
+        'Let me connect you with a member of our team.',
+      () => true,
+    );
+    await this.transferCall(call, trigger, reason, summary);
+  }
+
+  /**
+   * Redirect the call to a human agent once the bot stopped talking.
+   * - Warm transfers pass a summary of the conversation (whisper or SMS)
+   * - Recorded on the session: transfer details, outcome "transferred"
+   * - Failure → the caller is told and the conversation goes on
+   */
+  private async transferCall(
+    call: ActiveCall,
+    trigger: TransferRecord['trigger'],
+    reason?: string,
+    summary = this.summarizeForTransfer(call),
+  ) {
+    call.ending = true;
+    await this.waitForPlayback(call, 15000);
+    if (!this.calls.has(call.streamSid)) return; // Caller hung up meanwhile
+    const transfer = await this.transfers.transfer({
+      callSid: call.callSid,
+      trigger,
+      reason,
+      summary: await summary,
+    });
+    call.session.setTransfer(transfer);
+
+    if (transfer.status === 'failed') {
+      call.session.add(
+        'system',
+        `Transfer to ${transfer.target || 'agent'} failed: ${transfer.error}`,
+      );
+      call.ending = false;
+      if (this.calls.has(call.streamSid)) {
+        const text =
+          this.config.get<string>('transfer.failedText') ??
+          "I'm sorry, I couldn't connect you right now.";
+        await this.say(call, text, () => true);
+      }
+      return;
+    }
+    call.session.add(
+      'system',
+      `Transferred to ${transfer.target}${reason ? ` (${reason})` : ''}`,
+    );
+    call.session.setOutcome('transferred');
+  }
+
+  /**
+   * Conversation summary for the agent (warm transfers only).
+   */
+  private summarizeForTransfer(call: ActiveCall): Promise<string | undefined> {
+    if (!this.transfers.isWarm()) return Promise.resolve(undefined);
+    return this.conversation.summarizeForHandoff(
+      call.history,
+      this.config.get<number>('transfer.summaryTimeoutMs') ?? 4000,
+    );
+  }
+
+  /**
+   * Resolve once no bot audio is queued or unplayed (or after timeoutMs).
+   */
+  private waitForPlayback(call: ActiveCall, timeoutMs: number): Promise<void> {
+    const started = Date.now();
+    return new Promise((resolve) => {
+      const check = () => {
+        const playing = call.pacer.isBusy() || !!call.playback?.isPlaying();
+        if (
+          !playing ||
+          Date.now() - started > timeoutMs ||
+          !this.calls.has(call.streamSid)
+        )
+          resolve();
+        else setTimeout(check, 100);
+      };
+      check();
+    });
+  }
+
+  /**
+   * Handle "mark" event → Twilio finished playing the audio before that mark.
+   */
+  private onMark(msg: TwilioStreamMessage) {
+    const call = this.calls.get(msg.streamSid ?? '');
+    const name = msg.mark?.name;
+    if (!call?.playback || !name) return;
+
+    call.playback.onMark(name);
+    if (!call.playback.isPlaying() && !call.currentTurn) {
+      this.logger.debug(`Bot playback completed (${msg.streamSid})`);
+      call.playback = undefined;
+    }
+  }
+
+  /**
+   * Close an unauthenticated media stream (1008 = policy violation).
+   */
+  private rejectStream(client: WebSocket) {
+    clearTimeout(this.startTimers.get(client));
+    this.startTimers.delete(client);
+    if (
+      client.readyState === WebSocket.OPEN ||
+      client.readyState === WebSocket.CONNECTING
+    ) {
+      client.close(1008, 'Unauthorized');
+    }
+  }
+
+  /**
+   * Create the pacer that sends bot audio to Twilio.
+   * Output: 'media' events with 20 ms μ-law frames + 'mark' events;
+   *         each frame is recorded on the bot channel at the time it plays
+   */
+  private createPacer(
+    client: WebSocket,
+    streamSid: string,
+    recorder: StereoWavRecorder,
+  ): MediaPacer {
+    return new MediaPacer(
+      (payload, playAt) => {
+        if (client.readyState !== WebSocket.OPEN) return;
+        client.send(
+          JSON.stringify({ event: 'media', streamSid, media: { payload } }),
+        );
+        try {
+          recorder.write(
+            'bot',
+            mulawToPcm16(Buffer.from(payload, 'base64')),
+            playAt - recorder.startedAt,
+          );
+        } catch (e: unknown) {
+          this.logger.error(
+            `Failed to record bot audio for ${streamSid}: ${errorMessage(e)}`,
+          );
+        }
+      },
+      (name) => {
+        if (client.readyState !== WebSocket.OPEN) return;
+        client.send(
+          JSON.stringify({ event: 'mark', streamSid, mark: { name } }),
+        );
+      },
+    );
   }
 }
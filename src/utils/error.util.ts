@@ -0,0 +1,15 @@
+/**
+ * Message of a caught value (anything can be thrown, not only Errors).
+ */
+export function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Code of a Node.js system error (e.g. "ENOENT"), undefined for anything else.
+ */
+export function errorCode(e: unknown): string | undefined {
+  // Not instanceof Error: errors of Node's fs belong to another realm under Jest
+  const code = (e as NodeJS.ErrnoException | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
@@ -0,0 +1,65 @@
+import { JsonSchema, validateJsonSchema } from './json-schema.util';
+
+describe('validateJsonSchema', () => {
+  const booking: JsonSchema = {
+    type: 'object',
+    required: ['guestName'],
+    additionalProperties: false,
+    properties: {
+      guestName: { type: 'string', minLength: 1 },
+      checkIn: { type: 'string', format: 'date' },
+      nights: { type: 'integer', minimum: 1 },
+      roomType: { enum: ['standard', 'deluxe', 'suite'] },
+      extras: { type: 'array', items: { type: 'string' } },
+      notes: { type: ['string', 'null'] },
+    },
+  };
+
+  it('accepts a value matching the schema', () => {
+    expect(
+      validateJsonSchema(booking, {
+        guestName: 'Ada Lovelace',
+        checkIn: '2026-11-02',
+        nights: 3,
+        roomType: 'suite',
+        extras: ['breakfast'],
+        notes: null,
+      }),
+    ).toEqual([]);
+  });
+
+  it('lists every problem with its path', () => {
+    expect(
+      validateJsonSchema(
+        booking,
+        {
+          checkIn: 'next Friday',
+          nights: 1.5,
+          roomType: 'penthouse',
+          extras: ['breakfast', 2],
+          pets: true,
+        },
+        'fields',
+      ),
+    ).toEqual([
+      'fields.guestName is required',
+      'fields.checkIn must be a date',
+      'fields.nights must be integer',
+      'fields.roomType must be one of "standard", "deluxe", "suite"',
+      'fields.extras[1] must be string',
+      'fields.pets is not allowed',
+    ]);
+  });
+
+  it('checks number ranges and string patterns', () => {
+    expect(validateJsonSchema({ type: 'number', maximum: 10 }, 12)).toEqual([
+      '$ must be <= 10',
+    ]);
+    expect(
+      validateJsonSchema({ type: 'string', pattern: '^AX-\\d+$' }, 'AX-12'),
+    ).toEqual([]);
+    expect(validateJsonSchema({ type: 'object' }, [])).toEqual([
+      '$ must be object',
+    ]);
+  });
+});
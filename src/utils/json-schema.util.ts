@@ -0,0 +1,165 @@
+/**
+ * JSON Schema keywords understood by validateJsonSchema (a subset of draft 7:
+ * what agent extraction schemas need).
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string; // date | date-time | time | email | uri (others are ignored)
+}
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+const FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time':
+    /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  time: /^\d{2}:\d{2}(:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\S+$/i,
+};
+
+/**
+ * Check a value against a JSON Schema.
+ * Output: one message per problem ("$.guest.name must be a string"), [] if valid
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = '$',
+): string[] {
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    return [`${path} must be ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.some((option) => isEqual(value, option))) {
+    return [
+      `${path} must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`,
+    ];
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = typeOf(value);
+    const matches = types.some(
+      (t) => t === type || (t === 'number' && type === 'integer'),
+    );
+    if (!matches) return [`${path} must be ${types.join(' or ')}`];
+  }
+
+  if (typeof value === 'string') return checkString(schema, value, path);
+  if (typeof value === 'number') return checkNumber(schema, value, path);
+  if (Array.isArray(value)) return checkArray(schema, value, path);
+  if (value !== null && typeof value === 'object') {
+    return checkObject(schema, value as Record<string, unknown>, path);
+  }
+  return [];
+}
+
+function checkString(schema: JsonSchema, value: string, path: string) {
+  const errors: string[] = [];
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path} must have at least ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path} must have at most ${schema.maxLength} characters`);
+  }
+  if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${path} must match ${schema.pattern}`);
+  }
+  const format = schema.format && FORMATS[schema.format];
+  if (format && !format.test(value)) {
+    errors.push(`${path} must be a ${schema.format}`);
+  }
+  return errors;
+}
+
+function checkNumber(schema: JsonSchema, value: number, path: string) {
+  const errors: string[] = [];
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path} must be >= ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(`${path} must be <= ${schema.maximum}`);
+  }
+  return errors;
+}
+
+function checkArray(schema: JsonSchema, value: unknown[], path: string) {
+  const errors: string[] = [];
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(`${path} must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(`${path} must have at most ${schema.maxItems} items`);
+  }
+  if (schema.items) {
+    value.forEach((item, i) =>
+      errors.push(...validateJsonSchema(schema.items!, item, `${path}[${i}]`)),
+    );
+  }
+  return errors;
+}
+
+function checkObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+) {
+  const errors: string[] = [];
+  for (const name of schema.required ?? []) {
+    if (!(name in value)) errors.push(`${path}.${name} is required`);
+  }
+  for (const [name, item] of Object.entries(value)) {
+    const property = schema.properties?.[name];
+    if (property) {
+      errors.push(...validateJsonSchema(property, item, `${path}.${name}`));
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}.${name} is not allowed`);
+    } else if (typeof schema.additionalProperties === 'object') {
+      errors.push(
+        ...validateJsonSchema(
+          schema.additionalProperties,
+          item,
+          `${path}.${name}`,
+        ),
+      );
+    }
+  }
+  return errors;
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return typeof value as JsonSchemaType;
+  }
+  return typeof value === 'object' ? 'object' : 'undefined';
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
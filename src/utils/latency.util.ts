@@ -1,12 +1,33 @@
 export class LatencyTracker {
   private startTime: number;
   private label: string;
+  private marks = new Map<string, number>();
 
   constructor(label: string) {
     this.label = label;
     this.startTime = Date.now();
   }
 
+  /**
+   * Record the time elapsed since start for a pipeline stage
+   * (e.g. "llm.firstToken", "tts.firstByte"). Only the first mark
+   * of a stage counts, so it can be called from streaming callbacks.
+   */
+  mark(stage: string) {
+    if (this.marks.has(stage)) return this.marks.get(stage)!;
+    const duration = Date.now() - this.startTime;
+    this.marks.set(stage, duration);
+    console.log(`[Latency] ${this.label} › ${stage}: ${duration} ms`);
+    return duration;
+  }
+
+  /**
+   * All recorded stage durations (ms since start).
+   */
+  getMarks(): Record<string, number> {
+    return Object.fromEntries(this.marks);
+  }
+
   end() {
     const duration = Date.now() - this.startTime;
     console.log(`[Latency] ${this.label}: ${duration} ms`);
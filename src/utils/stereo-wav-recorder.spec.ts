@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StereoWavRecorder } from './stereo-wav-recorder';
+
+describe('StereoWavRecorder', () => {
+  let dir: string;
+
+  // 1 kHz sample rate → 1 sample per ms keeps positions readable
+  const pcm = (...samples: number[]) =>
+    Buffer.from(Int16Array.from(samples).buffer);
+
+  const readWav = (file: string) => {
+    const data = fs.readFileSync(file);
+    const channels = data.readUInt16LE(22);
+    const samples = [
+      ...new Int16Array(
+        data.buffer,
+        data.byteOffset + 44,
+        data.readUInt32LE(40) / 2,
+      ),
+    ];
+    return {
+      sampleRate: data.readUInt32LE(24),
+      channels,
+      left: samples.filter((_, i) => i % channels === 0),
+      right: samples.filter((_, i) => i % channels === 1),
+      samples,
+    };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('places caller and bot audio on their own channels at their timeline position', () => {
+    const file = path.join(dir, 'call.wav');
+    const recorder = new StereoWavRecorder(file, { sampleRate: 1000 });
+    recorder.write('caller', pcm(1, 2, 3), 0);
+    recorder.write('caller', pcm(4, 5)); // appended
+    recorder.write('bot', pcm(7, 8), 2);
+    recorder.write('bot', pcm(9), 6);
+    recorder.end();
+
+    const wav = readWav(file);
+    expect(wav).toMatchObject({ sampleRate: 1000, channels: 2 });
+    expect(wav.left).toEqual([1, 2, 3, 4, 5, 0, 0]);
+    expect(wav.right).toEqual([0, 0, 7, 8, 0, 0, 9]);
+    expect(fs.statSync(file).size).toBe(44 + 7 * 4);
+  });
+
+  it('patches audio that arrives after its block was flushed', () => {
+    const file = path.join(dir, 'late.wav');
+    const recorder = new StereoWavRecorder(file, {
+      sampleRate: 1000,
+      flushDelayMs: 0,
+    });
+    recorder.write('caller', pcm(...new Array<number>(2500).fill(1)), 0);
+    recorder.write('bot', pcm(5, 6), 999); // block 0 is already on disk
+    recorder.end();
+
+    const wav = readWav(file);
+    expect(wav.left).toHaveLength(2500);
+    expect(wav.right.slice(998, 1002)).toEqual([0, 5, 6, 0]);
+  });
+
+  it('optionally writes a mono mixdown', () => {
+    const file = path.join(dir, 'mix.wav');
+    const recorder = new StereoWavRecorder(file, {
+      sampleRate: 1000,
+      mixdown: true,
+    });
+    recorder.write('caller', pcm(100, 30000), 0);
+    recorder.write('bot', pcm(-50, 30000, 7), 0);
+    recorder.end();
+
+    const mono = readWav(path.join(dir, 'mix-mono.wav'));
+    expect(mono.channels).toBe(1);
+    expect(mono.samples).toEqual([50, 32767, 7]);
+  });
+});
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { clampPcm16 } from '../audio/codec/pcm';
+import {
+  parseWavHeader,
+  WAV_HEADER_BYTES,
+  wavHeader,
+} from '../audio/codec/wav';
+
+/**
+ * Channel of a call recording: caller = left, bot = right.
+ */
+export type RecordingChannel = 'caller' | 'bot';
+
+const CHANNEL_INDEX: Record<RecordingChannel, number> = { caller: 0, bot: 1 };
+const FRAME_BYTES = 4; // 2 channels × 16 bit
+const BLOCK_MS = 1000;
+
+export interface StereoWavRecorderOptions {
+  sampleRate?: number; // Default 8000 (Twilio μ-law)
+  flushDelayMs?: number; // How long audio stays in memory for late writes (default 5000)
+  mixdown?: boolean; // Also write "<name>-mono.wav" (caller + bot) on end()
+}
+
+/**
+ * Writes a two-channel WAV file (caller left, bot right) on a shared timeline.
+ * - Audio is placed at its timeline position (ms since the recorder started),
+ *   e.g. Twilio media timestamps for the caller and playback times for the bot
+ * - Without a position, audio is appended after the previous audio of its channel
+ * - Gaps stay silent, so both channels line up with what was actually heard
+ * - Audio is kept in 1 s blocks and written to disk once it is flushDelayMs old;
+ *   writes to already flushed blocks patch the file in place
+ */
+export class StereoWavRecorder {
+  readonly startedAt = Date.now();
+  readonly sampleRate: number;
+  private readonly fd: number;
+  private readonly blockFrames: number;
+  private readonly flushDelayFrames: number;
+  private readonly blocks = new Map<number, Buffer>(); // block index → interleaved PCM16
+  private readonly ends: Record<RecordingChannel, number> = {
+    caller: 0,
+    bot: 0,
+  }; // in frames
+  private frames = 0; // Length of the recording in frames
+  private ended = false;
+
+  constructor(
+    readonly filename: string,
+    private readonly options: StereoWavRecorderOptions = {},
+  ) {
+    this.sampleRate = options.sampleRate ?? 8000;
+    this.blockFrames = (this.sampleRate * BLOCK_MS) / 1000;
+    this.flushDelayFrames = Math.round(
+      ((options.flushDelayMs ?? 5000) * this.sampleRate) / 1000,
+    );
+
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    this.fd = fs.openSync(filename, 'w+');
+    fs.writeSync(
+      this.fd,
+      wavHeader(this.sampleRate, 2, 0),
+      0,
+      WAV_HEADER_BYTES,
+      0,
+    );
+  }
+
+  /**
+   * Milliseconds since the recorder started (wall clock).
+   */
+  elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Timeline position (ms) right after the last audio of a channel.
+   */
+  endMs(channel: RecordingChannel): number {
+    return (this.ends[channel] * 1000) / this.sampleRate;
+  }
+
+  /**
+   * Place mono PCM16 audio (at the recorder's sample rate) on one channel.
+   * Input: atMs = timeline position of the first sample (default: end of that channel)
+   */
+  write(channel: RecordingChannel, pcm: Buffer, atMs?: number) {
+    if (this.ended || pcm.length < 2) return;
+
+    let frame =
+      atMs === undefined || !Number.isFinite(atMs)
+        ? this.ends[channel]
+        : Math.max(0, Math.round((atMs * this.sampleRate) / 1000));
+    const offset = CHANNEL_INDEX[channel];
+    const count = pcm.length >> 1;
+
+    for (let i = 0; i < count; ) {
+      const index = Math.floor(frame / this.blockFrames);
+      const block = this.getBlock(index);
+      const first = frame - index * this.blockFrames;
+      const n = Math.min(count - i, this.blockFrames - first);
+      for (let j = 0; j < n; j++) {
+        block.writeInt16LE(
+          pcm.readInt16LE((i + j) * 2),
+          ((first + j) * 2 + offset) * 2,
+        );
+      }
+      i += n;
+      frame += n;
+    }
+
+    this.ends[channel] = frame;
+    this.frames = Math.max(this.frames, frame);
+    this.flushOldBlocks();
+  }
+
+  /**
+   * Write all remaining audio, finalize the header and close the file.
+   * Optionally writes the mono mixdown next to it.
+   * Output: path of the mono mixdown (if enabled)
+   */
+  end(): string | undefined {
+    if (this.ended) return undefined;
+    this.ended = true;
+
+    try {
+      for (const index of [...this.blocks.keys()]) this.flushBlock(index);
+      const dataBytes = this.frames * FRAME_BYTES;
+      fs.ftruncateSync(this.fd, WAV_HEADER_BYTES + dataBytes);
+      fs.writeSync(
+        this.fd,
+        wavHeader(this.sampleRate, 2, dataBytes),
+        0,
+        WAV_HEADER_BYTES,
+        0,
+      );
+    } finally {
+      fs.closeSync(this.fd);
+    }
+
+    if (!this.options.mixdown) return undefined;
+    return mixdownStereoWav(
+      this.filename,
+      this.filename.replace(/(\.wav)?$/i, '-mono.wav'),
+    );
+  }
+
+  private getBlock(index: number): Buffer {
+    let block = this.blocks.get(index);
+    if (!block) {
+      block = Buffer.alloc(this.blockFrames * FRAME_BYTES);
+      // Late audio for a block already on disk → continue from its content
+      fs.readSync(
+        this.fd,
+        block,
+        0,
+        block.length,
+        WAV_HEADER_BYTES + index * block.length,
+      );
+      this.blocks.set(index, block);
+    }
+    return block;
+  }
+
+  private flushOldBlocks() {
+    const limit = this.frames - this.flushDelayFrames;
+    for (const index of [...this.blocks.keys()]) {
+      if ((index + 1) * this.blockFrames <= limit) this.flushBlock(index);
+    }
+  }
+
+  private flushBlock(index: number) {
+    const block = this.blocks.get(index);
+    if (!block) return;
+    fs.writeSync(
+      this.fd,
+      block,
+      0,
+      block.length,
+      WAV_HEADER_BYTES + index * block.length,
+    );
+    this.blocks.delete(index);
+  }
+}
+
+/**
+ * Mix a two-channel recording down to mono (channels summed, clipped).
+ * Output: path of the mono file
+ */
+export function mixdownStereoWav(stereoFile: string, monoFile: string): string {
+  const input = fs.openSync(stereoFile, 'r');
+  const output = fs.openSync(monoFile, 'w');
+  try {
+    const header = Buffer.alloc(WAV_HEADER_BYTES);
+    fs.readSync(input, header, 0, WAV_HEADER_BYTES, 0);
+    const { sampleRate, dataBytes } = parseWavHeader(header);
+    fs.writeSync(output, wavHeader(sampleRate, 1, dataBytes / 2));
+
+    const chunk = Buffer.alloc(64 * 1024);
+    for (let position = 0; position < dataBytes; ) {
+      const read = fs.readSync(
+        input,
+        chunk,
+        0,
+        Math.min(chunk.length, dataBytes - position),
+        WAV_HEADER_BYTES + position,
+      );
+      if (read <= 0) break;
+      const frames = Math.floor(read / FRAME_BYTES);
+      const mono = Buffer.alloc(frames * 2);
+      for (let f = 0; f < frames; f++) {
+        const sum =
+          chunk.readInt16LE(f * FRAME_BYTES) +
+          chunk.readInt16LE(f * FRAME_BYTES + 2);
+        mono.writeInt16LE(clampPcm16(sum), f * 2);
+      }
+      fs.writeSync(output, mono);
+      position += read;
+    }
+  } finally {
+    fs.closeSync(input);
+    fs.closeSync(output);
+  }
+  return monoFile;
+}
@@ -0,0 +1,11 @@
+import { ValidationError } from 'class-validator';
+
+/**
+ * Collect the messages of (nested) class-validator errors.
+ */
+export function flattenValidationErrors(errors: ValidationError[]): string[] {
+  return errors.flatMap((e) => [
+    ...Object.values(e.constraints ?? {}),
+    ...flattenValidationErrors(e.children ?? []),
+  ]);
+}
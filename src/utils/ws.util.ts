@@ -0,0 +1,10 @@
+import type { RawData } from 'ws';
+
+/**
+ * Text of a WebSocket message (ws hands out Buffers, fragments or ArrayBuffers).
+ */
+export function rawDataToString(data: RawData): string {
+  if (Array.isArray(data)) return Buffer.concat(data).toString('utf8');
+  if (Buffer.isBuffer(data)) return data.toString('utf8');
+  return Buffer.from(data).toString('utf8');
+}